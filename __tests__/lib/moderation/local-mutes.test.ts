@@ -0,0 +1,139 @@
+import {type AppBskyFeedDefs} from '@atproto/api'
+
+import {
+  compileLocalMuteRules,
+  findLocalMuteInPost,
+} from '../../../src/lib/moderation/local-mutes'
+import {type LocalMuteRule} from '../../../src/state/persisted/schema'
+
+function rule(overrides: Partial<LocalMuteRule> = {}): LocalMuteRule {
+  return {
+    id: 'rule',
+    type: 'phrase',
+    value: 'cat',
+    contexts: ['feeds'],
+    targets: [],
+    nonFollowedOnly: false,
+    ...overrides,
+  }
+}
+
+function post({
+  text = '',
+  embed,
+  following = false,
+}: {
+  text?: string
+  embed?: AppBskyFeedDefs.PostView['embed']
+  following?: boolean
+}): AppBskyFeedDefs.PostView {
+  return {
+    uri: 'at://did:plc:alice/app.bsky.feed.post/1',
+    cid: 'cid',
+    author: {
+      did: 'did:plc:alice',
+      handle: 'alice.test',
+      viewer: following ? {following: 'at://did:plc:me/follow/1'} : {},
+    },
+    record: {
+      $type: 'app.bsky.feed.post',
+      text,
+      createdAt: new Date().toISOString(),
+    },
+    embed,
+    indexedAt: new Date().toISOString(),
+  }
+}
+
+function find(rules: LocalMuteRule[], p: AppBskyFeedDefs.PostView) {
+  return findLocalMuteInPost(compileLocalMuteRules(rules, 'feeds'), p, {
+    currentDid: 'did:plc:me',
+  })?.id
+}
+
+describe('compileLocalMuteRules', () => {
+  it('skips rules for other contexts', () => {
+    expect(
+      compileLocalMuteRules([rule({contexts: ['threads']})], 'feeds'),
+    ).toHaveLength(0)
+  })
+
+  it('skips expired rules', () => {
+    const now = Date.now()
+    const rules = [
+      rule({id: 'old', expiresAt: new Date(now - 1000).toISOString()}),
+      rule({id: 'new', expiresAt: new Date(now + 1000).toISOString()}),
+    ]
+    expect(
+      compileLocalMuteRules(rules, 'feeds', now).map(m => m.rule.id),
+    ).toEqual(['new'])
+  })
+
+  it('skips invalid regexes', () => {
+    expect(
+      compileLocalMuteRules([rule({type: 'regex', value: '('})], 'feeds'),
+    ).toHaveLength(0)
+  })
+})
+
+describe('findLocalMuteInPost', () => {
+  it('matches whole phrases only', () => {
+    expect(find([rule()], post({text: 'My Cat is here'}))).toBe('rule')
+    expect(find([rule()], post({text: 'cat!'}))).toBe('rule')
+    expect(find([rule()], post({text: 'concatenate'}))).toBeUndefined()
+  })
+
+  it('matches regexes case-insensitively', () => {
+    const regex = rule({type: 'regex', value: '^breaking\\b'})
+    expect(find([regex], post({text: 'BREAKING news'}))).toBe('rule')
+    expect(find([regex], post({text: 'not breaking'}))).toBeUndefined()
+  })
+
+  it('only checks embeds the rule targets', () => {
+    const p = post({
+      text: 'look',
+      embed: {
+        $type: 'app.bsky.embed.images#view',
+        images: [{thumb: '', fullsize: '', alt: 'a cat on a mat'}],
+      },
+    })
+    expect(find([rule()], p)).toBeUndefined()
+    expect(find([rule({targets: ['altText']})], p)).toBe('rule')
+  })
+
+  it('checks link titles and quoted posts', () => {
+    const link = post({
+      embed: {
+        $type: 'app.bsky.embed.external#view',
+        external: {uri: 'https://example.com', title: 'Cat', description: ''},
+      },
+    })
+    expect(find([rule({targets: ['linkTitles']})], link)).toBe('rule')
+
+    const quote = post({
+      embed: {
+        $type: 'app.bsky.embed.record#view',
+        record: {
+          $type: 'app.bsky.embed.record#viewRecord',
+          uri: 'at://did:plc:bob/app.bsky.feed.post/2',
+          cid: 'cid',
+          author: {did: 'did:plc:bob', handle: 'bob.test'},
+          value: {
+            $type: 'app.bsky.feed.post',
+            text: 'cat',
+            createdAt: new Date().toISOString(),
+          },
+          indexedAt: new Date().toISOString(),
+        },
+      },
+    })
+    expect(find([rule()], quote)).toBeUndefined()
+    expect(find([rule({targets: ['quotedPosts']})], quote)).toBe('rule')
+  })
+
+  it('skips followed accounts for non-followed rules', () => {
+    const p = post({text: 'cat', following: true})
+    expect(find([rule({nonFollowedOnly: true})], p)).toBeUndefined()
+    expect(find([rule()], p)).toBe('rule')
+  })
+})
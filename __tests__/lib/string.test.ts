@@ -11,7 +11,7 @@ import {cleanError} from '../../src/lib/strings/errors'
 import {createFullHandle, makeValidHandle} from '../../src/lib/strings/handles'
 import {enforceLen} from '../../src/lib/strings/helpers'
 import {detectLinkables} from '../../src/lib/strings/rich-text-detection'
-import {shortenLinks} from '../../src/lib/strings/rich-text-manip'
+import {expandLinks, shortenLinks} from '../../src/lib/strings/rich-text-manip'
 import {
   makeRecordUri,
   toNiceDomain,
@@ -333,6 +333,43 @@ describe('shortenLinks', () => {
   })
 })
 
+describe('expandLinks', () => {
+  it('restores links shortened by shortenLinks', () => {
+    const input =
+      'start https://middle.com/foo/bar?baz=bux#hash and https://end.com/foo/bar?baz=bux#hash'
+    const inputRT = new RichText({text: input})
+    inputRT.detectFacetsWithoutResolution()
+    const outputRT = expandLinks(shortenLinks(inputRT))
+    expect(outputRT.text).toEqual(input)
+    expect(
+      outputRT.facets?.map(facet =>
+        outputRT.unicodeText.slice(facet.index.byteStart, facet.index.byteEnd),
+      ),
+    ).toEqual([
+      'https://middle.com/foo/bar?baz=bux#hash',
+      'https://end.com/foo/bar?baz=bux#hash',
+    ])
+  })
+
+  it('leaves links with custom text alone', () => {
+    const inputRT = new RichText({
+      text: 'read this',
+      facets: [
+        {
+          index: {byteStart: 0, byteEnd: 9},
+          features: [
+            {
+              $type: 'app.bsky.richtext.facet#link',
+              uri: 'https://example.com/post',
+            },
+          ],
+        },
+      ],
+    })
+    expect(expandLinks(inputRT).text).toEqual('read this')
+  })
+})
+
 describe('parseEmbedPlayerFromUrl', () => {
   const inputs = [
     'https://youtu.be/videoId',
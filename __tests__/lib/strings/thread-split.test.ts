@@ -0,0 +1,75 @@
+import {RichText} from '@atproto/api'
+
+import {splitRichText} from '../../../src/lib/strings/thread-split'
+
+function richText(text: string) {
+  const rt = new RichText({text})
+  rt.detectFacetsWithoutResolution()
+  return rt
+}
+
+function facetTexts(rt: RichText) {
+  return (rt.facets ?? []).map(facet =>
+    rt.unicodeText.slice(facet.index.byteStart, facet.index.byteEnd),
+  )
+}
+
+describe('splitRichText', () => {
+  it('leaves text that fits alone', () => {
+    const rt = richText('short')
+    expect(splitRichText(rt, {maxLength: 40})).toEqual([rt])
+  })
+
+  it('prefers paragraph breaks', () => {
+    const parts = splitRichText(
+      richText(
+        'First paragraph here.\n\nSecond one is a bit longer than that.',
+      ),
+      {maxLength: 40},
+    )
+    expect(parts.map(part => part.text)).toEqual([
+      'First paragraph here.',
+      'Second one is a bit longer than that.',
+    ])
+  })
+
+  it('prefers sentence breaks over word breaks', () => {
+    const parts = splitRichText(
+      richText('One two three four. Five six seven eight nine ten.'),
+      {maxLength: 30},
+    )
+    expect(parts.map(part => part.text)).toEqual([
+      'One two three four.',
+      'Five six seven eight nine ten.',
+    ])
+  })
+
+  it('keeps mentions whole with the right byte offsets', () => {
+    const parts = splitRichText(
+      richText('Café crème for everyone, hi @alice.test and café @bob.test'),
+      {maxLength: 30},
+    )
+    expect(parts.map(part => part.text)).toEqual([
+      'Café crème for everyone, hi',
+      '@alice.test and café @bob.test',
+    ])
+    expect(parts.flatMap(facetTexts)).toEqual(['@alice.test', '@bob.test'])
+  })
+
+  it('adds counters that fit within the limit', () => {
+    const parts = splitRichText(
+      richText('One two three four. Five six seven eight nine ten.'),
+      {maxLength: 30, numbered: true},
+    )
+    expect(parts.map(part => part.text)).toEqual([
+      'One two three four. 1/3',
+      'Five six seven eight nine 2/3',
+      'ten. 3/3',
+    ])
+  })
+
+  it('cuts words that are too long for one post', () => {
+    const parts = splitRichText(richText('a'.repeat(50)), {maxLength: 20})
+    expect(parts.map(part => part.text.length)).toEqual([20, 20, 10])
+  })
+})
@@ -0,0 +1,184 @@
+import {
+  type AppBskyFeedDefs,
+  type AppBskyRichtextFacet,
+  ModerationDecision,
+} from '@atproto/api'
+
+import {
+  getThreadPosts,
+  threadToHtml,
+  threadToJson,
+  threadToMarkdown,
+} from '../../src/lib/thread-export'
+import {type ThreadItem} from '../../src/state/queries/usePostThread/types'
+
+const exportedAt = new Date('2025-01-02T03:04:00.000Z')
+
+function threadPost({
+  rkey,
+  depth = 0,
+  text,
+  facets,
+  embed,
+}: {
+  rkey: string
+  depth?: number
+  text: string
+  facets?: AppBskyRichtextFacet.Main[]
+  embed?: AppBskyFeedDefs.PostView['embed']
+}) {
+  const uri = `at://did:plc:alice/app.bsky.feed.post/${rkey}`
+  return {
+    type: 'threadPost',
+    key: uri,
+    uri,
+    depth,
+    value: {
+      $type: 'app.bsky.unspecced.defs#threadItemPost',
+      post: {
+        uri,
+        cid: 'cid',
+        author: {
+          did: 'did:plc:alice',
+          handle: 'alice.test',
+          displayName: 'Alice',
+        },
+        record: {
+          $type: 'app.bsky.feed.post',
+          text,
+          facets,
+          createdAt: '2025-01-01T00:00:00.000Z',
+        },
+        embed,
+        indexedAt: '2025-01-01T00:00:00.000Z',
+      },
+      moreParents: false,
+      moreReplies: 0,
+      opThread: true,
+      hiddenByThreadgate: false,
+      mutedByViewer: false,
+    },
+    isBlurred: false,
+    moderation: new ModerationDecision(),
+    ui: {
+      isAnchor: depth === 0,
+      showParentReplyLine: false,
+      showChildReplyLine: false,
+      indent: depth,
+      isLastChild: true,
+      skippedIndentIndices: new Set(),
+      precedesChildReadMore: false,
+    },
+  } as Extract<ThreadItem, {type: 'threadPost'}>
+}
+
+const anchor = threadPost({
+  rkey: '1',
+  text: 'hello @bob.test see example.com',
+  facets: [
+    {
+      index: {byteStart: 6, byteEnd: 15},
+      features: [
+        {$type: 'app.bsky.richtext.facet#mention', did: 'did:plc:bob'},
+      ],
+    },
+    {
+      index: {byteStart: 20, byteEnd: 31},
+      features: [
+        {$type: 'app.bsky.richtext.facet#link', uri: 'https://example.com'},
+      ],
+    },
+  ],
+  embed: {
+    $type: 'app.bsky.embed.images#view',
+    images: [
+      {
+        thumb: 'https://cdn.test/thumb.jpg',
+        fullsize: 'https://cdn.test/full.jpg',
+        alt: 'a <cat>',
+      },
+    ],
+  },
+})
+
+const reply = threadPost({
+  rkey: '2',
+  depth: 1,
+  text: 'a *reply*',
+  embed: {
+    $type: 'app.bsky.embed.record#view',
+    record: {
+      $type: 'app.bsky.embed.record#viewRecord',
+      uri: 'at://did:plc:bob/app.bsky.feed.post/3',
+      cid: 'cid',
+      author: {did: 'did:plc:bob', handle: 'bob.test'},
+      value: {
+        $type: 'app.bsky.feed.post',
+        text: 'quoted',
+        createdAt: '2025-01-01T00:00:00.000Z',
+      },
+      indexedAt: '2025-01-01T00:00:00.000Z',
+    },
+  },
+})
+
+describe('getThreadPosts', () => {
+  it('leaves out everything but posts', () => {
+    const items: ThreadItem[] = [
+      anchor,
+      {type: 'replyComposer', key: 'composer'},
+      reply,
+      {type: 'skeleton', key: 'skeleton', item: 'reply'},
+    ]
+    expect(getThreadPosts(items)).toEqual([anchor, reply])
+  })
+})
+
+describe('threadToMarkdown', () => {
+  const markdown = threadToMarkdown([anchor, reply], anchor, exportedAt)
+
+  it('renders facets as links', () => {
+    expect(markdown).toContain(
+      'hello [@bob.test](https://deer.social/profile/did:plc:bob) see [example.com](https://example.com)',
+    )
+  })
+
+  it('includes alt text', () => {
+    expect(markdown).toContain('![a \\<cat\\>](https://cdn.test/full.jpg)')
+  })
+
+  it('indents replies and their quotes', () => {
+    expect(markdown).toContain('> a \\*reply\\*')
+    expect(markdown).toContain(
+      '> > **bob.test** ([@bob.test](https://deer.social/profile/did:plc:bob/post/3))',
+    )
+    expect(markdown).toContain('> > quoted')
+  })
+})
+
+describe('threadToHtml', () => {
+  it('inlines images it has and escapes text', () => {
+    const html = threadToHtml(
+      [anchor],
+      anchor,
+      exportedAt,
+      new Map([['https://cdn.test/full.jpg', 'data:image/jpeg;base64,AAAA']]),
+    )
+    expect(html).toContain(
+      'src="data:image/jpeg;base64,AAAA" alt="a &lt;cat&gt;"',
+    )
+    expect(html).toContain(
+      '<a href="https://deer.social/profile/did:plc:bob">@bob.test</a>',
+    )
+  })
+})
+
+describe('threadToJson', () => {
+  it('includes the records', () => {
+    const json = JSON.parse(threadToJson([anchor, reply], anchor, exportedAt))
+    expect(json.exportedAt).toBe(exportedAt.toISOString())
+    expect(
+      json.posts.map((p: {record: {text: string}}) => p.record.text),
+    ).toEqual(['hello @bob.test see example.com', 'a *reply*'])
+  })
+})
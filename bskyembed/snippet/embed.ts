@@ -5,7 +5,17 @@ interface Window {
   }
 }
 
-const EMBED_URL = 'https://embed.bsky.app'
+// Self-hosted embeds serve this script from their own origin, so the iframes
+// are loaded from wherever the script came from. `appview` and `appOrigin` in
+// the script's query string are passed on to every iframe.
+const SCRIPT_URL =
+  document.currentScript instanceof HTMLScriptElement
+    ? new URL(document.currentScript.src)
+    : undefined
+
+const EMBED_URL = SCRIPT_URL ? SCRIPT_URL.origin : 'https://embed.bsky.app'
+
+const FORWARDED_PARAMS = ['appview', 'appOrigin']
 
 window.bluesky = window.bluesky || {
   scan,
@@ -43,7 +53,9 @@ window.addEventListener('message', event => {
 
 /**
  * Scan the document for all elements with the data-bluesky-aturi attribute,
- * and initialize them as Bluesky embeds.
+ * and initialize them as Bluesky embeds. The AT-URI can be a post, a profile
+ * (`at://<did>/app.bsky.actor.profile/self`), a list, a feed or a starter
+ * pack.
  *
  * @param element Only scan this specific element @default document @optional
  * @returns
@@ -68,9 +80,34 @@ function scan(node = document) {
     if (ref_url.startsWith('http')) {
       searchParams.set('ref_url', encodeURIComponent(ref_url))
     }
+    for (const param of FORWARDED_PARAMS) {
+      const value = SCRIPT_URL?.searchParams.get(param)
+      if (value) {
+        searchParams.set(param, value)
+      }
+    }
     if (embed.dataset.blueskyEmbedColorMode) {
       searchParams.set('colorMode', embed.dataset.blueskyEmbedColorMode)
     }
+    // thread context: number of parents, `author` for the self-thread, and
+    // number of top replies
+    if (embed.dataset.blueskyEmbedParents) {
+      searchParams.set('parents', embed.dataset.blueskyEmbedParents)
+    }
+    if (embed.dataset.blueskyEmbedThread) {
+      searchParams.set('thread', embed.dataset.blueskyEmbedThread)
+    }
+    if (embed.dataset.blueskyEmbedReplies) {
+      searchParams.set('replies', embed.dataset.blueskyEmbedReplies)
+    }
+    // profile, list, feed and starter pack embeds: the author feed filter
+    // and the page size
+    if (embed.dataset.blueskyEmbedFilter) {
+      searchParams.set('filter', embed.dataset.blueskyEmbedFilter)
+    }
+    if (embed.dataset.blueskyEmbedLimit) {
+      searchParams.set('limit', embed.dataset.blueskyEmbedLimit)
+    }
 
     const iframe = document.createElement('iframe')
     iframe.setAttribute('data-bluesky-id', id)
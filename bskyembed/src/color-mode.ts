@@ -21,3 +21,19 @@ export function initSystemColorMode() {
       applyTheme(mql.matches ? 'dark' : 'light')
     })
 }
+
+// default to light mode
+export function initColorMode(colorMode: string | null) {
+  switch (colorMode) {
+    case 'dark':
+      applyTheme('dark')
+      break
+    case 'system':
+      initSystemColorMode()
+      break
+    case 'light':
+    default:
+      applyTheme('light')
+      break
+  }
+}
@@ -10,8 +10,8 @@ import {
   AppBskyGraphStarterpack,
   AppBskyLabelerDefs,
 } from '@atproto/api'
-import {ComponentChildren, h} from 'preact'
-import {useMemo} from 'preact/hooks'
+import {ComponentChildren, Fragment, h} from 'preact'
+import {useEffect, useMemo, useRef, useState} from 'preact/hooks'
 
 import infoIcon from '../../assets/circleInfo_stroke2_corner0_rounded.svg'
 import playIcon from '../../assets/play_filled_corner2_rounded.svg'
@@ -374,8 +374,9 @@ function GenericWithImageEmbed({
   )
 }
 
-// just the thumbnail and a play button
+// the thumbnail and a play button until pressed, then an inline player
 function VideoEmbed({content}: {content: AppBskyEmbedVideo.View}) {
+  const [isPlaying, setIsPlaying] = useState(false)
   let aspectRatio = 1
 
   if (content.aspectRatio) {
@@ -385,20 +386,83 @@ function VideoEmbed({content}: {content: AppBskyEmbedVideo.View}) {
 
   return (
     <div
-      className="w-full overflow-hidden rounded-xl aspect-square relative"
-      style={{aspectRatio: `${aspectRatio} / 1`}}>
-      <img
-        src={content.thumbnail}
-        alt={content.alt}
-        className="object-cover size-full"
-      />
-      <div className="size-24 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-black/50 flex items-center justify-center">
-        <img src={playIcon} className="object-cover size-3/5" />
-      </div>
+      className="w-full overflow-hidden rounded-xl aspect-square relative bg-black"
+      style={{aspectRatio: `${aspectRatio} / 1`}}
+      onClick={evt => {
+        // don't let the container open the post
+        evt.stopPropagation()
+        setIsPlaying(true)
+      }}>
+      {isPlaying ? (
+        <VideoPlayer content={content} />
+      ) : (
+        <>
+          <img
+            src={content.thumbnail}
+            alt={content.alt}
+            className="object-cover size-full"
+          />
+          <button
+            aria-label="Play video"
+            className="size-24 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-black/50 flex items-center justify-center">
+            <img src={playIcon} className="object-cover size-3/5" />
+          </button>
+        </>
+      )}
     </div>
   )
 }
 
+function VideoPlayer({content}: {content: AppBskyEmbedVideo.View}) {
+  const ref = useRef<HTMLVideoElement>(null)
+
+  useEffect(() => {
+    const video = ref.current
+    if (!video) return
+
+    // Safari plays HLS natively, everything else needs hls.js
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = content.playlist
+      video.play().catch(() => {})
+      return
+    }
+
+    let hls: {destroy: () => void} | undefined
+    let cancelled = false
+    import('hls.js')
+      .then(({default: Hls}) => {
+        if (cancelled) return
+        if (!Hls.isSupported()) {
+          video.src = content.playlist
+          return
+        }
+        const instance = new Hls({capLevelToPlayerSize: true})
+        instance.loadSource(content.playlist)
+        instance.attachMedia(video)
+        instance.on(Hls.Events.MANIFEST_PARSED, () => {
+          video.play().catch(() => {})
+        })
+        hls = instance
+      })
+      .catch(err => console.error(err))
+    return () => {
+      cancelled = true
+      hls?.destroy()
+    }
+  }, [content.playlist])
+
+  return (
+    <video
+      ref={ref}
+      poster={content.thumbnail}
+      aria-label={content.alt}
+      className="size-full object-contain"
+      controls
+      playsInline
+    />
+  )
+}
+
 function StarterPackEmbed({
   content,
 }: {
@@ -0,0 +1,201 @@
+import {AppBskyActorDefs, AppBskyFeedDefs} from '@atproto/api'
+import {ComponentChildren, h} from 'preact'
+import {useCallback, useEffect, useState} from 'preact/hooks'
+
+import logo from '../../assets/logo.svg'
+import repostIcon from '../../assets/repost_stroke2_corner2_rounded.svg'
+import {CONTENT_LABELS} from '../labels'
+import {Link} from './link'
+import {ThreadPost} from './post'
+
+export interface Page<T> {
+  items: T[]
+  cursor?: string
+}
+
+export function FeedHeader({
+  href,
+  image,
+  title,
+  subtitle,
+  description,
+  isRound,
+  isImageBlurred,
+}: {
+  href: string
+  image?: string
+  title: string
+  subtitle: string
+  description?: string
+  isRound?: boolean
+  isImageBlurred?: boolean
+}) {
+  return (
+    <div className="flex flex-col gap-2 pb-3 mb-3 border-b dark:border-slate-600">
+      <div className="flex gap-2.5 items-center">
+        <Link
+          href={href}
+          className={`shrink-0 ${isRound ? 'rounded-full' : 'rounded-md'}`}>
+          <div
+            className={`w-10 h-10 overflow-hidden bg-neutral-300 dark:bg-slate-700 ${
+              isRound ? 'rounded-full' : 'rounded-md'
+            }`}>
+            {image && (
+              <img
+                src={image}
+                style={isImageBlurred ? {filter: 'blur(2.5px)'} : undefined}
+              />
+            )}
+          </div>
+        </Link>
+        <div className="flex-1 min-w-0">
+          <Link
+            href={href}
+            className="font-bold text-[17px] leading-5 line-clamp-1 hover:underline underline-offset-2 decoration-2">
+            <p>{title}</p>
+          </Link>
+          <p className="text-[15px] text-textLight dark:text-textDimmed line-clamp-1">
+            {subtitle}
+          </p>
+        </div>
+        <Link
+          href={href}
+          className="transition-transform hover:scale-110 shrink-0 self-start">
+          <img src={logo} className="h-8" />
+        </Link>
+      </div>
+      {description && (
+        <p className="text-[15px] leading-5 line-clamp-3 break-word break-words whitespace-pre-wrap">
+          {description}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * A list that fetches its first page on mount and the rest when "Load more"
+ * is pressed.
+ */
+export function Timeline<T>({
+  fetchPage,
+  getKey,
+  renderItem,
+  emptyMessage,
+}: {
+  fetchPage: (cursor?: string) => Promise<Page<T>>
+  getKey: (item: T) => string
+  renderItem: (item: T) => ComponentChildren
+  emptyMessage: string
+}) {
+  const [items, setItems] = useState<T[]>([])
+  const [cursor, setCursor] = useState<string | undefined>(undefined)
+  const [status, setStatus] = useState<'loading' | 'idle' | 'error'>('loading')
+
+  const load = useCallback(
+    (from?: string) => {
+      setStatus('loading')
+      fetchPage(from)
+        .then(page => {
+          setItems(prev => [...prev, ...page.items])
+          setCursor(page.cursor)
+          setStatus('idle')
+        })
+        .catch(() => setStatus('error'))
+    },
+    [fetchPage],
+  )
+
+  // start over whenever the list being shown changes
+  useEffect(() => {
+    setItems([])
+    setCursor(undefined)
+    load()
+  }, [load])
+
+  return (
+    <div className="flex flex-col">
+      {items.map(item => (
+        <div key={getKey(item)}>{renderItem(item)}</div>
+      ))}
+      {status === 'idle' && items.length === 0 && (
+        <p className="py-6 text-center text-textLight dark:text-textDimmed">
+          {emptyMessage}
+        </p>
+      )}
+      {status === 'loading' && (
+        <p className="py-3 text-center text-sm text-textLight dark:text-textDimmed">
+          Loading…
+        </p>
+      )}
+      {status === 'error' && (
+        <p className="py-3 text-center text-sm text-textLight dark:text-textDimmed">
+          Something went wrong, please try again later.
+        </p>
+      )}
+      {status === 'idle' && cursor && (
+        <button
+          className="mt-1 mb-1.5 rounded-lg bg-brand text-white text-center py-1 px-4 w-full max-w-80 mx-auto"
+          onClick={evt => {
+            // don't let the container open the link
+            evt.stopPropagation()
+            load(cursor)
+          }}>
+          Load more
+        </button>
+      )}
+    </div>
+  )
+}
+
+export function FeedItem({item}: {item: AppBskyFeedDefs.FeedViewPost}) {
+  const repostedBy = AppBskyFeedDefs.isReasonRepost(item.reason)
+    ? item.reason.by
+    : undefined
+  return (
+    <div className="flex flex-col">
+      {repostedBy && (
+        <div className="flex items-center gap-1.5 pl-6 pb-1 text-sm text-textLight dark:text-textDimmed">
+          <img src={repostIcon} className="w-4 h-4" />
+          <p className="line-clamp-1">
+            Reposted by {repostedBy.displayName || `@${repostedBy.handle}`}
+          </p>
+        </div>
+      )}
+      <ThreadPost post={item.post} />
+    </div>
+  )
+}
+
+export function ProfileItem({
+  profile,
+}: {
+  profile: AppBskyActorDefs.ProfileView
+}) {
+  const isLabeled = profile.labels?.some(label =>
+    CONTENT_LABELS.includes(label.val),
+  )
+  return (
+    <Link
+      href={`/profile/${profile.did}`}
+      className="flex gap-2.5 pb-3 hover:opacity-80">
+      <div className="w-10 h-10 overflow-hidden rounded-full bg-neutral-300 dark:bg-slate-700 shrink-0">
+        <img
+          src={profile.avatar}
+          style={isLabeled ? {filter: 'blur(2.5px)'} : undefined}
+        />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-bold text-[15px] line-clamp-1">
+          {profile.displayName || profile.handle}
+        </p>
+        <p className="text-sm text-textLight dark:text-textDimmed line-clamp-1">
+          @{profile.handle}
+        </p>
+        {profile.description && (
+          <p className="text-sm mt-1 line-clamp-2">{profile.description}</p>
+        )}
+      </div>
+    </Link>
+  )
+}
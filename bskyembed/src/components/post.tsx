@@ -10,6 +10,7 @@ import replyIcon from '../../assets/bubble_filled_stroke2_corner2_rounded.svg'
 import likeIcon from '../../assets/heart2_filled_stroke2_corner0_rounded.svg'
 import logo from '../../assets/logo.svg'
 import repostIcon from '../../assets/repost_stroke2_corner2_rounded.svg'
+import {config} from '../config'
 import {CONTENT_LABELS} from '../labels'
 import {getRkey, niceDate, prettyNumber} from '../utils'
 import {Container} from './container'
@@ -18,9 +19,17 @@ import {Link} from './link'
 
 interface Props {
   thread: AppBskyFeedDefs.ThreadViewPost
+  parents?: AppBskyFeedDefs.PostView[]
+  selfThread?: AppBskyFeedDefs.PostView[]
+  replies?: AppBskyFeedDefs.PostView[]
 }
 
-export function Post({thread}: Props) {
+export function Post({
+  thread,
+  parents = [],
+  selfThread = [],
+  replies = [],
+}: Props) {
   const post = thread.post
 
   const isAuthorLabeled = post.author.labels?.some(label =>
@@ -35,6 +44,9 @@ export function Post({thread}: Props) {
   const href = `/profile/${post.author.did}/post/${getRkey(post)}`
   return (
     <Container href={href}>
+      {parents.map(parent => (
+        <ThreadPost key={parent.uri} post={parent} hasLineBelow />
+      ))}
       <div className="flex-1 flex-col flex gap-2" lang={record?.langs?.[0]}>
         <div className="flex gap-2.5 items-center cursor-pointer">
           <Link href={`/profile/${post.author.did}`} className="rounded-full">
@@ -109,11 +121,94 @@ export function Post({thread}: Props) {
           </p>
         </div>
       </div>
+      {selfThread.length > 0 && (
+        <div className="border-t dark:border-slate-600 mt-2.5 pt-3">
+          {selfThread.map((post, i) => (
+            <ThreadPost
+              key={post.uri}
+              post={post}
+              hasLineBelow={i < selfThread.length - 1}
+            />
+          ))}
+        </div>
+      )}
+      {replies.length > 0 && (
+        <div className="border-t dark:border-slate-600 mt-2.5 pt-3">
+          {replies.map(reply => (
+            <ThreadPost key={reply.uri} post={reply} />
+          ))}
+        </div>
+      )}
     </Container>
   )
 }
 
-function PostContent({record}: {record: AppBskyFeedPost.Record | null}) {
+/**
+ * A smaller post for thread context and timelines, optionally with a line
+ * down the avatar column joining it to the next post in the thread.
+ */
+export function ThreadPost({
+  post,
+  hasLineBelow,
+}: {
+  post: AppBskyFeedDefs.PostView
+  hasLineBelow?: boolean
+}) {
+  const isAuthorLabeled = post.author.labels?.some(label =>
+    CONTENT_LABELS.includes(label.val),
+  )
+
+  let record: AppBskyFeedPost.Record | null = null
+  if (AppBskyFeedPost.isRecord(post.record)) {
+    record = post.record
+  }
+
+  const href = `/profile/${post.author.did}/post/${getRkey(post)}`
+  return (
+    <div className="flex gap-2.5" lang={record?.langs?.[0]}>
+      <div className="flex flex-col items-center shrink-0">
+        <Link href={`/profile/${post.author.did}`} className="rounded-full">
+          <div className="w-10 h-10 overflow-hidden rounded-full bg-neutral-300 dark:bg-slate-700 shrink-0">
+            <img
+              src={post.author.avatar}
+              style={isAuthorLabeled ? {filter: 'blur(2.5px)'} : undefined}
+            />
+          </div>
+        </Link>
+        {hasLineBelow && (
+          <div className="w-0.5 flex-1 mt-1 bg-neutral-200 dark:bg-slate-600" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0 flex flex-col gap-1.5 pb-3">
+        <p className="line-clamp-1 text-[15px]">
+          <Link
+            href={`/profile/${post.author.did}`}
+            className="font-bold hover:underline">
+            {post.author.displayName || post.author.handle}
+          </Link>
+          <span className="text-textLight dark:text-textDimmed ml-1">
+            @{post.author.handle} &middot;{' '}
+            <Link href={href} className="hover:underline">
+              <time datetime={new Date(post.indexedAt).toISOString()}>
+                {niceDate(post.indexedAt)}
+              </time>
+            </Link>
+          </span>
+        </p>
+        <PostContent record={record} compact />
+        <Embed content={post.embed} labels={post.labels} />
+      </div>
+    </div>
+  )
+}
+
+function PostContent({
+  record,
+  compact,
+}: {
+  record: AppBskyFeedPost.Record | null
+  compact?: boolean
+}) {
   if (!record) return null
 
   const rt = new RichText({
@@ -135,6 +230,7 @@ function PostContent({record}: {record: AppBskyFeedPost.Record | null}) {
           href={segment.link.uri}
           className="text-blue-400 hover:underline"
           disableTracking={
+            !segment.link.uri.startsWith(config.appOrigin) &&
             !segment.link.uri.startsWith('https://bsky.app') &&
             !segment.link.uri.startsWith('https://go.bsky.app')
           }>
@@ -173,7 +269,12 @@ function PostContent({record}: {record: AppBskyFeedPost.Record | null}) {
   }
 
   return (
-    <p className="min-[300px]:text-lg leading-6 min-[300px]:leading-6 break-word break-words whitespace-pre-wrap">
+    <p
+      className={
+        compact
+          ? 'text-[15px] leading-5 break-word break-words whitespace-pre-wrap'
+          : 'min-[300px]:text-lg leading-6 min-[300px]:leading-6 break-word break-words whitespace-pre-wrap'
+      }>
       {richText}
     </p>
   )
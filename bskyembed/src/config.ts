@@ -0,0 +1,54 @@
+/**
+ * Hosts the embed talks to and links out to. Set at build time through
+ * `VITE_APPVIEW_URL`, `VITE_APP_ORIGIN` and `VITE_EMBED_ORIGIN`, and
+ * overridable per embed with the `appview` and `appOrigin` query params that
+ * the snippet forwards from its own script URL.
+ */
+export interface Config {
+  appviewUrl: string
+  appOrigin: string
+  embedOrigin: string
+}
+
+function toOrigin(name: string, value: unknown) {
+  if (typeof value !== 'string' || !value) return
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error(`${name} must be a URL, got "${value}"`)
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`${name} must be an http(s) URL, got "${value}"`)
+  }
+  return url.origin
+}
+
+// a bad override from the embedding page shouldn't break the embed
+function toOverride(name: string, value: string | null) {
+  try {
+    return toOrigin(name, value)
+  } catch (err) {
+    console.warn(err)
+  }
+}
+
+function loadConfig(): Config {
+  const query = new URLSearchParams(window.location.search)
+  const env = import.meta.env
+  return {
+    appviewUrl:
+      toOverride('appview', query.get('appview')) ??
+      toOrigin('VITE_APPVIEW_URL', env.VITE_APPVIEW_URL) ??
+      'https://public.api.bsky.app',
+    appOrigin:
+      toOverride('appOrigin', query.get('appOrigin')) ??
+      toOrigin('VITE_APP_ORIGIN', env.VITE_APP_ORIGIN) ??
+      'https://bsky.app',
+    embedOrigin:
+      toOrigin('VITE_EMBED_ORIGIN', env.VITE_EMBED_ORIGIN) ??
+      'https://embed.bsky.app',
+  }
+}
+
+export const config = loadConfig()
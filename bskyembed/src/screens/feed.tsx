@@ -0,0 +1,283 @@
+import '../index.css'
+
+import {
+  AppBskyActorDefs,
+  AppBskyFeedDefs,
+  AppBskyGraphDefs,
+  AppBskyGraphStarterpack,
+  AtpAgent,
+  AtUri,
+} from '@atproto/api'
+import {h, render} from 'preact'
+
+import logo from '../../assets/logo.svg'
+import {initColorMode} from '../color-mode'
+import {Container} from '../components/container'
+import {
+  FeedHeader,
+  FeedItem,
+  Page,
+  ProfileItem,
+  Timeline,
+} from '../components/feed'
+import {Link} from '../components/link'
+import {config} from '../config'
+import {CONTENT_LABELS} from '../labels'
+import {isPwiOptOut} from '../thread'
+import {getRkey} from '../utils'
+
+const root = document.getElementById('app')
+if (!root) throw new Error('No root element')
+
+const agent = new AtpAgent({
+  service: config.appviewUrl,
+})
+
+const uri = new AtUri(
+  `at://${window.location.pathname.slice('/embed/'.length)}`,
+)
+
+const query = new URLSearchParams(window.location.search)
+
+initColorMode(query.get('colorMode'))
+
+// same choices as the profile tabs in the app
+const AUTHOR_FILTERS = [
+  'posts_with_replies',
+  'posts_no_replies',
+  'posts_and_author_threads',
+  'posts_with_media',
+  'posts_with_video',
+]
+
+const filterParam = query.get('filter')
+const filter =
+  filterParam && AUTHOR_FILTERS.includes(filterParam)
+    ? filterParam
+    : 'posts_and_author_threads'
+
+const limitParam = parseInt(query.get('limit') ?? '', 10)
+const limit = Number.isNaN(limitParam)
+  ? 10
+  : Math.max(1, Math.min(limitParam, 30))
+
+function toFeedPage(data: {
+  feed: AppBskyFeedDefs.FeedViewPost[]
+  cursor?: string
+}): Page<AppBskyFeedDefs.FeedViewPost> {
+  return {
+    items: data.feed.filter(item => !isPwiOptOut(item.post.author)),
+    cursor: data.cursor,
+  }
+}
+
+function renderFeed(
+  fetchPage: (cursor?: string) => Promise<Page<AppBskyFeedDefs.FeedViewPost>>,
+) {
+  return (
+    <Timeline
+      fetchPage={fetchPage}
+      getKey={item =>
+        `${item.post.uri}-${
+          AppBskyFeedDefs.isReasonRepost(item.reason) ? item.reason.by.did : ''
+        }`
+      }
+      renderItem={item => <FeedItem item={item} />}
+      emptyMessage="No posts yet."
+    />
+  )
+}
+
+async function renderProfile() {
+  const {data: profile} = await agent.getProfile({actor: uri.host})
+  if (isPwiOptOut(profile)) {
+    return <PwiOptOut href={`/profile/${profile.did}`} />
+  }
+  const href = `/profile/${profile.did}`
+  return (
+    <Container href={href}>
+      <FeedHeader
+        href={href}
+        image={profile.avatar}
+        title={profile.displayName || profile.handle}
+        subtitle={`@${profile.handle}`}
+        description={profile.description}
+        isRound
+        isImageBlurred={hasContentLabel(profile)}
+      />
+      {renderFeed(cursor =>
+        agent
+          .getAuthorFeed({actor: profile.did, filter, limit, cursor})
+          .then(({data}) => toFeedPage(data)),
+      )}
+    </Container>
+  )
+}
+
+async function renderList() {
+  const {data} = await agent.app.bsky.graph.getList({
+    list: uri.toString(),
+    limit: 1,
+  })
+  const {list} = data
+  const href = `/profile/${list.creator.did}/lists/${getRkey(list)}`
+  if (isPwiOptOut(list.creator)) {
+    return <PwiOptOut href={href} />
+  }
+  if (list.purpose !== AppBskyGraphDefs.CURATELIST) {
+    throw new Error('Only curated lists have a feed')
+  }
+  return (
+    <Container href={href}>
+      <FeedHeader
+        href={href}
+        image={list.avatar}
+        title={list.name}
+        subtitle={`List by @${list.creator.handle}`}
+        description={list.description}
+      />
+      {renderFeed(cursor =>
+        agent.app.bsky.feed
+          .getListFeed({list: list.uri, limit, cursor})
+          .then(({data}) => toFeedPage(data)),
+      )}
+    </Container>
+  )
+}
+
+async function renderFeedGenerator() {
+  const {data} = await agent.app.bsky.feed.getFeedGenerator({
+    feed: uri.toString(),
+  })
+  const {view} = data
+  const href = `/profile/${view.creator.did}/feed/${getRkey(view)}`
+  if (isPwiOptOut(view.creator)) {
+    return <PwiOptOut href={href} />
+  }
+  return (
+    <Container href={href}>
+      <FeedHeader
+        href={href}
+        image={view.avatar}
+        title={view.displayName}
+        subtitle={`Feed by @${view.creator.handle}`}
+        description={view.description}
+      />
+      {renderFeed(cursor =>
+        agent.app.bsky.feed
+          .getFeed({feed: view.uri, limit, cursor})
+          .then(({data}) => toFeedPage(data)),
+      )}
+    </Container>
+  )
+}
+
+async function renderStarterPack() {
+  const {data} = await agent.app.bsky.graph.getStarterPack({
+    starterPack: uri.toString(),
+  })
+  const {starterPack} = data
+  const href = `/starter-pack/${starterPack.creator.did}/${getRkey(
+    starterPack,
+  )}`
+  if (isPwiOptOut(starterPack.creator)) {
+    return <PwiOptOut href={href} />
+  }
+  if (!AppBskyGraphStarterpack.isRecord(starterPack.record)) {
+    throw new Error('Invalid starter pack record')
+  }
+  const list = starterPack.list
+  return (
+    <Container href={href}>
+      <FeedHeader
+        href={href}
+        title={starterPack.record.name}
+        subtitle={`Starter pack by ${
+          starterPack.creator.displayName || `@${starterPack.creator.handle}`
+        }`}
+        description={starterPack.record.description}
+      />
+      {list ? (
+        <Timeline
+          fetchPage={cursor =>
+            agent.app.bsky.graph
+              .getList({list: list.uri, limit, cursor})
+              .then(({data}) => ({
+                items: data.items
+                  .map(item => item.subject)
+                  .filter(profile => !isPwiOptOut(profile)),
+                cursor: data.cursor,
+              }))
+          }
+          getKey={profile => profile.did}
+          renderItem={profile => <ProfileItem profile={profile} />}
+          emptyMessage="No one has been added yet."
+        />
+      ) : null}
+    </Container>
+  )
+}
+
+function hasContentLabel(profile: AppBskyActorDefs.ProfileViewDetailed) {
+  return !!profile.labels?.some(label => CONTENT_LABELS.includes(label.val))
+}
+
+function getScreen() {
+  switch (uri.collection) {
+    case 'app.bsky.actor.profile':
+      return renderProfile()
+    case 'app.bsky.graph.list':
+      return renderList()
+    case 'app.bsky.feed.generator':
+      return renderFeedGenerator()
+    case 'app.bsky.graph.starterpack':
+      return renderStarterPack()
+    default:
+      return Promise.reject(new Error(`Unsupported embed: ${uri.collection}`))
+  }
+}
+
+getScreen()
+  .then(screen => render(screen, root))
+  .catch(err => {
+    console.error(err)
+    render(<ErrorMessage />, root)
+  })
+
+function PwiOptOut({href}: {href: string}) {
+  return (
+    <Container href={href}>
+      <Link
+        href={href}
+        className="transition-transform hover:scale-110 absolute top-4 right-4">
+        <img src={logo} className="h-6" />
+      </Link>
+      <div className="w-full py-12 gap-4 flex flex-col items-center">
+        <p className="max-w-80 text-center w-full text-textLight dark:text-textDimmed">
+          The author of this content has requested it not be displayed on
+          external sites.
+        </p>
+        <Link
+          href={href}
+          className="max-w-80 rounded-lg bg-brand text-white text-center py-1 px-4 w-full mx-auto">
+          View on Bluesky
+        </Link>
+      </div>
+    </Container>
+  )
+}
+
+function ErrorMessage() {
+  return (
+    <Container href={`${config.appOrigin}/`}>
+      <Link
+        href={`${config.appOrigin}/`}
+        className="transition-transform hover:scale-110 absolute top-4 right-4">
+        <img src={logo} className="h-6" />
+      </Link>
+      <p className="my-16 text-center w-full text-textLight dark:text-textDimmed">
+        Not found, it may have been deleted.
+      </p>
+    </Container>
+  )
+}
@@ -14,14 +14,14 @@ import {
 import {Container} from '../components/container'
 import {Link} from '../components/link'
 import {Post} from '../components/post'
+import {config} from '../config'
 import {niceDate} from '../utils'
 
 const DEFAULT_POST = 'https://bsky.app/profile/emilyliu.me/post/3jzn6g7ixgq2y'
 const DEFAULT_URI =
   'at://did:plc:vjug55kidv6sye7ykr5faxxn/app.bsky.feed.post/3jzn6g7ixgq2y'
 
-export const EMBED_SERVICE = 'https://embed.bsky.app'
-export const EMBED_SCRIPT = `${EMBED_SERVICE}/static/embed.js`
+export const EMBED_SCRIPT = `${config.embedOrigin}/static/embed.js`
 
 const root = document.getElementById('app')
 if (!root) throw new Error('No root element')
@@ -29,7 +29,7 @@ if (!root) throw new Error('No root element')
 initSystemColorMode()
 
 const agent = new AtpAgent({
-  service: 'https://public.api.bsky.app',
+  service: config.appviewUrl,
 })
 
 render(<LandingPage />, root)
@@ -57,7 +57,10 @@ function LandingPage() {
           } else {
             try {
               const urlp = new URL(uri)
-              if (!urlp.hostname.endsWith('bsky.app')) {
+              if (
+                !urlp.hostname.endsWith('bsky.app') &&
+                urlp.origin !== config.appOrigin
+              ) {
                 throw new Error('Invalid hostname')
               }
               const split = urlp.pathname.slice(1).split('/')
@@ -286,7 +289,7 @@ function Snippet({
 }
 
 function toShareUrl(path: string) {
-  return `https://bsky.app${path}?ref_src=embed`
+  return `${config.appOrigin}${path}?ref_src=embed`
 }
 
 /**
@@ -4,17 +4,26 @@ import {AppBskyFeedDefs, AtpAgent} from '@atproto/api'
 import {h, render} from 'preact'
 
 import logo from '../../assets/logo.svg'
-import {applyTheme, initSystemColorMode} from '../color-mode'
+import {initColorMode} from '../color-mode'
 import {Container} from '../components/container'
 import {Link} from '../components/link'
 import {Post} from '../components/post'
+import {config} from '../config'
+import {
+  getParents,
+  getSelfThread,
+  getThreadParams,
+  getTopReplies,
+  isPwiOptOut,
+  parseThreadOptions,
+} from '../thread'
 import {getRkey} from '../utils'
 
 const root = document.getElementById('app')
 if (!root) throw new Error('No root element')
 
 const agent = new AtpAgent({
-  service: 'https://public.api.bsky.app',
+  service: config.appviewUrl,
 })
 
 const uri = `at://${window.location.pathname.slice('/embed/'.length)}`
@@ -24,39 +33,33 @@ if (!uri) {
 
 const query = new URLSearchParams(window.location.search)
 
-// theme - default to light mode
-const colorMode = query.get('colorMode')
+initColorMode(query.get('colorMode'))
 
-switch (colorMode) {
-  case 'dark':
-    applyTheme('dark')
-    break
-  case 'system':
-    initSystemColorMode()
-    break
-  case 'light':
-  default:
-    applyTheme('light')
-    break
-}
+const threadOptions = parseThreadOptions(query)
 
 agent
   .getPostThread({
     uri,
-    depth: 0,
-    parentHeight: 0,
+    ...getThreadParams(threadOptions),
   })
   .then(({data}) => {
     if (!AppBskyFeedDefs.isThreadViewPost(data.thread)) {
       throw new Error('Expected a ThreadViewPost')
     }
-    const pwiOptOut = !!data.thread.post.author.labels?.find(
-      label => label.val === '!no-unauthenticated',
-    )
-    if (pwiOptOut) {
+    if (isPwiOptOut(data.thread.post.author)) {
       render(<PwiOptOut thread={data.thread} />, root)
     } else {
-      render(<Post thread={data.thread} />, root)
+      render(
+        <Post
+          thread={data.thread}
+          parents={getParents(data.thread)}
+          selfThread={
+            threadOptions.selfThread ? getSelfThread(data.thread) : []
+          }
+          replies={getTopReplies(data.thread, threadOptions.replies)}
+        />,
+        root,
+      )
     }
   })
   .catch(err => {
@@ -90,9 +93,9 @@ function PwiOptOut({thread}: {thread: AppBskyFeedDefs.ThreadViewPost}) {
 
 function ErrorMessage() {
   return (
-    <Container href="https://bsky.app/">
+    <Container href={`${config.appOrigin}/`}>
       <Link
-        href="https://bsky.app/"
+        href={`${config.appOrigin}/`}
         className="transition-transform hover:scale-110 absolute top-4 right-4">
         <img src={logo} className="h-6" />
       </Link>
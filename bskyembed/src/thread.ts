@@ -0,0 +1,98 @@
+import {AppBskyFeedDefs} from '@atproto/api'
+
+const MAX_PARENTS = 10
+const MAX_REPLIES = 10
+const MAX_SELF_THREAD = 20
+
+export interface ThreadOptions {
+  /** how many parent posts to show above the embedded post */
+  parents: number
+  /** show the author's continuous self-thread below the embedded post */
+  selfThread: boolean
+  /** how many of the top replies to show */
+  replies: number
+}
+
+function toCount(value: string | null, max: number) {
+  const num = parseInt(value ?? '', 10)
+  return Number.isNaN(num) ? 0 : Math.max(0, Math.min(num, max))
+}
+
+export function parseThreadOptions(query: URLSearchParams): ThreadOptions {
+  return {
+    parents: toCount(query.get('parents'), MAX_PARENTS),
+    selfThread: query.get('thread') === 'author',
+    replies: toCount(query.get('replies'), MAX_REPLIES),
+  }
+}
+
+/**
+ * The `depth` and `parentHeight` to request from `getPostThread` so the
+ * response covers everything the options ask for.
+ */
+export function getThreadParams(options: ThreadOptions) {
+  return {
+    depth: options.selfThread ? MAX_SELF_THREAD : options.replies > 0 ? 1 : 0,
+    parentHeight: options.parents,
+  }
+}
+
+export function isPwiOptOut(author: AppBskyFeedDefs.PostView['author']) {
+  return !!author.labels?.find(label => label.val === '!no-unauthenticated')
+}
+
+/**
+ * Parents of the embedded post, oldest first. Stops at the first parent that
+ * can't be shown, so the context is always continuous.
+ */
+export function getParents(thread: AppBskyFeedDefs.ThreadViewPost) {
+  const parents: AppBskyFeedDefs.PostView[] = []
+  let parent = thread.parent
+  while (
+    AppBskyFeedDefs.isThreadViewPost(parent) &&
+    !isPwiOptOut(parent.post.author)
+  ) {
+    parents.unshift(parent.post)
+    parent = parent.parent
+  }
+  return parents
+}
+
+/**
+ * The chain of the author's own replies below the embedded post, following
+ * the earliest one at each step like the app does.
+ */
+export function getSelfThread(thread: AppBskyFeedDefs.ThreadViewPost) {
+  const did = thread.post.author.did
+  const posts: AppBskyFeedDefs.PostView[] = []
+  let current = thread
+  while (posts.length < MAX_SELF_THREAD) {
+    const next = current.replies
+      ?.filter(AppBskyFeedDefs.isThreadViewPost)
+      .filter(reply => reply.post.author.did === did)
+      .sort((a, b) => a.post.indexedAt.localeCompare(b.post.indexedAt))[0]
+    if (!next) break
+    posts.push(next.post)
+    current = next
+  }
+  return posts
+}
+
+/**
+ * Direct replies by other people, most liked first. The author's own replies
+ * are left to the self-thread.
+ */
+export function getTopReplies(
+  thread: AppBskyFeedDefs.ThreadViewPost,
+  count: number,
+) {
+  return (thread.replies ?? [])
+    .filter(AppBskyFeedDefs.isThreadViewPost)
+    .map(reply => reply.post)
+    .filter(
+      post =>
+        post.author.did !== thread.post.author.did && !isPwiOptOut(post.author),
+    )
+    .sort((a, b) => (b.likeCount ?? 0) - (a.likeCount ?? 0))
+    .slice(0, count)
+}
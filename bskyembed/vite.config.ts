@@ -19,6 +19,7 @@ const config: UserConfig = {
       input: {
         index: resolve(__dirname, 'index.html'),
         post: resolve(__dirname, 'post.html'),
+        feed: resolve(__dirname, 'feed.html'),
       },
     },
   },
@@ -0,0 +1,23 @@
+import React from 'react'
+
+import {Img} from './Img.js'
+import {BLUE} from './theme.js'
+
+// accounts without an avatar, or whose avatar is hidden, get a plain circle
+export function Avatar(props: {image?: Buffer; size: number; border?: number}) {
+  const {image, size, border = 0} = props
+  return (
+    <div
+      style={{
+        display: 'flex',
+        width: size + border * 2,
+        height: size + border * 2,
+        borderRadius: '50%',
+        overflow: 'hidden',
+        backgroundColor: BLUE,
+        border: border ? `${border}px solid white` : undefined,
+      }}>
+      {image && <Img width="100%" height="100%" src={image} />}
+    </div>
+  )
+}
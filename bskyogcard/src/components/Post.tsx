@@ -0,0 +1,154 @@
+/* eslint-disable bsky-internal/avoid-unwrapped-text */
+import React from 'react'
+import {
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyFeedDefs,
+  AppBskyFeedPost,
+} from '@atproto/api'
+
+import {Avatar} from './Avatar.js'
+import {Butterfly} from './Butterfly.js'
+import {Img} from './Img.js'
+import {RichText} from './RichText.js'
+import {BLUE, BORDER, formatCount, TEXT, TEXT_MEDIUM} from './theme.js'
+
+export const POST_HEIGHT = 630
+export const POST_WIDTH = 1200
+const MEDIA_SIZE = 380
+
+function getQuote(embed: AppBskyFeedDefs.PostView['embed']) {
+  const record = AppBskyEmbedRecord.isView(embed)
+    ? embed.record
+    : AppBskyEmbedRecordWithMedia.isView(embed)
+      ? embed.record.record
+      : undefined
+  if (
+    AppBskyEmbedRecord.isViewRecord(record) &&
+    AppBskyFeedPost.isRecord(record.value)
+  ) {
+    return {author: record.author, record: record.value}
+  }
+}
+
+export function Post(props: {
+  post: AppBskyFeedDefs.PostView
+  avatar?: Buffer
+  media?: Buffer
+}) {
+  const {post, avatar, media} = props
+  const record = AppBskyFeedPost.isRecord(post.record) ? post.record : null
+  const quote = getQuote(post.embed)
+  const text = record?.text ?? ''
+  const isCompact = !!media || !!quote
+  const fontSize = text.length > 200 || isCompact ? 32 : 44
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: POST_WIDTH,
+        height: POST_HEIGHT,
+        padding: 60,
+        backgroundColor: 'white',
+        color: TEXT,
+        fontFamily: 'Inter',
+      }}>
+      {/* author */}
+      <div style={{display: 'flex', alignItems: 'center'}}>
+        <Avatar image={avatar} size={88} />
+        <div style={{display: 'flex', flexDirection: 'column', marginLeft: 24}}>
+          <div style={{fontSize: 36}}>
+            {post.author.displayName || post.author.handle}
+          </div>
+          <div style={{fontSize: 28, color: TEXT_MEDIUM}}>
+            {`@${post.author.handle}`}
+          </div>
+        </div>
+      </div>
+      {/* text, quote & media */}
+      <div
+        style={{
+          display: 'flex',
+          flex: 1,
+          marginTop: 36,
+          overflow: 'hidden',
+        }}>
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            flex: 1,
+            overflow: 'hidden',
+          }}>
+          {text && (
+            <RichText
+              text={text}
+              facets={record?.facets}
+              maxLength={isCompact ? 180 : 320}
+              fontSize={fontSize}
+              facetColor={BLUE}
+            />
+          )}
+          {quote && (
+            <div
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                marginTop: text ? 24 : 0,
+                padding: 24,
+                border: `2px solid ${BORDER}`,
+                borderRadius: 20,
+              }}>
+              <div style={{fontSize: 24, color: TEXT_MEDIUM, marginBottom: 8}}>
+                {quote.author.displayName || `@${quote.author.handle}`}
+              </div>
+              <RichText
+                text={quote.record.text}
+                maxLength={120}
+                fontSize={24}
+                facetColor={TEXT}
+              />
+            </div>
+          )}
+        </div>
+        {media && (
+          <div
+            style={{
+              display: 'flex',
+              width: MEDIA_SIZE,
+              height: MEDIA_SIZE,
+              marginLeft: 40,
+              borderRadius: 20,
+              overflow: 'hidden',
+            }}>
+            <Img
+              width="100%"
+              height="100%"
+              style={{objectFit: 'cover'}}
+              src={media}
+            />
+          </div>
+        )}
+      </div>
+      {/* counts */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          fontSize: 26,
+          color: TEXT_MEDIUM,
+        }}>
+        <div style={{display: 'flex'}}>
+          {[
+            formatCount(post.replyCount, 'reply', 'replies'),
+            formatCount(post.repostCount, 'repost', 'reposts'),
+            formatCount(post.likeCount, 'like', 'likes'),
+          ].join(' · ')}
+        </div>
+        <Butterfly width="56" style={{color: BLUE}} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+/* eslint-disable bsky-internal/avoid-unwrapped-text */
+import React from 'react'
+import {AppBskyActorDefs} from '@atproto/api'
+
+import {Avatar} from './Avatar.js'
+import {Butterfly} from './Butterfly.js'
+import {Img} from './Img.js'
+import {RichText} from './RichText.js'
+import {BLUE, formatCount, TEXT, TEXT_MEDIUM} from './theme.js'
+
+export const PROFILE_HEIGHT = 630
+export const PROFILE_WIDTH = 1200
+const BANNER_HEIGHT = 220
+const AVATAR_SIZE = 180
+
+export function Profile(props: {
+  profile: AppBskyActorDefs.ProfileViewDetailed
+  avatar?: Buffer
+  banner?: Buffer
+}) {
+  const {profile, avatar, banner} = props
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: PROFILE_WIDTH,
+        height: PROFILE_HEIGHT,
+        backgroundColor: 'white',
+        color: TEXT,
+        fontFamily: 'Inter',
+      }}>
+      {/* banner */}
+      <div
+        style={{
+          display: 'flex',
+          width: PROFILE_WIDTH,
+          height: BANNER_HEIGHT,
+          backgroundImage: `linear-gradient(to bottom, #0A7AFF, #59B9FF)`,
+        }}>
+        {banner && (
+          <Img
+            width="100%"
+            height="100%"
+            style={{objectFit: 'cover'}}
+            src={banner}
+          />
+        )}
+      </div>
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          flex: 1,
+          padding: '0 60px 48px',
+          overflow: 'hidden',
+        }}>
+        {/* avatar & names */}
+        <div style={{display: 'flex', alignItems: 'flex-end'}}>
+          <div style={{display: 'flex', marginTop: -AVATAR_SIZE / 2}}>
+            <Avatar image={avatar} size={AVATAR_SIZE} border={8} />
+          </div>
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              marginLeft: 28,
+              marginBottom: 4,
+            }}>
+            <div style={{fontSize: 48}}>
+              {profile.displayName || profile.handle}
+            </div>
+            <div style={{fontSize: 30, color: TEXT_MEDIUM}}>
+              {`@${profile.handle}`}
+            </div>
+          </div>
+        </div>
+        {/* bio */}
+        <div style={{display: 'flex', flex: 1, marginTop: 28}}>
+          {profile.description && (
+            <RichText
+              text={profile.description}
+              maxLength={200}
+              fontSize={28}
+              facetColor={BLUE}
+            />
+          )}
+        </div>
+        {/* counts */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            fontSize: 28,
+            color: TEXT_MEDIUM,
+          }}>
+          <div style={{display: 'flex'}}>
+            {[
+              formatCount(profile.followersCount, 'follower', 'followers'),
+              formatCount(profile.followsCount, 'following', 'following'),
+              formatCount(profile.postsCount, 'post', 'posts'),
+            ].join(' · ')}
+          </div>
+          <Butterfly width="56" style={{color: BLUE}} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+/* eslint-disable bsky-internal/avoid-unwrapped-text */
+import React from 'react'
+import {AppBskyRichtextFacet, RichText as RichTextAPI} from '@atproto/api'
+
+type Word = {text: string; isFacet: boolean}
+
+// Satori has no inline text layout, so every word is its own flex item and
+// lines wrap between them.
+function toLines(
+  text: string,
+  facets: AppBskyRichtextFacet.Main[] | undefined,
+  maxLength: number,
+) {
+  const rt = new RichTextAPI({text, facets})
+  const lines: Word[][] = [[]]
+  let remaining = maxLength
+  for (const segment of rt.segments()) {
+    if (remaining <= 0) break
+    const chars = Array.from(segment.text)
+    let segmentText = segment.text
+    if (chars.length > remaining) {
+      segmentText = chars.slice(0, remaining).join('').trimEnd() + '…'
+    }
+    remaining -= chars.length
+    segmentText.split('\n').forEach((line, i) => {
+      if (i > 0) lines.push([])
+      for (const word of line.match(/\S+\s*|\s+/g) ?? []) {
+        lines[lines.length - 1].push({text: word, isFacet: !!segment.facet})
+      }
+    })
+  }
+  return lines
+}
+
+export function RichText(props: {
+  text: string
+  facets?: AppBskyRichtextFacet.Main[]
+  maxLength: number
+  fontSize: number
+  facetColor: string
+}) {
+  const {text, facets, maxLength, fontSize, facetColor} = props
+  const lineHeight = Math.round(fontSize * 1.3)
+  return (
+    <div style={{display: 'flex', flexDirection: 'column', fontSize}}>
+      {toLines(text.trim(), facets, maxLength).map((line, i) => (
+        <div
+          key={i}
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            minHeight: lineHeight,
+            lineHeight: `${lineHeight}px`,
+          }}>
+          {line.map((word, j) => (
+            <span
+              key={j}
+              style={{
+                whiteSpace: 'pre',
+                color: word.isFacet ? facetColor : undefined,
+              }}>
+              {word.text}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+export const BLUE = '#0A7AFF'
+export const TEXT = '#0B0F14'
+export const TEXT_MEDIUM = '#66788A'
+export const BORDER = '#D4DBE2'
+
+const compact = new Intl.NumberFormat('en-US', {
+  notation: 'compact',
+  maximumFractionDigits: 1,
+})
+
+export function formatCount(
+  count: number | undefined,
+  singular: string,
+  plural: string,
+) {
+  const value = count ?? 0
+  return `${compact.format(value)} ${value === 1 ? singular : plural}`
+}
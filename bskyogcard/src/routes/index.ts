@@ -2,6 +2,8 @@ import {Express} from 'express'
 
 import {AppContext} from '../context.js'
 import {default as health} from './health.js'
+import {default as post} from './post.js'
+import {default as profile} from './profile.js'
 import {default as starterPack} from './starter-pack.js'
 
 export * from './util.js'
@@ -9,5 +11,7 @@ export * from './util.js'
 export default function (ctx: AppContext, app: Express) {
   app = health(ctx, app) // GET /_health
   app = starterPack(ctx, app) // GET /start/:actor/:rkey
+  app = post(ctx, app) // GET /post/:actor/:rkey
+  app = profile(ctx, app) // GET /profile/:actor
   return app
 }
@@ -0,0 +1,83 @@
+import React from 'react'
+import {
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyFeedDefs,
+  AtUri,
+} from '@atproto/api'
+import {Express} from 'express'
+
+import {Post, POST_HEIGHT, POST_WIDTH} from '../components/Post.js'
+import {AppContext} from '../context.js'
+import {httpLogger} from '../logger.js'
+import {getImage, hasSensitiveLabels} from '../util.js'
+import {handler, originVerifyMiddleware, renderPng} from './util.js'
+
+export default function (ctx: AppContext, app: Express) {
+  return app.get(
+    '/post/:actor/:rkey',
+    originVerifyMiddleware(ctx),
+    handler(async (req, res) => {
+      const {actor, rkey} = req.params
+      const uri = AtUri.make(actor, 'app.bsky.feed.post', rkey)
+      let post: AppBskyFeedDefs.PostView
+      try {
+        const result = await ctx.appviewAgent.api.app.bsky.feed.getPostThread({
+          uri: uri.toString(),
+          depth: 0,
+          parentHeight: 0,
+        })
+        if (!AppBskyFeedDefs.isThreadViewPost(result.data.thread)) {
+          return res.status(404).end('not found')
+        }
+        post = result.data.thread.post
+      } catch (err) {
+        httpLogger.warn({err, uri: uri.toString()}, 'could not fetch post')
+        return res.status(404).end('not found')
+      }
+      if (post.author.labels?.some(l => l.val === '!no-unauthenticated')) {
+        return res.status(404).end('not found')
+      }
+      const mediaUrl = hasSensitiveLabels(post)
+        ? undefined
+        : getMediaUrl(post.embed)
+      const [avatar, media] = await Promise.all(
+        [
+          hasSensitiveLabels(post.author) ? undefined : post.author.avatar,
+          mediaUrl,
+        ].map(async url => {
+          if (!url) return undefined
+          try {
+            return (await getImage(url)) ?? undefined
+          } catch (err) {
+            httpLogger.warn(
+              {err, uri: uri.toString(), url},
+              'could not fetch image',
+            )
+            return undefined
+          }
+        }),
+      )
+      const png = await renderPng(
+        ctx,
+        <Post post={post} avatar={avatar} media={media} />,
+        {height: POST_HEIGHT, width: POST_WIDTH},
+      )
+      res.statusCode = 200
+      res.setHeader('content-type', 'image/png')
+      res.setHeader('cdn-tag', post.author.did)
+      return res.end(png)
+    }),
+  )
+}
+
+function getMediaUrl(embed: AppBskyFeedDefs.PostView['embed']) {
+  const media = AppBskyEmbedRecordWithMedia.isView(embed) ? embed.media : embed
+  if (AppBskyEmbedImages.isView(media)) {
+    return media.images[0]?.thumb
+  }
+  if (AppBskyEmbedExternal.isView(media)) {
+    return media.external.thumb
+  }
+}
@@ -0,0 +1,56 @@
+import React from 'react'
+import {AppBskyActorDefs} from '@atproto/api'
+import {Express} from 'express'
+
+import {Profile, PROFILE_HEIGHT, PROFILE_WIDTH} from '../components/Profile.js'
+import {AppContext} from '../context.js'
+import {httpLogger} from '../logger.js'
+import {getImage, hasSensitiveLabels} from '../util.js'
+import {handler, originVerifyMiddleware, renderPng} from './util.js'
+
+export default function (ctx: AppContext, app: Express) {
+  return app.get(
+    '/profile/:actor',
+    originVerifyMiddleware(ctx),
+    handler(async (req, res) => {
+      const {actor} = req.params
+      let profile: AppBskyActorDefs.ProfileViewDetailed
+      try {
+        const result = await ctx.appviewAgent.api.app.bsky.actor.getProfile({
+          actor,
+        })
+        profile = result.data
+      } catch (err) {
+        httpLogger.warn({err, actor}, 'could not fetch profile')
+        return res.status(404).end('not found')
+      }
+      if (profile.labels?.some(l => l.val === '!no-unauthenticated')) {
+        return res.status(404).end('not found')
+      }
+      const isHidden = hasSensitiveLabels(profile)
+      const [avatar, banner] = await Promise.all(
+        [
+          isHidden ? undefined : profile.avatar,
+          isHidden ? undefined : profile.banner,
+        ].map(async url => {
+          if (!url) return undefined
+          try {
+            return (await getImage(url)) ?? undefined
+          } catch (err) {
+            httpLogger.warn({err, actor, url}, 'could not fetch image')
+            return undefined
+          }
+        }),
+      )
+      const png = await renderPng(
+        ctx,
+        <Profile profile={profile} avatar={avatar} banner={banner} />,
+        {height: PROFILE_HEIGHT, width: PROFILE_WIDTH},
+      )
+      res.statusCode = 200
+      res.setHeader('content-type', 'image/png')
+      res.setHeader('cdn-tag', profile.did)
+      return res.end(png)
+    }),
+  )
+}
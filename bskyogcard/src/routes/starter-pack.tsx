@@ -2,9 +2,7 @@ import assert from 'node:assert'
 
 import React from 'react'
 import {AppBskyGraphDefs, AtUri} from '@atproto/api'
-import resvg from '@resvg/resvg-js'
 import {Express} from 'express'
-import satori from 'satori'
 
 import {
   StarterPack,
@@ -13,8 +11,8 @@ import {
 } from '../components/StarterPack.js'
 import {AppContext} from '../context.js'
 import {httpLogger} from '../logger.js'
-import {loadEmojiAsSvg} from '../util.js'
-import {handler, originVerifyMiddleware} from './util.js'
+import {getImage, hasSensitiveLabels} from '../util.js'
+import {handler, originVerifyMiddleware, renderPng} from './util.js'
 
 export default function (ctx: AppContext, app: Express) {
   return app.get(
@@ -42,7 +40,7 @@ export default function (ctx: AppContext, app: Express) {
           // has avatar
           .filter(p => p.avatar)
           // no sensitive labels
-          .filter(p => !p.labels.some(l => hideAvatarLabels.has(l.val)))
+          .filter(p => !hasSensitiveLabels(p))
           .map(async p => {
             try {
               assert(p.avatar)
@@ -60,50 +58,15 @@ export default function (ctx: AppContext, app: Express) {
       const images = new Map(
         imageEntries.filter(([_, image]) => image !== null).slice(0, 7),
       )
-      const svg = await satori(
+      const png = await renderPng(
+        ctx,
         <StarterPack starterPack={starterPack} images={images} />,
-        {
-          fonts: ctx.fonts,
-          height: STARTERPACK_HEIGHT,
-          width: STARTERPACK_WIDTH,
-          loadAdditionalAsset: async (code, text) => {
-            if (code === 'emoji') {
-              return await loadEmojiAsSvg(text)
-            }
-          },
-        },
+        {height: STARTERPACK_HEIGHT, width: STARTERPACK_WIDTH},
       )
-      const output = await resvg.renderAsync(svg)
       res.statusCode = 200
       res.setHeader('content-type', 'image/png')
       res.setHeader('cdn-tag', [...images.keys()].join(','))
-      return res.end(output.asPng())
+      return res.end(png)
     }),
   )
 }
-
-async function getImage(url: string) {
-  const response = await fetch(url)
-  const arrayBuf = await response.arrayBuffer() // must drain body even if it will be discarded
-  if (response.status !== 200) return null
-  return Buffer.from(arrayBuf)
-}
-
-const hideAvatarLabels = new Set([
-  '!hide',
-  '!warn',
-  'porn',
-  'sexual',
-  'nudity',
-  'sexual-figurative',
-  'graphic-media',
-  'gore',
-  'self-harm',
-  'sensitive',
-  'security',
-  'impersonation',
-  'scam',
-  'spam',
-  'misleading',
-  'inauthentic',
-])
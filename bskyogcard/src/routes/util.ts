@@ -1,7 +1,11 @@
+import resvg from '@resvg/resvg-js'
 import {ErrorRequestHandler, Request, RequestHandler, Response} from 'express'
+import type React from 'react'
+import satori from 'satori'
 
 import {AppContext} from '../context.js'
 import {httpLogger} from '../logger.js'
+import {loadEmojiAsSvg} from '../util.js'
 
 export type Handler = (req: Request, res: Response) => Awaited<void>
 
@@ -34,3 +38,22 @@ export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
   }
   return res.status(500).end('server error')
 }
+
+export async function renderPng(
+  ctx: AppContext,
+  element: React.ReactNode,
+  {width, height}: {width: number; height: number},
+) {
+  const svg = await satori(element, {
+    fonts: ctx.fonts,
+    height,
+    width,
+    loadAdditionalAsset: async (code, text) => {
+      if (code === 'emoji') {
+        return await loadEmojiAsSvg(text)
+      }
+    },
+  })
+  const output = await resvg.renderAsync(svg)
+  return output.asPng()
+}
@@ -1,3 +1,4 @@
+import {type ComAtprotoLabelDefs} from '@atproto/api'
 import twemoji from 'twemoji'
 
 import {renderLogger} from './logger.js'
@@ -35,3 +36,36 @@ function getEmojiUrl(code: string) {
     '.svg'
   )
 }
+
+export async function getImage(url: string) {
+  const response = await fetch(url)
+  const arrayBuf = await response.arrayBuffer() // must drain body even if it will be discarded
+  if (response.status !== 200) return null
+  return Buffer.from(arrayBuf)
+}
+
+// images of accounts and posts with these labels are left out of cards
+const hideAvatarLabels = new Set([
+  '!hide',
+  '!warn',
+  'porn',
+  'sexual',
+  'nudity',
+  'sexual-figurative',
+  'graphic-media',
+  'gore',
+  'self-harm',
+  'sensitive',
+  'security',
+  'impersonation',
+  'scam',
+  'spam',
+  'misleading',
+  'inauthentic',
+])
+
+export function hasSensitiveLabels(subject: {
+  labels?: ComAtprotoLabelDefs.Label[]
+}) {
+  return !!subject.labels?.some(l => hideAvatarLabels.has(l.val))
+}
@@ -213,3 +213,21 @@ func (srv *Server) WebPostEmbed(c echo.Context) error {
 
 	return c.Render(http.StatusOK, "postEmbed.html", nil)
 }
+
+// WebFeedEmbed serves the profile, list, feed and starter pack embeds, which
+// share one entrypoint that fetches everything client-side.
+func (srv *Server) WebFeedEmbed(c echo.Context) error {
+
+	// sanity check arguments. the profile route has no rkey
+	didParam := c.Param("did")
+	if _, err := syntax.ParseDID(didParam); err != nil {
+		return c.String(http.StatusBadRequest, fmt.Sprintf("Invalid DID: %v", err))
+	}
+	if rkeyParam := c.Param("rkey"); rkeyParam != "" {
+		if _, err := syntax.ParseRecordKey(rkeyParam); err != nil {
+			return c.String(http.StatusBadRequest, fmt.Sprintf("Invalid RecordKey: %v", err))
+		}
+	}
+
+	return c.Render(http.StatusOK, "feedEmbed.html", nil)
+}
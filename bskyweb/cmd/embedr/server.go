@@ -177,6 +177,10 @@ func serve(cctx *cli.Context) error {
 	e.GET("/embed.js", echo.WrapHandler(staticHandler))
 	e.GET("/oembed", server.WebOEmbed)
 	e.GET("/embed/:did/app.bsky.feed.post/:rkey", server.WebPostEmbed)
+	e.GET("/embed/:did/app.bsky.actor.profile/self", server.WebFeedEmbed)
+	e.GET("/embed/:did/app.bsky.graph.list/:rkey", server.WebFeedEmbed)
+	e.GET("/embed/:did/app.bsky.feed.generator/:rkey", server.WebFeedEmbed)
+	e.GET("/embed/:did/app.bsky.graph.starterpack/:rkey", server.WebFeedEmbed)
 
 	// Start the server.
 	log.Infof("starting server address=%s", httpAddress)
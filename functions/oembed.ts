@@ -0,0 +1,231 @@
+import {
+  AppBskyActorDefs,
+  AppBskyFeedDefs,
+  AppBskyFeedPost,
+  AtpAgent,
+} from '@atproto/api'
+
+import {getConfig, html, renderHandleString} from './profile/[handleOrDID].ts'
+
+// matches the container the embed snippet wraps its iframe in
+const MAX_WIDTH = 600
+const MIN_WIDTH = 220
+const CACHE_AGE = 3600
+
+// hosts whose links we describe, besides the deployment serving the request
+const URL_HOSTS = ['deer.social', 'bsky.app']
+
+const POST_PATH = /^\/profile\/([^/]+)\/post\/([^/]+)\/?$/
+const PROFILE_PATH = /^\/profile\/([^/]+)\/?$/
+
+type OEmbed = Record<string, string | number | null>
+
+class OEmbedError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+function niceDate(date: string) {
+  const d = new Date(date)
+  return `${d.toLocaleDateString('en-us', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })} at ${d.toLocaleTimeString('en-us', {
+    hour: 'numeric',
+    minute: '2-digit',
+  })}`
+}
+
+function isSupportedUrl(url: URL, origin: string) {
+  const host = url.hostname.replace(/^www\./, '')
+  return URL_HOSTS.includes(host) || url.origin === origin
+}
+
+function isOptedOut(author: {labels?: {val: string}[]}) {
+  return !!author.labels?.some(l => l.val === '!no-unauthenticated')
+}
+
+/**
+ * Same markup as the app's "Embed post" dialog: a readable blockquote that
+ * the embed script swaps for the bskyembed iframe.
+ */
+function renderPostHtml(
+  origin: string,
+  embedScript: string,
+  thread: AppBskyFeedDefs.ThreadViewPost,
+) {
+  const {post} = thread
+  const record = post.record as AppBskyFeedPost.Record
+  const lang = record.langs?.[0] ?? ''
+  const rkey = post.uri.split('/').pop()
+  const profileHref = `${origin}/profile/${post.author.did}`
+  const href = `${profileHref}/post/${rkey}`
+  return html`<blockquote
+      class="bluesky-embed"
+      data-bluesky-uri="${post.uri}"
+      data-bluesky-cid="${post.cid}">
+      <p lang="${lang}">
+        ${record.text}${record.embed
+          ? html`<br /><br /><a href="${href}">[image or embed]</a>`
+          : ''}
+      </p>
+      &mdash; ${post.author.displayName || post.author.handle} (<a
+        href="${profileHref}"
+        >@${post.author.handle}</a
+      >) <a href="${href}">${niceDate(post.indexedAt)}</a>
+    </blockquote>
+    <script async src="${embedScript}" charset="utf-8"></script>`.toString()
+}
+
+function renderProfileHtml(
+  origin: string,
+  embedScript: string,
+  profile: AppBskyActorDefs.ProfileViewDetailed,
+) {
+  const href = `${origin}/profile/${profile.did}`
+  return html`<blockquote
+      class="bluesky-embed"
+      data-bluesky-uri="at://${profile.did}/app.bsky.actor.profile/self">
+      <p>
+        Posts by ${profile.displayName || profile.handle} (<a href="${href}"
+          >@${profile.handle}</a
+        >)
+      </p>
+    </blockquote>
+    <script async src="${embedScript}" charset="utf-8"></script>`.toString()
+}
+
+async function getOEmbed(
+  agent: AtpAgent,
+  origin: string,
+  embedScript: string,
+  url: URL,
+  width: number,
+): Promise<OEmbed> {
+  const base = {
+    version: '1.0',
+    provider_name: 'deer.social',
+    provider_url: origin,
+    cache_age: CACHE_AGE,
+  }
+
+  const postMatch = url.pathname.match(POST_PATH)
+  if (postMatch) {
+    const [, actor, rkey] = postMatch
+    const {data} = await agent.getPostThread({
+      uri: `at://${actor}/app.bsky.feed.post/${rkey}`,
+      depth: 0,
+      parentHeight: 0,
+    })
+    if (
+      !AppBskyFeedDefs.isThreadViewPost(data.thread) ||
+      !AppBskyFeedPost.isRecord(data.thread.post.record)
+    ) {
+      throw new OEmbedError(404, 'not found')
+    }
+    const {author} = data.thread.post
+    if (isOptedOut(author)) {
+      throw new OEmbedError(401, 'unauthorized')
+    }
+    return {
+      ...base,
+      type: 'rich',
+      author_name: renderHandleString(author),
+      author_url: `${origin}/profile/${author.handle}`,
+      html: renderPostHtml(origin, embedScript, data.thread),
+      width,
+      height: null,
+    }
+  }
+
+  const profileMatch = url.pathname.match(PROFILE_PATH)
+  if (profileMatch) {
+    const {data} = await agent.getProfile({actor: profileMatch[1]})
+    if (isOptedOut(data)) {
+      throw new OEmbedError(401, 'unauthorized')
+    }
+    return {
+      ...base,
+      type: 'rich',
+      title: renderHandleString(data),
+      author_name: renderHandleString(data),
+      author_url: `${origin}/profile/${data.handle}`,
+      html: renderProfileHtml(origin, embedScript, data),
+      width,
+      height: null,
+      ...(data.avatar
+        ? {
+            thumbnail_url: data.avatar,
+            thumbnail_width: 1000,
+            thumbnail_height: 1000,
+          }
+        : {}),
+    }
+  }
+
+  throw new OEmbedError(404, 'not found')
+}
+
+function renderXml(oembed: OEmbed) {
+  const fields = Object.entries(oembed)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => html`<${key}>${String(value)}</${key}>`)
+  return html`<?xml version="1.0" encoding="utf-8" standalone="yes"?>
+    <oembed>${fields}</oembed>`.toString()
+}
+
+export async function onRequest(context) {
+  const {request, env} = context
+  const config = getConfig(env)
+  const agent = new AtpAgent({service: config.appviewUrl})
+  const requestUrl = new URL(request.url)
+  const origin = requestUrl.origin
+  const params = requestUrl.searchParams
+
+  const format = params.get('format') ?? 'json'
+  if (format !== 'json' && format !== 'xml') {
+    return new Response('format not supported', {status: 501})
+  }
+
+  let url: URL
+  try {
+    url = new URL(params.get('url') ?? '')
+  } catch {
+    return new Response('url is required', {status: 400})
+  }
+  if (!isSupportedUrl(url, origin)) {
+    return new Response('not found', {status: 404})
+  }
+
+  const maxWidth = Number(params.get('maxwidth') ?? MAX_WIDTH)
+  if (!Number.isFinite(maxWidth) || maxWidth < MIN_WIDTH) {
+    return new Response('not found', {status: 404})
+  }
+
+  try {
+    const oembed = await getOEmbed(
+      agent,
+      origin,
+      `${config.embedOrigin}/static/embed.js`,
+      url,
+      Math.min(maxWidth, MAX_WIDTH),
+    )
+    if (format === 'xml') {
+      return new Response(renderXml(oembed), {
+        headers: {'content-type': 'text/xml; charset=utf-8'},
+      })
+    }
+    return Response.json(oembed)
+  } catch (e) {
+    if (e instanceof OEmbedError) {
+      return new Response(e.message, {status: e.status})
+    }
+    console.error(e)
+    return new Response('not found', {status: 404})
+  }
+}
@@ -59,12 +59,80 @@ export const renderHandleString = (profile: AnyProfileView) =>
     ? `${profile.displayName} (@${profile.handle})`
     : `@${profile.handle}`
 
+type Env = {
+  APPVIEW_URL?: string
+  EMBED_ORIGIN?: string
+  OGCARD_URL?: string
+}
+
+function toUrl(name: string, value: string | undefined) {
+  if (!value) return
+  try {
+    return new URL(value).toString()
+  } catch {
+    throw new Error(`${name} must be a URL, got "${value}"`)
+  }
+}
+
+function toOrigin(name: string, value: string | undefined) {
+  const url = toUrl(name, value)
+  return url && new URL(url).origin
+}
+
+// Hosts a self-hosted deployment can override from the Pages environment,
+// defaulting to the ones the app uses.
+export function getConfig(env: Env) {
+  return {
+    appviewUrl:
+      toUrl('APPVIEW_URL', env.APPVIEW_URL) ?? 'https://public.api.bsky.app/',
+    embedOrigin:
+      toOrigin('EMBED_ORIGIN', env.EMBED_ORIGIN) ?? 'https://embed.bsky.app',
+    ogcardUrl: toUrl('OGCARD_URL', env.OGCARD_URL),
+  }
+}
+
+// Card images come from bskyogcard when `OGCARD_URL` points at a deployment
+// of it, otherwise the post's own images or the profile banner are used.
+export function getCardUrl(env: Env, path: string): string | undefined {
+  const {ogcardUrl} = getConfig(env)
+  if (!ogcardUrl) return
+  return `${ogcardUrl.replace(/\/$/, '')}/${path}`
+}
+
+export const renderCardMeta = (cardUrl: string) => html`
+  <meta property="og:image" content="${cardUrl}" />
+  <meta property="og:image:width" content="1200" />
+  <meta property="og:image:height" content="630" />
+  <meta name="twitter:card" content="summary_large_image" />
+`
+
+// Discovery links for the `/oembed` function, so consumers that speak oEmbed
+// can turn the page into the bskyembed iframe.
+export function renderOembedLinks(url: string) {
+  const {origin, pathname} = new URL(url)
+  const endpoint = `${origin}/oembed?url=${encodeURIComponent(
+    origin + pathname,
+  )}`
+  return html`
+    <link
+      rel="alternate"
+      type="application/json+oembed"
+      href="${endpoint}&format=json" />
+    <link
+      rel="alternate"
+      type="text/xml+oembed"
+      href="${endpoint}&format=xml" />
+  `
+}
+
 class HeadHandler {
   profile: PResp
   url: string
-  constructor(profile: PResp, url: string) {
+  cardUrl?: string
+  constructor(profile: PResp, url: string, cardUrl?: string) {
     this.profile = profile
     this.url = url
+    this.cardUrl = cardUrl
   }
   async element(element) {
     const view = this.profile.data
@@ -83,6 +151,7 @@ class HeadHandler {
       : view.avatar
       ? html`<meta name="twitter:card" content="summary" />`
       : ''
+    const imageElems = this.cardUrl ? renderCardMeta(this.cardUrl) : img
     element.append(
       html`
         <meta property="og:site_name" content="deer.social" />
@@ -90,12 +159,13 @@ class HeadHandler {
         <meta property="profile:username" content="${view.handle}" />
         <meta property="og:url" content="${this.url}" />
         <meta property="og:title" content="${renderHandleString(view)}" />
-        ${description} ${img}
+        ${description} ${imageElems}
         <meta name="twitter:label1" content="Account DID" />
         <meta name="twitter:value1" content="${view.did}" />
         <link
           rel="alternate"
           href="at://${view.did}/app.bsky.actor.profile/self" />
+        ${renderOembedLinks(this.url)}
       `,
       {html: true},
     )
@@ -136,8 +206,8 @@ class NoscriptHandler {
 }
 
 export async function onRequest(context) {
-  const agent = new AtpAgent({service: 'https://public.api.bsky.app/'})
   const {request, env} = context
+  const agent = new AtpAgent({service: getConfig(env).appviewUrl})
   const origin = new URL(request.url).origin
 
   const base = env.ASSETS.fetch(new URL('/', origin))
@@ -146,7 +216,14 @@ export async function onRequest(context) {
       actor: context.params.handleOrDID,
     })
     return new HTMLRewriter()
-      .on(`head`, new HeadHandler(profile, request.url))
+      .on(
+        `head`,
+        new HeadHandler(
+          profile,
+          request.url,
+          getCardUrl(env, `profile/${profile.data.did}`),
+        ),
+      )
       .on(`title`, new TitleHandler(profile))
       .on(`noscript`, new NoscriptHandler(profile))
       .transform(await base)
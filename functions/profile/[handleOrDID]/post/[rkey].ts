@@ -11,7 +11,14 @@ import {
 import {isViewRecord} from '@atproto/api/dist/client/types/app/bsky/embed/record'
 import {isThreadViewPost} from '@atproto/api/dist/client/types/app/bsky/feed/defs'
 
-import {html, renderHandleString} from '../../[handleOrDID].ts'
+import {
+  getCardUrl,
+  getConfig,
+  html,
+  renderCardMeta,
+  renderHandleString,
+  renderOembedLinks,
+} from '../../[handleOrDID].ts'
 
 type Thread = AppBskyFeedDefs.ThreadViewPost
 
@@ -109,10 +116,17 @@ class HeadHandler {
   thread: Thread
   url: string
   postTextString: string
-  constructor(thread: Thread, url: string, postTextString: string) {
+  cardUrl?: string
+  constructor(
+    thread: Thread,
+    url: string,
+    postTextString: string,
+    cardUrl?: string,
+  ) {
     this.thread = thread
     this.url = url
     this.postTextString = postTextString
+    this.cardUrl = cardUrl
   }
   async element(element) {
     const author = this.thread.post.author
@@ -141,6 +155,7 @@ class HeadHandler {
           <meta name="twitter:card" content="summary_large_image" />
         `
       : html`<meta name="twitter:card" content="summary" />`
+    const imageElems = this.cardUrl ? renderCardMeta(this.cardUrl) : embedElems
 
     element.append(
       html`
@@ -149,12 +164,13 @@ class HeadHandler {
         <meta property="profile:username" content="${author.handle}" />
         <meta property="og:url" content="${this.url}" />
         <meta property="og:title" content="${renderHandleString(author)}" />
-        ${postText} ${embedElems}
+        ${postText} ${imageElems}
         <meta name="twitter:label1" content="Account DID" />
         <meta name="twitter:value1" content="${author.did}" />
         <meta
           name="article:published_time"
           content="${this.thread.post.indexedAt}" />
+        ${renderOembedLinks(this.url)}
       `,
       {html: true},
     )
@@ -198,8 +214,8 @@ class NoscriptHandler {
 }
 
 export async function onRequest(context) {
-  const agent = new AtpAgent({service: 'https://public.api.bsky.app/'})
   const {request, env} = context
+  const agent = new AtpAgent({service: getConfig(env).appviewUrl})
   const origin = new URL(request.url).origin
   const {handleOrDID, rkey}: {handleOrDID: string; rkey: string} =
     context.params
@@ -215,8 +231,15 @@ export async function onRequest(context) {
       throw new Error('Expected a ThreadViewPost')
     }
     const postTextString = expandPostTextRich(data.thread)
+    const cardUrl = getCardUrl(
+      env,
+      `post/${data.thread.post.author.did}/${rkey}`,
+    )
     return new HTMLRewriter()
-      .on(`head`, new HeadHandler(data.thread, request.url, postTextString))
+      .on(
+        `head`,
+        new HeadHandler(data.thread, request.url, postTextString, cardUrl),
+      )
       .on(`title`, new TitleHandler(data.thread))
       .on(`noscript`, new NoscriptHandler(data.thread, postTextString))
       .transform(await base)
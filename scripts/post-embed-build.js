@@ -62,4 +62,20 @@ const embedPostHtmlDest = path.join(
 
 fs.copyFileSync(embedPostHtmlSource, embedPostHtmlDest)
 
+const embedFeedHtmlSource = path.join(
+  projectRoot,
+  'bskyembed',
+  'dist',
+  'feed.html',
+)
+
+const embedFeedHtmlDest = path.join(
+  projectRoot,
+  'bskyweb',
+  'embedr-templates',
+  'feedEmbed.html',
+)
+
+fs.copyFileSync(embedFeedHtmlSource, embedFeedHtmlDest)
+
 console.log(`Copied embed assets to embedr`)
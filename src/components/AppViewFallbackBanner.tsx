@@ -0,0 +1,42 @@
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {
+  resetAppViewFallback,
+  useAppViewFallbackActive,
+} from '#/state/preferences/custom-appview-did'
+import {atoms as a} from '#/alf'
+import * as Admonition from '#/components/Admonition'
+import {ButtonText} from '#/components/Button'
+
+/**
+ * Shown while the custom AppView has been switched off after repeated
+ * failures, with a way to go back to it.
+ */
+export function AppViewFallbackBanner() {
+  const {_} = useLingui()
+  const fallbackActive = useAppViewFallbackActive()
+
+  if (!fallbackActive) return null
+
+  return (
+    <Admonition.Outer type="warning" style={[a.mx_sm, a.my_xs]}>
+      <Admonition.Row>
+        <Admonition.Icon />
+        <Admonition.Text>
+          <Trans>
+            Your AppView isn't responding, so the default AppView is being used
+            for now.
+          </Trans>
+        </Admonition.Text>
+        <Admonition.Button
+          label={_(msg`Try your AppView again`)}
+          onPress={resetAppViewFallback}>
+          <ButtonText>
+            <Trans>Try again</Trans>
+          </ButtonText>
+        </Admonition.Button>
+      </Admonition.Row>
+    </Admonition.Outer>
+  )
+}
@@ -0,0 +1,44 @@
+import {type StyleProp, type ViewStyle} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {niceDate} from '#/lib/strings/time'
+import * as Admonition from '#/components/Admonition'
+import {ButtonText} from '#/components/Button'
+
+/**
+ * Shown above content served from the offline cache, saying how old it is.
+ * The content refreshes by itself once the network is back, the button is
+ * there for when it doesn't come back on its own.
+ */
+export function OfflineCacheBanner({
+  cachedAt,
+  onRetry,
+  style,
+}: {
+  cachedAt: Date | undefined
+  onRetry: () => void
+  style?: StyleProp<ViewStyle>
+}) {
+  const {_, i18n} = useLingui()
+
+  if (!cachedAt) return null
+
+  const date = niceDate(i18n, cachedAt)
+
+  return (
+    <Admonition.Outer type="info" style={style}>
+      <Admonition.Row>
+        <Admonition.Icon />
+        <Admonition.Text>
+          <Trans>You're offline. Showing posts cached as of {date}.</Trans>
+        </Admonition.Text>
+        <Admonition.Button label={_(msg`Try loading again`)} onPress={onRetry}>
+          <ButtonText>
+            <Trans>Retry</Trans>
+          </ButtonText>
+        </Admonition.Button>
+      </Admonition.Row>
+    </Admonition.Outer>
+  )
+}
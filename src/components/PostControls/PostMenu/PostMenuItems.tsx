@@ -1,4 +1,4 @@
-import {memo, useCallback, useMemo} from 'react'
+import {memo, useCallback, useMemo, useState} from 'react'
 import {
   Platform,
   type PressableProps,
@@ -22,6 +22,7 @@ import {useNavigation} from '@react-navigation/native'
 
 import {IS_INTERNAL} from '#/lib/app-info'
 import {DISCOVER_DEBUG_DIDS} from '#/lib/constants'
+import {useOpenComposer} from '#/lib/hooks/useOpenComposer'
 import {useOpenLink} from '#/lib/hooks/useOpenLink'
 import {saveVideoToMediaLibrary} from '#/lib/media/manip'
 import {downloadVideoWeb} from '#/lib/media/manip.web'
@@ -55,7 +56,7 @@ import {
 } from '#/state/queries/profile'
 import {resolvePdsServiceUrl} from '#/state/queries/resolve-identity'
 import {useToggleReplyVisibilityMutation} from '#/state/queries/threadgate'
-import {useRequireAuth, useSession} from '#/state/session'
+import {useAgent, useRequireAuth, useSession} from '#/state/session'
 import {useMergedThreadgateHiddenReplies} from '#/state/threadgate-hidden-replies'
 import * as Toast from '#/view/com/util/Toast'
 import {useDialogControl} from '#/components/Dialog'
@@ -77,6 +78,7 @@ import {EyeSlash_Stroke2_Corner0_Rounded as EyeSlash} from '#/components/icons/E
 import {Filter_Stroke2_Corner0_Rounded as Filter} from '#/components/icons/Filter'
 import {Mute_Stroke2_Corner0_Rounded as MuteIcon} from '#/components/icons/Mute'
 import {Mute_Stroke2_Corner0_Rounded as Mute} from '#/components/icons/Mute'
+import {Pencil_Stroke2_Corner0_Rounded as Pencil} from '#/components/icons/Pencil'
 import {PersonX_Stroke2_Corner0_Rounded as PersonX} from '#/components/icons/Person'
 import {Pin_Stroke2_Corner0_Rounded as PinIcon} from '#/components/icons/Pin'
 import {SettingsGear2_Stroke2_Corner0_Rounded as Gear} from '#/components/icons/SettingsGear2'
@@ -91,6 +93,7 @@ import {
   useReportDialogControl,
 } from '#/components/moderation/ReportDialog'
 import * as Prompt from '#/components/Prompt'
+import {canEditPost, prepareEditPost} from '#/maxine/edit-post'
 import * as bsky from '#/types/bsky'
 
 let PostMenuItems = ({
@@ -116,6 +119,8 @@ let PostMenuItems = ({
   onShowLess?: (interaction: AppBskyFeedDefs.Interaction) => void
 }): React.ReactNode => {
   const {hasSession, currentAccount} = useSession()
+  const agent = useAgent()
+  const {openComposer} = useOpenComposer()
   const {_} = useLingui()
   const langPrefs = useLanguagePrefs()
   const {mutateAsync: deletePostMutate} = usePostDeleteMutation()
@@ -164,6 +169,8 @@ let PostMenuItems = ({
   const isReplyHiddenByThreadgate = threadgateHiddenReplies.has(postUri)
   const isPinned = post.viewer?.pinned
 
+  const [isEditPending, setIsEditPending] = useState(false)
+
   const {mutateAsync: toggleQuoteDetachment, isPending: isDetachPending} =
     useToggleQuoteDetachmentMutation()
 
@@ -213,6 +220,21 @@ let PostMenuItems = ({
     )
   }
 
+  const onEditPost = async () => {
+    setIsEditPending(true)
+    try {
+      const opts = await prepareEditPost(agent, post)
+      if (opts) {
+        openComposer(opts)
+      }
+    } catch (e: any) {
+      logger.error('Failed to open post for editing', {message: e})
+      Toast.show(_(msg`Couldn't open this post for editing`), 'xmark')
+    } finally {
+      setIsEditPending(false)
+    }
+  }
+
   const onToggleThreadMute = () => {
     try {
       if (isThreadMuted) {
@@ -737,6 +759,19 @@ let PostMenuItems = ({
 
               {isAuthor && (
                 <>
+                  {canEditPost(post) && (
+                    <Menu.Item
+                      testID="postDropdownEditBtn"
+                      label={_(msg`Edit post`)}
+                      disabled={isEditPending}
+                      onPress={onEditPost}>
+                      <Menu.ItemText>{_(msg`Edit post`)}</Menu.ItemText>
+                      <Menu.ItemIcon
+                        icon={isEditPending ? Loader : Pencil}
+                        position="right"
+                      />
+                    </Menu.Item>
+                  )}
                   <Menu.Item
                     testID="postDropdownEditPostInteractions"
                     label={_(msg`Edit interaction settings`)}
@@ -195,6 +195,7 @@ let PostControls = ({
   const agent = useAgent()
   async function onBookmark() {
     if (isBookmarked) {
+      setIsBookmarked(false)
       return
     }
 
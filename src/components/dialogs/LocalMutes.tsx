@@ -0,0 +1,570 @@
+import React from 'react'
+import {View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {nanoid} from 'nanoid/non-secure'
+
+import {
+  isLocalMuteExpired,
+  isValidLocalMuteRegex,
+} from '#/lib/moderation/local-mutes'
+import {isNative} from '#/platform/detection'
+import {type LocalMuteRule} from '#/state/persisted/schema'
+import {
+  useLocalMuteRules,
+  useLocalMuteRulesApi,
+} from '#/state/preferences/local-mutes'
+import {
+  atoms as a,
+  native,
+  useBreakpoints,
+  useTheme,
+  type ViewStyleProp,
+  web,
+} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {Divider} from '#/components/Divider'
+import * as Toggle from '#/components/forms/Toggle'
+import {useFormatDistance} from '#/components/hooks/dates'
+import {PlusLarge_Stroke2_Corner0_Rounded as Plus} from '#/components/icons/Plus'
+import {TimesLarge_Stroke2_Corner0_Rounded as X} from '#/components/icons/Times'
+import * as Prompt from '#/components/Prompt'
+import {Text} from '#/components/Typography'
+
+const ONE_DAY = 24 * 60 * 60 * 1000
+
+type Context = LocalMuteRule['contexts'][number]
+type Target = LocalMuteRule['targets'][number]
+
+export function LocalMutesDialog({
+  control,
+}: {
+  control: Dialog.DialogControlProps
+}) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <LocalMutesInner />
+    </Dialog.Outer>
+  )
+}
+
+function LocalMutesInner() {
+  const t = useTheme()
+  const {_} = useLingui()
+  const rules = useLocalMuteRules()
+  const {saveLocalMuteRule} = useLocalMuteRulesApi()
+  const [field, setField] = React.useState('')
+  const [types, setTypes] = React.useState(['phrase'])
+  const [durations, setDurations] = React.useState(['forever'])
+  const [contexts, setContexts] = React.useState<string[]>([
+    'feeds',
+    'threads',
+    'notifications',
+  ])
+  const [targets, setTargets] = React.useState<string[]>([])
+  const [nonFollowedOnly, setNonFollowedOnly] = React.useState(false)
+  const [error, setError] = React.useState('')
+
+  const submit = React.useCallback(() => {
+    const value = field.trim()
+    const type = types[0] === 'regex' ? 'regex' : 'phrase'
+
+    if (!value) {
+      setError(_(msg`Please enter a phrase or regular expression to mute`))
+      return
+    }
+    if (type === 'regex' && !isValidLocalMuteRegex(value)) {
+      setError(_(msg`That isn't a valid regular expression`))
+      return
+    }
+    if (!contexts.length) {
+      setError(_(msg`Choose at least one place to apply this rule`))
+      return
+    }
+
+    const now = Date.now()
+    const rawDuration = durations.at(0)
+    // undefined evaluates to 'forever'
+    let expiresAt: string | undefined
+
+    if (rawDuration === '24_hours') {
+      expiresAt = new Date(now + ONE_DAY).toISOString()
+    } else if (rawDuration === '7_days') {
+      expiresAt = new Date(now + 7 * ONE_DAY).toISOString()
+    } else if (rawDuration === '30_days') {
+      expiresAt = new Date(now + 30 * ONE_DAY).toISOString()
+    }
+
+    saveLocalMuteRule({
+      id: nanoid(),
+      type,
+      value,
+      contexts: contexts as Context[],
+      targets: targets as Target[],
+      nonFollowedOnly,
+      expiresAt,
+    })
+    setField('')
+  }, [
+    _,
+    field,
+    types,
+    durations,
+    contexts,
+    targets,
+    nonFollowedOnly,
+    saveLocalMuteRule,
+  ])
+
+  return (
+    <Dialog.ScrollableInner label={_(msg`Manage your local mute rules`)}>
+      <View>
+        <Text
+          style={[a.text_md, a.font_bold, a.pb_sm, t.atoms.text_contrast_high]}>
+          <Trans>Add local mute rules</Trans>
+        </Text>
+        <Text style={[a.pb_lg, a.leading_snug, t.atoms.text_contrast_medium]}>
+          <Trans>
+            These rules stay on this device and work alongside your muted words.
+            Posts they match are collapsed, and you can always tap to see which
+            rule hid them.
+          </Trans>
+        </Text>
+
+        <View style={[a.pb_sm]}>
+          <Dialog.Input
+            autoCorrect={false}
+            autoCapitalize="none"
+            autoComplete="off"
+            label={_(msg`Enter a phrase or regular expression`)}
+            placeholder={
+              types[0] === 'regex'
+                ? _(msg`Enter a regular expression`)
+                : _(msg`Enter a phrase`)
+            }
+            value={field}
+            onChangeText={value => {
+              if (error) {
+                setError('')
+              }
+              setField(value)
+            }}
+            onSubmitEditing={submit}
+          />
+        </View>
+
+        <View style={[a.pb_xl, a.gap_sm]}>
+          <ChoiceGroup
+            type="radio"
+            title={_(msg`Match:`)}
+            label={_(msg`Select how this rule matches posts`)}
+            values={types}
+            onChange={setTypes}
+            choices={[
+              {
+                name: 'phrase',
+                label: _(msg`Whole phrase`),
+                a11yLabel: _(msg`Match the whole phrase, ignoring case`),
+              },
+              {
+                name: 'regex',
+                label: _(msg`Regular expression`),
+                a11yLabel: _(msg`Match a case-insensitive regular expression`),
+              },
+            ]}
+          />
+
+          <ChoiceGroup
+            type="radio"
+            title={_(msg`Duration:`)}
+            label={_(msg`Select how long to keep this rule for`)}
+            values={durations}
+            onChange={setDurations}
+            choices={[
+              {
+                name: 'forever',
+                label: _(msg`Forever`),
+                a11yLabel: _(msg`Keep this rule until you remove it`),
+              },
+              {
+                name: '24_hours',
+                label: _(msg`24 hours`),
+                a11yLabel: _(msg`Keep this rule for 24 hours`),
+              },
+              {
+                name: '7_days',
+                label: _(msg`7 days`),
+                a11yLabel: _(msg`Keep this rule for 7 days`),
+              },
+              {
+                name: '30_days',
+                label: _(msg`30 days`),
+                a11yLabel: _(msg`Keep this rule for 30 days`),
+              },
+            ]}
+          />
+
+          <ChoiceGroup
+            type="checkbox"
+            title={_(msg`Apply in:`)}
+            label={_(msg`Select where this rule applies`)}
+            values={contexts}
+            onChange={setContexts}
+            choices={[
+              {
+                name: 'feeds',
+                label: _(msg`Feeds`),
+                a11yLabel: _(msg`Apply this rule in feeds`),
+              },
+              {
+                name: 'threads',
+                label: _(msg`Threads`),
+                a11yLabel: _(msg`Apply this rule to thread replies`),
+              },
+              {
+                name: 'notifications',
+                label: _(msg`Notifications`),
+                a11yLabel: _(msg`Apply this rule to notifications`),
+              },
+            ]}
+          />
+
+          <ChoiceGroup
+            type="checkbox"
+            title={_(msg`Also check:`)}
+            label={_(msg`Select what else this rule checks besides post text`)}
+            values={targets}
+            onChange={setTargets}
+            choices={[
+              {
+                name: 'altText',
+                label: _(msg`Alt text`),
+                a11yLabel: _(msg`Also check image and video alt text`),
+              },
+              {
+                name: 'linkTitles',
+                label: _(msg`Link titles`),
+                a11yLabel: _(msg`Also check link card titles`),
+              },
+              {
+                name: 'quotedPosts',
+                label: _(msg`Quoted posts`),
+                a11yLabel: _(msg`Also check the text of quoted posts`),
+              },
+            ]}
+          />
+
+          <View>
+            <Text
+              style={[
+                a.pb_xs,
+                a.text_sm,
+                a.font_bold,
+                t.atoms.text_contrast_medium,
+              ]}>
+              <Trans>Options:</Trans>
+            </Text>
+            <Toggle.Item
+              label={_(msg`Only apply this rule to users you don't follow`)}
+              name="non_followed_only"
+              style={[a.flex_row, a.justify_between]}
+              value={nonFollowedOnly}
+              onChange={setNonFollowedOnly}>
+              <ChoiceToggle>
+                <View style={[a.flex_1, a.flex_row, a.align_center, a.gap_sm]}>
+                  <Toggle.Checkbox />
+                  <Toggle.LabelText style={[a.flex_1, a.leading_tight]}>
+                    <Trans>Only from users you don't follow</Trans>
+                  </Toggle.LabelText>
+                </View>
+              </ChoiceToggle>
+            </Toggle.Item>
+          </View>
+
+          <View style={[a.pt_xs]}>
+            <Button
+              disabled={!field}
+              label={_(msg`Add local mute rule with chosen settings`)}
+              size="large"
+              color="primary"
+              variant="solid"
+              onPress={submit}>
+              <ButtonText>
+                <Trans>Add</Trans>
+              </ButtonText>
+              <ButtonIcon icon={Plus} position="right" />
+            </Button>
+          </View>
+
+          {error && (
+            <View
+              style={[
+                a.mb_lg,
+                a.flex_row,
+                a.rounded_sm,
+                a.p_md,
+                a.mb_xs,
+                {
+                  backgroundColor: t.palette.negative_400,
+                },
+              ]}>
+              <Text
+                style={[
+                  a.italic,
+                  {color: t.palette.white},
+                  native({marginTop: 2}),
+                ]}>
+                {error}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <Divider />
+
+        <View style={[a.pt_2xl]}>
+          <Text
+            style={[
+              a.text_md,
+              a.font_bold,
+              a.pb_md,
+              t.atoms.text_contrast_high,
+            ]}>
+            <Trans>Your local mute rules</Trans>
+          </Text>
+
+          {rules.length ? (
+            [...rules]
+              .reverse()
+              .map((rule, i) => (
+                <LocalMuteRow
+                  key={rule.id}
+                  rule={rule}
+                  style={[i % 2 === 0 && t.atoms.bg_contrast_25]}
+                />
+              ))
+          ) : (
+            <View
+              style={[a.py_md, a.px_lg, a.rounded_md, t.atoms.bg_contrast_25]}>
+              <Text style={[a.italic, t.atoms.text_contrast_high]}>
+                <Trans>You haven't added any local mute rules yet</Trans>
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {isNative && <View style={{height: 20}} />}
+      </View>
+
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
+
+function ChoiceGroup({
+  type,
+  title,
+  label,
+  values,
+  onChange,
+  choices,
+}: {
+  type: 'radio' | 'checkbox'
+  title: string
+  label: string
+  values: string[]
+  onChange: (values: string[]) => void
+  choices: {name: string; label: string; a11yLabel: string}[]
+}) {
+  const t = useTheme()
+  const {gtMobile} = useBreakpoints()
+  return (
+    <Toggle.Group label={label} type={type} values={values} onChange={onChange}>
+      <Text
+        style={[a.pb_xs, a.text_sm, a.font_bold, t.atoms.text_contrast_medium]}>
+        {title}
+      </Text>
+
+      <View
+        style={[
+          a.flex_row,
+          a.align_center,
+          a.gap_sm,
+          a.flex_wrap,
+          !gtMobile && a.flex_col,
+        ]}>
+        {choices.map(choice => (
+          <Toggle.Item
+            key={choice.name}
+            label={choice.a11yLabel}
+            name={choice.name}
+            style={[a.flex_1, !gtMobile && a.w_full]}>
+            <ChoiceToggle>
+              <View style={[a.flex_1, a.flex_row, a.align_center, a.gap_sm]}>
+                {type === 'radio' ? <Toggle.Radio /> : <Toggle.Checkbox />}
+                <Toggle.LabelText style={[a.flex_1, a.leading_tight]}>
+                  {choice.label}
+                </Toggle.LabelText>
+              </View>
+            </ChoiceToggle>
+          </Toggle.Item>
+        ))}
+      </View>
+    </Toggle.Group>
+  )
+}
+
+function LocalMuteRow({style, rule}: ViewStyleProp & {rule: LocalMuteRule}) {
+  const t = useTheme()
+  const {_} = useLingui()
+  const {removeLocalMuteRule} = useLocalMuteRulesApi()
+  const control = Prompt.usePromptControl()
+  const expiryDate = rule.expiresAt ? new Date(rule.expiresAt) : undefined
+  const isExpired = isLocalMuteExpired(rule)
+  const formatDistance = useFormatDistance()
+
+  const contextNames: Record<Context, string> = {
+    feeds: _(msg`feeds`),
+    threads: _(msg`threads`),
+    notifications: _(msg`notifications`),
+  }
+  const targetNames: Record<Target, string> = {
+    altText: _(msg`alt text`),
+    linkTitles: _(msg`link titles`),
+    quotedPosts: _(msg`quoted posts`),
+  }
+  const contextList = rule.contexts.map(c => contextNames[c]).join(', ')
+
+  return (
+    <>
+      <Prompt.Basic
+        control={control}
+        title={_(msg`Are you sure?`)}
+        description={_(
+          msg`This will delete "${rule.value}" from your local mute rules. You can always add it back later.`,
+        )}
+        onConfirm={() => removeLocalMuteRule(rule.id)}
+        confirmButtonCta={_(msg`Remove`)}
+        confirmButtonColor="negative"
+      />
+
+      <View
+        style={[
+          a.flex_row,
+          a.justify_between,
+          a.py_md,
+          a.px_lg,
+          a.rounded_md,
+          a.gap_md,
+          style,
+        ]}>
+        <View style={[a.flex_1, a.gap_xs]}>
+          <Text
+            style={[
+              a.flex_1,
+              a.leading_snug,
+              a.font_bold,
+              rule.type === 'regex' && {fontFamily: 'monospace'},
+              web({
+                overflowWrap: 'break-word',
+                wordBreak: 'break-word',
+              }),
+            ]}>
+            {rule.type === 'regex' ? `/${rule.value}/` : rule.value}{' '}
+            <Text style={[a.font_normal, t.atoms.text_contrast_medium]}>
+              <Trans comment="Pattern: {rule} in feeds, threads">
+                in{' '}
+                <Text style={[a.font_bold, t.atoms.text_contrast_medium]}>
+                  {contextList}
+                </Text>
+              </Trans>
+            </Text>
+          </Text>
+
+          <Text
+            style={[
+              a.flex_1,
+              a.text_xs,
+              a.leading_snug,
+              t.atoms.text_contrast_medium,
+            ]}>
+            {rule.targets.length ? (
+              <Trans>
+                Also checks{' '}
+                {rule.targets.map(target => targetNames[target]).join(', ')}
+              </Trans>
+            ) : (
+              <Trans>Checks post text only</Trans>
+            )}
+            {expiryDate && (
+              <>
+                {' • '}
+                {isExpired ? (
+                  <Trans>Expired</Trans>
+                ) : (
+                  <Trans>
+                    Expires{' '}
+                    {formatDistance(expiryDate, new Date(), {
+                      addSuffix: true,
+                    })}
+                  </Trans>
+                )}
+              </>
+            )}
+            {rule.nonFollowedOnly && (
+              <>
+                {' • '}
+                <Trans>Excludes users you follow</Trans>
+              </>
+            )}
+          </Text>
+        </View>
+
+        <Button
+          label={_(msg`Remove local mute rule`)}
+          size="tiny"
+          shape="round"
+          variant="outline"
+          color="secondary"
+          onPress={() => control.open()}
+          style={[a.ml_sm]}>
+          <ButtonIcon icon={X} />
+        </Button>
+      </View>
+    </>
+  )
+}
+
+function ChoiceToggle({children}: React.PropsWithChildren<{}>) {
+  const t = useTheme()
+  const ctx = Toggle.useItemContext()
+  const {gtMobile} = useBreakpoints()
+  return (
+    <View
+      style={[
+        a.flex_row,
+        a.align_center,
+        a.justify_between,
+        a.gap_xs,
+        a.flex_1,
+        a.py_sm,
+        a.px_sm,
+        gtMobile && a.px_md,
+        a.rounded_sm,
+        t.atoms.bg_contrast_25,
+        (ctx.hovered || ctx.focused) && t.atoms.bg_contrast_50,
+        ctx.selected && [
+          {
+            backgroundColor: t.palette.primary_50,
+          },
+        ],
+        ctx.disabled && {
+          opacity: 0.8,
+        },
+      ]}>
+      {children}
+    </View>
+  )
+}
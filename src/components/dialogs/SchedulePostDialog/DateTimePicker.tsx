@@ -0,0 +1,34 @@
+import {View} from 'react-native'
+import DatePicker from 'react-native-date-picker'
+import {useLingui} from '@lingui/react'
+
+import {atoms as a, useTheme} from '#/alf'
+import {type DateTimePickerProps} from './types'
+
+export function DateTimePicker({
+  value,
+  onChange,
+  label,
+  accessibilityHint,
+  minimumDate,
+}: DateTimePickerProps) {
+  const {i18n} = useLingui()
+  const t = useTheme()
+
+  return (
+    <View style={[a.relative, a.w_full, a.align_center]}>
+      <DatePicker
+        theme={t.scheme}
+        date={value}
+        onDateChange={onChange}
+        mode="datetime"
+        locale={i18n.locale}
+        minimumDate={minimumDate}
+        minuteInterval={5}
+        aria-label={label}
+        accessibilityLabel={label}
+        accessibilityHint={accessibilityHint}
+      />
+    </View>
+  )
+}
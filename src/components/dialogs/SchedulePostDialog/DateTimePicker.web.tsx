@@ -0,0 +1,70 @@
+import React from 'react'
+import {StyleSheet, type TextInput, type TextInputProps} from 'react-native'
+// @ts-expect-error untyped
+import {unstable_createElement} from 'react-native-web'
+
+import * as TextField from '#/components/forms/TextField'
+import {CalendarClock_Stroke2_Corner0_Rounded as CalendarClock} from '#/components/icons/CalendarClock'
+import {type DateTimePickerProps} from './types'
+
+const InputBase = React.forwardRef<HTMLInputElement, TextInputProps>(
+  ({style, ...props}, ref) => {
+    return unstable_createElement('input', {
+      ...props,
+      ref,
+      type: 'datetime-local',
+      style: [
+        StyleSheet.flatten(style),
+        {
+          background: 'transparent',
+          border: 0,
+        },
+      ],
+    })
+  },
+)
+
+InputBase.displayName = 'InputBase'
+
+const Input = TextField.createInput(InputBase as unknown as typeof TextInput)
+
+// <input type="datetime-local"> works in local time, without a timezone
+function toLocalDateTimeString(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  )
+}
+
+export function DateTimePicker({
+  value,
+  onChange,
+  label,
+  accessibilityHint,
+  minimumDate,
+}: DateTimePickerProps) {
+  const handleOnChange = React.useCallback(
+    (e: any) => {
+      const date = new Date(e.target.value)
+      if (!isNaN(date.getTime())) {
+        onChange(date)
+      }
+    },
+    [onChange],
+  )
+
+  return (
+    <TextField.Root>
+      <TextField.Icon icon={CalendarClock} />
+      <Input
+        value={toLocalDateTimeString(value)}
+        label={label}
+        accessibilityHint={accessibilityHint}
+        onChange={handleOnChange}
+        // @ts-expect-error not typed as <input type="datetime-local"> even though it is one
+        min={minimumDate ? toLocalDateTimeString(minimumDate) : undefined}
+      />
+    </TextField.Root>
+  )
+}
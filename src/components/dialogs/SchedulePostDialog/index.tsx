@@ -0,0 +1,138 @@
+import {useState} from 'react'
+import {View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {atoms as a, useTheme, web} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {Button, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {Text} from '#/components/Typography'
+import {DateTimePicker} from './DateTimePicker'
+
+const HOUR = 60 * 60 * 1000
+
+function roundUpToFiveMinutes(time: number) {
+  const step = 5 * 60 * 1000
+  return new Date(Math.ceil(time / step) * step)
+}
+
+function tomorrowMorning() {
+  const date = new Date()
+  date.setDate(date.getDate() + 1)
+  date.setHours(9, 0, 0, 0)
+  return date
+}
+
+export function SchedulePostDialog({
+  control,
+  initialDate,
+  onSchedule,
+}: {
+  control: Dialog.DialogControlProps
+  initialDate?: Date
+  onSchedule: (publishAt: Date) => void
+}) {
+  return (
+    <Dialog.Outer control={control} nativeOptions={{preventExpansion: true}}>
+      <Dialog.Handle />
+      <SchedulePostDialogInner
+        initialDate={initialDate}
+        onSchedule={onSchedule}
+      />
+    </Dialog.Outer>
+  )
+}
+
+function SchedulePostDialogInner({
+  initialDate,
+  onSchedule,
+}: {
+  initialDate?: Date
+  onSchedule: (publishAt: Date) => void
+}) {
+  const t = useTheme()
+  const {_, i18n} = useLingui()
+  const control = Dialog.useDialogContext()
+  const [date, setDate] = useState(
+    () => initialDate ?? roundUpToFiveMinutes(Date.now() + HOUR),
+  )
+  const isInPast = date.getTime() <= Date.now()
+
+  const presets = [
+    {label: _(msg`In 1 hour`), date: roundUpToFiveMinutes(Date.now() + HOUR)},
+    {label: _(msg`Tomorrow at 9:00`), date: tomorrowMorning()},
+    {
+      label: _(msg`In 1 week`),
+      date: roundUpToFiveMinutes(Date.now() + 7 * 24 * HOUR),
+    },
+  ]
+
+  return (
+    <Dialog.ScrollableInner
+      label={_(msg`Schedule post`)}
+      style={web([{maxWidth: 420}, a.w_full])}>
+      <View style={[a.gap_lg]}>
+        <View style={[a.gap_sm]}>
+          <Text style={[a.text_2xl, a.font_bold]}>
+            <Trans>Schedule post</Trans>
+          </Text>
+          <Text style={[t.atoms.text_contrast_medium, a.leading_snug]}>
+            <Trans>
+              Your post is published from this device, the next time the app is
+              open at or after the time you pick.
+            </Trans>
+          </Text>
+        </View>
+
+        <View style={[a.flex_row, a.flex_wrap, a.gap_sm]}>
+          {presets.map(preset => (
+            <Button
+              key={preset.label}
+              label={preset.label}
+              size="small"
+              variant="solid"
+              color="secondary"
+              onPress={() => setDate(preset.date)}>
+              <ButtonText>{preset.label}</ButtonText>
+            </Button>
+          ))}
+        </View>
+
+        <DateTimePicker
+          value={date}
+          onChange={setDate}
+          label={_(msg`Publish time`)}
+          accessibilityHint={_(msg`Choose when to publish this post`)}
+          minimumDate={new Date()}
+        />
+
+        {isInPast ? (
+          <Admonition type="error">
+            <Trans>Pick a time in the future.</Trans>
+          </Admonition>
+        ) : (
+          <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+            <Trans>
+              Publishes{' '}
+              {i18n.date(date, {dateStyle: 'full', timeStyle: 'short'})}
+            </Trans>
+          </Text>
+        )}
+
+        <Button
+          label={_(msg`Schedule`)}
+          size="large"
+          variant="solid"
+          color="primary"
+          disabled={isInPast}
+          onPress={() => control.close(() => onSchedule(date))}>
+          <ButtonText>
+            <Trans>Schedule</Trans>
+          </ButtonText>
+        </Button>
+      </View>
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
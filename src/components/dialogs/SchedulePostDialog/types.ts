@@ -0,0 +1,7 @@
+export type DateTimePickerProps = {
+  value: Date
+  onChange: (date: Date) => void
+  label: string
+  accessibilityHint?: string
+  minimumDate?: Date
+}
@@ -0,0 +1,68 @@
+import React from 'react'
+import {type StyleProp, View, type ViewStyle} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {type LocalMuteRule} from '#/state/persisted/schema'
+import {atoms as a, useTheme} from '#/alf'
+import {Button} from '#/components/Button'
+import {EyeSlash_Stroke2_Corner0_Rounded as EyeSlash} from '#/components/icons/EyeSlash'
+import {Text} from '#/components/Typography'
+
+/**
+ * Stands in for content matched by a local mute rule, naming the rule and
+ * letting the user reveal the content anyway.
+ */
+export function LocalMuteHider({
+  rule,
+  style,
+  children,
+}: React.PropsWithChildren<{
+  rule: LocalMuteRule | undefined
+  style?: StyleProp<ViewStyle>
+}>) {
+  const t = useTheme()
+  const {_} = useLingui()
+  const [override, setOverride] = React.useState(false)
+
+  if (!rule || override) {
+    return <>{children}</>
+  }
+
+  return (
+    <Button
+      label={_(msg`Show content hidden by your mute rule`)}
+      accessibilityHint={_(msg`Shows the content`)}
+      onPress={e => {
+        e.preventDefault()
+        e.stopPropagation()
+        setOverride(true)
+      }}
+      style={style}>
+      {({hovered, pressed}) => (
+        <View
+          style={[
+            a.flex_1,
+            a.flex_row,
+            a.align_center,
+            a.gap_sm,
+            a.py_md,
+            a.px_md,
+            a.rounded_sm,
+            t.atoms.bg_contrast_25,
+            (hovered || pressed) && t.atoms.bg_contrast_50,
+          ]}>
+          <EyeSlash size="sm" fill={t.atoms.text_contrast_medium.color} />
+          <Text
+            style={[a.flex_1, a.leading_snug, t.atoms.text_contrast_medium]}
+            numberOfLines={1}>
+            <Trans>Hidden by your mute rule “{rule.value}”</Trans>
+          </Text>
+          <Text style={[a.font_bold, {color: t.palette.primary_500}]}>
+            <Trans>Show</Trans>
+          </Text>
+        </View>
+      )}
+    </Button>
+  )
+}
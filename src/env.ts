@@ -5,7 +5,45 @@ export const LOG_LEVEL = (process.env.EXPO_PUBLIC_LOG_LEVEL || 'info') as
   | 'warn'
   | 'error'
 
-export const ENV_PUBLIC_BSKY_SERVICE: string | undefined =
-  process.env.EXPO_PUBLIC_PUBLIC_BSKY_SERVICE
+export const ENV_PUBLIC_BSKY_SERVICE = url(
+  'EXPO_PUBLIC_PUBLIC_BSKY_SERVICE',
+  process.env.EXPO_PUBLIC_PUBLIC_BSKY_SERVICE,
+)
 export const ENV_APPVIEW_DID_PROXY: `did:${string}#bsky_appview` | undefined =
   process.env.EXPO_PUBLIC_APPVIEW_DID_PROXY
+
+function origin(name: string, value: string | undefined) {
+  if (!value) return undefined
+  try {
+    return new URL(value).origin
+  } catch {
+    throw new Error(`${name} must be a URL, got "${value}"`)
+  }
+}
+
+function url(name: string, value: string | undefined) {
+  if (!value) return undefined
+  try {
+    new URL(value)
+  } catch {
+    throw new Error(`${name} must be a URL, got "${value}"`)
+  }
+  return value
+}
+
+// Where links, embeds and link cards point, for deployments that don't use
+// the deer.social and bsky.app hosts.
+export const ENV_APP_ORIGIN = origin(
+  'EXPO_PUBLIC_APP_ORIGIN',
+  process.env.EXPO_PUBLIC_APP_ORIGIN,
+)
+export const ENV_EMBED_ORIGIN = origin(
+  'EXPO_PUBLIC_EMBED_ORIGIN',
+  process.env.EXPO_PUBLIC_EMBED_ORIGIN,
+)
+export const ENV_LINK_META_PROXY = url(
+  'EXPO_PUBLIC_LINK_META_PROXY',
+  process.env.EXPO_PUBLIC_LINK_META_PROXY,
+)
+export const ENV_CONSTELLATION_USER_AGENT: string | undefined =
+  process.env.EXPO_PUBLIC_CONSTELLATION_USER_AGENT
@@ -1,11 +1,22 @@
 import {
   type AppBskyActorDefs,
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
   AppBskyEmbedRecord,
   AppBskyEmbedRecordWithMedia,
+  AppBskyEmbedVideo,
   AppBskyFeedDefs,
   AppBskyFeedPost,
+  AppBskyRichtextFacet,
+  AtUri,
 } from '@atproto/api'
+import {TID} from '@atproto/common-web'
 
+import {
+  findLocalMute,
+  type LocalMuteMatcher,
+} from '#/lib/moderation/local-mutes'
+import {type LocalMuteRule} from '#/state/persisted/schema'
 import * as bsky from '#/types/bsky'
 import {isPostInLanguage} from '../../locale/helpers'
 import {FALLBACK_MARKER_POST} from './feed/home'
@@ -25,6 +36,7 @@ type FeedSliceItem = {
   parentAuthor: AppBskyActorDefs.ProfileViewBasic | undefined
   isParentBlocked: boolean
   isParentNotFound: boolean
+  localMute?: LocalMuteRule
 }
 
 type AuthorContext = {
@@ -170,6 +182,17 @@ export class FeedViewPostsSlice {
     )
   }
 
+  get hasMedia() {
+    const embed = this._feedPost.post.embed
+    return (
+      AppBskyEmbedImages.isView(embed) ||
+      AppBskyEmbedVideo.isView(embed) ||
+      (AppBskyEmbedRecordWithMedia.isView(embed) &&
+        (AppBskyEmbedImages.isView(embed.media) ||
+          AppBskyEmbedVideo.isView(embed.media)))
+    )
+  }
+
   get isReply() {
     return (
       AppBskyFeedPost.isRecord(this._feedPost.post.record) &&
@@ -234,6 +257,8 @@ export class FeedTuner {
   seenKeys: Set<string> = new Set()
   seenUris: Set<string> = new Set()
   seenRootUris: Set<string> = new Set()
+  authorCounts: Map<string, number> = new Map()
+  reposterCounts: Map<string, number> = new Map()
 
   constructor(public tunerFns: FeedTunerFn[]) {}
 
@@ -438,6 +463,269 @@ export class FeedTuner {
       return candidateSlices
     }
   }
+
+  // deer
+  static minLikes(minLikes: number) {
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      _dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      return slices.filter(slice => slice.likeCount >= minLikes)
+    }
+  }
+
+  static excludeKeywords(keywords: string[]) {
+    const needles = keywords.map(k => k.trim().toLowerCase()).filter(Boolean)
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      _dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      if (!needles.length) {
+        return slices
+      }
+      return slices.filter(slice => {
+        for (const item of slice.items) {
+          const text = item.record.text.toLowerCase()
+          if (needles.some(needle => text.includes(needle))) {
+            return false
+          }
+        }
+        return true
+      })
+    }
+  }
+
+  static removeNonMedia(
+    tuner: FeedTuner,
+    slices: FeedViewPostsSlice[],
+    _dryRun: boolean,
+  ) {
+    for (let i = 0; i < slices.length; i++) {
+      if (!slices[i].hasMedia) {
+        slices.splice(i, 1)
+        i--
+      }
+    }
+    return slices
+  }
+
+  /**
+   * Unlike {@link FeedTuner.preferredLangOnly}, this never falls back to
+   * showing everything when nothing matches, since the languages were picked
+   * for this feed specifically.
+   */
+  static languagesOnly(langsCode2: string[]) {
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      _dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      if (!langsCode2.length) {
+        return slices
+      }
+      return slices.filter(slice =>
+        isPostInLanguage(slice._feedPost.post, langsCode2),
+      )
+    }
+  }
+
+  static maxPerAuthor(max: number) {
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      for (let i = 0; i < slices.length; i++) {
+        const did = slices[i]._feedPost.post.author.did
+        const count = tuner.authorCounts.get(did) ?? 0
+        if (count >= max) {
+          slices.splice(i, 1)
+          i--
+        } else if (!dryRun) {
+          tuner.authorCounts.set(did, count + 1)
+        }
+      }
+      return slices
+    }
+  }
+
+  static hideOldReposts(maxAgeDays: number) {
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      _dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      const cutoff = Date.now() - maxAgeDays * DAY
+      return slices.filter(
+        slice =>
+          !slice.isRepost ||
+          new Date(slice._feedPost.post.indexedAt).getTime() >= cutoff,
+      )
+    }
+  }
+
+  static hideLinkDomains(domains: string[]) {
+    const blocked = domains
+      .map(domain =>
+        domain
+          .trim()
+          .toLowerCase()
+          .replace(/^www\./, ''),
+      )
+      .filter(Boolean)
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      _dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      if (!blocked.length) {
+        return slices
+      }
+      return slices.filter(
+        slice =>
+          !slice.items.some(item =>
+            getLinkedHostnames(item.post, item.record).some(hostname =>
+              blocked.some(
+                domain =>
+                  hostname === domain || hostname.endsWith(`.${domain}`),
+              ),
+            ),
+          ),
+      )
+    }
+  }
+
+  static maxRepostsPerReposter(max: number) {
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      for (let i = 0; i < slices.length; i++) {
+        const reason = slices[i]._feedPost.reason
+        if (!AppBskyFeedDefs.isReasonRepost(reason)) {
+          continue
+        }
+        const count = tuner.reposterCounts.get(reason.by.did) ?? 0
+        if (count >= max) {
+          slices.splice(i, 1)
+          i--
+        } else if (!dryRun) {
+          tuner.reposterCounts.set(reason.by.did, count + 1)
+        }
+      }
+      return slices
+    }
+  }
+
+  /**
+   * Hides posts and reposts from accounts you started following less than
+   * `minDays` ago. Accounts you don't follow aren't affected.
+   */
+  static hideRecentFollows(minDays: number) {
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      _dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      const cutoff = Date.now() - minDays * DAY
+      const isRecentFollow = (actor: AppBskyActorDefs.ProfileViewBasic) => {
+        const followedAt = getFollowedAt(actor)
+        return followedAt !== undefined && followedAt > cutoff
+      }
+      return slices.filter(slice => {
+        const {post, reason} = slice._feedPost
+        if (AppBskyFeedDefs.isReasonRepost(reason)) {
+          return !isRecentFollow(reason.by)
+        }
+        return !isRecentFollow(post.author)
+      })
+    }
+  }
+
+  /**
+   * Marks items matching a local mute rule rather than dropping them, so the
+   * feed can show what was hidden and why.
+   */
+  static localMutes(
+    matchers: LocalMuteMatcher[],
+    {currentDid}: {currentDid: string | undefined},
+  ) {
+    return (
+      tuner: FeedTuner,
+      slices: FeedViewPostsSlice[],
+      _dryRun: boolean,
+    ): FeedViewPostsSlice[] => {
+      for (const slice of slices) {
+        for (const item of slice.items) {
+          item.localMute = findLocalMute(
+            matchers,
+            {
+              author: item.post.author,
+              record: item.record,
+              embed: item.post.embed,
+            },
+            {currentDid},
+          )
+        }
+      }
+      return slices
+    }
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+function getLinkedHostnames(
+  post: AppBskyFeedDefs.PostView,
+  record: AppBskyFeedPost.Record,
+): string[] {
+  const uris: string[] = []
+  for (const facet of record.facets ?? []) {
+    for (const feature of facet.features) {
+      if (AppBskyRichtextFacet.isLink(feature)) {
+        uris.push(feature.uri)
+      }
+    }
+  }
+  const embed = post.embed
+  if (AppBskyEmbedExternal.isView(embed)) {
+    uris.push(embed.external.uri)
+  } else if (
+    AppBskyEmbedRecordWithMedia.isView(embed) &&
+    AppBskyEmbedExternal.isView(embed.media)
+  ) {
+    uris.push(embed.media.external.uri)
+  }
+
+  const hostnames: string[] = []
+  for (const uri of uris) {
+    try {
+      hostnames.push(new URL(uri).hostname.toLowerCase().replace(/^www\./, ''))
+    } catch {
+      // not a URL we can match against
+    }
+  }
+  return hostnames
+}
+
+/**
+ * When you followed an actor, in ms, read from the TID of your follow record.
+ */
+function getFollowedAt(
+  actor: AppBskyActorDefs.ProfileViewBasic,
+): number | undefined {
+  if (!actor.viewer?.following) {
+    return undefined
+  }
+  try {
+    const rkey = new AtUri(actor.viewer.following).rkey
+    return TID.fromStr(rkey).timestamp() / 1000
+  } catch {
+    return undefined
+  }
 }
 
 function areSameAuthor(authors: AuthorContext): boolean {
@@ -0,0 +1,228 @@
+import {
+  type AppBskyFeedDefs,
+  type AppBskyFeedGetTimeline,
+  AtUri,
+  type BskyAgent,
+} from '@atproto/api'
+
+import {feedUriToHref} from '#/lib/strings/url-helpers'
+import {type LocalFeed} from '#/state/persisted/schema'
+import {getContentLanguages} from '#/state/preferences/languages'
+import {MergeFeedSource} from './merge'
+import {type FeedAPI, type FeedAPIResponse} from './types'
+
+type LocalFeedSourceConfig = LocalFeed['sources'][number]
+
+/**
+ * Merges the sources of a {@link LocalFeed}, sampling each one in proportion
+ * to its weight. The feed's rules aren't applied here, they're turned into
+ * feed tuners by `useFeedTuners` like every other feed.
+ */
+export class LocalFeedAPI implements FeedAPI {
+  agent: BskyAgent
+  feed: LocalFeed
+  sources: LocalFeedSource[] = []
+  itemCursor = 0
+
+  constructor({agent, feed}: {agent: BskyAgent; feed: LocalFeed}) {
+    this.agent = agent
+    this.feed = feed
+  }
+
+  reset() {
+    this.sources = this.feed.sources
+      .filter(source => source.weight > 0)
+      .map(
+        config =>
+          new LocalFeedSource({
+            agent: this.agent,
+            config,
+          }),
+      )
+    this.itemCursor = 0
+  }
+
+  async peekLatest(): Promise<AppBskyFeedDefs.FeedViewPost> {
+    // the heaviest source is always sampled first, so its newest post is
+    // what ends up at the top of the feed
+    const heaviest = [...this.feed.sources].sort(
+      (a, b) => b.weight - a.weight,
+    )[0]
+    if (!heaviest) {
+      throw new Error('Local feed has no sources')
+    }
+    const source = new LocalFeedSource({agent: this.agent, config: heaviest})
+    await source.fetchNext(1)
+    if (source.error) {
+      throw source.error
+    }
+    return source.take(1)[0]
+  }
+
+  async fetch({
+    cursor,
+    limit,
+  }: {
+    cursor: string | undefined
+    limit: number
+  }): Promise<FeedAPIResponse> {
+    if (!cursor) {
+      this.reset()
+    }
+
+    // top up every source so sampling can keep the weights balanced
+    await Promise.all(
+      this.sources
+        .filter(source => source.hasMore && source.numReady < limit)
+        .map(source => source.fetchNext(limit)),
+    )
+
+    const posts: AppBskyFeedDefs.FeedViewPost[] = []
+    while (posts.length < limit) {
+      const source = this.pickSource()
+      if (!source || source.numReady === 0) {
+        // either everything ran dry, or the next source needs fetching
+        break
+      }
+      posts.push(...source.take(1))
+    }
+
+    if (!posts.length && !this.sources.some(source => source.hasMore)) {
+      // if every source failed, show that instead of an empty feed
+      const errors = this.sources.map(source => source.error)
+      if (errors.length && errors.every(Boolean)) {
+        throw errors[0]
+      }
+      return {feed: []}
+    }
+
+    this.itemCursor += posts.length
+    return {
+      cursor: String(this.itemCursor),
+      feed: posts,
+    }
+  }
+
+  /**
+   * Smooth weighted round-robin: every live source earns its weight each
+   * turn, and the richest one is picked and pays back the total.
+   */
+  pickSource() {
+    const live = this.sources.filter(
+      source => source.hasMore || source.numReady > 0,
+    )
+    if (!live.length) {
+      return undefined
+    }
+    let total = 0
+    let best = live[0]
+    for (const source of live) {
+      source.credit += source.weight
+      total += source.weight
+      if (source.credit > best.credit) {
+        best = source
+      }
+    }
+    best.credit -= total
+    return best
+  }
+}
+
+class LocalFeedSource extends MergeFeedSource {
+  config: LocalFeedSourceConfig
+  credit = 0
+  error: unknown = undefined
+  hasFetched = false
+
+  constructor({
+    agent,
+    config,
+  }: {
+    agent: BskyAgent
+    config: LocalFeedSourceConfig
+  }) {
+    super({agent, feedTuners: []})
+    this.config = config
+    if (config.type !== 'author') {
+      this.sourceInfo = {
+        $type: 'reasonFeedSource',
+        uri: config.value,
+        href:
+          config.type === 'feed'
+            ? feedUriToHref(config.value)
+            : listUriToHref(config.value),
+      }
+    }
+  }
+
+  get weight() {
+    return this.config.weight
+  }
+
+  async fetchNext(n: number) {
+    // unlike the home merge, there's no Following to fall back on, so wait
+    return this._fetchNextInner(n)
+  }
+
+  protected async _getFeed(
+    cursor: string | undefined,
+    limit: number,
+  ): Promise<AppBskyFeedGetTimeline.Response> {
+    if (this.hasFetched && !cursor) {
+      // the last page had no cursor, so there's nothing left
+      return {success: true, headers: {}, data: {feed: []}}
+    }
+    this.hasFetched = true
+
+    try {
+      const res = await this._getSourceFeed(cursor, limit)
+      // some custom feeds fail to enforce the pagination limit
+      if (res.data.feed.length > limit) {
+        res.data.feed = res.data.feed.slice(0, limit)
+      }
+      if (this.sourceInfo) {
+        for (const post of res.data.feed) {
+          // @ts-ignore
+          post.__source = this.sourceInfo
+        }
+      }
+      return res
+    } catch (e) {
+      // let the other sources carry on without this one
+      this.error = e
+      return {success: false, headers: {}, data: {feed: []}}
+    }
+  }
+
+  private _getSourceFeed(cursor: string | undefined, limit: number) {
+    switch (this.config.type) {
+      case 'feed':
+        return this.agent.app.bsky.feed.getFeed(
+          {feed: this.config.value, cursor, limit},
+          {headers: {'Accept-Language': getContentLanguages().join(',')}},
+        )
+      case 'list':
+        return this.agent.app.bsky.feed.getListFeed({
+          list: this.config.value,
+          cursor,
+          limit,
+        })
+      case 'author':
+        return this.agent.getAuthorFeed({
+          actor: this.config.value,
+          filter: 'posts_and_author_threads',
+          cursor,
+          limit,
+        })
+    }
+  }
+}
+
+function listUriToHref(uri: string) {
+  try {
+    const {hostname, rkey} = new AtUri(uri)
+    return `/profile/${hostname}/lists/${rkey}`
+  } catch {
+    return ''
+  }
+}
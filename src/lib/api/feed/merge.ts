@@ -166,7 +166,7 @@ export class MergeFeedAPI implements FeedAPI {
   }
 }
 
-class MergeFeedSource {
+export class MergeFeedSource {
   agent: BskyAgent
   feedTuners: FeedTunerFn[]
   sourceInfo: ReasonFeedSource | undefined
@@ -77,6 +77,7 @@ export async function post(
   const did = agent.assertDid
   const writes: $Typed<ComAtprotoRepoApplyWrites.Create>[] = []
   const uris: string[] = []
+  const cids: string[] = []
 
   let now = new Date()
   let tid: TID | undefined
@@ -165,6 +166,7 @@ export async function post(
       cid: await computeCid(record),
       uri,
     }
+    cids.push(ref.cid)
     replyPromise = {
       root: reply?.root ?? ref,
       parent: ref,
@@ -190,7 +192,7 @@ export async function post(
     }
   }
 
-  return {uris}
+  return {uris, cids}
 }
 
 async function resolveRT(agent: BskyAgent, richtext: RichText) {
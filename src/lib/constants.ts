@@ -1,7 +1,13 @@
 import {type Insets, Platform} from 'react-native'
 import {type AppBskyActorDefs} from '@atproto/api'
 
-import {ENV_APPVIEW_DID_PROXY, ENV_PUBLIC_BSKY_SERVICE} from '#/env'
+import {
+  ENV_APPVIEW_DID_PROXY,
+  ENV_CONSTELLATION_USER_AGENT,
+  ENV_EMBED_ORIGIN,
+  ENV_LINK_META_PROXY,
+  ENV_PUBLIC_BSKY_SERVICE,
+} from '#/env'
 
 export const LOCAL_DEV_SERVICE =
   Platform.OS === 'android' ? 'http://10.0.2.2:2583' : 'http://localhost:2583'
@@ -11,7 +17,7 @@ export const PUBLIC_BSKY_SERVICE =
   ENV_PUBLIC_BSKY_SERVICE || 'https://public.api.bsky.app'
 export const DEFAULT_SERVICE = BSKY_SERVICE
 export const HELP_DESK_URL = `https://github.com/a-viv-a/deer-social/issues/new/choose`
-export const EMBED_SERVICE = 'https://embed.bsky.app'
+export const EMBED_SERVICE = ENV_EMBED_ORIGIN || 'https://embed.bsky.app'
 export const EMBED_SCRIPT = `${EMBED_SERVICE}/static/embed.js`
 export const BSKY_DOWNLOAD_URL = 'https://bsky.app/download'
 export const APPVIEW_DID_PROXY = ENV_APPVIEW_DID_PROXY
@@ -96,6 +102,10 @@ export const STAGING_LINK_META_PROXY =
 export const PROD_LINK_META_PROXY = 'https://cardyb.bsky.app/v1/extract?url='
 
 export function LINK_META_PROXY(serviceUrl: string) {
+  if (ENV_LINK_META_PROXY) {
+    return ENV_LINK_META_PROXY
+  }
+
   if (IS_PROD_SERVICE(serviceUrl)) {
     return PROD_LINK_META_PROXY
   }
@@ -103,6 +113,9 @@ export function LINK_META_PROXY(serviceUrl: string) {
   return STAGING_LINK_META_PROXY
 }
 
+export const CONSTELLATION_USER_AGENT =
+  ENV_CONSTELLATION_USER_AGENT || 'deer.social (contact @aviva.gay)'
+
 export const STATUS_PAGE_URL = 'https://status.bsky.app/'
 
 // Hitslop constants
@@ -0,0 +1,223 @@
+import {
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyEmbedVideo,
+  type AppBskyFeedDefs,
+  AppBskyFeedPost,
+} from '@atproto/api'
+
+import {type LocalMuteRule} from '#/state/persisted/schema'
+import * as bsky from '#/types/bsky'
+
+export type LocalMuteContext = LocalMuteRule['contexts'][number]
+
+export type LocalMuteMatcher = {
+  rule: LocalMuteRule
+  test: (text: string) => boolean
+}
+
+export type LocalMuteSubject = {
+  author: bsky.profile.AnyProfileView
+  record: AppBskyFeedPost.Record
+  /**
+   * The hydrated embed, if there is one. Without it, only what's in the
+   * record itself can be checked, which leaves out quoted posts.
+   */
+  embed?: AppBskyFeedDefs.PostView['embed']
+}
+
+type LocalMuteTexts = Record<
+  LocalMuteRule['targets'][number] | 'text',
+  string[]
+>
+
+/**
+ * Compiles the rules that apply in `context`. Expired rules and regexes that
+ * don't compile are left out.
+ */
+export function compileLocalMuteRules(
+  rules: LocalMuteRule[],
+  context: LocalMuteContext,
+  now = Date.now(),
+): LocalMuteMatcher[] {
+  const matchers: LocalMuteMatcher[] = []
+  for (const rule of rules) {
+    if (!rule.contexts.includes(context) || isLocalMuteExpired(rule, now)) {
+      continue
+    }
+    const test = createTest(rule)
+    if (test) {
+      matchers.push({rule, test})
+    }
+  }
+  return matchers
+}
+
+export function isLocalMuteExpired(rule: LocalMuteRule, now = Date.now()) {
+  return !!rule.expiresAt && new Date(rule.expiresAt).getTime() <= now
+}
+
+export function isValidLocalMuteRegex(value: string) {
+  try {
+    new RegExp(value, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Returns the first rule that matches, if any. Your own posts are never
+ * muted.
+ */
+export function findLocalMute(
+  matchers: LocalMuteMatcher[],
+  subject: LocalMuteSubject,
+  {currentDid}: {currentDid: string | undefined},
+): LocalMuteRule | undefined {
+  if (!matchers.length || subject.author.did === currentDid) {
+    return undefined
+  }
+  const isFollowing = !!subject.author.viewer?.following
+  let texts: LocalMuteTexts | undefined
+  for (const {rule, test} of matchers) {
+    if (rule.nonFollowedOnly && isFollowing) {
+      continue
+    }
+    texts ??= getLocalMuteTexts(subject)
+    if (texts.text.some(test)) {
+      return rule
+    }
+    for (const target of rule.targets) {
+      if (texts[target].some(test)) {
+        return rule
+      }
+    }
+  }
+  return undefined
+}
+
+export function findLocalMuteInPost(
+  matchers: LocalMuteMatcher[],
+  post: AppBskyFeedDefs.PostView,
+  opts: {currentDid: string | undefined},
+) {
+  if (
+    !matchers.length ||
+    !bsky.dangerousIsType<AppBskyFeedPost.Record>(
+      post.record,
+      AppBskyFeedPost.isRecord,
+    )
+  ) {
+    return undefined
+  }
+  return findLocalMute(
+    matchers,
+    {author: post.author, record: post.record, embed: post.embed},
+    opts,
+  )
+}
+
+function createTest(rule: LocalMuteRule) {
+  const value = rule.value.trim()
+  if (!value) {
+    return undefined
+  }
+  if (rule.type === 'regex') {
+    let regex: RegExp
+    try {
+      regex = new RegExp(value, 'i')
+    } catch {
+      return undefined
+    }
+    return (text: string) => regex.test(text)
+  }
+  const phrase = value.toLowerCase()
+  return (text: string) => hasPhrase(text.toLowerCase(), phrase)
+}
+
+/**
+ * Matches `phrase` only where it isn't part of a longer word, so "cat"
+ * doesn't hide "concatenate". Edges that aren't word characters, like a
+ * leading "#" or CJK text, match anywhere.
+ */
+function hasPhrase(text: string, phrase: string) {
+  const checkStart = isWordChar(phrase[0])
+  const checkEnd = isWordChar(phrase[phrase.length - 1])
+  let i = text.indexOf(phrase)
+  while (i !== -1) {
+    if (
+      (!checkStart || !isWordChar(text[i - 1])) &&
+      (!checkEnd || !isWordChar(text[i + phrase.length]))
+    ) {
+      return true
+    }
+    i = text.indexOf(phrase, i + 1)
+  }
+  return false
+}
+
+function isWordChar(char: string | undefined) {
+  if (!char) {
+    return false
+  }
+  // letters are the characters that have a case, which excludes scripts
+  // without word spacing
+  return /[0-9_]/.test(char) || char.toLowerCase() !== char.toUpperCase()
+}
+
+function getLocalMuteTexts({record, embed}: LocalMuteSubject) {
+  const texts: LocalMuteTexts = {
+    text: [record.text],
+    altText: [],
+    linkTitles: [],
+    quotedPosts: [],
+  }
+  collectEmbedTexts(embed ?? record.embed, texts)
+  return texts
+}
+
+function collectEmbedTexts(
+  embed: AppBskyFeedDefs.PostView['embed'] | AppBskyFeedPost.Record['embed'],
+  texts: LocalMuteTexts,
+) {
+  if (AppBskyEmbedImages.isView(embed) || AppBskyEmbedImages.isMain(embed)) {
+    texts.altText.push(...embed.images.map(image => image.alt))
+  } else if (
+    AppBskyEmbedVideo.isView(embed) ||
+    AppBskyEmbedVideo.isMain(embed)
+  ) {
+    if (embed.alt) {
+      texts.altText.push(embed.alt)
+    }
+  } else if (
+    AppBskyEmbedExternal.isView(embed) ||
+    AppBskyEmbedExternal.isMain(embed)
+  ) {
+    texts.linkTitles.push(embed.external.title, embed.external.description)
+  } else if (AppBskyEmbedRecord.isView(embed)) {
+    collectQuoteTexts(embed.record, texts)
+  } else if (AppBskyEmbedRecordWithMedia.isView(embed)) {
+    collectEmbedTexts(embed.media, texts)
+    collectQuoteTexts(embed.record.record, texts)
+  } else if (AppBskyEmbedRecordWithMedia.isMain(embed)) {
+    collectEmbedTexts(embed.media, texts)
+  }
+}
+
+function collectQuoteTexts(
+  record: AppBskyEmbedRecord.View['record'],
+  texts: LocalMuteTexts,
+) {
+  if (
+    AppBskyEmbedRecord.isViewRecord(record) &&
+    bsky.dangerousIsType<AppBskyFeedPost.Record>(
+      record.value,
+      AppBskyFeedPost.isRecord,
+    )
+  ) {
+    texts.quotedPosts.push(record.value.text)
+  }
+}
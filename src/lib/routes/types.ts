@@ -8,6 +8,8 @@ export type {NativeStackScreenProps} from '@react-navigation/native-stack'
 export type CommonNavigatorParams = {
   NotFound: undefined
   Lists: undefined
+  Bookmarks: undefined
+  ScheduledPosts: undefined
   Moderation: undefined
   ModerationModlists: undefined
   ModerationMutedAccounts: undefined
@@ -32,6 +32,36 @@ export function shortenLinks(rt: RichText): RichText {
   return rt
 }
 
+// the reverse of shortenLinks, for putting a published post back in the
+// composer. Links whose text was written by hand are left alone.
+export function expandLinks(rt: RichText): RichText {
+  if (!rt.facets?.length) {
+    return rt
+  }
+  rt = rt.clone()
+  if (rt.facets) {
+    for (const facet of rt.facets) {
+      const link = facet.features.find(AppBskyRichtextFacet.isLink)
+      if (!link) {
+        continue
+      }
+
+      const {byteStart, byteEnd} = facet.index
+      const text = rt.unicodeText.slice(byteStart, byteEnd)
+      if (text === link.uri || text !== toShortUrl(link.uri)) {
+        continue
+      }
+      const expanded = new UnicodeString(link.uri)
+
+      rt.insert(byteStart, expanded.utf16)
+      facet.index.byteStart = byteStart
+      facet.index.byteEnd = byteStart + expanded.length
+      rt.delete(byteStart + expanded.length, byteEnd + expanded.length)
+    }
+  }
+  return rt
+}
+
 // filter out any mention facets that didn't map to a user
 export function stripInvalidMentions(rt: RichText): RichText {
   if (!rt.facets?.length) {
@@ -0,0 +1,184 @@
+import {type RichText} from '@atproto/api'
+
+import {shortenLinks} from './rich-text-manip'
+
+// Where a post may end, from most to least preferred. Indices are UTF-16.
+const PARAGRAPH = 3
+const LINE = 2
+const SENTENCE = 1
+const WORD = 0
+
+type Break = {
+  index: number
+  priority: number
+}
+
+function measure(rt: RichText) {
+  return shortenLinks(rt).graphemeLength
+}
+
+function isSpace(char: string | undefined) {
+  return char !== undefined && /\s/.test(char)
+}
+
+function skipSpace(text: string, index: number) {
+  while (isSpace(text[index])) {
+    index++
+  }
+  return index
+}
+
+function trimSpace(text: string, index: number) {
+  while (index > 0 && isSpace(text[index - 1])) {
+    index--
+  }
+  return index
+}
+
+/**
+ * Copies part of the text, keeping the facets that fall inside it. Facets
+ * are indexed by UTF-8 bytes, so `start` and `end` are converted from UTF-16
+ * first.
+ */
+function sliceRichText(rt: RichText, start: number, end: number) {
+  const unicode = rt.unicodeText
+  const byteStart = unicode.utf16IndexToUtf8Index(start)
+  const byteEnd = unicode.utf16IndexToUtf8Index(end)
+  const slice = rt.clone()
+  if (byteEnd < unicode.length) {
+    slice.delete(byteEnd, unicode.length)
+  }
+  if (byteStart > 0) {
+    slice.delete(0, byteStart)
+  }
+  return slice
+}
+
+function findBreaks(rt: RichText): Break[] {
+  const text = rt.text
+
+  // splitting a link, mention or tag would break it
+  const facetRanges: [number, number][] = []
+  let offset = 0
+  for (const segment of rt.segments()) {
+    if (segment.facet) {
+      facetRanges.push([offset, offset + segment.text.length])
+    }
+    offset += segment.text.length
+  }
+
+  const breaks = new Map<number, number>()
+  const add = (index: number, priority: number) => {
+    if (index <= 0 || index >= text.length) {
+      return
+    }
+    if (facetRanges.some(([start, end]) => index > start && index < end)) {
+      return
+    }
+    breaks.set(index, Math.max(breaks.get(index) ?? priority, priority))
+  }
+  for (const match of text.matchAll(/\n[^\S\n]*\n/g)) {
+    add(match.index, PARAGRAPH)
+  }
+  for (const match of text.matchAll(/\n/g)) {
+    add(match.index, LINE)
+  }
+  for (const match of text.matchAll(/[.!?…。！？]+["'”’)\]]*(?=\s)/g)) {
+    add(match.index + match[0].length, SENTENCE)
+  }
+  for (const match of text.matchAll(/\s+/g)) {
+    add(match.index, WORD)
+  }
+
+  return [...breaks]
+    .map(([index, priority]) => ({index, priority}))
+    .sort((a, b) => a.index - b.index)
+}
+
+// For a single word that doesn't fit on its own, cut it at a code point.
+function findHardEnd(rt: RichText, start: number, maxLength: number) {
+  const codePoints = Array.from(rt.text.slice(start))
+  let low = 1
+  let high = codePoints.length
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    const end = start + codePoints.slice(0, mid).join('').length
+    if (measure(sliceRichText(rt, start, end)) <= maxLength) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+  return start + codePoints.slice(0, low).join('').length
+}
+
+function splitAt(rt: RichText, maxLength: number) {
+  const text = rt.text
+  const breaks = findBreaks(rt)
+  const chunks: RichText[] = []
+
+  let start = skipSpace(text, 0)
+  while (start < text.length) {
+    const rest = sliceRichText(rt, start, trimSpace(text, text.length))
+    if (measure(rest) <= maxLength) {
+      chunks.push(rest)
+      break
+    }
+
+    // The strongest break that still fills at least half the post wins,
+    // later ones winning ties.
+    let best: Break | undefined
+    let furthest: number | undefined
+    for (const brk of breaks) {
+      const end = trimSpace(text, brk.index)
+      if (end <= start) {
+        continue
+      }
+      const length = measure(sliceRichText(rt, start, end))
+      if (length > maxLength) {
+        break
+      }
+      furthest = end
+      if (length >= maxLength / 2 && (!best || brk.priority >= best.priority)) {
+        best = {index: end, priority: brk.priority}
+      }
+    }
+
+    const end = best?.index ?? furthest ?? findHardEnd(rt, start, maxLength)
+    chunks.push(sliceRichText(rt, start, end))
+    start = skipSpace(text, end)
+  }
+
+  return chunks
+}
+
+/**
+ * Splits text that's too long for one post into several, breaking between
+ * paragraphs, lines, sentences or words in that order of preference. Links
+ * are counted at their shortened length, and mentions, links and tags are
+ * never split. With `numbered`, each post ends with a `1/n` counter.
+ */
+export function splitRichText(
+  rt: RichText,
+  {maxLength, numbered = false}: {maxLength: number; numbered?: boolean},
+): RichText[] {
+  if (measure(rt) <= maxLength) {
+    return [rt]
+  }
+  if (!numbered) {
+    return splitAt(rt, maxLength)
+  }
+
+  // The counter's width depends on how many posts there end up being, so
+  // guess and try again if the guess was too low.
+  let total = 9
+  let chunks = splitAt(rt, maxLength - ` ${total}/${total}`.length)
+  while (String(chunks.length).length > String(total).length) {
+    total = chunks.length
+    chunks = splitAt(rt, maxLength - ` ${total}/${total}`.length)
+  }
+  return chunks.map((chunk, i) => {
+    chunk.insert(chunk.unicodeText.length, ` ${i + 1}/${chunks.length}`)
+    return chunk
+  })
+}
@@ -6,14 +6,18 @@ import {BSKY_SERVICE} from '#/lib/constants'
 import {isInvalidHandle} from '#/lib/strings/handles'
 import {startUriToStarterPackUri} from '#/lib/strings/starter-pack'
 import {logger} from '#/logger'
+import {ENV_APP_ORIGIN} from '#/env'
 
-export const BSKY_APP_HOST = 'https://deer.social'
+export const BSKY_APP_HOST = ENV_APP_ORIGIN || 'https://deer.social'
 const BSKY_TRUSTED_HOSTS = [
   'deer\\.social',
   'bsky\\.app',
   'bsky\\.social',
   'blueskyweb\\.xyz',
   'blueskyweb\\.zendesk\\.com',
+  ...(ENV_APP_ORIGIN
+    ? [new URL(ENV_APP_ORIGIN).host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')]
+    : []),
   ...(__DEV__ ? ['localhost:19006', 'localhost:8100'] : []),
 ]
 
@@ -80,7 +84,7 @@ export function toShortUrl(url: string): string {
 
 export function toShareUrl(url: string): string {
   if (!url.startsWith('https')) {
-    const urlp = new URL('https://deer.social')
+    const urlp = new URL(BSKY_APP_HOST)
     urlp.pathname = url
     url = urlp.toString()
   }
@@ -95,7 +99,8 @@ export function isBskyAppUrl(url: string): boolean {
   return (
     url.startsWith('https://bsky.app/') ||
     (url.startsWith('https://deer.social/') &&
-      !url.startsWith('https://deer.social/about'))
+      !url.startsWith('https://deer.social/about')) ||
+    (!!ENV_APP_ORIGIN && url.startsWith(`${ENV_APP_ORIGIN}/`))
   )
 }
 
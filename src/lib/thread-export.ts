@@ -0,0 +1,451 @@
+import {
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyEmbedVideo,
+  type AppBskyFeedDefs,
+  AppBskyFeedPost,
+  AppBskyRichtextFacet,
+  AtUri,
+  RichText,
+  type RichTextSegment,
+} from '@atproto/api'
+
+import {blobToDataUri} from '#/lib/media/util'
+import {makeProfileLink} from '#/lib/routes/links'
+import {createBskyAppAbsoluteUrl} from '#/lib/strings/url-helpers'
+import {type ThreadItem} from '#/state/queries/usePostThread/types'
+import * as bsky from '#/types/bsky'
+
+export type ThreadExportFormat = 'markdown' | 'html' | 'json'
+
+type ThreadPostItem = Extract<ThreadItem, {type: 'threadPost'}>
+
+type ExportAuthor = {
+  did: string
+  handle: string
+  displayName?: string
+  avatar?: string
+}
+
+type ExportImage = {src: string; alt: string}
+
+type ExportQuote = {
+  uri: string
+  author: ExportAuthor
+  text: string
+  facets?: AppBskyRichtextFacet.Main[]
+}
+
+/**
+ * Everything an export shows for a post's embed, regardless of which of the
+ * embed types it came from.
+ */
+type ExportEmbed = {
+  images: ExportImage[]
+  video?: {thumbnail?: string; alt?: string}
+  external?: {
+    uri: string
+    title: string
+    description: string
+    thumb?: string
+  }
+  quote?: ExportQuote
+}
+
+export type ThreadExport = {
+  filename: string
+  mimeType: string
+  contents: string
+}
+
+/**
+ * Exports the posts in `items`, as built by `buildThread`, in the order they
+ * are shown. Placeholders like skeletons, "read more" links and posts that
+ * couldn't be loaded are left out.
+ */
+export async function exportThread(
+  items: ThreadItem[],
+  format: ThreadExportFormat,
+  {exportedAt = new Date()}: {exportedAt?: Date} = {},
+): Promise<ThreadExport> {
+  const posts = getThreadPosts(items)
+  const anchor = posts.find(item => item.ui.isAnchor) ?? posts[0]
+  if (!anchor) {
+    throw new Error('There are no posts to export')
+  }
+  const basename = `thread-${anchor.value.post.author.handle}-${new AtUri(anchor.uri).rkey}`
+
+  switch (format) {
+    case 'markdown':
+      return {
+        filename: `${basename}.md`,
+        mimeType: 'text/markdown',
+        contents: threadToMarkdown(posts, anchor, exportedAt),
+      }
+    case 'html':
+      return {
+        filename: `${basename}.html`,
+        mimeType: 'text/html',
+        contents: threadToHtml(
+          posts,
+          anchor,
+          exportedAt,
+          await fetchImages(posts),
+        ),
+      }
+    case 'json':
+      return {
+        filename: `${basename}.json`,
+        mimeType: 'application/json',
+        contents: threadToJson(posts, anchor, exportedAt),
+      }
+  }
+}
+
+export function getThreadPosts(items: ThreadItem[]) {
+  return items.filter(
+    (item): item is ThreadPostItem => item.type === 'threadPost',
+  )
+}
+
+export function threadToMarkdown(
+  posts: ThreadPostItem[],
+  anchor: ThreadPostItem,
+  exportedAt: Date,
+) {
+  const sections = [
+    `# Thread by ${escapeMarkdown(getAuthorName(anchor.value.post.author))}`,
+    `Exported from <${getPostUrl(anchor.value.post)}> on ${formatDate(exportedAt)}`,
+  ]
+
+  for (const item of posts) {
+    const {post} = item.value
+    const embed = getExportEmbed(post.embed)
+    const lines = [
+      `**${escapeMarkdown(getAuthorName(post.author))}** ([@${escapeMarkdown(post.author.handle)}](${getProfileUrl(post.author)})) · [${formatDate(post.record.createdAt)}](${getPostUrl(post)})`,
+      '',
+      richTextToMarkdown(post.record.text, post.record.facets),
+      ...embedToMarkdown(embed),
+    ]
+    // parents have a negative depth, only replies are indented
+    const prefix = '> '.repeat(Math.max(item.depth, 0))
+    sections.push(
+      lines
+        .join('\n')
+        .split('\n')
+        .map(line => (prefix + line).trimEnd())
+        .join('\n'),
+    )
+  }
+
+  return sections.join('\n\n---\n\n') + '\n'
+}
+
+/**
+ * A standalone HTML page. `images` maps image URLs to data URIs, any image
+ * not in it is linked to instead.
+ */
+export function threadToHtml(
+  posts: ThreadPostItem[],
+  anchor: ThreadPostItem,
+  exportedAt: Date,
+  images: Map<string, string> = new Map(),
+) {
+  const src = (url: string) => escapeHtml(images.get(url) ?? url)
+  const title = `Thread by ${getAuthorName(anchor.value.post.author)}`
+
+  const articles = posts.map(item => {
+    const {post} = item.value
+    const embed = getExportEmbed(post.embed)
+    const parts = [
+      `<header>${post.author.avatar ? `<img class="avatar" src="${src(post.author.avatar)}" alt="">` : ''}<a href="${escapeHtml(getProfileUrl(post.author))}"><strong>${escapeHtml(getAuthorName(post.author))}</strong> @${escapeHtml(post.author.handle)}</a> · <a href="${escapeHtml(getPostUrl(post))}"><time datetime="${escapeHtml(post.record.createdAt)}">${escapeHtml(formatDate(post.record.createdAt))}</time></a></header>`,
+      `<p>${richTextToHtml(post.record.text, post.record.facets)}</p>`,
+    ]
+    for (const image of embed.images) {
+      parts.push(
+        `<figure><img src="${src(image.src)}" alt="${escapeHtml(image.alt)}">${image.alt ? `<figcaption>${escapeHtml(image.alt)}</figcaption>` : ''}</figure>`,
+      )
+    }
+    if (embed.video) {
+      parts.push(
+        `<figure>${embed.video.thumbnail ? `<img src="${src(embed.video.thumbnail)}" alt="${escapeHtml(embed.video.alt ?? '')}">` : ''}<figcaption>Video${embed.video.alt ? `: ${escapeHtml(embed.video.alt)}` : ''}</figcaption></figure>`,
+      )
+    }
+    if (embed.external) {
+      const {external} = embed
+      parts.push(
+        `<a class="card" href="${escapeHtml(external.uri)}">${external.thumb ? `<img src="${src(external.thumb)}" alt="">` : ''}<strong>${escapeHtml(external.title || external.uri)}</strong>${external.description ? `<span>${escapeHtml(external.description)}</span>` : ''}<small>${escapeHtml(external.uri)}</small></a>`,
+      )
+    }
+    if (embed.quote) {
+      const {quote} = embed
+      parts.push(
+        `<blockquote><a href="${escapeHtml(getPostUrl(quote))}"><strong>${escapeHtml(getAuthorName(quote.author))}</strong> @${escapeHtml(quote.author.handle)}</a><p>${richTextToHtml(quote.text, quote.facets)}</p></blockquote>`,
+      )
+    }
+    const depth = Math.max(item.depth, 0)
+    return `<article${item.ui.isAnchor ? ' class="anchor"' : ''} style="margin-left: ${depth * 24}px">${parts.join('')}</article>`
+  })
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 640px; margin: 0 auto; padding: 16px; line-height: 1.4; color: #0b0f14; }
+article { border-top: 1px solid #d4dbe2; padding: 12px 0; }
+article.anchor p { font-size: 1.15em; }
+header { display: flex; align-items: center; gap: 6px; flex-wrap: wrap; color: #42576c; }
+p { white-space: pre-wrap; word-wrap: break-word; }
+a { color: #1083fe; text-decoration: none; }
+img { max-width: 100%; border-radius: 8px; }
+img.avatar { width: 24px; height: 24px; border-radius: 50%; }
+figure { margin: 8px 0; }
+figcaption { font-size: 0.85em; color: #42576c; }
+.card, blockquote { display: flex; flex-direction: column; gap: 4px; margin: 8px 0; padding: 8px 12px; border: 1px solid #d4dbe2; border-radius: 8px; }
+.card small { color: #42576c; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Exported from <a href="${escapeHtml(getPostUrl(anchor.value.post))}">${escapeHtml(getPostUrl(anchor.value.post))}</a> on ${escapeHtml(formatDate(exportedAt))}</p>
+${articles.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * The records as they are in the repo, along with the hydrated embeds since
+ * those carry the quoted posts and link cards.
+ */
+export function threadToJson(
+  posts: ThreadPostItem[],
+  anchor: ThreadPostItem,
+  exportedAt: Date,
+) {
+  return JSON.stringify(
+    {
+      uri: anchor.uri,
+      exportedAt: exportedAt.toISOString(),
+      posts: posts.map(item => ({
+        uri: item.uri,
+        cid: item.value.post.cid,
+        depth: item.depth,
+        author: {
+          did: item.value.post.author.did,
+          handle: item.value.post.author.handle,
+          displayName: item.value.post.author.displayName,
+        },
+        record: item.value.post.record,
+        embed: item.value.post.embed,
+      })),
+    },
+    null,
+    2,
+  )
+}
+
+function getExportEmbed(embed: AppBskyFeedDefs.PostView['embed']) {
+  const result: ExportEmbed = {images: []}
+  collectEmbed(embed, result)
+  return result
+}
+
+function collectEmbed(
+  embed: AppBskyFeedDefs.PostView['embed'],
+  result: ExportEmbed,
+) {
+  if (AppBskyEmbedImages.isView(embed)) {
+    result.images.push(
+      ...embed.images.map(image => ({src: image.fullsize, alt: image.alt})),
+    )
+  } else if (AppBskyEmbedVideo.isView(embed)) {
+    result.video = {thumbnail: embed.thumbnail, alt: embed.alt}
+  } else if (AppBskyEmbedExternal.isView(embed)) {
+    result.external = {
+      uri: embed.external.uri,
+      title: embed.external.title,
+      description: embed.external.description,
+      thumb: embed.external.thumb,
+    }
+  } else if (AppBskyEmbedRecord.isView(embed)) {
+    collectQuote(embed.record, result)
+  } else if (AppBskyEmbedRecordWithMedia.isView(embed)) {
+    collectEmbed(embed.media, result)
+    collectQuote(embed.record.record, result)
+  }
+}
+
+function collectQuote(
+  record: AppBskyEmbedRecord.View['record'],
+  result: ExportEmbed,
+) {
+  if (
+    AppBskyEmbedRecord.isViewRecord(record) &&
+    bsky.dangerousIsType<AppBskyFeedPost.Record>(
+      record.value,
+      AppBskyFeedPost.isRecord,
+    )
+  ) {
+    result.quote = {
+      uri: record.uri,
+      author: record.author,
+      text: record.value.text,
+      facets: record.value.facets,
+    }
+  }
+}
+
+function embedToMarkdown(embed: ExportEmbed) {
+  const lines: string[] = []
+  for (const image of embed.images) {
+    lines.push('', `![${escapeMarkdown(image.alt)}](${image.src})`)
+  }
+  if (embed.video) {
+    lines.push(
+      '',
+      embed.video.alt
+        ? `*Video: ${escapeMarkdown(embed.video.alt)}*`
+        : '*Video*',
+    )
+  }
+  if (embed.external) {
+    const {external} = embed
+    lines.push(
+      '',
+      `[**${escapeMarkdown(external.title || external.uri)}**](${external.uri})`,
+    )
+    if (external.description) {
+      lines.push(escapeMarkdown(external.description))
+    }
+  }
+  if (embed.quote) {
+    const {quote} = embed
+    lines.push(
+      '',
+      `> **${escapeMarkdown(getAuthorName(quote.author))}** ([@${escapeMarkdown(quote.author.handle)}](${getPostUrl(quote)}))`,
+      '>',
+      ...richTextToMarkdown(quote.text, quote.facets)
+        .split('\n')
+        .map(line => `> ${line}`),
+    )
+  }
+  return lines
+}
+
+function richTextToMarkdown(
+  text: string,
+  facets: AppBskyRichtextFacet.Main[] | undefined,
+) {
+  let out = ''
+  for (const segment of new RichText({text, facets}).segments()) {
+    const href = getSegmentHref(segment)
+    out += href
+      ? `[${escapeMarkdown(segment.text)}](${href})`
+      : escapeMarkdown(segment.text)
+  }
+  // markdown joins single line breaks, a trailing backslash keeps them
+  return out
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.replace(/\n/g, '\\\n'))
+    .join('\n\n')
+}
+
+function richTextToHtml(
+  text: string,
+  facets: AppBskyRichtextFacet.Main[] | undefined,
+) {
+  let out = ''
+  for (const segment of new RichText({text, facets}).segments()) {
+    const href = getSegmentHref(segment)
+    out += href
+      ? `<a href="${escapeHtml(href)}">${escapeHtml(segment.text)}</a>`
+      : escapeHtml(segment.text)
+  }
+  return out
+}
+
+function getSegmentHref(segment: RichTextSegment) {
+  if (
+    segment.mention &&
+    AppBskyRichtextFacet.validateMention(segment.mention).success
+  ) {
+    return createBskyAppAbsoluteUrl(`/profile/${segment.mention.did}`)
+  }
+  if (segment.link && AppBskyRichtextFacet.validateLink(segment.link).success) {
+    return segment.link.uri
+  }
+  if (segment.tag && AppBskyRichtextFacet.validateTag(segment.tag).success) {
+    return createBskyAppAbsoluteUrl(
+      `/hashtag/${encodeURIComponent(segment.tag.tag)}`,
+    )
+  }
+  return undefined
+}
+
+async function fetchImages(posts: ThreadPostItem[]) {
+  const urls = new Set<string>()
+  for (const {value} of posts) {
+    if (value.post.author.avatar) {
+      urls.add(value.post.author.avatar)
+    }
+    const embed = getExportEmbed(value.post.embed)
+    embed.images.forEach(image => urls.add(image.src))
+    if (embed.video?.thumbnail) {
+      urls.add(embed.video.thumbnail)
+    }
+    if (embed.external?.thumb) {
+      urls.add(embed.external.thumb)
+    }
+  }
+
+  const images = new Map<string, string>()
+  await Promise.all(
+    Array.from(urls, async url => {
+      try {
+        const res = await fetch(url)
+        if (res.ok) {
+          images.set(url, await blobToDataUri(await res.blob()))
+        }
+      } catch {
+        // linked instead
+      }
+    }),
+  )
+  return images
+}
+
+function getAuthorName(author: ExportAuthor) {
+  return author.displayName || author.handle
+}
+
+function getProfileUrl(author: {did: string; handle: string}) {
+  return createBskyAppAbsoluteUrl(makeProfileLink(author))
+}
+
+function getPostUrl(post: {uri: string; author: ExportAuthor}) {
+  return createBskyAppAbsoluteUrl(
+    makeProfileLink(post.author, 'post', new AtUri(post.uri).rkey),
+  )
+}
+
+function formatDate(date: Date | string) {
+  return new Date(date).toISOString().slice(0, 16).replace('T', ' ') + ' UTC'
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/[\\`*_[\]<>#|~]/g, '\\$&')
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,279 @@
+import { z } from "zod"
+
+import * as persisted from "#/state/persisted"
+import { type DeerSettings, deerSettingsKeys, deerSettingsSchema } from "#/state/persisted/schema"
+import { type FeedDescriptor } from "#/state/queries/post-feed"
+import { device } from "#/storage"
+import { type Bookmark, BOOKMARK_FOLDERS_KEY, bookmarkKey, clearBookmarks, listBookmarks, putBookmarks } from "./bookmarked"
+import { getLocalStorage, setLocalStorage } from "./local-store"
+import { clearSeenPosts, HIDE_SEEN_POSTS_KEY, listSeenPosts, parseSeenPostsModes, putSeenPosts, SEEN_POSTS_MODES_KEY, type SeenPost, type SeenPostsMode } from "./seen-posts"
+
+export const ARCHIVE_VERSION = 1
+
+const postRefSchema = z.object({
+    uri: z.string().startsWith('at://'),
+    cid: z.string(),
+})
+
+// keyed by feed descriptor, same as the preference itself
+const seenPostsModesSchema = z.record(z.enum(['show', 'hide', 'collapse'])) as z.ZodType<
+    Partial<Record<FeedDescriptor, SeenPostsMode>>
+>
+
+const archiveSchema = z.object({
+    $type: z.literal('social.deer.archive'),
+    version: z.literal(ARCHIVE_VERSION),
+    exportedAt: z.string().datetime(),
+    bookmarks: z.array(z.object({
+        post: postRefSchema,
+        savedAt: z.string().datetime(),
+        folders: z.array(z.string()),
+        snapshot: z.object({
+            text: z.string(),
+            createdAt: z.string().optional(),
+            author: z.object({
+                did: z.string(),
+                handle: z.string(),
+                displayName: z.string().optional(),
+                avatar: z.string().optional(),
+            }),
+        }).optional(),
+    })),
+    bookmarkFolders: z.array(z.string()),
+    seenPosts: z.array(z.object({
+        post: postRefSchema,
+        lastSeenAt: z.string().datetime(),
+        lastSeenFeed: z.string(),
+    })),
+    hideSeenPosts: z.boolean(),
+    // added after version 1 shipped, so older archives don't have it
+    seenPostsModes: seenPostsModesSchema.optional(),
+    settings: deerSettingsSchema,
+    device: z.object({
+        customAppViewDid: z.string().optional(),
+    }),
+})
+
+export type Archive = z.infer<typeof archiveSchema>
+
+export type ImportMode = 'merge' | 'replace'
+
+export interface ArchiveConflict {
+    kind: 'bookmark' | 'setting'
+    key: string
+    // what was kept after the import
+    resolution: 'kept-local' | 'used-archive' | 'combined'
+}
+
+export interface ImportReport {
+    bookmarks: { added: number; updated: number }
+    seenPosts: { added: number; updated: number }
+    settings: { changed: number }
+    conflicts: ArchiveConflict[]
+}
+
+export class ArchiveError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'ArchiveError'
+    }
+}
+
+function parseFolders(raw: string | null): string[] {
+    try {
+        const folders = JSON.parse(raw ?? '[]')
+        return Array.isArray(folders) ? folders.filter(f => typeof f === 'string') : []
+    } catch {
+        return []
+    }
+}
+
+function isSameValue(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b)
+}
+
+export async function createArchive(): Promise<Archive> {
+    const [bookmarks, seenPosts] = await Promise.all([listBookmarks(), listSeenPosts()])
+
+    const settings = Object.fromEntries(
+        deerSettingsKeys.map(key => [key, persisted.get(key)]),
+    ) as DeerSettings
+
+    return {
+        $type: 'social.deer.archive',
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        bookmarks: bookmarks.map(bookmark => ({
+            ...bookmark,
+            savedAt: new Date(bookmark.savedAt).toISOString(),
+        })),
+        bookmarkFolders: parseFolders(getLocalStorage(BOOKMARK_FOLDERS_KEY)),
+        seenPosts: seenPosts.map(seenPost => ({
+            ...seenPost,
+            lastSeenAt: new Date(seenPost.lastSeenAt).toISOString(),
+        })),
+        hideSeenPosts: getLocalStorage(HIDE_SEEN_POSTS_KEY) === 'true',
+        seenPostsModes: parseSeenPostsModes(getLocalStorage(SEEN_POSTS_MODES_KEY)),
+        settings,
+        device: {
+            customAppViewDid: device.get(['customAppViewDid']),
+        },
+    }
+}
+
+export function parseArchive(raw: string): Archive {
+    let json: unknown
+    try {
+        json = JSON.parse(raw)
+    } catch {
+        throw new ArchiveError('The file is not valid JSON')
+    }
+
+    const parsed = archiveSchema.safeParse(json)
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0]
+        if (issue?.path[0] === 'version') {
+            throw new ArchiveError('This archive was made by an incompatible version of deer')
+        }
+        throw new ArchiveError(`Invalid archive: ${issue?.path.join('.') || 'root'} ${issue?.message ?? ''}`.trim())
+    }
+    return parsed.data
+}
+
+export async function importArchive(archive: Archive, mode: ImportMode): Promise<ImportReport> {
+    const report: ImportReport = {
+        bookmarks: { added: 0, updated: 0 },
+        seenPosts: { added: 0, updated: 0 },
+        settings: { changed: 0 },
+        conflicts: [],
+    }
+
+    // bookmarks
+    const localBookmarks = new Map<string, Bookmark>()
+    if (mode === 'replace') {
+        await clearBookmarks()
+    } else {
+        for (const bookmark of await listBookmarks()) {
+            localBookmarks.set(bookmarkKey(bookmark.post), bookmark)
+        }
+    }
+
+    const nextBookmarks: Bookmark[] = []
+    for (const imported of archive.bookmarks) {
+        const key = bookmarkKey(imported.post)
+        const incoming: Bookmark = { ...imported, savedAt: new Date(imported.savedAt) }
+        const local = localBookmarks.get(key)
+        if (!local) {
+            nextBookmarks.push(incoming)
+            report.bookmarks.added++
+            continue
+        }
+        const folders = [...new Set([...local.folders, ...incoming.folders])]
+        if (folders.length === local.folders.length && local.snapshot) {
+            continue
+        }
+        if (!isSameValue(local.folders, incoming.folders)) {
+            report.conflicts.push({ kind: 'bookmark', key: imported.post.uri, resolution: 'combined' })
+        }
+        nextBookmarks.push({
+            ...local,
+            folders,
+            snapshot: local.snapshot ?? incoming.snapshot,
+            // keep whichever save happened first
+            savedAt: new Date(Math.min(new Date(local.savedAt).getTime(), incoming.savedAt.getTime())),
+        })
+        report.bookmarks.updated++
+    }
+    await putBookmarks(nextBookmarks)
+
+    const folders = mode === 'replace'
+        ? archive.bookmarkFolders
+        : [...new Set([...parseFolders(getLocalStorage(BOOKMARK_FOLDERS_KEY)), ...archive.bookmarkFolders])]
+    setLocalStorage(BOOKMARK_FOLDERS_KEY, JSON.stringify(folders))
+
+    // seen posts, where the most recent sighting wins
+    const localSeenPosts = new Map<string, SeenPost>()
+    if (mode === 'replace') {
+        await clearSeenPosts()
+    } else {
+        for (const seenPost of await listSeenPosts()) {
+            localSeenPosts.set(bookmarkKey(seenPost.post), seenPost)
+        }
+    }
+
+    const nextSeenPosts: SeenPost[] = []
+    for (const imported of archive.seenPosts) {
+        const incoming: SeenPost = {
+            post: imported.post,
+            lastSeenAt: new Date(imported.lastSeenAt),
+            lastSeenFeed: imported.lastSeenFeed as FeedDescriptor,
+        }
+        const local = localSeenPosts.get(bookmarkKey(imported.post))
+        if (!local) {
+            nextSeenPosts.push(incoming)
+            report.seenPosts.added++
+        } else if (new Date(local.lastSeenAt).getTime() < incoming.lastSeenAt.getTime()) {
+            nextSeenPosts.push(incoming)
+            report.seenPosts.updated++
+        }
+    }
+    putSeenPosts(nextSeenPosts)
+
+    // settings. when merging, anything the user already changed on this device wins
+    const applySetting = <K extends keyof DeerSettings>(key: K, value: DeerSettings[K]) => {
+        const local = persisted.get(key)
+        if (value === undefined || isSameValue(local, value)) {
+            return
+        }
+        if (!isSameValue(local, persisted.defaults[key])) {
+            if (mode === 'merge') {
+                report.conflicts.push({ kind: 'setting', key, resolution: 'kept-local' })
+                return
+            }
+            report.conflicts.push({ kind: 'setting', key, resolution: 'used-archive' })
+        }
+        persisted.write(key, value as persisted.Schema[K])
+        report.settings.changed++
+    }
+    for (const key of deerSettingsKeys) {
+        applySetting(key, archive.settings[key])
+    }
+
+    const localHideSeenPosts = getLocalStorage(HIDE_SEEN_POSTS_KEY) === 'true'
+    if (localHideSeenPosts !== archive.hideSeenPosts) {
+        if (mode === 'merge' && localHideSeenPosts) {
+            report.conflicts.push({ kind: 'setting', key: 'hideSeenPosts', resolution: 'kept-local' })
+        } else {
+            setLocalStorage(HIDE_SEEN_POSTS_KEY, archive.hideSeenPosts ? 'true' : 'false')
+            report.settings.changed++
+        }
+    }
+
+    if (archive.seenPostsModes) {
+        const localModes = parseSeenPostsModes(getLocalStorage(SEEN_POSTS_MODES_KEY))
+        const nextModes = mode === 'replace' ? archive.seenPostsModes : { ...archive.seenPostsModes, ...localModes }
+        if (!isSameValue(localModes, nextModes)) {
+            setLocalStorage(SEEN_POSTS_MODES_KEY, JSON.stringify(nextModes))
+            report.settings.changed++
+        }
+    }
+
+    const localAppView = device.get(['customAppViewDid'])
+    const importedAppView = archive.device.customAppViewDid
+    if (localAppView !== importedAppView) {
+        if (mode === 'merge' && localAppView) {
+            if (importedAppView) {
+                report.conflicts.push({ kind: 'setting', key: 'customAppViewDid', resolution: 'kept-local' })
+            }
+        } else {
+            if (importedAppView) {
+                device.set(['customAppViewDid'], importedAppView)
+            } else {
+                device.remove(['customAppViewDid'])
+            }
+            report.settings.changed++
+        }
+    }
+
+    return report
+}
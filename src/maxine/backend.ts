@@ -0,0 +1,94 @@
+import { MMKV } from "react-native-mmkv"
+
+import { type KV } from "./kv"
+
+// indexeddb stores dates as dates, so keep them as dates here too
+function replacer(this: Record<string, unknown>, key: string, value: unknown) {
+    const raw = this[key]
+    return raw instanceof Date ? { $date: raw.toISOString() } : value
+}
+
+function reviver(_key: string, value: unknown) {
+    if (typeof value === 'object' && value !== null && '$date' in value && typeof value.$date === 'string') {
+        return new Date(value.$date)
+    }
+    return value
+}
+
+class MmkvKV<K extends string, V> implements KV<K, V> {
+    private readonly store: MMKV
+
+    constructor(name: string) {
+        this.store = new MMKV({ id: `maxine_${name}` })
+    }
+
+    private read(key: K): V | undefined {
+        const raw = this.store.getString(key)
+        return raw === undefined ? undefined : JSON.parse(raw, reviver)
+    }
+
+    async get(key: K) {
+        return this.read(key)
+    }
+
+    async getBatch(keys: K[]) {
+        return new Map(keys.map(key => [key, this.read(key)] as const))
+    }
+
+    async set(key: K, value: V) {
+        this.store.set(key, JSON.stringify(value, replacer))
+    }
+
+    // MMKV is synchronous, so nothing else can write between the read and the write
+    async update(key: K, fn: (value: V | undefined) => V | undefined) {
+        const next = fn(this.read(key))
+        if (next !== undefined) {
+            this.store.set(key, JSON.stringify(next, replacer))
+        }
+        return next
+    }
+
+    async delete(key: K) {
+        this.store.delete(key)
+    }
+
+    async deleteBatch(keys: K[]) {
+        for (const key of keys) {
+            this.store.delete(key)
+        }
+    }
+
+    async entries() {
+        const entries: [K, V][] = []
+        for (const key of this.store.getAllKeys() as K[]) {
+            const value = this.read(key)
+            if (value !== undefined) {
+                entries.push([key, value])
+            }
+        }
+        return entries
+    }
+
+    async clear() {
+        this.store.clearAll()
+    }
+}
+
+export function createKV<K extends string, V>(name: string): KV<K, V> {
+    return new MmkvKV<K, V>(name)
+}
+
+const strings = new MMKV({ id: 'maxine_local_store' })
+
+export const stringStore = {
+    get(key: string) {
+        return strings.getString(key) ?? null
+    },
+    set(key: string, value: string) {
+        strings.set(key, value)
+    },
+    // there's only ever one instance of the app on native
+    onExternalChange(_callback: (key: string | null, value: string | null) => void) {
+        return () => {}
+    },
+}
@@ -0,0 +1,25 @@
+import IdbKV from "./idb"
+import { type KV } from "./kv"
+
+export function createKV<K extends string, V>(name: string): KV<K, V> {
+    return new IdbKV<K, V>(name)
+}
+
+export const stringStore = {
+    get(key: string) {
+        return localStorage.getItem(key)
+    },
+    set(key: string, value: string) {
+        localStorage.setItem(key, value)
+    },
+    // only fires for changes made in other tabs
+    onExternalChange(callback: (key: string | null, value: string | null) => void) {
+        const listener = (event: StorageEvent) => {
+            if (event.storageArea === localStorage) {
+                callback(event.key, event.newValue)
+            }
+        }
+        addEventListener('storage', listener)
+        return () => removeEventListener('storage', listener)
+    },
+}
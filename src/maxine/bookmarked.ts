@@ -1,21 +1,256 @@
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
+import { type AppBskyFeedDefs, AppBskyFeedPost } from "@atproto/api"
 
-import { IdbWithInMemoryCache } from "./idb"
+import { logger } from "#/logger"
+import { useSession } from "#/state/session"
+import * as bsky from "#/types/bsky"
+import { createEvents } from "./events"
+import { CachedKV } from "./kv"
+import { getLocalStorage, setLocalStorage, useLocalStorage } from "./local-store"
 
-const bookmarked = new IdbWithInMemoryCache<string, boolean>('bookmarked')
+export interface BookmarkSnapshot {
+    text: string
+    createdAt?: string
+    author: {
+        did: string
+        handle: string
+        displayName?: string
+        avatar?: string
+    }
+}
 
-export function useIsBookmarked(post: { uri: string; cid: string }) {
+export interface Bookmark {
+    post: { uri: string; cid: string }
+    savedAt: Date
+    folders: string[]
+    // kept so deleted or hidden posts still have something to show
+    snapshot?: BookmarkSnapshot
+    // last time the bookmark or its folders changed, used to merge synced bookmarks
+    updatedAt?: Date
+    // the account that saved it, only that account's sync pushes it
+    did?: string
+}
+
+// remembers removals so they can be synced to other devices
+export interface BookmarkTombstone {
+    post: { uri: string; cid: string }
+    removedAt: Date
+    did?: string
+}
+
+// older versions of deer stored a plain `true` per bookmarked post
+type StoredBookmark = Bookmark | BookmarkTombstone | boolean
+
+// tombstones only need to live long enough for other devices to see them
+export const BOOKMARK_TOMBSTONE_TTL = 30 * 24 * 60 * 60 * 1000
+const TOMBSTONES_LAST_PRUNED_KEY = 'maxine:bookmarkTombstonesLastPruned'
+
+// how often removeBookmarks is allowed to kick off a prune
+const PRUNE_INTERVAL = 24 * 60 * 60 * 1000
+
+function isTombstone(stored: StoredBookmark): stored is BookmarkTombstone {
+    return typeof stored === 'object' && 'removedAt' in stored
+}
+
+const bookmarked = new CachedKV<string, StoredBookmark>('bookmarked')
+
+interface BookmarkEvents {
+    // an empty key means every bookmark may have changed
+    change(key: string): void
+}
+
+const bookmarkEvents = createEvents<BookmarkEvents>()
+
+export function bookmarkKey(post: { uri: string; cid: string }) {
+    return `${post.uri}:${post.cid}`
+}
+
+function normalizeBookmark(key: string, stored: StoredBookmark | undefined): Bookmark | undefined {
+    if (!stored || isTombstone(stored)) {
+        return undefined
+    }
+    if (stored === true) {
+        const separator = key.lastIndexOf(':')
+        return {
+            post: { uri: key.slice(0, separator), cid: key.slice(separator + 1) },
+            // we never recorded when legacy bookmarks were saved
+            savedAt: new Date(0),
+            folders: [],
+        }
+    }
+    return stored
+}
+
+export function snapshotPost(post: AppBskyFeedDefs.PostView): BookmarkSnapshot {
+    const record = bsky.dangerousIsType<AppBskyFeedPost.Record>(
+        post.record,
+        AppBskyFeedPost.isRecord,
+    )
+        ? post.record
+        : undefined
+    return {
+        text: record?.text ?? '',
+        createdAt: record?.createdAt,
+        author: {
+            did: post.author.did,
+            handle: post.author.handle,
+            displayName: post.author.displayName,
+            avatar: post.author.avatar,
+        },
+    }
+}
+
+export async function getBookmark(post: { uri: string; cid: string }) {
+    const key = bookmarkKey(post)
+    return normalizeBookmark(key, await bookmarked.get(key))
+}
+
+export async function listBookmarks(): Promise<Bookmark[]> {
+    const entries = await bookmarked.entries()
+    return entries
+        .map(([key, stored]) => normalizeBookmark(key, stored))
+        .filter((bookmark): bookmark is Bookmark => !!bookmark)
+}
+
+export async function listBookmarkTombstones(): Promise<BookmarkTombstone[]> {
+    const entries = await bookmarked.entries()
+    return entries
+        .map(([, stored]) => stored)
+        .filter((stored): stored is BookmarkTombstone => isTombstone(stored))
+}
+
+export async function addBookmark(post: AppBskyFeedDefs.PostView, did: string | undefined, folders: string[] = []) {
+    const key = bookmarkKey(post)
+    const now = new Date()
+    await bookmarked.set(key, {
+        post: { uri: post.uri, cid: post.cid },
+        savedAt: now,
+        folders,
+        snapshot: snapshotPost(post),
+        updatedAt: now,
+        did,
+    })
+    bookmarkEvents.emit('change', key)
+}
+
+export async function removeBookmarks(posts: { uri: string; cid: string }[], removedAt = new Date()) {
+    for (const post of posts) {
+        const key = bookmarkKey(post)
+        const existing = await bookmarked.get(key)
+        // the removal belongs to whichever account saved the bookmark. with no
+        // account there's nothing to sync it to, so it's just dropped
+        const did = typeof existing === 'object' ? existing.did : undefined
+        if (did) {
+            await bookmarked.set(key, { post: { uri: post.uri, cid: post.cid }, removedAt, did })
+        } else {
+            await bookmarked.delete(key)
+        }
+        bookmarkEvents.emit('change', key)
+    }
+    maybePruneBookmarkTombstones()
+}
+
+function maybePruneBookmarkTombstones() {
+    const lastPruned = Number(getLocalStorage(TOMBSTONES_LAST_PRUNED_KEY) ?? 0)
+    if (Date.now() - lastPruned < PRUNE_INTERVAL) {
+        return
+    }
+    setLocalStorage(TOMBSTONES_LAST_PRUNED_KEY, String(Date.now()))
+    pruneBookmarkTombstones().catch(e => logger.error(e, { message: 'bookmarks: failed to prune tombstones' }))
+}
+
+async function pruneBookmarkTombstones() {
+    const cutoff = Date.now() - BOOKMARK_TOMBSTONE_TTL
+    const keys = (await bookmarked.entries())
+        .filter(([, stored]) => isTombstone(stored) && new Date(stored.removedAt).getTime() < cutoff)
+        .map(([key]) => key)
+    await bookmarked.deleteBatch(keys)
+}
+
+export async function setBookmarkFolders(posts: { uri: string; cid: string }[], update: (folders: string[]) => string[]) {
+    await Promise.all(posts.map(async post => {
+        const key = bookmarkKey(post)
+        const bookmark = normalizeBookmark(key, await bookmarked.get(key))
+        if (!bookmark) {
+            return
+        }
+        await bookmarked.set(key, { ...bookmark, folders: update(bookmark.folders), updatedAt: new Date() })
+        bookmarkEvents.emit('change', key)
+    }))
+}
+
+export async function putBookmarks(bookmarks: Bookmark[]) {
+    for (const bookmark of bookmarks) {
+        const key = bookmarkKey(bookmark.post)
+        await bookmarked.set(key, bookmark)
+        bookmarkEvents.emit('change', key)
+    }
+}
+
+export async function clearBookmarks() {
+    await bookmarked.clear()
+    bookmarkEvents.emit('change', '')
+}
+
+export function onBookmarksChanged(callback: (key: string) => void) {
+    return bookmarkEvents.on('change', callback)
+}
+
+export function useIsBookmarked(post: AppBskyFeedDefs.PostView) {
     const [isBookmarked, setIsBookmarked] = useState(false)
+    const { currentAccount } = useSession()
 
-    const key = `${post.uri}:${post.cid}`
+    const key = bookmarkKey(post)
     useEffect(() => {
-        bookmarked.get(key).then(bookmark => {
-            setIsBookmarked(!!bookmark)
+        const load = () => {
+            bookmarked.get(key).then(stored => {
+                setIsBookmarked(!!normalizeBookmark(key, stored))
+            })
+        }
+        load()
+        return bookmarkEvents.on('change', changedKey => {
+            if (changedKey === key || changedKey === '') {
+                load()
+            }
         })
     }, [key])
 
     return [isBookmarked, (value: boolean) => {
-        bookmarked.set(key, value)
+        if (value) {
+            addBookmark(post, currentAccount?.did)
+        } else {
+            removeBookmarks([post])
+        }
         setIsBookmarked(value)
     }] as const
-}
\ No newline at end of file
+}
+
+export function useBookmarks() {
+    const [bookmarks, setBookmarks] = useState<Bookmark[] | undefined>(undefined)
+
+    const reload = useCallback(() => {
+        listBookmarks().then(setBookmarks)
+    }, [])
+
+    useEffect(() => {
+        reload()
+        return bookmarkEvents.on('change', reload)
+    }, [reload])
+
+    return bookmarks
+}
+
+export const BOOKMARK_FOLDERS_KEY = 'maxine:bookmarkFolders'
+
+export function useBookmarkFolders() {
+    const [folders, setFolders] = useLocalStorage(BOOKMARK_FOLDERS_KEY, '[]')
+
+    let parsed: string[] = []
+    try {
+        parsed = JSON.parse(folders)
+    } catch {
+        // fall through with no folders
+    }
+
+    return [parsed, (value: string[]) => setFolders(JSON.stringify(value))] as const
+}
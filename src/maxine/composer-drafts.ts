@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react"
+import { type AppBskyFeedPostgate, type AppBskyRichtextFacet } from "@atproto/api"
+
+import { type SelfLabel } from "#/lib/moderation"
+import { type ComposerImage } from "#/state/gallery"
+import { type Gif } from "#/state/queries/tenor"
+import { type ThreadgateAllowUISetting } from "#/state/queries/threadgate"
+import { createKV } from "./backend"
+import { deleteDraftImages } from "./draft-media"
+import { createEvents } from "./events"
+
+export interface SavedPostDraft {
+    text: string
+    facets?: AppBskyRichtextFacet.Main[]
+    labels: SelfLabel[]
+    quoteUri?: string
+    linkUri?: string
+    // copied out of the composer's temporary files, see `./draft-media`
+    images?: ComposerImage[]
+    gif?: { gif: Gif; alt: string }
+}
+
+export interface SavedDraft {
+    id: string
+    // the account the draft was written from
+    did: string
+    posts: SavedPostDraft[]
+    postgate: AppBskyFeedPostgate.Record
+    threadgate: ThreadgateAllowUISetting[]
+    updatedAt: Date
+}
+
+const drafts = createKV<string, SavedDraft>('composer-drafts')
+
+interface DraftEvents {
+    change(): void
+}
+
+const draftEvents = createEvents<DraftEvents>()
+
+export async function saveDraft(draft: SavedDraft) {
+    await drafts.set(draft.id, draft)
+    draftEvents.emit('change')
+}
+
+export async function deleteDraft(id: string) {
+    await drafts.delete(id)
+    await deleteDraftImages(id)
+    draftEvents.emit('change')
+}
+
+async function listDrafts(did: string) {
+    const entries = await drafts.entries()
+    return entries
+        .map(([, draft]) => draft)
+        .filter(draft => draft.did === did)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
+
+// newest first
+export function useDrafts(did: string) {
+    const [list, setList] = useState<SavedDraft[] | undefined>(undefined)
+
+    useEffect(() => {
+        let cancelled = false
+        const load = () => {
+            listDrafts(did).then(loaded => {
+                if (!cancelled) {
+                    setList(loaded)
+                }
+            })
+        }
+        load()
+        const unsubscribe = draftEvents.on('change', load)
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [did])
+
+    return list
+}
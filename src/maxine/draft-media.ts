@@ -0,0 +1,58 @@
+import { copyAsync, deleteAsync, documentDirectory, makeDirectoryAsync, readDirectoryAsync } from "expo-file-system"
+
+import { type ComposerImage, type ImageMeta } from "#/state/gallery"
+
+// the composer's own files live in the cache directory and are purged on close
+function draftDirectory(draftId: string) {
+    return `${documentDirectory}composer-drafts/${draftId}/`
+}
+
+function fileName(path: string) {
+    return path.slice(path.lastIndexOf('/') + 1)
+}
+
+async function persistFile<T extends ImageMeta>(meta: T, dir: string): Promise<T> {
+    if (meta.path.startsWith(dir)) {
+        return meta
+    }
+    const path = dir + fileName(meta.path)
+    await copyAsync({ from: meta.path, to: path })
+    return { ...meta, path }
+}
+
+export async function persistDraftImage(draftId: string, image: ComposerImage): Promise<ComposerImage> {
+    const dir = draftDirectory(draftId)
+    await makeDirectoryAsync(dir, { intermediates: true })
+    const source = await persistFile(image.source, dir)
+    if (image.transformed) {
+        return { ...image, source, transformed: await persistFile(image.transformed, dir) }
+    }
+    return { ...image, source }
+}
+
+// removes files left behind by images taken out of the draft
+export async function pruneDraftImages(draftId: string, images: ComposerImage[]) {
+    const dir = draftDirectory(draftId)
+    const kept = new Set<string>()
+    for (const image of images) {
+        kept.add(fileName(image.source.path))
+        if (image.transformed) {
+            kept.add(fileName(image.transformed.path))
+        }
+    }
+    let files: string[]
+    try {
+        files = await readDirectoryAsync(dir)
+    } catch {
+        return
+    }
+    for (const file of files) {
+        if (!kept.has(file)) {
+            await deleteAsync(dir + file, { idempotent: true })
+        }
+    }
+}
+
+export async function deleteDraftImages(draftId: string) {
+    await deleteAsync(draftDirectory(draftId), { idempotent: true })
+}
@@ -0,0 +1,23 @@
+import { blobToDataUri } from "#/lib/media/util"
+import { type ComposerImage, type ImageMeta } from "#/state/gallery"
+
+// blob URLs die with the page, data URIs can be stored alongside the draft
+async function persistFile<T extends ImageMeta>(meta: T): Promise<T> {
+    if (!meta.path.startsWith('blob:')) {
+        return meta
+    }
+    const blob = await fetch(meta.path).then(res => res.blob())
+    return { ...meta, path: await blobToDataUri(blob) }
+}
+
+export async function persistDraftImage(_draftId: string, image: ComposerImage): Promise<ComposerImage> {
+    const source = await persistFile(image.source)
+    if (image.transformed) {
+        return { ...image, source, transformed: await persistFile(image.transformed) }
+    }
+    return { ...image, source }
+}
+
+export async function pruneDraftImages(_draftId: string, _images: ComposerImage[]) {}
+
+export async function deleteDraftImages(_draftId: string) {}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react"
+
+import { createEvents } from "./events"
+import { CachedKV } from "./kv"
+
+// Posts can't be edited in place, so an edit publishes a corrected copy and
+// either deletes the original or leaves it up with a reply pointing at the
+// copy. This remembers what each of our edited posts used to say.
+
+export interface PostVersion {
+    uri: string
+    text: string
+    // when this version was originally posted
+    createdAt: Date
+    // whether it was left up instead of deleted
+    kept: boolean
+}
+
+export interface EditHistory {
+    // the current version
+    uri: string
+    editedAt: Date
+    // oldest first
+    versions: PostVersion[]
+}
+
+// keyed by the uri of the current version
+const history = new CachedKV<string, EditHistory>('edit-history')
+
+interface EditHistoryEvents {
+    change(uri: string): void
+}
+
+const editHistoryEvents = createEvents<EditHistoryEvents>()
+
+/**
+ * Records that `previous` was replaced by the post at `uri`, carrying over
+ * whatever history `previous` already had from earlier edits.
+ */
+export async function recordEdit(uri: string, previous: PostVersion) {
+    const earlier = await history.get(previous.uri)
+    await history.set(uri, {
+        uri,
+        editedAt: new Date(),
+        versions: [...(earlier?.versions ?? []), previous],
+    })
+    if (earlier) {
+        await history.delete(previous.uri)
+        editHistoryEvents.emit('change', previous.uri)
+    }
+    editHistoryEvents.emit('change', uri)
+}
+
+// undefined while loading or if the post was never edited
+export function useEditHistory(uri: string) {
+    const [entry, setEntry] = useState<EditHistory | undefined>(undefined)
+
+    useEffect(() => {
+        let cancelled = false
+        const load = () => {
+            history.get(uri).then(stored => {
+                if (!cancelled) {
+                    setEntry(stored)
+                }
+            })
+        }
+        load()
+        const unsubscribe = editHistoryEvents.on('change', changed => {
+            if (changed === uri) {
+                load()
+            }
+        })
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [uri])
+
+    return entry
+}
@@ -0,0 +1,178 @@
+import {
+    AppBskyEmbedExternal,
+    AppBskyEmbedImages,
+    AppBskyEmbedRecord,
+    AppBskyEmbedRecordWithMedia,
+    AppBskyEmbedVideo,
+    type AppBskyFeedDefs,
+    AppBskyFeedPost,
+    type BskyAgent,
+    ComAtprotoLabelDefs,
+    RichText,
+} from "@atproto/api"
+import { type QueryClient } from "@tanstack/react-query"
+
+import { POST_IMG_MAX } from "#/lib/constants"
+import { downloadAndResize } from "#/lib/media/manip"
+import { SELF_LABELS } from "#/lib/moderation"
+import { expandLinks } from "#/lib/strings/rich-text-manip"
+import { postUriToRelativePath, toBskyAppUrl } from "#/lib/strings/url-helpers"
+import { updatePostShadow } from "#/state/cache/post-shadow"
+import { type ComposerImage, createComposerImage } from "#/state/gallery"
+import { type ComposerOpts, type ComposerOptsPostRef } from "#/state/shell/composer"
+import * as bsky from "#/types/bsky"
+import { type SavedPostDraft } from "./composer-drafts"
+import { recordEdit } from "./edit-history"
+
+export interface EditedPost {
+    uri: string
+    cid: string
+    record: AppBskyFeedPost.Record
+    // the post as it goes back into the composer
+    draft: SavedPostDraft
+}
+
+function getImages(embed: AppBskyFeedDefs.PostView['embed']) {
+    if (AppBskyEmbedImages.isView(embed)) {
+        return embed.images
+    }
+    if (AppBskyEmbedRecordWithMedia.isView(embed) && AppBskyEmbedImages.isView(embed.media)) {
+        return embed.media.images
+    }
+    return []
+}
+
+function getQuoteUri(embed: AppBskyFeedPost.Record['embed']) {
+    if (AppBskyEmbedRecord.isMain(embed)) {
+        return embed.record.uri
+    }
+    if (AppBskyEmbedRecordWithMedia.isMain(embed)) {
+        return embed.record.record.uri
+    }
+}
+
+function getLinkUri(embed: AppBskyFeedPost.Record['embed']) {
+    if (AppBskyEmbedExternal.isMain(embed)) {
+        return embed.external.uri
+    }
+    if (AppBskyEmbedRecordWithMedia.isMain(embed) && AppBskyEmbedExternal.isMain(embed.media)) {
+        return embed.media.external.uri
+    }
+}
+
+// videos are uploaded from a file on the device, which we don't have
+export function canEditPost(post: AppBskyFeedDefs.PostView) {
+    const embed = post.embed
+    return !AppBskyEmbedVideo.isView(embed)
+        && !(AppBskyEmbedRecordWithMedia.isView(embed) && AppBskyEmbedVideo.isView(embed.media))
+}
+
+async function downloadImage(image: AppBskyEmbedImages.ViewImage): Promise<ComposerImage> {
+    const downloaded = await downloadAndResize({
+        uri: image.fullsize,
+        width: POST_IMG_MAX.width,
+        height: POST_IMG_MAX.height,
+        mode: 'contain',
+        maxSize: POST_IMG_MAX.size,
+        timeout: 15e3,
+    })
+    if (!downloaded) {
+        throw new Error('Failed to download image')
+    }
+    return { ...await createComposerImage(downloaded), alt: image.alt }
+}
+
+/**
+ * Builds the composer options for editing one of our own posts: its text with
+ * links written out in full, its images downloaded again, and the post it
+ * replies to, if any.
+ */
+export async function prepareEditPost(agent: BskyAgent, post: AppBskyFeedDefs.PostView): Promise<ComposerOpts | undefined> {
+    if (!bsky.dangerousIsType<AppBskyFeedPost.Record>(post.record, AppBskyFeedPost.isRecord)) {
+        return
+    }
+    const record = post.record
+
+    const rt = expandLinks(new RichText({ text: record.text, facets: record.facets }))
+    const labels = ComAtprotoLabelDefs.isSelfLabels(record.labels)
+        ? record.labels.values.map(label => label.val).filter(val => SELF_LABELS.includes(val))
+        : []
+    const quoteUri = getQuoteUri(record.embed)
+    const quotePath = quoteUri ? postUriToRelativePath(quoteUri) : undefined
+    const images = await Promise.all(getImages(post.embed).map(downloadImage))
+
+    let replyTo: ComposerOptsPostRef | undefined
+    if (record.reply) {
+        const { data } = await agent.getPosts({ uris: [record.reply.parent.uri] })
+        const parent = data.posts[0]
+        if (parent && bsky.dangerousIsType<AppBskyFeedPost.Record>(parent.record, AppBskyFeedPost.isRecord)) {
+            replyTo = {
+                uri: parent.uri,
+                cid: parent.cid,
+                text: parent.record.text,
+                author: parent.author,
+                embed: parent.embed,
+            }
+        }
+    }
+
+    return {
+        replyTo,
+        editPost: {
+            uri: post.uri,
+            cid: post.cid,
+            record,
+            draft: {
+                text: rt.text,
+                facets: rt.facets,
+                labels,
+                quoteUri: quotePath ? toBskyAppUrl(quotePath) : undefined,
+                linkUri: getLinkUri(record.embed),
+                images: images.length ? images : undefined,
+            },
+        },
+    }
+}
+
+/**
+ * Runs after the corrected post is published: either deletes the original,
+ * or keeps it, so quotes of it still work, and replies to it with a quote of
+ * the new version. Either way the old text goes into the edit history.
+ */
+export async function finishEditPost(agent: BskyAgent, queryClient: QueryClient, {
+    original,
+    uri,
+    cid,
+    keepOriginal,
+    redirectText,
+}: {
+    original: EditedPost
+    uri: string
+    cid: string
+    keepOriginal: boolean
+    redirectText: string
+}) {
+    if (keepOriginal) {
+        const parent = { uri: original.uri, cid: original.cid }
+        await agent.post({
+            text: redirectText,
+            reply: { root: original.record.reply?.root ?? parent, parent },
+            embed: {
+                $type: 'app.bsky.embed.record',
+                record: { uri, cid },
+            },
+            langs: original.record.langs,
+            createdAt: new Date().toISOString(),
+        })
+    } else {
+        await agent.deletePost(original.uri)
+        updatePostShadow(queryClient, original.uri, { isDeleted: true })
+    }
+
+    await recordEdit(uri, {
+        uri: original.uri,
+        text: original.record.text,
+        createdAt: new Date(original.record.createdAt),
+        kept: keepOriginal,
+    })
+}
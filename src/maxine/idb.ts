@@ -59,17 +59,16 @@ export default class IdbKV<K extends IDBValidKey, V> {
     async getBatch(keys: K[]): Promise<Map<K, V | undefined>> {
         const db = await this.db
 
-        const store = db.transaction(this.storeName, 'readonly').objectStore(this.storeName)
-
-        const request = store.getAll(keys)
+        const transaction = db.transaction(this.storeName, 'readonly')
+        const store = transaction.objectStore(this.storeName)
 
-        function zip(a: K[], b: V[]) {
-            return a.map((k, i) => [k, b[i]] as const)
-        }
+        // getAll() takes a key range rather than a list of keys, so issue one
+        // get per key and let the transaction batch them
+        const requests = keys.map(key => [key, store.get(key)] as const)
 
-        return new Promise<Map<K, V>>((resolve, reject) => {
-            request.onsuccess = () => resolve(new Map<K, V>(zip(keys, request.result as V[])))
-            request.onerror = () => reject(request.error)
+        return new Promise<Map<K, V | undefined>>((resolve, reject) => {
+            transaction.oncomplete = () => resolve(new Map(requests.map(([key, request]) => [key, request.result as V | undefined])))
+            transaction.onerror = () => reject(transaction.error)
         })
     }
 
@@ -86,6 +85,29 @@ export default class IdbKV<K extends IDBValidKey, V> {
         })
     }
 
+    async update(key: K, fn: (value: V | undefined) => V | undefined) {
+        const db = await this.db
+
+        // the read and the write share one readwrite transaction, so no other
+        // transaction on this store can run in between
+        const transaction = db.transaction(this.storeName, 'readwrite')
+        const store = transaction.objectStore(this.storeName)
+
+        let next: V | undefined
+        const request = store.get(key)
+        request.onsuccess = () => {
+            next = fn(request.result)
+            if (next !== undefined) {
+                store.put(next, key)
+            }
+        }
+
+        return new Promise<V | undefined>((resolve, reject) => {
+            transaction.oncomplete = () => resolve(next)
+            transaction.onerror = () => reject(transaction.error)
+        })
+    }
+
     async delete(key: K) {
         const db = await this.db
 
@@ -99,69 +121,69 @@ export default class IdbKV<K extends IDBValidKey, V> {
         })
     }
 
-    async destroy() {
+    async entries(): Promise<[K, V][]> {
         const db = await this.db
 
-        // the onsuccess event will only be called after the DB closes
-        db.close()
+        const store = db.transaction(this.storeName, 'readonly').objectStore(this.storeName)
 
-        const request = indexedDB.deleteDatabase(db.name)
+        // both requests run in the same transaction, so keys and values line up
+        const keysRequest = store.getAllKeys()
+        const valuesRequest = store.getAll()
 
-        // reject commits after destruction and by extension reject new actions
-        this.db = Promise.reject(new Error('This idb-kv instance has been destroyed'))
+        return new Promise<[K, V][]>((resolve, reject) => {
+            valuesRequest.onsuccess = () => {
+                const keys = keysRequest.result as K[]
+                const values = valuesRequest.result as V[]
+                resolve(keys.map((k, i) => [k, values[i]]))
+            }
+            keysRequest.onerror = () => reject(keysRequest.error)
+            valuesRequest.onerror = () => reject(valuesRequest.error)
+        })
+    }
+
+    async deleteBatch(keys: K[]) {
+        const db = await this.db
+
+        const transaction = db.transaction(this.storeName, 'readwrite')
+        const store = transaction.objectStore(this.storeName)
+
+        for (const key of keys) {
+            store.delete(key)
+        }
 
         return new Promise<void>((resolve, reject) => {
-            request.onsuccess = () => resolve()
-            request.onerror = () => reject(request.error)
+            transaction.oncomplete = () => resolve()
+            transaction.onerror = () => reject(transaction.error)
         })
     }
-}
 
-export class IdbWithInMemoryCache<K extends IDBValidKey, V> {
-    private readonly idb: IdbKV<K, V>
-    private readonly cache: Map<K, V | undefined>
-    constructor(dbName: string) {
-        this.idb = new IdbKV(dbName)
-        this.cache = new Map()
-    }
+    async clear() {
+        const db = await this.db
 
-    set(key: K, value: V) {
-        this.cache.set(key, value)
-        this.idb.set(key, value)
-    }
+        const store = db.transaction(this.storeName, 'readwrite').objectStore(this.storeName)
 
-    get(key: K): Promise<V | undefined> {
-        if (this.cache.has(key)) {
-            return Promise.resolve(this.cache.get(key))
-        }
-        return this.idb.get(key).then(value => {
-            this.cache.set(key, value)
-            return value
+        const request = store.clear()
+
+        return new Promise<void>((resolve, reject) => {
+            request.onsuccess = () => resolve()
+            request.onerror = () => reject(request.error)
         })
     }
 
-    getBatch(keys: K[]): Promise<Map<K, V | undefined>> {
-        let readAllKeysFromCache = true
+    async destroy() {
+        const db = await this.db
+
+        // the onsuccess event will only be called after the DB closes
+        db.close()
 
-        const result = new Map<K, V | undefined>()
-        for (const key of keys) {
-            if (this.cache.has(key)) {
-                result.set(key, this.cache.get(key))
-            } else {
-                readAllKeysFromCache = false
-                break
-            }
-        }
+        const request = indexedDB.deleteDatabase(db.name)
 
-        if (readAllKeysFromCache) {
-            return Promise.resolve(result)
-        }
+        // reject commits after destruction and by extension reject new actions
+        this.db = Promise.reject(new Error('This idb-kv instance has been destroyed'))
 
-        return this.idb.getBatch(keys).then(batch => {
-            for (const [key, value] of batch) {
-                this.cache.set(key, value)
-            }
-            return batch
+        return new Promise<void>((resolve, reject) => {
+            request.onsuccess = () => resolve()
+            request.onerror = () => reject(request.error)
         })
     }
 }
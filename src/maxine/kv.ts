@@ -0,0 +1,110 @@
+import { createKV } from "./backend"
+
+/**
+ * A persistent key-value store. On web this is indexeddb, on native it's MMKV,
+ * see `./backend`.
+ */
+export interface KV<K extends string, V> {
+    get(key: K): Promise<V | undefined>
+    getBatch(keys: K[]): Promise<Map<K, V | undefined>>
+    set(key: K, value: V): Promise<void>
+    // reads and writes `key` without anything else writing in between.
+    // returning undefined from `fn` leaves it as is
+    update(key: K, fn: (value: V | undefined) => V | undefined): Promise<V | undefined>
+    delete(key: K): Promise<void>
+    deleteBatch(keys: K[]): Promise<void>
+    entries(): Promise<[K, V][]>
+    clear(): Promise<void>
+}
+
+// keeps memory bounded no matter how many records are in storage
+const DEFAULT_MAX_CACHE_SIZE = 10_000
+
+export class CachedKV<K extends string, V> {
+    private readonly kv: KV<K, V>
+    // a Map iterates in insertion order, so re-inserting on access makes it an LRU
+    private readonly cache: Map<K, V | undefined>
+    private readonly maxCacheSize: number
+    constructor(name: string, { maxCacheSize = DEFAULT_MAX_CACHE_SIZE }: { maxCacheSize?: number } = {}) {
+        this.kv = createKV(name)
+        this.cache = new Map()
+        this.maxCacheSize = maxCacheSize
+    }
+
+    private remember(key: K, value: V | undefined) {
+        this.cache.delete(key)
+        this.cache.set(key, value)
+        while (this.cache.size > this.maxCacheSize) {
+            const oldest = this.cache.keys().next().value as K
+            this.cache.delete(oldest)
+        }
+    }
+
+    set(key: K, value: V) {
+        this.remember(key, value)
+        return this.kv.set(key, value)
+    }
+
+    delete(key: K) {
+        this.remember(key, undefined)
+        return this.kv.delete(key)
+    }
+
+    deleteBatch(keys: K[]) {
+        for (const key of keys) {
+            this.remember(key, undefined)
+        }
+        return this.kv.deleteBatch(keys)
+    }
+
+    clear() {
+        this.cache.clear()
+        return this.kv.clear()
+    }
+
+    // reads straight from storage without filling the cache, since this is
+    // usually every record in the store
+    entries(): Promise<[K, V][]> {
+        return this.kv.entries()
+    }
+
+    get(key: K): Promise<V | undefined> {
+        if (this.cache.has(key)) {
+            const value = this.cache.get(key)
+            this.remember(key, value)
+            return Promise.resolve(value)
+        }
+        return this.kv.get(key).then(value => {
+            this.remember(key, value)
+            return value
+        })
+    }
+
+    getBatch(keys: K[]): Promise<Map<K, V | undefined>> {
+        let readAllKeysFromCache = true
+
+        const result = new Map<K, V | undefined>()
+        for (const key of keys) {
+            if (this.cache.has(key)) {
+                result.set(key, this.cache.get(key))
+            } else {
+                readAllKeysFromCache = false
+                break
+            }
+        }
+
+        if (readAllKeysFromCache) {
+            for (const [key, value] of result) {
+                this.remember(key, value)
+            }
+            return Promise.resolve(result)
+        }
+
+        return this.kv.getBatch(keys).then(batch => {
+            for (const [key, value] of batch) {
+                this.remember(key, value)
+            }
+            return batch
+        })
+    }
+}
@@ -1,5 +1,6 @@
 import { useSyncExternalStore } from 'react';
 
+import { stringStore } from './backend';
 import { createEvents } from './events';
 
 interface LocalStorageEvents {
@@ -8,12 +9,19 @@ interface LocalStorageEvents {
 
 const storageEvents = createEvents<LocalStorageEvents>()
 
-addEventListener('storage', event => {
-    if (event.storageArea !== localStorage) return
-
-    storageEvents.emit('setValue', event.key, event.newValue)
+stringStore.onExternalChange((key, value) => {
+    storageEvents.emit('setValue', key, value)
 })
 
+export function getLocalStorage(key: string) {
+    return stringStore.get(key)
+}
+
+export function setLocalStorage(key: string, value: string) {
+    stringStore.set(key, value)
+    storageEvents.emit('setValue', key, value)
+}
+
 export function useLocalStorage(key: string, initialValue: string) {
     const value = useSyncExternalStore(
         callback => {
@@ -23,13 +31,12 @@ export function useLocalStorage(key: string, initialValue: string) {
                 }
             })
         },
-        () => localStorage.getItem(key) ?? initialValue,
+        () => stringStore.get(key) ?? initialValue,
     )
 
     const setValue = (newValue: string) => {
-        localStorage.setItem(key, newValue)
-        storageEvents.emit('setValue', key, newValue)
+        setLocalStorage(key, newValue)
     }
 
     return [value, setValue] as const
-}
\ No newline at end of file
+}
@@ -0,0 +1,105 @@
+import { type AppBskyFeedDefs } from "@atproto/api"
+
+import { type FeedDescriptor } from "#/state/queries/post-feed"
+import { type UsePostThreadQueryResult } from "#/state/queries/usePostThread/types"
+import { createKV } from "./backend"
+import { getLocalStorage, setLocalStorage } from "./local-store"
+import { cacheImages, restoreImages } from "./offline-images"
+
+// how many pages from the top of each pinned feed are kept for offline reading
+export const OFFLINE_FEED_PAGES = 3
+// how many recently opened threads are kept
+const MAX_OFFLINE_THREADS = 50
+
+const OFFLINE_THREADS_INDEX_KEY = 'maxine:offlineThreads'
+
+export interface OfflineFeedPage {
+    cursor?: string
+    feed: AppBskyFeedDefs.FeedViewPost[]
+}
+
+interface OfflineFeed {
+    savedAt: Date
+    pages: OfflineFeedPage[]
+}
+
+interface OfflineThread {
+    savedAt: Date
+    data: UsePostThreadQueryResult
+}
+
+const feeds = createKV<string, OfflineFeed>('offline-feeds')
+const threads = createKV<string, OfflineThread>('offline-threads')
+
+// feeds like Following differ between accounts, so everything is keyed by account
+function offlineKey(did: string, key: string) {
+    return `${did}|${key}`
+}
+
+/**
+ * Stores a page fetched from the network. The first page replaces whatever was
+ * kept for the feed, later pages are only kept while they continue on from
+ * the cached ones.
+ */
+export async function saveOfflineFeedPage(did: string, feed: FeedDescriptor, requestCursor: string | undefined, page: OfflineFeedPage) {
+    const key = offlineKey(did, feed)
+    if (!requestCursor) {
+        await feeds.set(key, { savedAt: new Date(), pages: [page] })
+    } else {
+        const cached = await feeds.get(key)
+        if (!cached || cached.pages.length >= OFFLINE_FEED_PAGES || cached.pages.at(-1)?.cursor !== requestCursor) {
+            return
+        }
+        await feeds.set(key, { ...cached, pages: [...cached.pages, page] })
+    }
+    cacheImages(page.feed)
+}
+
+/**
+ * The cached pages of a feed merged into one, since there's no way to keep
+ * paginating while offline.
+ */
+export async function getOfflineFeed(did: string, feed: FeedDescriptor) {
+    const cached = await feeds.get(offlineKey(did, feed))
+    if (!cached) {
+        return undefined
+    }
+    return {
+        savedAt: cached.savedAt,
+        feed: await restoreImages(cached.pages.flatMap(page => page.feed)),
+    }
+}
+
+function parseThreadsIndex(raw: string | null): string[] {
+    try {
+        const parsed = JSON.parse(raw ?? '[]')
+        return Array.isArray(parsed) ? parsed : []
+    } catch {
+        return []
+    }
+}
+
+export async function saveOfflineThread(did: string, anchor: string, data: UsePostThreadQueryResult) {
+    const key = offlineKey(did, anchor)
+    await threads.set(key, { savedAt: new Date(), data })
+    cacheImages(data.thread)
+
+    // most recently opened first, anything past the limit is evicted
+    const index = [key, ...parseThreadsIndex(getLocalStorage(OFFLINE_THREADS_INDEX_KEY)).filter(k => k !== key)]
+    const evicted = index.splice(MAX_OFFLINE_THREADS)
+    setLocalStorage(OFFLINE_THREADS_INDEX_KEY, JSON.stringify(index))
+    if (evicted.length) {
+        await threads.deleteBatch(evicted)
+    }
+}
+
+export async function getOfflineThread(did: string, anchor: string) {
+    const cached = await threads.get(offlineKey(did, anchor))
+    if (!cached) {
+        return undefined
+    }
+    return {
+        savedAt: cached.savedAt,
+        data: await restoreImages(cached.data),
+    }
+}
@@ -0,0 +1,8 @@
+// expo-image keeps its own disk cache on native, which already covers
+// thumbnails while offline
+
+export function cacheImages(_value: unknown) {}
+
+export async function restoreImages<T>(value: T) {
+    return value
+}
@@ -0,0 +1,97 @@
+import IdbKV from "./idb"
+import { getLocalStorage, setLocalStorage } from "./local-store"
+
+// only avatars and thumbnails are kept, full size images aren't worth the space
+const IMAGE_KEYS = new Set(['avatar', 'thumb'])
+const MAX_IMAGES = 1_000
+
+const OFFLINE_IMAGES_INDEX_KEY = 'maxine:offlineImages'
+
+const images = new IdbKV<string, Blob>('offline-images')
+
+// object URLs live as long as the page, so hand out the same one every time
+const objectUrls = new Map<string, string>()
+
+function collectImageUrls(value: unknown, urls: Set<string>) {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            collectImageUrls(item, urls)
+        }
+    } else if (typeof value === 'object' && value !== null) {
+        for (const [key, item] of Object.entries(value)) {
+            if (IMAGE_KEYS.has(key) && typeof item === 'string' && item.startsWith('https://')) {
+                urls.add(item)
+            } else {
+                collectImageUrls(item, urls)
+            }
+        }
+    }
+    return urls
+}
+
+function parseIndex(raw: string | null): string[] {
+    try {
+        const parsed = JSON.parse(raw ?? '[]')
+        return Array.isArray(parsed) ? parsed : []
+    } catch {
+        return []
+    }
+}
+
+let queue = Promise.resolve()
+
+/**
+ * Downloads the avatars and thumbnails in `value` that aren't stored yet.
+ * Downloads run one batch at a time in the background, failures are ignored.
+ */
+export function cacheImages(value: unknown) {
+    const urls = collectImageUrls(value, new Set())
+    queue = queue.then(async () => {
+        const index = parseIndex(getLocalStorage(OFFLINE_IMAGES_INDEX_KEY))
+        const known = new Set(index)
+        const added: string[] = []
+        for (const url of urls) {
+            if (known.has(url)) {
+                continue
+            }
+            try {
+                const res = await fetch(url)
+                if (res.ok) {
+                    await images.set(url, await res.blob())
+                    added.push(url)
+                }
+            } catch {
+                // most likely offline, or the image is gone
+            }
+        }
+        if (!added.length) {
+            return
+        }
+        const next = [...added, ...index]
+        const evicted = next.splice(MAX_IMAGES)
+        setLocalStorage(OFFLINE_IMAGES_INDEX_KEY, JSON.stringify(next))
+        if (evicted.length) {
+            await images.deleteBatch(evicted)
+        }
+    }).catch(() => {})
+}
+
+/**
+ * Swaps stored avatars and thumbnails in `value` for object URLs, so they
+ * render without the network.
+ */
+export async function restoreImages<T>(value: T): Promise<T> {
+    const urls = [...collectImageUrls(value, new Set())]
+    if (!urls.length) {
+        return value
+    }
+    const blobs = await images.getBatch(urls)
+    for (const [url, blob] of blobs) {
+        if (blob && !objectUrls.has(url)) {
+            objectUrls.set(url, URL.createObjectURL(blob))
+        }
+    }
+    return JSON.parse(JSON.stringify(value), (_key, item) =>
+        typeof item === 'string' ? (objectUrls.get(item) ?? item) : item,
+    )
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { logger } from "#/logger"
+import { CachedKV } from "./kv"
+
+export interface ReadingPosition {
+    // the furthest post read so far
+    uri: string
+    updatedAt: Date
+}
+
+// keyed by the uri of the thread's root post
+const positions = new CachedKV<string, ReadingPosition>('reading-positions')
+
+export function useReadingPosition(rootUri: string) {
+    // undefined while loading, null if there's nothing saved
+    const [position, setPosition] = useState<ReadingPosition | null | undefined>(undefined)
+
+    useEffect(() => {
+        let cancelled = false
+        positions.get(rootUri).then(stored => {
+            if (!cancelled) {
+                setPosition(stored ?? null)
+            }
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [rootUri])
+
+    const savePosition = useCallback((uri: string) => {
+        const next = { uri, updatedAt: new Date() }
+        positions.set(rootUri, next).catch(e => {
+            logger.error('reading-positions: save failed', { message: e })
+        })
+        setPosition(next)
+    }, [rootUri])
+
+    return [position, savePosition] as const
+}
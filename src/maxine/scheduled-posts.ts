@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react"
+import { AppState } from "react-native"
+import { type BskyAgent } from "@atproto/api"
+import { XRPCError } from "@atproto/xrpc"
+import { msg } from "@lingui/macro"
+import { useLingui } from "@lingui/react"
+import { type QueryClient, useQueryClient } from "@tanstack/react-query"
+
+import * as apilib from "#/lib/api/index"
+import { cleanError, isNetworkError } from "#/lib/strings/errors"
+import { logger } from "#/logger"
+import { useAgent, useSession } from "#/state/session"
+import { savedDraftToThread } from "#/view/com/composer/state/drafts"
+import * as Toast from "#/view/com/util/Toast"
+import { createKV } from "./backend"
+import { type SavedDraft } from "./composer-drafts"
+import { deleteDraftImages } from "./draft-media"
+import { createEvents } from "./events"
+
+// how often the queue is checked while the app is open
+const CHECK_INTERVAL = 15 * 1000
+// a post stuck in `publishing` this long was left behind by a closed tab or app
+const PUBLISH_TIMEOUT = 5 * 60 * 1000
+
+export interface ScheduledPost extends SavedDraft {
+    publishAt: Date
+    langs: string[]
+    status: 'scheduled' | 'publishing' | 'failed'
+    // when publishing last started, so other tabs leave it alone
+    attemptedAt?: Date
+    error?: string
+    // publishing failed because the account's session had expired, it's
+    // retried once the account is signed in again
+    sessionExpired?: boolean
+}
+
+const scheduledPosts = createKV<string, ScheduledPost>('scheduled-posts')
+
+interface ScheduledPostEvents {
+    change(): void
+}
+
+const scheduledPostEvents = createEvents<ScheduledPostEvents>()
+
+export async function schedulePost(post: ScheduledPost) {
+    await scheduledPosts.set(post.id, post)
+    scheduledPostEvents.emit('change')
+}
+
+export async function reschedulePost(id: string, publishAt: Date) {
+    const post = await scheduledPosts.get(id)
+    if (!post || isPublishing(post)) {
+        return
+    }
+    await schedulePost({
+        ...post,
+        publishAt,
+        status: 'scheduled',
+        error: undefined,
+        sessionExpired: undefined,
+    })
+}
+
+export async function cancelScheduledPost(id: string) {
+    await scheduledPosts.delete(id)
+    await deleteDraftImages(id)
+    scheduledPostEvents.emit('change')
+}
+
+async function listScheduledPosts(did: string) {
+    const entries = await scheduledPosts.entries()
+    return entries
+        .map(([, post]) => post)
+        .filter(post => post.did === did)
+        .sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime())
+}
+
+// soonest first
+export function useScheduledPosts(did: string | undefined) {
+    const [list, setList] = useState<ScheduledPost[] | undefined>(undefined)
+
+    useEffect(() => {
+        if (!did) {
+            setList([])
+            return
+        }
+        let cancelled = false
+        const load = () => {
+            listScheduledPosts(did).then(loaded => {
+                if (!cancelled) {
+                    setList(loaded)
+                }
+            })
+        }
+        load()
+        const unsubscribe = scheduledPostEvents.on('change', load)
+        return () => {
+            cancelled = true
+            unsubscribe()
+        }
+    }, [did])
+
+    return list
+}
+
+export function isPublishing(post: ScheduledPost) {
+    return post.status === 'publishing'
+        && !!post.attemptedAt
+        && Date.now() - post.attemptedAt.getTime() < PUBLISH_TIMEOUT
+}
+
+function isSessionError(e: unknown) {
+    return e instanceof XRPCError && (
+        e.status === 401
+        || e.error === 'ExpiredToken'
+        || e.error === 'InvalidToken'
+        || e.error === 'AuthRequired'
+    )
+}
+
+export class ScheduledPostError extends Error {
+    constructor(message: string, public sessionExpired: boolean) {
+        super(message)
+    }
+}
+
+/**
+ * Publishes a queued post right away, removing it from the queue. Returns
+ * false if it's gone or already being published. Network errors put it back
+ * in the queue so it's tried again, anything else marks it as failed and
+ * throws a `ScheduledPostError`.
+ */
+export async function publishScheduledPost(agent: BskyAgent, queryClient: QueryClient, id: string) {
+    // claimed in one step, so another tab checking at the same time sees it
+    // as publishing and leaves it alone
+    const attemptedAt = new Date()
+    const post = await scheduledPosts.update(id, stored => {
+        if (!stored || isPublishing(stored)) {
+            return undefined
+        }
+        return {
+            ...stored,
+            status: 'publishing',
+            attemptedAt,
+            error: undefined,
+            sessionExpired: undefined,
+        }
+    })
+    if (!post) {
+        return false
+    }
+    scheduledPostEvents.emit('change')
+
+    try {
+        await apilib.post(agent, queryClient, {
+            thread: savedDraftToThread(post),
+            langs: post.langs,
+        })
+    } catch (e: any) {
+        if (isNetworkError(e)) {
+            await schedulePost({ ...post, status: 'scheduled' })
+            throw e
+        }
+        const sessionExpired = isSessionError(e)
+        const error = cleanError(e.message)
+        await schedulePost({ ...post, status: 'failed', error, sessionExpired })
+        throw new ScheduledPostError(error, sessionExpired)
+    }
+
+    await cancelScheduledPost(id)
+    return true
+}
+
+/**
+ * Publishes the current account's posts as they come due, for as long as the
+ * app is open.
+ */
+export function useScheduledPostsPublisher() {
+    const agent = useAgent()
+    const queryClient = useQueryClient()
+    const { currentAccount } = useSession()
+    const { _ } = useLingui()
+
+    const did = currentAccount?.did
+    useEffect(() => {
+        if (!did) {
+            return
+        }
+        let running = false
+        // posts that failed on an expired session get one more try with the new one
+        let retrySessionExpired = true
+
+        const check = async () => {
+            if (running) {
+                return
+            }
+            running = true
+            try {
+                const now = Date.now()
+                const due = (await listScheduledPosts(did)).filter(post =>
+                    post.publishAt.getTime() <= now && (
+                        post.status === 'scheduled'
+                        || (post.status === 'publishing' && !isPublishing(post))
+                        || (post.status === 'failed' && post.sessionExpired && retrySessionExpired)
+                    )
+                )
+                retrySessionExpired = false
+                for (const post of due) {
+                    try {
+                        if (await publishScheduledPost(agent, queryClient, post.id)) {
+                            Toast.show(post.posts.length > 1
+                                ? _(msg`Your scheduled posts have been published`)
+                                : _(msg`Your scheduled post has been published`))
+                        }
+                    } catch (e) {
+                        if (!(e instanceof ScheduledPostError)) {
+                            // offline, try again on the next check
+                            break
+                        }
+                        logger.error(e, { message: 'scheduled-posts: publish failed' })
+                        Toast.show(e.sessionExpired
+                            ? _(msg`Your session has expired. Sign in again to publish your scheduled post.`)
+                            : _(msg`Your scheduled post couldn't be published`), 'exclamation-circle')
+                    }
+                }
+            } finally {
+                running = false
+            }
+        }
+
+        check()
+        const interval = setInterval(check, CHECK_INTERVAL)
+        const appStateSubscription = AppState.addEventListener('change', state => {
+            if (state === 'active') {
+                check()
+            }
+        })
+        return () => {
+            clearInterval(interval)
+            appStateSubscription.remove()
+        }
+    }, [agent, did, queryClient, _])
+}
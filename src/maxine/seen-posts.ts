@@ -1,67 +1,302 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
+import { logger } from "#/logger";
 import { type FeedDescriptor,type FeedPostSlice } from "#/state/queries/post-feed";
-import { IdbWithInMemoryCache } from "./idb";
-import { useLocalStorage } from "./local-store";
+import { createEvents } from "./events";
+import { CachedKV } from "./kv";
+import { getLocalStorage, setLocalStorage, useLocalStorage } from "./local-store";
+
+export const HIDE_SEEN_POSTS_KEY = 'maxine:hideSeenPosts'
 
 export function useHideSeenPosts() {
-    const [hideSeenPosts, setHideSeenPosts] = useLocalStorage('maxine:hideSeenPosts', 'false')
+    const [hideSeenPosts, setHideSeenPosts] = useLocalStorage(HIDE_SEEN_POSTS_KEY, 'false')
 
     return [hideSeenPosts === 'true', (value: boolean) => setHideSeenPosts(value ? 'true' : 'false')] as const
 }
 
-const seenPosts = new IdbWithInMemoryCache<string, {
+// 'collapse' folds runs of seen posts into an expandable divider instead of dropping them
+export type SeenPostsMode = 'show' | 'hide' | 'collapse'
+
+export const SEEN_POSTS_MODES_KEY = 'maxine:seenPostsModes'
+
+export function parseSeenPostsModes(raw: string | null): Partial<Record<FeedDescriptor, SeenPostsMode>> {
+    try {
+        const parsed = JSON.parse(raw ?? '{}')
+        return typeof parsed === 'object' && parsed !== null ? parsed : {}
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * The seen posts mode for a single feed. Feeds without their own mode follow
+ * the global hide seen posts flag.
+ */
+export function useSeenPostsMode(feed: FeedDescriptor) {
+    const [hideSeenPosts] = useHideSeenPosts()
+    const [modes] = useLocalStorage(SEEN_POSTS_MODES_KEY, '{}')
+
+    const mode = parseSeenPostsModes(modes)[feed] ?? (hideSeenPosts ? 'hide' : 'show')
+
+    const setMode = useCallback((value: SeenPostsMode) => {
+        const current = parseSeenPostsModes(getLocalStorage(SEEN_POSTS_MODES_KEY))
+        setLocalStorage(SEEN_POSTS_MODES_KEY, JSON.stringify({ ...current, [feed]: value }))
+    }, [feed])
+
+    return [mode, setMode] as const
+}
+
+export interface SeenPost {
     post: { uri: string; cid: string }
     lastSeenAt: Date
     lastSeenFeed: FeedDescriptor
-}>('seen-posts')
+    // the account that last saw it, only that account's sync pushes it
+    did?: string
+}
+
+const seenPosts = new CachedKV<string, SeenPost>('seen-posts', { maxCacheSize: 5_000 })
+
+interface SeenPostEvents {
+    // a post was seen on this device
+    record(seenPost: SeenPost): void
+    // an empty key means every seen post may have changed
+    change(key: string): void
+}
+
+const seenPostEvents = createEvents<SeenPostEvents>()
+
+export function onSeenPostRecorded(callback: (seenPost: SeenPost) => void) {
+    return seenPostEvents.on('record', callback)
+}
+
+export const SEEN_POSTS_RETENTION_KEY = 'maxine:seenPostsRetention'
+const SEEN_POSTS_LAST_PRUNED_KEY = 'maxine:seenPostsLastPruned'
 
-export function setSeenPost(post: { uri: string; cid: string }, feed: FeedDescriptor) {
-    const key = `${post.uri}:${post.cid}`
-    seenPosts.set(key, {
+// how often setSeenPost is allowed to kick off a prune
+const PRUNE_INTERVAL = 6 * 60 * 60 * 1000
+
+export interface SeenPostsRetention {
+    // null means keep forever
+    maxAgeDays: number | null
+    maxEntries: number | null
+}
+
+export const DEFAULT_SEEN_POSTS_RETENTION: SeenPostsRetention = {
+    maxAgeDays: 30,
+    maxEntries: 50_000,
+}
+
+function parseRetention(raw: string | null): SeenPostsRetention {
+    try {
+        const parsed = JSON.parse(raw ?? '')
+        return {
+            maxAgeDays: typeof parsed.maxAgeDays === 'number' || parsed.maxAgeDays === null
+                ? parsed.maxAgeDays
+                : DEFAULT_SEEN_POSTS_RETENTION.maxAgeDays,
+            maxEntries: typeof parsed.maxEntries === 'number' || parsed.maxEntries === null
+                ? parsed.maxEntries
+                : DEFAULT_SEEN_POSTS_RETENTION.maxEntries,
+        }
+    } catch {
+        return DEFAULT_SEEN_POSTS_RETENTION
+    }
+}
+
+export function getSeenPostsRetention() {
+    return parseRetention(getLocalStorage(SEEN_POSTS_RETENTION_KEY))
+}
+
+export function useSeenPostsRetention() {
+    const [retention, setRetention] = useLocalStorage(SEEN_POSTS_RETENTION_KEY, JSON.stringify(DEFAULT_SEEN_POSTS_RETENTION))
+
+    return [parseRetention(retention), (value: SeenPostsRetention) => setRetention(JSON.stringify(value))] as const
+}
+
+export function seenPostKey(post: { uri: string; cid: string }) {
+    return `${post.uri}:${post.cid}`
+}
+
+export function setSeenPost(post: { uri: string; cid: string }, feed: FeedDescriptor, did: string | undefined) {
+    const seenPost: SeenPost = {
         post: { uri: post.uri, cid: post.cid },
         lastSeenAt: new Date(),
         lastSeenFeed: feed,
-    })
+        did,
+    }
+    seenPosts.set(seenPostKey(post), seenPost)
+    seenPostEvents.emit('record', seenPost)
+    maybePruneSeenPosts()
+}
+
+let isPruning = false
+
+function maybePruneSeenPosts() {
+    const lastPruned = Number(getLocalStorage(SEEN_POSTS_LAST_PRUNED_KEY) ?? 0)
+    if (isPruning || Date.now() - lastPruned < PRUNE_INTERVAL) {
+        return
+    }
+    pruneSeenPosts().catch(e => logger.error(e, { message: 'seen-posts: failed to prune' }))
+}
+
+/**
+ * Drops seen posts older than the retention's max age, then the oldest ones
+ * beyond its max entries. Returns how many were removed.
+ */
+export async function pruneSeenPosts(retention = getSeenPostsRetention()) {
+    isPruning = true
+    try {
+        const entries = await seenPosts.entries()
+        const expired = new Set<string>()
+
+        if (retention.maxAgeDays !== null) {
+            const cutoff = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000
+            for (const [key, seenPost] of entries) {
+                if (new Date(seenPost.lastSeenAt).getTime() < cutoff) {
+                    expired.add(key)
+                }
+            }
+        }
+
+        const remaining = entries.filter(([key]) => !expired.has(key))
+        if (retention.maxEntries !== null && remaining.length > retention.maxEntries) {
+            remaining.sort(([, a], [, b]) => new Date(a.lastSeenAt).getTime() - new Date(b.lastSeenAt).getTime())
+            for (const [key] of remaining.slice(0, remaining.length - retention.maxEntries)) {
+                expired.add(key)
+            }
+        }
+
+        if (expired.size > 0) {
+            await seenPosts.deleteBatch([...expired])
+            seenPostEvents.emit('change', '')
+        }
+        setLocalStorage(SEEN_POSTS_LAST_PRUNED_KEY, String(Date.now()))
+        return expired.size
+    } finally {
+        isPruning = false
+    }
+}
+
+export interface SeenPostsFeedStats {
+    feed: FeedDescriptor
+    count: number
+    lastSeenAt: Date
+}
+
+export async function getSeenPostsStats(): Promise<SeenPostsFeedStats[]> {
+    const stats = new Map<FeedDescriptor, SeenPostsFeedStats>()
+    for (const [, seenPost] of await seenPosts.entries()) {
+        const lastSeenAt = new Date(seenPost.lastSeenAt)
+        const existing = stats.get(seenPost.lastSeenFeed)
+        if (!existing) {
+            stats.set(seenPost.lastSeenFeed, { feed: seenPost.lastSeenFeed, count: 1, lastSeenAt })
+            continue
+        }
+        existing.count++
+        if (existing.lastSeenAt < lastSeenAt) {
+            existing.lastSeenAt = lastSeenAt
+        }
+    }
+    return [...stats.values()].sort((a, b) => b.count - a.count)
+}
+
+export async function forgetSeenPostsForFeed(feed: FeedDescriptor) {
+    const keys = (await seenPosts.entries())
+        .filter(([, seenPost]) => seenPost.lastSeenFeed === feed)
+        .map(([key]) => key)
+    await seenPosts.deleteBatch(keys)
+    seenPostEvents.emit('change', '')
+    return keys.length
+}
+
+export async function listSeenPosts(): Promise<SeenPost[]> {
+    const entries = await seenPosts.entries()
+    return entries.map(([, seenPost]) => seenPost)
+}
+
+export function getSeenPosts(posts: { uri: string; cid: string }[]) {
+    return seenPosts.getBatch(posts.map(seenPostKey))
+}
+
+export function putSeenPosts(posts: SeenPost[]) {
+    for (const seenPost of posts) {
+        const key = seenPostKey(seenPost.post)
+        seenPosts.set(key, seenPost)
+        seenPostEvents.emit('change', key)
+    }
+}
+
+export async function clearSeenPosts() {
+    await seenPosts.clear()
+    seenPostEvents.emit('change', '')
 }
 
 export function useIsPostSeen({ uri, cid }: { uri: string; cid: string }, hideSeenPostsToggle: boolean): boolean {
     const [isSeen, setIsSeen] = useState(false)
 
     useEffect(() => {
-        const key = `${uri}:${cid}`
+        const key = seenPostKey({ uri, cid })
 
-        seenPosts.get(key).then(seenPost => {
-            setIsSeen(seenPost !== undefined)
+        const load = () => {
+            seenPosts.get(key).then(seenPost => {
+                setIsSeen(seenPost !== undefined)
+            })
+        }
+        load()
+        return seenPostEvents.on('change', changedKey => {
+            if (changedKey === key || changedKey === '') {
+                load()
+            }
         })
     }, [uri, cid, hideSeenPostsToggle])
 
     return isSeen
 }
 
-export function useIsSliceSeen(slice: FeedPostSlice, hideSeenPostsToggle: boolean): boolean {
-    const [isSeen, setIsSeen] = useState(false)
-
-    const keys = slice.items.map(item => `${item.post.uri}:${item.post.cid}`)
+/**
+ * Returns the `_reactKey`s of slices whose posts have all been seen. Each slice
+ * is only checked once per `generation`, so posts seen while scrolling stay put
+ * until the feed is refreshed.
+ */
+export function useSeenSlices(slices: FeedPostSlice[], enabled: boolean, generation: unknown): Set<string> {
+    const [seenSlices, setSeenSlices] = useState(() => new Set<string>())
+    const checked = useRef(new Set<string>())
+    const checkedGeneration = useRef<unknown>(undefined)
 
     useEffect(() => {
-        if (keys.length === 0) {
+        if (!enabled) {
             return
         }
 
-        // console.log('slice items: ', slice.items.map(item => ({
-        //     ...item,
-        //     seenCacheState: seenPosts.get(`${item.post.uri}:${item.post.cid}`),
-        // })))
+        const isNewGeneration = checkedGeneration.current !== generation
+        if (isNewGeneration) {
+            checkedGeneration.current = generation
+            checked.current = new Set()
+            setSeenSlices(new Set())
+        }
+
+        const unchecked = slices.filter(slice => slice.items.length > 0 && !checked.current.has(slice._reactKey))
+        if (unchecked.length === 0) {
+            return
+        }
+        for (const slice of unchecked) {
+            checked.current.add(slice._reactKey)
+        }
 
-        seenPosts.getBatch(keys).then(seenPostMap => {
-            const isAllSeen = [...seenPostMap.values()].every(seenPost => !!seenPost)
-            console.log(`sliceSeen fetched isAllSeen`, isAllSeen)
-            setIsSeen(isAllSeen)
+        seenPosts.getBatch(unchecked.flatMap(slice => slice.items.map(item => seenPostKey(item.post)))).then(seenPostMap => {
+            if (checkedGeneration.current !== generation) {
+                return
+            }
+            setSeenSlices(prev => {
+                const next = new Set(prev)
+                for (const slice of unchecked) {
+                    if (slice.items.every(item => !!seenPostMap.get(seenPostKey(item.post)))) {
+                        next.add(slice._reactKey)
+                    }
+                }
+                return next
+            })
         })
-    // eslint-disable-next-line react-compiler/react-compiler
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [...keys, hideSeenPostsToggle])
+    }, [slices, enabled, generation])
 
-    return isSeen
-}
\ No newline at end of file
+    return seenSlices
+}
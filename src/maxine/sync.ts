@@ -0,0 +1,501 @@
+import { useEffect } from "react"
+import { AppState } from "react-native"
+import { AtUri, type BskyAgent } from "@atproto/api"
+import { TID } from "@atproto/common-web"
+
+import { logger } from "#/logger"
+import { type FeedDescriptor } from "#/state/queries/post-feed"
+import { useAgent, useSession } from "#/state/session"
+import { type Bookmark, BOOKMARK_TOMBSTONE_TTL, bookmarkKey, listBookmarks, listBookmarkTombstones, onBookmarksChanged, putBookmarks, removeBookmarks } from "./bookmarked"
+import { getLocalStorage, setLocalStorage, useLocalStorage } from "./local-store"
+import { getSeenPosts, getSeenPostsRetention, onSeenPostRecorded, putSeenPosts, type SeenPost } from "./seen-posts"
+
+const BOOKMARKS_COLLECTION = 'social.deer.bookmarks'
+const SEEN_POSTS_COLLECTION = 'social.deer.seenPosts'
+
+// local changes are batched so scrolling doesn't turn into a stream of commits
+const FLUSH_INTERVAL = 30 * 1000
+const PULL_INTERVAL = 5 * 60 * 1000
+const PRUNE_INTERVAL = 24 * 60 * 60 * 1000
+const MAX_SEEN_POSTS_PER_RECORD = 500
+// bookmarks are spread over this many records so none of them outgrows the
+// record size limit. changing it moves every bookmark to a new record
+const BOOKMARK_SHARDS = 64
+// where older versions kept every bookmark in one record
+const LEGACY_BOOKMARKS_RKEY = 'self'
+
+interface SyncedBookmark {
+    uri: string
+    cid: string
+    savedAt: string
+    updatedAt: string
+    folders?: string[]
+    removed?: boolean
+}
+
+interface BookmarksRecord {
+    $type: typeof BOOKMARKS_COLLECTION
+    updatedAt: string
+    bookmarks: SyncedBookmark[]
+}
+
+interface SeenPostsRecord {
+    $type: typeof SEEN_POSTS_COLLECTION
+    // lets a device skip the batches it wrote itself
+    device: string
+    createdAt: string
+    posts: { uri: string; cid: string; seenAt: string; feed: string }[]
+}
+
+export interface SyncState {
+    device: string
+    // newest seen posts batch that has been merged in
+    lastSeenPostsRkey?: string
+    lastSyncedAt?: string
+    lastPrunedAt?: string
+}
+
+// each account opts in on its own, since its records are public
+function syncEnabledKey(did: string) {
+    return `maxine:syncEnabled:${did}`
+}
+
+function syncStateKey(did: string) {
+    return `maxine:syncState:${did}`
+}
+
+function readSyncState(did: string): SyncState {
+    try {
+        const parsed = JSON.parse(getLocalStorage(syncStateKey(did)) ?? '')
+        if (typeof parsed?.device === 'string') {
+            return parsed
+        }
+    } catch {
+        // fall through to a fresh state
+    }
+    return { device: Math.random().toString(36).slice(2, 10) }
+}
+
+function writeSyncState(did: string, state: SyncState) {
+    setLocalStorage(syncStateKey(did), JSON.stringify(state))
+}
+
+function toSyncedBookmark(bookmark: Bookmark): SyncedBookmark {
+    return {
+        uri: bookmark.post.uri,
+        cid: bookmark.post.cid,
+        savedAt: new Date(bookmark.savedAt).toISOString(),
+        updatedAt: new Date(bookmark.updatedAt ?? bookmark.savedAt).toISOString(),
+        folders: bookmark.folders,
+    }
+}
+
+// the same post always lands in the same record, so a change only rewrites that one
+function bookmarkShard(key: string) {
+    let hash = 0
+    for (let i = 0; i < key.length; i++) {
+        hash = (hash * 31 + key.charCodeAt(i)) % 1_000_000_007
+    }
+    return `shard-${hash % BOOKMARK_SHARDS}`
+}
+
+function sortByKey(bookmarks: SyncedBookmark[]) {
+    return bookmarks
+        .map(synced => [bookmarkKey(synced), synced] as const)
+        .sort(([a], [b]) => (a < b ? -1 : 1))
+        .map(([, synced]) => synced)
+}
+
+let activeSync: DeerSync | undefined
+
+/**
+ * Mirrors bookmarks and seen posts into `social.deer.*` records in the user's
+ * repo. Bookmarks are spread over a fixed set of records and merged per post
+ * by last write, seen posts are appended in batches that other devices read
+ * back. Only the entries saved or seen by this account are pushed.
+ */
+export class DeerSync {
+    private pendingSeenPosts: SeenPost[] = []
+    private bookmarksDirty = false
+    private applyingRemote = false
+    private queue: Promise<void> = Promise.resolve()
+
+    constructor(private readonly agent: BskyAgent, private readonly did: string) {}
+
+    start() {
+        // pin the device id before anything is written with it
+        writeSyncState(this.did, readSyncState(this.did))
+
+        const unsubscribeSeen = onSeenPostRecorded(seenPost => {
+            if (seenPost.did === this.did) {
+                this.pendingSeenPosts.push(seenPost)
+            }
+        })
+        const unsubscribeBookmarks = onBookmarksChanged(() => {
+            if (!this.applyingRemote) {
+                this.bookmarksDirty = true
+            }
+        })
+        const flushInterval = setInterval(() => this.flush(), FLUSH_INTERVAL)
+        const pullInterval = setInterval(() => this.sync(), PULL_INTERVAL)
+        // flush before the tab is hidden or the app is backgrounded
+        const appStateSubscription = AppState.addEventListener('change', state => {
+            if (state !== 'active') {
+                this.flush()
+            }
+        })
+
+        activeSync = this
+        this.sync()
+
+        return () => {
+            unsubscribeSeen()
+            unsubscribeBookmarks()
+            clearInterval(flushInterval)
+            clearInterval(pullInterval)
+            appStateSubscription.remove()
+            if (activeSync === this) {
+                activeSync = undefined
+            }
+            this.flush()
+        }
+    }
+
+    // runs tasks one after another so merges never interleave
+    private enqueue(task: () => Promise<void>) {
+        this.queue = this.queue.then(task).catch(e => {
+            logger.error('deer sync failed', { message: e })
+        })
+        return this.queue
+    }
+
+    flush() {
+        return this.enqueue(async () => {
+            await this.pushSeenPosts()
+            if (this.bookmarksDirty) {
+                await this.syncBookmarks()
+            }
+        })
+    }
+
+    sync() {
+        return this.enqueue(async () => {
+            await this.pushSeenPosts()
+            await this.pullSeenPosts()
+            await this.syncBookmarks()
+            await this.maybePruneRemote()
+            writeSyncState(this.did, { ...readSyncState(this.did), lastSyncedAt: new Date().toISOString() })
+        })
+    }
+
+    private async pushSeenPosts() {
+        const { device } = readSyncState(this.did)
+        // a batch only leaves the queue once it's written, so a failure keeps
+        // the rest for the next flush without writing anything twice
+        while (this.pendingSeenPosts.length > 0) {
+            const batch = this.pendingSeenPosts.slice(0, MAX_SEEN_POSTS_PER_RECORD)
+            const record: SeenPostsRecord = {
+                $type: SEEN_POSTS_COLLECTION,
+                device,
+                createdAt: new Date().toISOString(),
+                posts: batch.map(seenPost => ({
+                    uri: seenPost.post.uri,
+                    cid: seenPost.post.cid,
+                    seenAt: new Date(seenPost.lastSeenAt).toISOString(),
+                    feed: seenPost.lastSeenFeed,
+                })),
+            }
+            await this.agent.com.atproto.repo.createRecord({
+                repo: this.did,
+                collection: SEEN_POSTS_COLLECTION,
+                rkey: TID.nextStr(),
+                record: record as unknown as Record<string, unknown>,
+            })
+            this.pendingSeenPosts.splice(0, batch.length)
+        }
+    }
+
+    private async pullSeenPosts() {
+        const state = readSyncState(this.did)
+        const { maxAgeDays } = getSeenPostsRetention()
+        const cutoff = maxAgeDays === null ? 0 : Date.now() - maxAgeDays * 24 * 60 * 60 * 1000
+
+        const incoming = new Map<string, SeenPost>()
+        let newestRkey: string | undefined
+        let cursor: string | undefined
+
+        // records come back newest first, so stop at the last batch we merged
+        pages: do {
+            const { data } = await this.agent.com.atproto.repo.listRecords({
+                repo: this.did,
+                collection: SEEN_POSTS_COLLECTION,
+                limit: 100,
+                cursor,
+            })
+            for (const { uri, value } of data.records) {
+                const rkey = new AtUri(uri).rkey
+                const record = value as unknown as SeenPostsRecord
+                if ((state.lastSeenPostsRkey && rkey <= state.lastSeenPostsRkey) || new Date(record.createdAt).getTime() < cutoff) {
+                    break pages
+                }
+                newestRkey ??= rkey
+                if (record.device === state.device || !Array.isArray(record.posts)) {
+                    continue
+                }
+                for (const post of record.posts) {
+                    const key = bookmarkKey(post)
+                    const seenAt = new Date(post.seenAt)
+                    const existing = incoming.get(key)
+                    if (!existing || existing.lastSeenAt < seenAt) {
+                        incoming.set(key, {
+                            post: { uri: post.uri, cid: post.cid },
+                            lastSeenAt: seenAt,
+                            lastSeenFeed: post.feed as FeedDescriptor,
+                            did: this.did,
+                        })
+                    }
+                }
+            }
+            cursor = data.cursor
+        } while (cursor)
+
+        if (incoming.size > 0) {
+            const posts = [...incoming.values()]
+            const local = await getSeenPosts(posts.map(seenPost => seenPost.post))
+            putSeenPosts(posts.filter(seenPost => {
+                const existing = local.get(bookmarkKey(seenPost.post))
+                return !existing || new Date(existing.lastSeenAt) < seenPost.lastSeenAt
+            }))
+        }
+
+        if (newestRkey) {
+            writeSyncState(this.did, { ...readSyncState(this.did), lastSeenPostsRkey: newestRkey })
+        }
+    }
+
+    private async syncBookmarks() {
+        this.bookmarksDirty = false
+
+        // what each record holds right now, so only the ones that change are rewritten
+        const remote = new Map<string, { cid: string; bookmarks: SyncedBookmark[] }>()
+        let cursor: string | undefined
+        do {
+            const { data } = await this.agent.com.atproto.repo.listRecords({
+                repo: this.did,
+                collection: BOOKMARKS_COLLECTION,
+                limit: 100,
+                cursor,
+            })
+            for (const { uri, cid, value } of data.records) {
+                const { bookmarks } = value as unknown as BookmarksRecord
+                remote.set(new AtUri(uri).rkey, { cid, bookmarks: Array.isArray(bookmarks) ? bookmarks : [] })
+            }
+            cursor = data.cursor
+        } while (cursor)
+
+        const [localBookmarks, tombstones] = await Promise.all([listBookmarks(), listBookmarkTombstones()])
+        const local = new Map<string, { synced: SyncedBookmark; bookmark?: Bookmark }>()
+        // bookmarks another account saved on this device, left alone in both directions
+        const othersBookmarks = new Set<string>()
+        for (const bookmark of localBookmarks) {
+            if (bookmark.did !== this.did) {
+                othersBookmarks.add(bookmarkKey(bookmark.post))
+                continue
+            }
+            local.set(bookmarkKey(bookmark.post), { synced: toSyncedBookmark(bookmark), bookmark })
+        }
+        for (const tombstone of tombstones) {
+            if (tombstone.did !== this.did) {
+                continue
+            }
+            const removedAt = new Date(tombstone.removedAt).toISOString()
+            local.set(bookmarkKey(tombstone.post), {
+                synced: { ...tombstone.post, savedAt: removedAt, updatedAt: removedAt, removed: true },
+            })
+        }
+
+        const merged = new Map<string, SyncedBookmark>()
+        for (const { bookmarks } of remote.values()) {
+            for (const synced of bookmarks) {
+                const key = bookmarkKey(synced)
+                const existing = merged.get(key)
+                if (!existing || existing.updatedAt < synced.updatedAt) {
+                    merged.set(key, synced)
+                }
+            }
+        }
+
+        const toPut: Bookmark[] = []
+        const toRemove: { post: { uri: string; cid: string }; removedAt: Date }[] = []
+        for (const [key, { synced }] of local) {
+            const theirs = merged.get(key)
+            if (!theirs || theirs.updatedAt < synced.updatedAt) {
+                merged.set(key, synced)
+            }
+        }
+        for (const [key, theirs] of merged) {
+            const ours = local.get(key)
+            if ((ours && ours.synced.updatedAt >= theirs.updatedAt) || othersBookmarks.has(key)) {
+                continue
+            }
+            if (theirs.removed) {
+                if (ours?.bookmark) {
+                    toRemove.push({ post: theirs, removedAt: new Date(theirs.updatedAt) })
+                }
+            } else {
+                toPut.push({
+                    post: { uri: theirs.uri, cid: theirs.cid },
+                    savedAt: new Date(theirs.savedAt),
+                    updatedAt: new Date(theirs.updatedAt),
+                    folders: theirs.folders ?? [],
+                    snapshot: ours?.bookmark?.snapshot,
+                    did: this.did,
+                })
+            }
+        }
+
+        this.applyingRemote = true
+        try {
+            await putBookmarks(toPut)
+            for (const { post, removedAt } of toRemove) {
+                await removeBookmarks([post], removedAt)
+            }
+        } finally {
+            this.applyingRemote = false
+        }
+
+        const expiry = new Date(Date.now() - BOOKMARK_TOMBSTONE_TTL).toISOString()
+        const shards = new Map<string, SyncedBookmark[]>()
+        for (const [key, synced] of merged) {
+            if (synced.removed && synced.updatedAt <= expiry) {
+                continue
+            }
+            const rkey = bookmarkShard(key)
+            const shard = shards.get(rkey) ?? []
+            shard.push(synced)
+            shards.set(rkey, shard)
+        }
+
+        const rkeys = new Set([...shards.keys(), ...remote.keys()])
+        rkeys.delete(LEGACY_BOOKMARKS_RKEY)
+        for (const rkey of rkeys) {
+            const bookmarks = sortByKey(shards.get(rkey) ?? [])
+            const current = remote.get(rkey)
+            if (JSON.stringify(bookmarks) === JSON.stringify(sortByKey(current?.bookmarks ?? []))) {
+                continue
+            }
+            const record: BookmarksRecord = {
+                $type: BOOKMARKS_COLLECTION,
+                updatedAt: new Date().toISOString(),
+                bookmarks,
+            }
+            await this.agent.com.atproto.repo.putRecord({
+                repo: this.did,
+                collection: BOOKMARKS_COLLECTION,
+                rkey,
+                record: record as unknown as Record<string, unknown>,
+                // fails if another device wrote in the meantime, the next sync merges again
+                swapRecord: current?.cid,
+            })
+        }
+
+        // everything in it has been merged into the shards above
+        const legacy = remote.get(LEGACY_BOOKMARKS_RKEY)
+        if (legacy) {
+            await this.agent.com.atproto.repo.deleteRecord({
+                repo: this.did,
+                collection: BOOKMARKS_COLLECTION,
+                rkey: LEGACY_BOOKMARKS_RKEY,
+                swapRecord: legacy.cid,
+            })
+        }
+    }
+
+    // drops seen posts batches past the retention age
+    private async maybePruneRemote() {
+        const state = readSyncState(this.did)
+        if (state.lastPrunedAt && Date.now() - new Date(state.lastPrunedAt).getTime() < PRUNE_INTERVAL) {
+            return
+        }
+
+        const { maxAgeDays } = getSeenPostsRetention()
+        if (maxAgeDays !== null) {
+            const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000
+            let cursor: string | undefined
+            pages: do {
+                const { data } = await this.agent.com.atproto.repo.listRecords({
+                    repo: this.did,
+                    collection: SEEN_POSTS_COLLECTION,
+                    limit: 100,
+                    reverse: true,
+                    cursor,
+                })
+                const expired: string[] = []
+                let reachedCutoff = false
+                for (const { uri, value } of data.records) {
+                    if (new Date((value as unknown as SeenPostsRecord).createdAt).getTime() >= cutoff) {
+                        reachedCutoff = true
+                        break
+                    }
+                    expired.push(new AtUri(uri).rkey)
+                }
+                if (expired.length > 0) {
+                    await this.agent.com.atproto.repo.applyWrites({
+                        repo: this.did,
+                        writes: expired.map(rkey => ({
+                            $type: 'com.atproto.repo.applyWrites#delete',
+                            collection: SEEN_POSTS_COLLECTION,
+                            rkey,
+                        })),
+                    })
+                }
+                if (reachedCutoff) {
+                    break pages
+                }
+                cursor = data.cursor
+            } while (cursor)
+        }
+
+        writeSyncState(this.did, { ...readSyncState(this.did), lastPrunedAt: new Date().toISOString() })
+    }
+}
+
+export function syncNow() {
+    return activeSync?.sync()
+}
+
+export function useSyncEnabled(did: string | undefined) {
+    const [syncEnabled, setSyncEnabled] = useLocalStorage(did ? syncEnabledKey(did) : '', 'false')
+
+    return [!!did && syncEnabled === 'true', (value: boolean) => {
+        if (did) {
+            setSyncEnabled(value ? 'true' : 'false')
+        }
+    }] as const
+}
+
+export function useSyncState(did: string | undefined) {
+    const [raw] = useLocalStorage(did ? syncStateKey(did) : '', '')
+    if (!did || !raw) {
+        return undefined
+    }
+    try {
+        return JSON.parse(raw) as SyncState
+    } catch {
+        return undefined
+    }
+}
+
+export function useDeerSync() {
+    const agent = useAgent()
+    const { currentAccount } = useSession()
+    const did = currentAccount?.did
+    const [syncEnabled] = useSyncEnabled(did)
+
+    useEffect(() => {
+        if (!syncEnabled || !did) {
+            return
+        }
+        return new DeerSync(agent, did).start()
+    }, [agent, did, syncEnabled])
+}
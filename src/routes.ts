@@ -15,6 +15,8 @@ export const router = new Router<AllNavigatableRoutes>({
   LegacyNotificationSettings: '/notifications/settings',
   Settings: '/settings',
   Lists: '/lists',
+  Bookmarks: '/bookmarks',
+  ScheduledPosts: '/scheduled-posts',
   // moderation
   Moderation: '/moderation',
   ModerationModlists: '/moderation/modlists',
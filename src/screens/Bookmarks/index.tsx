@@ -0,0 +1,539 @@
+import {useCallback, useMemo, useState} from 'react'
+import {ScrollView, View} from 'react-native'
+import {type AppBskyFeedDefs, AppBskyFeedPost} from '@atproto/api'
+import {msg, Plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useFocusEffect} from '@react-navigation/native'
+
+import {
+  type CommonNavigatorParams,
+  type NativeStackScreenProps,
+} from '#/lib/routes/types'
+import {sanitizeDisplayName} from '#/lib/strings/display-names'
+import {sanitizeHandle} from '#/lib/strings/handles'
+import {niceDate} from '#/lib/strings/time'
+import {useBookmarkedPostsQuery} from '#/state/queries/bookmarked-posts'
+import {useSetMinimalShellMode} from '#/state/shell'
+import {Post} from '#/view/com/post/Post'
+import {List} from '#/view/com/util/List'
+import {UserAvatar} from '#/view/com/util/UserAvatar'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {SearchInput} from '#/components/forms/SearchInput'
+import * as Toggle from '#/components/forms/Toggle'
+import * as ToggleButton from '#/components/forms/ToggleButton'
+import {PlusLarge_Stroke2_Corner0_Rounded as PlusIcon} from '#/components/icons/Plus'
+import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
+import * as Layout from '#/components/Layout'
+import {ListMaybePlaceholder} from '#/components/Lists'
+import * as Prompt from '#/components/Prompt'
+import {Text} from '#/components/Typography'
+import {
+  type Bookmark,
+  removeBookmarks,
+  setBookmarkFolders,
+  useBookmarkFolders,
+  useBookmarks,
+} from '#/maxine/bookmarked'
+import * as bsky from '#/types/bsky'
+
+type Props = NativeStackScreenProps<CommonNavigatorParams, 'Bookmarks'>
+
+type SortOrder = 'newest' | 'oldest'
+
+type BookmarkItem = {
+  key: string
+  bookmark: Bookmark
+  post: AppBskyFeedDefs.PostView | undefined
+}
+
+const ALL_FOLDERS = ''
+
+function itemText(item: BookmarkItem) {
+  const {post, bookmark} = item
+  const parts: string[] = []
+  if (post) {
+    if (
+      bsky.dangerousIsType<AppBskyFeedPost.Record>(
+        post.record,
+        AppBskyFeedPost.isRecord,
+      )
+    ) {
+      parts.push(post.record.text)
+    }
+    parts.push(post.author.handle, post.author.displayName ?? '')
+  } else if (bookmark.snapshot) {
+    const {text, author} = bookmark.snapshot
+    parts.push(text, author.handle, author.displayName ?? '')
+  }
+  return parts.join('\n').toLowerCase()
+}
+
+export function BookmarksScreen({}: Props) {
+  const {_} = useLingui()
+  const setMinimalShellMode = useSetMinimalShellMode()
+
+  const bookmarks = useBookmarks()
+  const [folders, setFolders] = useBookmarkFolders()
+
+  const [query, setQuery] = useState('')
+  const [folder, setFolder] = useState(ALL_FOLDERS)
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest')
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+
+  const folderDialogControl = Dialog.useDialogControl()
+  const removePromptControl = Prompt.usePromptControl()
+
+  useFocusEffect(
+    useCallback(() => {
+      setMinimalShellMode(false)
+    }, [setMinimalShellMode]),
+  )
+
+  const uris = useMemo(
+    () => bookmarks?.map(bookmark => bookmark.post.uri) ?? [],
+    [bookmarks],
+  )
+  const {data: posts, isLoading: isLoadingPosts} = useBookmarkedPostsQuery(uris)
+
+  const allFolders = useMemo(() => {
+    const names = new Set(folders)
+    for (const bookmark of bookmarks ?? []) {
+      for (const name of bookmark.folders) {
+        names.add(name)
+      }
+    }
+    return [...names].sort()
+  }, [folders, bookmarks])
+
+  const items = useMemo<BookmarkItem[]>(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+    return (bookmarks ?? [])
+      .filter(
+        bookmark => folder === ALL_FOLDERS || bookmark.folders.includes(folder),
+      )
+      .map(bookmark => ({
+        key: `${bookmark.post.uri}:${bookmark.post.cid}`,
+        bookmark,
+        post: posts?.get(bookmark.post.uri),
+      }))
+      .filter(item => {
+        if (terms.length === 0) return true
+        const text = itemText(item)
+        return terms.every(term => text.includes(term))
+      })
+      .sort((x, y) => {
+        const diff =
+          new Date(x.bookmark.savedAt).getTime() -
+          new Date(y.bookmark.savedAt).getTime()
+        return sortOrder === 'newest' ? -diff : diff
+      })
+  }, [bookmarks, posts, query, folder, sortOrder])
+
+  const selectedBookmarks = useMemo(
+    () =>
+      items
+        .filter(item => selected.has(item.key))
+        .map(item => item.bookmark.post),
+    [items, selected],
+  )
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting)
+    setSelected(new Set())
+  }
+
+  const onToggleItem = useCallback((key: string, value: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (value) {
+        next.add(key)
+      } else {
+        next.delete(key)
+      }
+      return next
+    })
+  }, [])
+
+  const onConfirmRemove = () => {
+    removeBookmarks(selectedBookmarks)
+    setSelected(new Set())
+    setIsSelecting(false)
+  }
+
+  const renderItem = useCallback(
+    ({item, index}: {item: BookmarkItem; index: number}) => (
+      <BookmarkListItem
+        item={item}
+        hideTopBorder={index === 0}
+        isSelecting={isSelecting}
+        isSelected={selected.has(item.key)}
+        onToggle={onToggleItem}
+      />
+    ),
+    [isSelecting, selected, onToggleItem],
+  )
+
+  const header = (
+    <View style={[a.px_lg, a.pt_md, a.pb_sm, a.gap_md]}>
+      <SearchInput
+        value={query}
+        onChangeText={setQuery}
+        onClearText={() => setQuery('')}
+        label={_(msg`Search bookmarks`)}
+      />
+      <ToggleButton.Group
+        label={_(msg`Sort bookmarks`)}
+        values={[sortOrder]}
+        onChange={values => setSortOrder(values[0] as SortOrder)}>
+        <ToggleButton.Button name="newest" label={_(msg`Newest first`)}>
+          <ToggleButton.ButtonText>
+            <Trans>Newest first</Trans>
+          </ToggleButton.ButtonText>
+        </ToggleButton.Button>
+        <ToggleButton.Button name="oldest" label={_(msg`Oldest first`)}>
+          <ToggleButton.ButtonText>
+            <Trans>Oldest first</Trans>
+          </ToggleButton.ButtonText>
+        </ToggleButton.Button>
+      </ToggleButton.Group>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={[a.flex_row, a.gap_sm]}>
+          <Button
+            label={_(msg`All bookmarks`)}
+            size="small"
+            variant="solid"
+            color={folder === ALL_FOLDERS ? 'primary' : 'secondary'}
+            onPress={() => setFolder(ALL_FOLDERS)}>
+            <ButtonText>
+              <Trans>All</Trans>
+            </ButtonText>
+          </Button>
+          {allFolders.map(name => (
+            <Button
+              key={name}
+              label={_(msg`Show bookmarks in ${name}`)}
+              size="small"
+              variant="solid"
+              color={folder === name ? 'primary' : 'secondary'}
+              onPress={() => setFolder(name)}>
+              <ButtonText>{name}</ButtonText>
+            </Button>
+          ))}
+          <Button
+            label={_(msg`New folder`)}
+            size="small"
+            variant="ghost"
+            color="secondary"
+            onPress={() => folderDialogControl.open()}>
+            <ButtonIcon icon={PlusIcon} />
+            <ButtonText>
+              <Trans>Folder</Trans>
+            </ButtonText>
+          </Button>
+        </View>
+      </ScrollView>
+      {isSelecting && (
+        <View style={[a.flex_row, a.gap_sm]}>
+          <Button
+            label={_(msg`Move selected bookmarks to folders`)}
+            size="small"
+            variant="solid"
+            color="secondary"
+            disabled={selectedBookmarks.length === 0}
+            onPress={() => folderDialogControl.open()}>
+            <ButtonText>
+              <Trans>Folders…</Trans>
+            </ButtonText>
+          </Button>
+          <Button
+            label={_(msg`Remove selected bookmarks`)}
+            size="small"
+            variant="solid"
+            color="negative"
+            disabled={selectedBookmarks.length === 0}
+            onPress={() => removePromptControl.open()}>
+            <ButtonIcon icon={TrashIcon} />
+            <ButtonText>
+              <Plural
+                value={selectedBookmarks.length}
+                one="Remove # bookmark"
+                other="Remove # bookmarks"
+              />
+            </ButtonText>
+          </Button>
+        </View>
+      )}
+    </View>
+  )
+
+  return (
+    <Layout.Screen testID="bookmarksScreen">
+      <Layout.Header.Outer>
+        <Layout.Header.BackButton />
+        <Layout.Header.Content align="left">
+          <Layout.Header.TitleText>
+            <Trans>Bookmarks</Trans>
+          </Layout.Header.TitleText>
+          {bookmarks && (
+            <Layout.Header.SubtitleText>
+              <Plural
+                value={bookmarks.length}
+                one="# saved post"
+                other="# saved posts"
+              />
+            </Layout.Header.SubtitleText>
+          )}
+        </Layout.Header.Content>
+        <Button
+          label={isSelecting ? _(msg`Done selecting`) : _(msg`Select`)}
+          color="secondary"
+          variant="solid"
+          size="small"
+          onPress={toggleSelecting}>
+          <ButtonText>
+            {isSelecting ? <Trans>Done</Trans> : <Trans>Select</Trans>}
+          </ButtonText>
+        </Button>
+      </Layout.Header.Outer>
+      {items.length === 0 ? (
+        <>
+          {header}
+          <ListMaybePlaceholder
+            isLoading={!bookmarks || isLoadingPosts}
+            emptyType="results"
+            emptyTitle={_(msg`No bookmarks`)}
+            emptyMessage={
+              bookmarks?.length
+                ? _(msg`No bookmarks match your filters.`)
+                : _(msg`Posts you bookmark will show up here.`)
+            }
+            sideBorders={false}
+          />
+        </>
+      ) : (
+        <List
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={item => item.key}
+          ListHeaderComponent={header}
+          // @ts-ignore our .web version only -prf
+          desktopFixedHeight
+          sideBorders={false}
+        />
+      )}
+      <FolderDialog
+        control={folderDialogControl}
+        folders={allFolders}
+        selectedBookmarks={selectedBookmarks}
+        bookmarks={bookmarks ?? []}
+        onCreateFolder={name => {
+          if (!folders.includes(name)) {
+            setFolders([...folders, name])
+          }
+        }}
+      />
+      <Prompt.Basic
+        control={removePromptControl}
+        title={_(msg`Remove bookmarks?`)}
+        description={_(
+          msg`The selected posts will be removed from your bookmarks on this device.`,
+        )}
+        onConfirm={onConfirmRemove}
+        confirmButtonCta={_(msg`Remove`)}
+        confirmButtonColor="negative"
+      />
+    </Layout.Screen>
+  )
+}
+
+function BookmarkListItem({
+  item,
+  hideTopBorder,
+  isSelecting,
+  isSelected,
+  onToggle,
+}: {
+  item: BookmarkItem
+  hideTopBorder: boolean
+  isSelecting: boolean
+  isSelected: boolean
+  onToggle: (key: string, value: boolean) => void
+}) {
+  const {_} = useLingui()
+
+  const content = item.post ? (
+    <Post post={item.post} hideTopBorder={hideTopBorder} />
+  ) : (
+    <BookmarkSnapshot bookmark={item.bookmark} />
+  )
+
+  if (!isSelecting) {
+    return content
+  }
+
+  return (
+    <View style={[a.flex_row, a.align_start]}>
+      <Toggle.Item
+        name={item.key}
+        label={_(msg`Select bookmark`)}
+        value={isSelected}
+        onChange={value => onToggle(item.key, value)}
+        style={[a.pl_lg, a.pt_lg]}>
+        <Toggle.Checkbox />
+      </Toggle.Item>
+      <View style={[a.flex_1]}>{content}</View>
+    </View>
+  )
+}
+
+/**
+ * Shown when the AppView no longer returns a bookmarked post, e.g. because it
+ * was deleted, so the saved copy is all we have left.
+ */
+function BookmarkSnapshot({bookmark}: {bookmark: Bookmark}) {
+  const t = useTheme()
+  const {i18n} = useLingui()
+  const {snapshot} = bookmark
+
+  return (
+    <View
+      style={[
+        a.px_lg,
+        a.py_md,
+        a.gap_sm,
+        a.border_t,
+        t.atoms.border_contrast_low,
+      ]}>
+      {snapshot ? (
+        <>
+          <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+            <UserAvatar size={32} avatar={snapshot.author.avatar} type="user" />
+            <Text style={[a.flex_1, a.font_bold]} numberOfLines={1}>
+              {sanitizeDisplayName(
+                snapshot.author.displayName ||
+                  sanitizeHandle(snapshot.author.handle),
+              )}{' '}
+              <Text style={[t.atoms.text_contrast_medium]}>
+                {sanitizeHandle(snapshot.author.handle, '@')}
+              </Text>
+            </Text>
+          </View>
+          {snapshot.text ? (
+            <Text style={[a.text_md, a.leading_snug]}>{snapshot.text}</Text>
+          ) : null}
+        </>
+      ) : null}
+      <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+        {bookmark.savedAt.getTime() > 0 ? (
+          <Trans>
+            This post is no longer available. Saved{' '}
+            {niceDate(i18n, bookmark.savedAt)}.
+          </Trans>
+        ) : (
+          <Trans>This post is no longer available.</Trans>
+        )}
+      </Text>
+    </View>
+  )
+}
+
+function FolderDialog({
+  control,
+  folders,
+  selectedBookmarks,
+  bookmarks,
+  onCreateFolder,
+}: {
+  control: Dialog.DialogControlProps
+  folders: string[]
+  selectedBookmarks: {uri: string; cid: string}[]
+  bookmarks: Bookmark[]
+  onCreateFolder: (name: string) => void
+}) {
+  const {_} = useLingui()
+  const [name, setName] = useState('')
+
+  const isAssigning = selectedBookmarks.length > 0
+
+  const isInFolder = (folder: string) => {
+    const keys = new Set(selectedBookmarks.map(b => `${b.uri}:${b.cid}`))
+    const matching = bookmarks.filter(b =>
+      keys.has(`${b.post.uri}:${b.post.cid}`),
+    )
+    return (
+      matching.length > 0 && matching.every(b => b.folders.includes(folder))
+    )
+  }
+
+  const onToggleFolder = (folder: string, value: boolean) => {
+    setBookmarkFolders(selectedBookmarks, current =>
+      value
+        ? [...current.filter(f => f !== folder), folder]
+        : current.filter(f => f !== folder),
+    )
+  }
+
+  const submit = () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    onCreateFolder(trimmed)
+    if (isAssigning) {
+      onToggleFolder(trimmed, true)
+    }
+    setName('')
+  }
+
+  return (
+    <Dialog.Outer control={control} onClose={() => setName('')}>
+      <Dialog.Handle />
+      <Dialog.ScrollableInner label={_(msg`Bookmark folders`)}>
+        <View style={[a.gap_lg]}>
+          <Text style={[a.text_2xl, a.font_bold]}>
+            <Trans>Bookmark folders</Trans>
+          </Text>
+
+          {isAssigning &&
+            folders.map(folder => (
+              <Toggle.Item
+                key={folder}
+                name={folder}
+                label={folder}
+                value={isInFolder(folder)}
+                onChange={value => onToggleFolder(folder, value)}
+                style={[a.w_full]}>
+                <Toggle.Checkbox />
+                <Toggle.LabelText style={[a.flex_1]}>{folder}</Toggle.LabelText>
+              </Toggle.Item>
+            ))}
+
+          <View style={[a.flex_row, a.gap_sm, a.align_center]}>
+            <View style={[a.flex_1]}>
+              <Dialog.Input
+                label={_(msg`New folder name`)}
+                value={name}
+                onChangeText={setName}
+                placeholder={_(msg`New folder`)}
+                onSubmitEditing={submit}
+              />
+            </View>
+            <Button
+              label={_(msg`Create folder`)}
+              size="large"
+              variant="solid"
+              color="primary"
+              disabled={!name.trim()}
+              onPress={submit}>
+              <ButtonText>
+                <Trans>Create</Trans>
+              </ButtonText>
+            </Button>
+          </View>
+        </View>
+        <Dialog.Close />
+      </Dialog.ScrollableInner>
+    </Dialog.Outer>
+  )
+}
@@ -26,6 +26,7 @@ import {Button, ButtonText} from '#/components/Button'
 import * as Dialog from '#/components/Dialog'
 import {BirthDateSettingsDialog} from '#/components/dialogs/BirthDateSettings'
 import {useGlobalDialogsControlContext} from '#/components/dialogs/Context'
+import {LocalMutesDialog} from '#/components/dialogs/LocalMutes'
 import {Divider} from '#/components/Divider'
 import * as Toggle from '#/components/forms/Toggle'
 import {ChevronRight_Stroke2_Corner0_Rounded as ChevronRight} from '#/components/icons/Chevron'
@@ -33,6 +34,7 @@ import {CircleBanSign_Stroke2_Corner0_Rounded as CircleBanSign} from '#/componen
 import {CircleCheck_Stroke2_Corner0_Rounded as CircleCheck} from '#/components/icons/CircleCheck'
 import {type Props as SVGIconProps} from '#/components/icons/common'
 import {EditBig_Stroke2_Corner0_Rounded as EditBig} from '#/components/icons/EditBig'
+import {EyeSlash_Stroke2_Corner0_Rounded as EyeSlash} from '#/components/icons/EyeSlash'
 import {Filter_Stroke2_Corner0_Rounded as Filter} from '#/components/icons/Filter'
 import {Group3_Stroke2_Corner0_Rounded as Group} from '#/components/icons/Group'
 import {Person_Stroke2_Corner0_Rounded as Person} from '#/components/icons/Person'
@@ -152,6 +154,7 @@ export function ModerationScreenInner({
   const {gtMobile} = useBreakpoints()
   const {mutedWordsDialogControl} = useGlobalDialogsControlContext()
   const birthdateDialogControl = Dialog.useDialogControl()
+  const localMutesDialogControl = Dialog.useDialogControl()
   const {
     isLoading: isLabelersLoading,
     data: labelers,
@@ -234,6 +237,21 @@ export function ModerationScreenInner({
           )}
         </Button>
         <Divider />
+        <Button
+          testID="localMutesBtn"
+          label={_(msg`Open local mute rules`)}
+          onPress={() => localMutesDialogControl.open()}>
+          {state => (
+            <SubItem
+              title={_(msg`Local mute rules`)}
+              icon={EyeSlash}
+              style={[
+                (state.hovered || state.pressed) && [t.atoms.bg_contrast_50],
+              ]}
+            />
+          )}
+        </Button>
+        <Divider />
         <Link
           label={_(msg`View your moderation lists`)}
           testID="moderationlistsBtn"
@@ -295,6 +313,8 @@ export function ModerationScreenInner({
         </Link>
       </View>
 
+      <LocalMutesDialog control={localMutesDialogControl} />
+
       <Text
         style={[
           a.pt_2xl,
@@ -0,0 +1,142 @@
+import {View} from 'react-native'
+import {type AppBskyActorDefs, AtUri} from '@atproto/api'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {makeProfileLink} from '#/lib/routes/links'
+import {niceDate} from '#/lib/strings/time'
+import {atoms as a, useTheme, web} from '#/alf'
+import {Button} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {InlineLinkText} from '#/components/Link'
+import {Text} from '#/components/Typography'
+import {
+  type EditHistory,
+  type PostVersion,
+  useEditHistory,
+} from '#/maxine/edit-history'
+
+/**
+ * Shows "Edited" next to the date of one of our posts that replaced an
+ * earlier version, opening the versions it replaced. Edits are only known to
+ * the device they were made on.
+ */
+export function EditedIndicator({
+  uri,
+  author,
+}: {
+  uri: string
+  author: AppBskyActorDefs.ProfileViewBasic
+}) {
+  const t = useTheme()
+  const {_} = useLingui()
+  const history = useEditHistory(uri)
+  const control = Dialog.useDialogControl()
+
+  if (!history) return null
+
+  return (
+    <>
+      <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>&middot;</Text>
+      <Button
+        label={_(msg`Edited`)}
+        accessibilityHint={_(msg`Shows earlier versions of this post`)}
+        onPress={e => {
+          e.preventDefault()
+          e.stopPropagation()
+          control.open()
+        }}>
+        {({hovered, pressed}) => (
+          <Text
+            style={[
+              a.text_sm,
+              t.atoms.text_contrast_medium,
+              (hovered || pressed) && a.underline,
+            ]}>
+            <Trans>Edited</Trans>
+          </Text>
+        )}
+      </Button>
+
+      <Dialog.Outer control={control}>
+        <Dialog.Handle />
+        <EditHistoryDialogInner history={history} author={author} />
+      </Dialog.Outer>
+    </>
+  )
+}
+
+function EditHistoryDialogInner({
+  history,
+  author,
+}: {
+  history: EditHistory
+  author: AppBskyActorDefs.ProfileViewBasic
+}) {
+  const t = useTheme()
+  const {_, i18n} = useLingui()
+
+  return (
+    <Dialog.ScrollableInner
+      label={_(msg`Edit history`)}
+      style={web([{maxWidth: 500}, a.w_full])}>
+      <View style={[a.gap_sm, a.pb_md]}>
+        <Text style={[a.text_2xl, a.font_bold]}>
+          <Trans>Edit history</Trans>
+        </Text>
+        <Text style={[t.atoms.text_contrast_medium, a.leading_snug]}>
+          <Trans>
+            Last edited {niceDate(i18n, history.editedAt)}. Earlier versions are
+            listed newest first.
+          </Trans>
+        </Text>
+      </View>
+
+      <View style={[a.border_t, t.atoms.border_contrast_low]}>
+        {[...history.versions].reverse().map(version => (
+          <VersionRow key={version.uri} version={version} author={author} />
+        ))}
+      </View>
+
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
+
+function VersionRow({
+  version,
+  author,
+}: {
+  version: PostVersion
+  author: AppBskyActorDefs.ProfileViewBasic
+}) {
+  const t = useTheme()
+  const {_, i18n} = useLingui()
+  const control = Dialog.useDialogContext()
+
+  return (
+    <View style={[a.gap_xs, a.py_md, a.border_b, t.atoms.border_contrast_low]}>
+      <Text emoji style={[a.text_md, a.leading_snug]}>
+        {version.text.trim() || _(msg`No text`)}
+      </Text>
+      <View style={[a.flex_row, a.flex_wrap, a.gap_xs]}>
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          {niceDate(i18n, version.createdAt)} &middot;
+        </Text>
+        {version.kept ? (
+          <InlineLinkText
+            to={makeProfileLink(author, 'post', new AtUri(version.uri).rkey)}
+            label={_(msg`View original post`)}
+            style={[a.text_sm]}
+            onPress={() => control.close()}>
+            <Trans>View original</Trans>
+          </InlineLinkText>
+        ) : (
+          <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+            <Trans>Deleted</Trans>
+          </Text>
+        )}
+      </View>
+    </View>
+  )
+}
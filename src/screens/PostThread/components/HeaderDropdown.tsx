@@ -2,9 +2,18 @@ import {msg, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
 
 import {HITSLOP_10} from '#/lib/constants'
+import {saveBytesToDisk} from '#/lib/media/manip'
+import {exportThread, type ThreadExportFormat} from '#/lib/thread-export'
 import {logger} from '#/logger'
+import {
+  useConstellationEnabled,
+  useSetConstellationEnabled,
+} from '#/state/preferences/constellation-enabled'
 import {type ThreadPreferences} from '#/state/queries/preferences/useThreadPreferences'
+import {type ThreadItem} from '#/state/queries/usePostThread'
+import * as Toast from '#/view/com/util/Toast'
 import {Button, ButtonIcon} from '#/components/Button'
+import {Download_Stroke2_Corner0_Rounded as DownloadIcon} from '#/components/icons/Download'
 import {SettingsSliderVertical_Stroke2_Corner0_Rounded as SettingsSlider} from '#/components/icons/SettingsSlider'
 import * as Menu from '#/components/Menu'
 
@@ -13,11 +22,34 @@ export function HeaderDropdown({
   view,
   setSort,
   setView,
-}: Pick<
-  ThreadPreferences,
-  'sort' | 'setSort' | 'view' | 'setView'
->): React.ReactNode {
+  items,
+}: Pick<ThreadPreferences, 'sort' | 'setSort' | 'view' | 'setView'> & {
+  /**
+   * The thread as it's currently shown, for exporting.
+   */
+  items: ThreadItem[]
+}): React.ReactNode {
   const {_} = useLingui()
+  const constellationEnabled = useConstellationEnabled()
+  const setConstellationEnabled = useSetConstellationEnabled()
+
+  const onExport = async (format: ThreadExportFormat) => {
+    try {
+      const {filename, mimeType, contents} = await exportThread(items, format)
+      const saved = await saveBytesToDisk(
+        filename,
+        new TextEncoder().encode(contents),
+        mimeType,
+      )
+      if (saved) {
+        Toast.show(_(msg`File saved successfully!`))
+      }
+    } catch (e) {
+      logger.error('Error occurred while exporting thread', {message: e})
+      Toast.show(_(msg`Error occurred while saving file`), 'xmark')
+    }
+  }
+
   return (
     <Menu.Root>
       <Menu.Trigger label={_(msg`Thread options`)}>
@@ -100,6 +132,52 @@ export function HeaderDropdown({
             <Menu.ItemRadio selected={sort === 'newest'} />
           </Menu.Item>
         </Menu.Group>
+        <Menu.Divider />
+        <Menu.LabelText>
+          <Trans>Hidden replies</Trans>
+        </Menu.LabelText>
+        <Menu.Group>
+          <Menu.Item
+            label={_(msg`Find replies hidden by the AppView`)}
+            onPress={() => {
+              setConstellationEnabled(!constellationEnabled)
+            }}>
+            <Menu.ItemText>
+              <Trans>Find replies hidden by the AppView</Trans>
+            </Menu.ItemText>
+            <Menu.ItemRadio selected={!!constellationEnabled} />
+          </Menu.Item>
+        </Menu.Group>
+        <Menu.Divider />
+        <Menu.LabelText>
+          <Trans>Export thread</Trans>
+        </Menu.LabelText>
+        <Menu.Group>
+          <Menu.Item
+            label={_(msg`Export as Markdown`)}
+            onPress={() => onExport('markdown')}>
+            <Menu.ItemText>
+              <Trans>Markdown</Trans>
+            </Menu.ItemText>
+            <Menu.ItemIcon icon={DownloadIcon} />
+          </Menu.Item>
+          <Menu.Item
+            label={_(msg`Export as HTML`)}
+            onPress={() => onExport('html')}>
+            <Menu.ItemText>
+              <Trans>HTML with images</Trans>
+            </Menu.ItemText>
+            <Menu.ItemIcon icon={DownloadIcon} />
+          </Menu.Item>
+          <Menu.Item
+            label={_(msg`Export as JSON`)}
+            onPress={() => onExport('json')}>
+            <Menu.ItemText>
+              <Trans>JSON records</Trans>
+            </Menu.ItemText>
+            <Menu.ItemIcon icon={DownloadIcon} />
+          </Menu.Item>
+        </Menu.Group>
       </Menu.Outer>
     </Menu.Root>
   )
@@ -35,6 +35,12 @@ import {type PostSource} from '#/state/unstable-post-source'
 import {PostThreadFollowBtn} from '#/view/com/post-thread/PostThreadFollowBtn'
 import {formatCount} from '#/view/com/util/numeric/format'
 import {PreviewableUserAvatar} from '#/view/com/util/UserAvatar'
+import {EditedIndicator} from '#/screens/PostThread/components/EditHistory'
+import {ThreadItemDirectFetched} from '#/screens/PostThread/components/ThreadItemDirectFetched'
+import {
+  estimateReadingMinutes,
+  ThreadReaderDialog,
+} from '#/screens/PostThread/components/ThreadReader'
 import {
   LINEAR_AVI_WIDTH,
   OUTER_SPACE,
@@ -42,8 +48,10 @@ import {
 } from '#/screens/PostThread/const'
 import {atoms as a, useTheme} from '#/alf'
 import {colors} from '#/components/Admonition'
-import {Button} from '#/components/Button'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
 import {CalendarClock_Stroke2_Corner0_Rounded as CalendarClockIcon} from '#/components/icons/CalendarClock'
+import {PageText_Stroke2_Corner0_Rounded as PageTextIcon} from '#/components/icons/PageText'
 import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
 import {InlineLinkText, Link} from '#/components/Link'
 import {ContentHider} from '#/components/moderation/ContentHider'
@@ -66,11 +74,17 @@ export function ThreadItemAnchor({
   onPostSuccess,
   threadgateRecord,
   postSource,
+  authorThread,
 }: {
   item: Extract<ThreadItem, {type: 'threadPost'}>
   onPostSuccess?: (data: OnPostSuccessData) => void
   threadgateRecord?: AppBskyFeedThreadgate.Record
   postSource?: PostSource
+  /**
+   * The root author's chain of posts, see `getAuthorThread`. If the anchor is
+   * part of it, it can be read as an article.
+   */
+  authorThread?: Extract<ThreadItem, {type: 'threadPost'}>[]
 }) {
   const postShadow = usePostShadow(item.value.post)
   const threadRootUri = item.value.post.record.reply?.root?.uri || item.uri
@@ -90,6 +104,7 @@ export function ThreadItemAnchor({
       onPostSuccess={onPostSuccess}
       threadgateRecord={threadgateRecord}
       postSource={postSource}
+      authorThread={authorThread}
     />
   )
 }
@@ -166,6 +181,7 @@ const ThreadItemAnchorInner = memo(function ThreadItemAnchorInner({
   onPostSuccess,
   threadgateRecord,
   postSource,
+  authorThread,
 }: {
   item: Extract<ThreadItem, {type: 'threadPost'}>
   isRoot: boolean
@@ -173,6 +189,7 @@ const ThreadItemAnchorInner = memo(function ThreadItemAnchorInner({
   onPostSuccess?: (data: OnPostSuccessData) => void
   threadgateRecord?: AppBskyFeedThreadgate.Record
   postSource?: PostSource
+  authorThread?: Extract<ThreadItem, {type: 'threadPost'}>[]
 }) {
   const t = useTheme()
   const {_, i18n} = useLingui()
@@ -372,6 +389,7 @@ const ThreadItemAnchorInner = memo(function ThreadItemAnchorInner({
         </View>
         <View style={[a.pb_sm]}>
           <LabelsOnMyPost post={post} style={[a.pb_sm]} />
+          <ThreadItemDirectFetched item={item} style={[a.pb_sm]} />
           <ContentHider
             modui={moderation.ui('contentView')}
             ignoreMute
@@ -408,6 +426,11 @@ const ThreadItemAnchorInner = memo(function ThreadItemAnchorInner({
             post={item.value.post}
             isThreadAuthor={isThreadAuthor}
           />
+          {authorThread &&
+            authorThread.length > 1 &&
+            authorThread.some(post => post.uri === item.uri) && (
+              <ReadAsArticleButton posts={authorThread} />
+            )}
           {post.repostCount !== 0 ||
           post.likeCount !== 0 ||
           post.quoteCount !== 0 ? (
@@ -500,6 +523,38 @@ const ThreadItemAnchorInner = memo(function ThreadItemAnchorInner({
   )
 })
 
+function ReadAsArticleButton({
+  posts,
+}: {
+  posts: Extract<ThreadItem, {type: 'threadPost'}>[]
+}) {
+  const {_} = useLingui()
+  const control = Dialog.useDialogControl()
+  const readingMinutes = estimateReadingMinutes(posts)
+
+  return (
+    <>
+      <Button
+        label={_(msg`Read this thread as an article`)}
+        size="small"
+        variant="solid"
+        color="secondary"
+        style={[a.self_start, a.mt_md]}
+        onPress={control.open}>
+        <ButtonIcon icon={PageTextIcon} />
+        <ButtonText>
+          <Trans>Read as article</Trans>
+        </ButtonText>
+        <ButtonText style={[a.font_normal]}>
+          <Plural value={posts.length} one="· # post" other="· # posts" />{' '}
+          <Plural value={readingMinutes} one="· # min" other="· # min" />
+        </ButtonText>
+      </Button>
+      <ThreadReaderDialog control={control} posts={posts} />
+    </>
+  )
+}
+
 function ExpandedPostDetails({
   post,
   isThreadAuthor,
@@ -555,6 +610,7 @@ function ExpandedPostDetails({
         <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
           {niceDate(i18n, post.indexedAt)}
         </Text>
+        <EditedIndicator uri={post.uri} author={post.author} />
         <WhoCanReply post={post} isThreadAuthor={isThreadAuthor} />
         {needsTranslation && (
           <>
@@ -0,0 +1,32 @@
+import {View} from 'react-native'
+import {Trans} from '@lingui/macro'
+
+import {isDirectFetched} from '#/state/queries/usePostThread/reconstruct'
+import {type ThreadItem} from '#/state/queries/usePostThread/types'
+import {atoms as a, useTheme, type ViewStyleProp} from '#/alf'
+import {Download_Stroke2_Corner0_Rounded as DownloadIcon} from '#/components/icons/Download'
+import {Text} from '#/components/Typography'
+
+/**
+ * Marks posts that the AppView didn't return and were instead fetched
+ * straight from the author's PDS, so they have no counts or labels.
+ */
+export function ThreadItemDirectFetched({
+  item,
+  style,
+}: ViewStyleProp & {
+  item: Extract<ThreadItem, {type: 'threadPost'}>
+}) {
+  const t = useTheme()
+
+  if (!isDirectFetched(item.value)) return null
+
+  return (
+    <View style={[a.flex_row, a.align_center, a.gap_xs, style]}>
+      <DownloadIcon size="xs" style={[t.atoms.text_contrast_medium]} />
+      <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+        <Trans>Fetched directly from the author's PDS</Trans>
+      </Text>
+    </View>
+  )
+}
@@ -24,6 +24,7 @@ import {type OnPostSuccessData} from '#/state/shell/composer'
 import {useMergedThreadgateHiddenReplies} from '#/state/threadgate-hidden-replies'
 import {PostMeta} from '#/view/com/util/PostMeta'
 import {PreviewableUserAvatar} from '#/view/com/util/UserAvatar'
+import {ThreadItemDirectFetched} from '#/screens/PostThread/components/ThreadItemDirectFetched'
 import {
   LINEAR_AVI_WIDTH,
   OUTER_SPACE,
@@ -33,6 +34,7 @@ import {atoms as a, useTheme} from '#/alf'
 import {useInteractionState} from '#/components/hooks/useInteractionState'
 import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
 import {LabelsOnMyPost} from '#/components/moderation/LabelsOnMe'
+import {LocalMuteHider} from '#/components/moderation/LocalMuteHider'
 import {PostAlerts} from '#/components/moderation/PostAlerts'
 import {PostHider} from '#/components/moderation/PostHider'
 import {type AppModerationCause} from '#/components/Pills'
@@ -248,95 +250,99 @@ const ThreadItemPostInner = memo(function ThreadItemPostInner({
   return (
     <SubtleHover>
       <ThreadItemPostOuterWrapper item={item} overrides={overrides}>
-        <PostHider
-          testID={`postThreadItem-by-${post.author.handle}`}
-          href={postHref}
-          disabled={overrides?.moderation === true}
-          modui={moderation.ui('contentList')}
-          iconSize={LINEAR_AVI_WIDTH}
-          iconStyles={{marginLeft: 2, marginRight: 2}}
-          profile={post.author}
-          interpretFilterAsBlur>
-          <ThreadItemPostParentReplyLine item={item} />
+        <LocalMuteHider rule={item.localMute} style={[a.pt_sm]}>
+          <PostHider
+            testID={`postThreadItem-by-${post.author.handle}`}
+            href={postHref}
+            disabled={overrides?.moderation === true}
+            modui={moderation.ui('contentList')}
+            iconSize={LINEAR_AVI_WIDTH}
+            iconStyles={{marginLeft: 2, marginRight: 2}}
+            profile={post.author}
+            interpretFilterAsBlur>
+            <ThreadItemPostParentReplyLine item={item} />
 
-          <View style={[a.flex_row, a.gap_md]}>
-            <View>
-              <PreviewableUserAvatar
-                size={LINEAR_AVI_WIDTH}
-                profile={post.author}
-                moderation={moderation.ui('avatar')}
-                type={post.author.associated?.labeler ? 'labeler' : 'user'}
-                live={live}
-              />
-
-              {(item.ui.showChildReplyLine ||
-                item.ui.precedesChildReadMore) && (
-                <View
-                  style={[
-                    a.mx_auto,
-                    a.mt_xs,
-                    a.flex_1,
-                    {
-                      width: REPLY_LINE_WIDTH,
-                      backgroundColor: t.atoms.border_contrast_low.borderColor,
-                    },
-                  ]}
+            <View style={[a.flex_row, a.gap_md]}>
+              <View>
+                <PreviewableUserAvatar
+                  size={LINEAR_AVI_WIDTH}
+                  profile={post.author}
+                  moderation={moderation.ui('avatar')}
+                  type={post.author.associated?.labeler ? 'labeler' : 'user'}
+                  live={live}
                 />
-              )}
-            </View>
 
-            <View style={[a.flex_1]}>
-              <PostMeta
-                author={post.author}
-                moderation={moderation}
-                timestamp={post.indexedAt}
-                postHref={postHref}
-                style={[a.pb_xs]}
-              />
-              <LabelsOnMyPost post={post} style={[a.pb_xs]} />
-              <PostAlerts
-                modui={moderation.ui('contentList')}
-                style={[a.pb_2xs]}
-                additionalCauses={additionalPostAlerts}
-              />
-              {richText?.text ? (
-                <>
-                  <RichText
-                    enableTags
-                    value={richText}
-                    style={[a.flex_1, a.text_md]}
-                    numberOfLines={limitLines ? MAX_POST_LINES : undefined}
-                    authorHandle={post.author.handle}
-                    shouldProxyLinks={true}
+                {(item.ui.showChildReplyLine ||
+                  item.ui.precedesChildReadMore) && (
+                  <View
+                    style={[
+                      a.mx_auto,
+                      a.mt_xs,
+                      a.flex_1,
+                      {
+                        width: REPLY_LINE_WIDTH,
+                        backgroundColor:
+                          t.atoms.border_contrast_low.borderColor,
+                      },
+                    ]}
                   />
-                  {limitLines && (
-                    <ShowMoreTextButton
-                      style={[a.text_md]}
-                      onPress={onPressShowMore}
+                )}
+              </View>
+
+              <View style={[a.flex_1]}>
+                <PostMeta
+                  author={post.author}
+                  moderation={moderation}
+                  timestamp={post.indexedAt}
+                  postHref={postHref}
+                  style={[a.pb_xs]}
+                />
+                <LabelsOnMyPost post={post} style={[a.pb_xs]} />
+                <ThreadItemDirectFetched item={item} style={[a.pb_xs]} />
+                <PostAlerts
+                  modui={moderation.ui('contentList')}
+                  style={[a.pb_2xs]}
+                  additionalCauses={additionalPostAlerts}
+                />
+                {richText?.text ? (
+                  <>
+                    <RichText
+                      enableTags
+                      value={richText}
+                      style={[a.flex_1, a.text_md]}
+                      numberOfLines={limitLines ? MAX_POST_LINES : undefined}
+                      authorHandle={post.author.handle}
+                      shouldProxyLinks={true}
                     />
-                  )}
-                </>
-              ) : undefined}
-              {post.embed && (
-                <View style={[a.pb_xs]}>
-                  <Embed
-                    embed={post.embed}
-                    moderation={moderation}
-                    viewContext={PostEmbedViewContext.Feed}
-                  />
-                </View>
-              )}
-              <PostControls
-                post={postShadow}
-                record={record}
-                richText={richText}
-                onPressReply={onPressReply}
-                logContext="PostThreadItem"
-                threadgateRecord={threadgateRecord}
-              />
+                    {limitLines && (
+                      <ShowMoreTextButton
+                        style={[a.text_md]}
+                        onPress={onPressShowMore}
+                      />
+                    )}
+                  </>
+                ) : undefined}
+                {post.embed && (
+                  <View style={[a.pb_xs]}>
+                    <Embed
+                      embed={post.embed}
+                      moderation={moderation}
+                      viewContext={PostEmbedViewContext.Feed}
+                    />
+                  </View>
+                )}
+                <PostControls
+                  post={postShadow}
+                  record={record}
+                  richText={richText}
+                  onPressReply={onPressReply}
+                  logContext="PostThreadItem"
+                  threadgateRecord={threadgateRecord}
+                />
+              </View>
             </View>
-          </View>
-        </PostHider>
+          </PostHider>
+        </LocalMuteHider>
       </ThreadItemPostOuterWrapper>
     </SubtleHover>
   )
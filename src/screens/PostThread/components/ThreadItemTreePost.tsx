@@ -22,6 +22,7 @@ import {useSession} from '#/state/session'
 import {type OnPostSuccessData} from '#/state/shell/composer'
 import {useMergedThreadgateHiddenReplies} from '#/state/threadgate-hidden-replies'
 import {PostMeta} from '#/view/com/util/PostMeta'
+import {ThreadItemDirectFetched} from '#/screens/PostThread/components/ThreadItemDirectFetched'
 import {
   OUTER_SPACE,
   REPLY_LINE_WIDTH,
@@ -32,6 +33,7 @@ import {atoms as a, useTheme} from '#/alf'
 import {useInteractionState} from '#/components/hooks/useInteractionState'
 import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
 import {LabelsOnMyPost} from '#/components/moderation/LabelsOnMe'
+import {LocalMuteHider} from '#/components/moderation/LocalMuteHider'
 import {PostAlerts} from '#/components/moderation/PostAlerts'
 import {PostHider} from '#/components/moderation/PostHider'
 import {type AppModerationCause} from '#/components/Pills'
@@ -310,75 +312,80 @@ const ThreadItemTreePostInner = memo(function ThreadItemTreePostInner({
   return (
     <ThreadItemTreePostOuterWrapper item={item}>
       <SubtleHover>
-        <PostHider
-          testID={`postThreadItem-by-${post.author.handle}`}
-          href={postHref}
-          disabled={overrides?.moderation === true}
-          modui={moderation.ui('contentList')}
-          iconSize={42}
-          iconStyles={{marginLeft: 2, marginRight: 2}}
-          profile={post.author}
-          interpretFilterAsBlur>
-          <ThreadItemTreePostInnerWrapper item={item}>
-            <View style={[a.flex_1]}>
-              <PostMeta
-                author={post.author}
-                moderation={moderation}
-                timestamp={post.indexedAt}
-                postHref={postHref}
-                avatarSize={TREE_AVI_WIDTH}
-                style={[a.pb_0]}
-                showAvatar
-              />
-              <View style={[a.flex_row]}>
-                <ThreadItemTreeReplyChildReplyLine item={item} />
-                <View style={[a.flex_1, a.pl_2xs]}>
-                  <LabelsOnMyPost post={post} style={[a.pb_2xs]} />
-                  <PostAlerts
-                    modui={moderation.ui('contentList')}
-                    style={[a.pb_2xs]}
-                    additionalCauses={additionalPostAlerts}
-                  />
-                  {richText?.text ? (
-                    <>
-                      <RichText
-                        enableTags
-                        value={richText}
-                        style={[a.flex_1, a.text_md]}
-                        numberOfLines={limitLines ? MAX_POST_LINES : undefined}
-                        authorHandle={post.author.handle}
-                        shouldProxyLinks={true}
-                      />
-                      {limitLines && (
-                        <ShowMoreTextButton
-                          style={[a.text_md]}
-                          onPress={onPressShowMore}
+        <LocalMuteHider rule={item.localMute} style={[a.pt_sm]}>
+          <PostHider
+            testID={`postThreadItem-by-${post.author.handle}`}
+            href={postHref}
+            disabled={overrides?.moderation === true}
+            modui={moderation.ui('contentList')}
+            iconSize={42}
+            iconStyles={{marginLeft: 2, marginRight: 2}}
+            profile={post.author}
+            interpretFilterAsBlur>
+            <ThreadItemTreePostInnerWrapper item={item}>
+              <View style={[a.flex_1]}>
+                <PostMeta
+                  author={post.author}
+                  moderation={moderation}
+                  timestamp={post.indexedAt}
+                  postHref={postHref}
+                  avatarSize={TREE_AVI_WIDTH}
+                  style={[a.pb_0]}
+                  showAvatar
+                />
+                <View style={[a.flex_row]}>
+                  <ThreadItemTreeReplyChildReplyLine item={item} />
+                  <View style={[a.flex_1, a.pl_2xs]}>
+                    <LabelsOnMyPost post={post} style={[a.pb_2xs]} />
+                    <ThreadItemDirectFetched item={item} style={[a.pb_2xs]} />
+                    <PostAlerts
+                      modui={moderation.ui('contentList')}
+                      style={[a.pb_2xs]}
+                      additionalCauses={additionalPostAlerts}
+                    />
+                    {richText?.text ? (
+                      <>
+                        <RichText
+                          enableTags
+                          value={richText}
+                          style={[a.flex_1, a.text_md]}
+                          numberOfLines={
+                            limitLines ? MAX_POST_LINES : undefined
+                          }
+                          authorHandle={post.author.handle}
+                          shouldProxyLinks={true}
                         />
-                      )}
-                    </>
-                  ) : null}
-                  {post.embed && (
-                    <View style={[a.pb_xs]}>
-                      <Embed
-                        embed={post.embed}
-                        moderation={moderation}
-                        viewContext={PostEmbedViewContext.Feed}
-                      />
-                    </View>
-                  )}
-                  <PostControls
-                    post={postShadow}
-                    record={record}
-                    richText={richText}
-                    onPressReply={onPressReply}
-                    logContext="PostThreadItem"
-                    threadgateRecord={threadgateRecord}
-                  />
+                        {limitLines && (
+                          <ShowMoreTextButton
+                            style={[a.text_md]}
+                            onPress={onPressShowMore}
+                          />
+                        )}
+                      </>
+                    ) : null}
+                    {post.embed && (
+                      <View style={[a.pb_xs]}>
+                        <Embed
+                          embed={post.embed}
+                          moderation={moderation}
+                          viewContext={PostEmbedViewContext.Feed}
+                        />
+                      </View>
+                    )}
+                    <PostControls
+                      post={postShadow}
+                      record={record}
+                      richText={richText}
+                      onPressReply={onPressReply}
+                      logContext="PostThreadItem"
+                      threadgateRecord={threadgateRecord}
+                    />
+                  </View>
                 </View>
               </View>
-            </View>
-          </ThreadItemTreePostInnerWrapper>
-        </PostHider>
+            </ThreadItemTreePostInnerWrapper>
+          </PostHider>
+        </LocalMuteHider>
       </SubtleHover>
     </ThreadItemTreePostOuterWrapper>
   )
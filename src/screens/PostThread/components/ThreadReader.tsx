@@ -0,0 +1,290 @@
+import {useCallback, useMemo, useRef, useState} from 'react'
+import {type ListRenderItemInfo, View, type ViewToken} from 'react-native'
+import {RichText as RichTextAPI} from '@atproto/api'
+import {msg, Plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {sanitizeDisplayName} from '#/lib/strings/display-names'
+import {sanitizeHandle} from '#/lib/strings/handles'
+import {niceDate} from '#/lib/strings/time'
+import {type ThreadItem} from '#/state/queries/usePostThread/types'
+import {type ListMethods} from '#/view/com/util/List'
+import {UserAvatar} from '#/view/com/util/UserAvatar'
+import {atoms as a, native, useTheme} from '#/alf'
+import {Button, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {ContentHider} from '#/components/moderation/ContentHider'
+import {Embed, PostEmbedViewContext} from '#/components/Post/Embed'
+import {RichText} from '#/components/RichText'
+import {Text} from '#/components/Typography'
+import {useReadingPosition} from '#/maxine/reading-positions'
+
+type ThreadPostItem = Extract<ThreadItem, {type: 'threadPost'}>
+
+const WORDS_PER_MINUTE = 230
+const SECONDS_PER_IMAGE = 12
+
+/**
+ * Rough reading time in minutes, counting text and images. Never less than
+ * one.
+ */
+export function estimateReadingMinutes(posts: ThreadPostItem[]) {
+  let seconds = 0
+  for (const {value} of posts) {
+    const words = value.post.record.text.split(/\s+/).filter(Boolean).length
+    seconds += (words / WORDS_PER_MINUTE) * 60
+    const embed = value.post.embed
+    if (embed && 'images' in embed && Array.isArray(embed.images)) {
+      seconds += embed.images.length * SECONDS_PER_IMAGE
+    }
+  }
+  return Math.max(1, Math.round(seconds / 60))
+}
+
+/**
+ * Shows the author's chain of posts as one continuous article, without the
+ * per-post chrome and without anyone else's replies. The furthest post read
+ * is remembered, so reading can be picked up again later.
+ */
+export function ThreadReaderDialog({
+  control,
+  posts,
+}: {
+  control: Dialog.DialogControlProps
+  posts: ThreadPostItem[]
+}) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <ThreadReaderInner posts={posts} />
+    </Dialog.Outer>
+  )
+}
+
+function ThreadReaderInner({posts}: {posts: ThreadPostItem[]}) {
+  const t = useTheme()
+  const {_, i18n} = useLingui()
+  const listRef = useRef<ListMethods>(null)
+  const root = posts[0]
+  const author = root.value.post.author
+  const [position, savePosition] = useReadingPosition(root.uri)
+
+  /*
+   * Where the reader left off when the article was opened. This stays put
+   * while reading so the marker doesn't chase the scroll position.
+   */
+  const [resumeUri, setResumeUri] = useState<string | null | undefined>(
+    undefined,
+  )
+  if (resumeUri === undefined && position !== undefined) {
+    setResumeUri(position?.uri ?? null)
+  }
+  const resumeIndex = resumeUri
+    ? posts.findIndex(item => item.uri === resumeUri)
+    : -1
+
+  const furthestIndex = useRef(-1)
+  furthestIndex.current = Math.max(
+    furthestIndex.current,
+    position ? posts.findIndex(item => item.uri === position.uri) : -1,
+  )
+  const onViewableItemsChanged = useCallback(
+    ({viewableItems}: {viewableItems: ViewToken[]}) => {
+      // don't overwrite the saved position before it's loaded
+      if (position === undefined) return
+      const seen = Math.max(
+        -1,
+        ...viewableItems.map(token => token.index ?? -1),
+      )
+      if (seen > furthestIndex.current && posts[seen]) {
+        furthestIndex.current = seen
+        savePosition(posts[seen].uri)
+      }
+    },
+    [posts, position, savePosition],
+  )
+  // the list only reads this once, so it can't change between renders
+  const onViewableItemsChangedRef = useRef(onViewableItemsChanged)
+  onViewableItemsChangedRef.current = onViewableItemsChanged
+  const viewabilityConfigCallbackPairs = useRef([
+    {
+      viewabilityConfig: {itemVisiblePercentThreshold: 60},
+      onViewableItemsChanged: (info: {viewableItems: ViewToken[]}) =>
+        onViewableItemsChangedRef.current(info),
+    },
+  ])
+
+  const onResume = () => {
+    listRef.current?.scrollToIndex({index: resumeIndex, animated: true})
+  }
+
+  const otherReplies = useMemo(
+    () =>
+      posts.reduce(
+        (count, item, i) =>
+          count +
+          Math.max(
+            0,
+            (item.value.post.replyCount ?? 0) - (i < posts.length - 1 ? 1 : 0),
+          ),
+        0,
+      ),
+    [posts],
+  )
+  const readingMinutes = useMemo(() => estimateReadingMinutes(posts), [posts])
+
+  const renderItem = useCallback(
+    ({item, index}: ListRenderItemInfo<ThreadPostItem>) => (
+      <>
+        <ThreadReaderSection item={item} />
+        {index === resumeIndex && index < posts.length - 1 && (
+          <View
+            style={[a.flex_row, a.align_center, a.gap_sm, a.pb_lg]}
+            accessibilityRole="text">
+            <View
+              style={[
+                a.flex_1,
+                {height: 1, backgroundColor: t.palette.primary_500},
+              ]}
+            />
+            <Text
+              style={[a.text_xs, a.font_bold, {color: t.palette.primary_500}]}>
+              <Trans>You left off here</Trans>
+            </Text>
+            <View
+              style={[
+                a.flex_1,
+                {height: 1, backgroundColor: t.palette.primary_500},
+              ]}
+            />
+          </View>
+        )}
+      </>
+    ),
+    [resumeIndex, posts.length, t],
+  )
+
+  return (
+    <Dialog.InnerFlatList
+      ref={listRef}
+      data={posts}
+      renderItem={renderItem}
+      keyExtractor={(item: ThreadPostItem) => item.key}
+      viewabilityConfigCallbackPairs={viewabilityConfigCallbackPairs.current}
+      onScrollToIndexFailed={(info: {
+        index: number
+        averageItemLength: number
+      }) => {
+        listRef.current?.scrollToOffset({
+          offset: info.index * info.averageItemLength,
+          animated: false,
+        })
+        setTimeout(() => {
+          listRef.current?.scrollToIndex({index: info.index, animated: true})
+        }, 100)
+      }}
+      ListHeaderComponent={
+        <View style={[native(a.pt_3xl), a.pb_xl, a.gap_md]}>
+          <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+            <UserAvatar size={32} avatar={author.avatar} type="user" />
+            <View style={[a.flex_1]}>
+              <Text
+                emoji
+                style={[a.text_md, a.font_bold, a.leading_snug]}
+                numberOfLines={1}>
+                {sanitizeDisplayName(
+                  author.displayName || sanitizeHandle(author.handle),
+                  root.moderation.ui('displayName'),
+                )}
+              </Text>
+              <Text
+                style={[
+                  a.text_sm,
+                  a.leading_snug,
+                  t.atoms.text_contrast_medium,
+                ]}
+                numberOfLines={1}>
+                {niceDate(i18n, root.value.post.record.createdAt)}
+              </Text>
+            </View>
+          </View>
+          <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+            <Plural value={posts.length} one="# post" other="# posts" /> ·{' '}
+            <Plural
+              value={readingMinutes}
+              one="# min read"
+              other="# min read"
+            />
+          </Text>
+          {resumeIndex > 0 && resumeIndex < posts.length - 1 && (
+            <Button
+              label={_(msg`Resume reading where you left off`)}
+              size="small"
+              variant="solid"
+              color="secondary"
+              style={[a.self_start]}
+              onPress={onResume}>
+              <ButtonText>
+                <Trans>Resume reading</Trans>
+              </ButtonText>
+            </Button>
+          )}
+        </View>
+      }
+      ListFooterComponent={
+        <View
+          style={[a.pt_sm, a.pb_5xl, a.border_t, t.atoms.border_contrast_low]}>
+          <Text style={[a.pt_md, a.text_sm, t.atoms.text_contrast_medium]}>
+            {otherReplies > 0 ? (
+              <Plural
+                value={otherReplies}
+                one="End of thread. # reply from others is left out."
+                other="End of thread. # replies from others are left out."
+              />
+            ) : (
+              <Trans>End of thread.</Trans>
+            )}
+          </Text>
+        </View>
+      }
+    />
+  )
+}
+
+function ThreadReaderSection({item}: {item: ThreadPostItem}) {
+  const {post} = item.value
+  const richText = useMemo(
+    () =>
+      new RichTextAPI({
+        text: post.record.text,
+        facets: post.record.facets,
+      }),
+    [post.record],
+  )
+
+  return (
+    <View style={[a.pb_lg]}>
+      <ContentHider modui={item.moderation.ui('contentView')}>
+        {richText.text ? (
+          <RichText
+            enableTags
+            selectable
+            value={richText}
+            style={[a.text_lg, a.leading_normal]}
+            authorHandle={post.author.handle}
+            shouldProxyLinks={true}
+          />
+        ) : null}
+        {post.embed && (
+          <View style={[a.pt_sm]}>
+            <Embed
+              embed={post.embed}
+              moderation={item.moderation}
+              viewContext={PostEmbedViewContext.ThreadHighlighted}
+            />
+          </View>
+        )}
+      </ContentHider>
+    </View>
+  )
+}
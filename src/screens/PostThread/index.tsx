@@ -8,6 +8,7 @@ import {useOpenComposer} from '#/lib/hooks/useOpenComposer'
 import {useFeedFeedback} from '#/state/feed-feedback'
 import {type ThreadViewOption} from '#/state/queries/preferences/useThreadPreferences'
 import {type ThreadItem, usePostThread} from '#/state/queries/usePostThread'
+import {getAuthorThread} from '#/state/queries/usePostThread/utils'
 import {useSession} from '#/state/session'
 import {type OnPostSuccessData} from '#/state/shell/composer'
 import {useShellLayout} from '#/state/shell/shell-layout'
@@ -38,6 +39,7 @@ import {
 import {atoms as a, native, platform, useBreakpoints, web} from '#/alf'
 import * as Layout from '#/components/Layout'
 import {ListFooter} from '#/components/Lists'
+import {OfflineCacheBanner} from '#/components/OfflineCacheBanner'
 
 const PARENT_CHUNK_SIZE = 5
 const CHILDREN_CHUNK_SIZE = 50
@@ -65,6 +67,10 @@ export function PostThread({uri}: {uri: string}) {
     }
     return {hasParents}
   }, [thread.data.items])
+  const authorThread = useMemo(
+    () => getAuthorThread(thread.data.items),
+    [thread.data.items],
+  )
 
   const {openComposer} = useOpenComposer()
   const optimisticOnPostReply = useCallback(
@@ -403,6 +409,7 @@ export function PostThread({uri}: {uri: string}) {
                 threadgateRecord={thread.data.threadgate?.record ?? undefined}
                 onPostSuccess={optimisticOnPostReply}
                 postSource={anchorPostSource}
+                authorThread={authorThread}
               />
             </View>
           )
@@ -481,6 +488,7 @@ export function PostThread({uri}: {uri: string}) {
       onReplyToAnchor,
       gtMobile,
       anchorPostSource,
+      authorThread,
     ],
   )
 
@@ -501,10 +509,17 @@ export function PostThread({uri}: {uri: string}) {
             setSort={setSortWrapped}
             view={thread.state.view}
             setView={setViewWrapped}
+            items={thread.data.items}
           />
         </Layout.Header.Slot>
       </Layout.Header.Outer>
 
+      <OfflineCacheBanner
+        cachedAt={thread.state.cachedAt}
+        onRetry={thread.actions.refetch}
+        style={[a.mx_lg, a.my_sm]}
+      />
+
       {thread.state.error ? (
         <ThreadError
           error={thread.state.error}
@@ -0,0 +1,274 @@
+import {useCallback, useState} from 'react'
+import {View} from 'react-native'
+import {msg, Plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useFocusEffect} from '@react-navigation/native'
+import {useQueryClient} from '@tanstack/react-query'
+
+import {useOpenComposer} from '#/lib/hooks/useOpenComposer'
+import {
+  type CommonNavigatorParams,
+  type NativeStackScreenProps,
+} from '#/lib/routes/types'
+import {useAgent, useSession} from '#/state/session'
+import {useSetMinimalShellMode} from '#/state/shell'
+import {List} from '#/view/com/util/List'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {SchedulePostDialog} from '#/components/dialogs/SchedulePostDialog'
+import {CalendarClock_Stroke2_Corner0_Rounded as CalendarClock} from '#/components/icons/CalendarClock'
+import {Pencil_Stroke2_Corner0_Rounded as PencilIcon} from '#/components/icons/Pencil'
+import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
+import * as Layout from '#/components/Layout'
+import {ListMaybePlaceholder} from '#/components/Lists'
+import * as Prompt from '#/components/Prompt'
+import {Text} from '#/components/Typography'
+import {
+  cancelScheduledPost,
+  isPublishing,
+  publishScheduledPost,
+  reschedulePost,
+  type ScheduledPost,
+  ScheduledPostError,
+  useScheduledPosts,
+} from '#/maxine/scheduled-posts'
+
+type Props = NativeStackScreenProps<CommonNavigatorParams, 'ScheduledPosts'>
+
+export function ScheduledPostsScreen({}: Props) {
+  const {_} = useLingui()
+  const setMinimalShellMode = useSetMinimalShellMode()
+  const {currentAccount} = useSession()
+  const posts = useScheduledPosts(currentAccount?.did)
+
+  useFocusEffect(
+    useCallback(() => {
+      setMinimalShellMode(false)
+    }, [setMinimalShellMode]),
+  )
+
+  const renderItem = useCallback(
+    ({item, index}: {item: ScheduledPost; index: number}) => (
+      <ScheduledPostItem post={item} hideTopBorder={index === 0} />
+    ),
+    [],
+  )
+
+  return (
+    <Layout.Screen testID="scheduledPostsScreen">
+      <Layout.Header.Outer>
+        <Layout.Header.BackButton />
+        <Layout.Header.Content align="left">
+          <Layout.Header.TitleText>
+            <Trans>Scheduled posts</Trans>
+          </Layout.Header.TitleText>
+          {posts && (
+            <Layout.Header.SubtitleText>
+              <Plural
+                value={posts.length}
+                one="# post waiting"
+                other="# posts waiting"
+              />
+            </Layout.Header.SubtitleText>
+          )}
+        </Layout.Header.Content>
+        <Layout.Header.Slot />
+      </Layout.Header.Outer>
+      {!posts || posts.length === 0 ? (
+        <ListMaybePlaceholder
+          isLoading={!posts}
+          emptyType="results"
+          emptyTitle={_(msg`Nothing scheduled`)}
+          emptyMessage={_(
+            msg`Posts you schedule from the composer wait here until it's time to publish them.`,
+          )}
+          sideBorders={false}
+        />
+      ) : (
+        <List
+          data={posts}
+          renderItem={renderItem}
+          keyExtractor={(item: ScheduledPost) => item.id}
+          // @ts-ignore our .web version only -prf
+          desktopFixedHeight
+          sideBorders={false}
+        />
+      )}
+    </Layout.Screen>
+  )
+}
+
+function ScheduledPostItem({
+  post,
+  hideTopBorder,
+}: {
+  post: ScheduledPost
+  hideTopBorder: boolean
+}) {
+  const t = useTheme()
+  const {_, i18n} = useLingui()
+  const agent = useAgent()
+  const queryClient = useQueryClient()
+  const {openComposer} = useOpenComposer()
+  const rescheduleControl = Dialog.useDialogControl()
+  const cancelPromptControl = Prompt.usePromptControl()
+  const [isPublishingNow, setIsPublishingNow] = useState(false)
+
+  const publishing = isPublishing(post) || isPublishingNow
+  const first = post.posts[0]
+  const mediaCount = post.posts.reduce(
+    (count, p) => count + (p.images?.length ?? 0) + (p.gif ? 1 : 0),
+    0,
+  )
+
+  const onPublishNow = async () => {
+    setIsPublishingNow(true)
+    try {
+      if (await publishScheduledPost(agent, queryClient, post.id)) {
+        Toast.show(
+          post.posts.length > 1
+            ? _(msg`Your posts have been published`)
+            : _(msg`Your post has been published`),
+        )
+      }
+    } catch (e) {
+      Toast.show(
+        e instanceof ScheduledPostError
+          ? e.message
+          : _(msg`Unable to connect. Your post will be tried again later.`),
+        'exclamation-circle',
+      )
+    } finally {
+      setIsPublishingNow(false)
+    }
+  }
+
+  return (
+    <View
+      style={[
+        a.px_lg,
+        a.py_md,
+        a.gap_sm,
+        !hideTopBorder && a.border_t,
+        t.atoms.border_contrast_low,
+      ]}>
+      <View style={[a.flex_row, a.align_center, a.gap_xs]}>
+        <CalendarClock size="sm" style={[t.atoms.text_contrast_medium]} />
+        <Text style={[a.text_sm, a.font_bold, t.atoms.text_contrast_medium]}>
+          {publishing ? (
+            <Trans>Publishing…</Trans>
+          ) : (
+            i18n.date(post.publishAt, {dateStyle: 'full', timeStyle: 'short'})
+          )}
+        </Text>
+      </View>
+
+      <Text emoji numberOfLines={4} style={[a.text_md, a.leading_snug]}>
+        {first.text.trim() || _(msg`No text`)}
+      </Text>
+      {(post.posts.length > 1 || mediaCount > 0) && (
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          {post.posts.length > 1 && (
+            <Plural
+              value={post.posts.length - 1}
+              one="+ # more post in the thread"
+              other="+ # more posts in the thread"
+            />
+          )}
+          {post.posts.length > 1 && mediaCount > 0 && ' · '}
+          {mediaCount > 0 && (
+            <Plural
+              value={mediaCount}
+              one="# attachment"
+              other="# attachments"
+            />
+          )}
+        </Text>
+      )}
+
+      {post.status === 'failed' && (
+        <Admonition type="error">
+          {post.sessionExpired ? (
+            <Trans>
+              Your session had expired when this was due. It will be published
+              once you sign in again, or you can publish it now.
+            </Trans>
+          ) : (
+            <Trans>Couldn't publish this post: {post.error}</Trans>
+          )}
+        </Admonition>
+      )}
+
+      <View style={[a.flex_row, a.flex_wrap, a.gap_sm, a.pt_xs]}>
+        <Button
+          label={_(msg`Edit scheduled post`)}
+          size="small"
+          variant="solid"
+          color="secondary"
+          disabled={publishing}
+          onPress={() => openComposer({scheduledPost: post})}>
+          <ButtonIcon icon={PencilIcon} />
+          <ButtonText>
+            <Trans>Edit</Trans>
+          </ButtonText>
+        </Button>
+        <Button
+          label={_(msg`Reschedule post`)}
+          size="small"
+          variant="solid"
+          color="secondary"
+          disabled={publishing}
+          onPress={() => rescheduleControl.open()}>
+          <ButtonIcon icon={CalendarClock} />
+          <ButtonText>
+            <Trans>Reschedule</Trans>
+          </ButtonText>
+        </Button>
+        <Button
+          label={_(msg`Publish now`)}
+          size="small"
+          variant="solid"
+          color="primary"
+          disabled={publishing}
+          onPress={onPublishNow}>
+          <ButtonText>
+            <Trans>Publish now</Trans>
+          </ButtonText>
+        </Button>
+        <Button
+          label={_(msg`Cancel scheduled post`)}
+          size="small"
+          variant="ghost"
+          color="negative"
+          disabled={publishing}
+          onPress={() => cancelPromptControl.open()}>
+          <ButtonIcon icon={TrashIcon} />
+          <ButtonText>
+            <Trans>Cancel</Trans>
+          </ButtonText>
+        </Button>
+      </View>
+
+      <SchedulePostDialog
+        control={rescheduleControl}
+        initialDate={
+          post.publishAt.getTime() > Date.now() ? post.publishAt : undefined
+        }
+        onSchedule={publishAt => reschedulePost(post.id, publishAt)}
+      />
+      <Prompt.Basic
+        control={cancelPromptControl}
+        title={_(msg`Cancel scheduled post?`)}
+        description={_(
+          msg`It won't be published, and its text and images will be deleted from this device.`,
+        )}
+        onConfirm={() => cancelScheduledPost(post.id)}
+        confirmButtonCta={_(msg`Delete`)}
+        confirmButtonColor="negative"
+      />
+    </View>
+  )
+}
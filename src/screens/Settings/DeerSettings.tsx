@@ -1,12 +1,10 @@
 import {useState} from 'react'
 import {View} from 'react-native'
-import {isDid} from '@atproto/api'
 import {type ProfileViewBasic} from '@atproto/api/dist/client/types/app/bsky/actor/defs'
 import {msg, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
 import {type NativeStackScreenProps} from '@react-navigation/native-stack'
 
-import {APPVIEW_DID_PROXY} from '#/lib/constants'
 import {usePalette} from '#/lib/hooks/usePalette'
 import {type CommonNavigatorParams} from '#/lib/routes/types'
 import {type Gate} from '#/lib/statsig/gates'
@@ -27,7 +25,11 @@ import {
   useConstellationInstance,
   useSetConstellationInstance,
 } from '#/state/preferences/constellation-instance'
-import {useCustomAppViewDid} from '#/state/preferences/custom-appview-did'
+import {
+  useAccountAppViewDid,
+  useAppViewFallbackActive,
+  useCustomAppViewDid,
+} from '#/state/preferences/custom-appview-did'
 import {
   useDeerVerificationEnabled,
   useDeerVerificationTrusted,
@@ -59,8 +61,13 @@ import {
   useShowLinkInHandle,
 } from '#/state/preferences/show-link-in-handle.tsx'
 import {useProfilesQuery} from '#/state/queries/profile'
-import {findService, useDidDocument} from '#/state/queries/resolve-identity'
-import {ErrorMessage} from '#/view/com/util/error/ErrorMessage'
+import {useSession} from '#/state/session'
+import {AppViewDialog} from '#/screens/Settings/components/AppViewDialog'
+import {DeerArchiveDialog} from '#/screens/Settings/components/DeerArchiveDialog'
+import {DeerSyncSettings} from '#/screens/Settings/components/DeerSyncSettings'
+import {FeedTunerRulesDialog} from '#/screens/Settings/components/FeedTunerRulesDialog'
+import {LocalFeedsDialog} from '#/screens/Settings/components/LocalFeedsDialog'
+import {SeenPostsDialog} from '#/screens/Settings/components/SeenPostsDialog'
 import * as SettingsList from '#/screens/Settings/components/SettingsList'
 import {atoms as a, useBreakpoints} from '#/alf'
 import {Admonition} from '#/components/Admonition'
@@ -69,9 +76,13 @@ import * as Dialog from '#/components/Dialog'
 import * as Toggle from '#/components/forms/Toggle'
 import {Atom_Stroke2_Corner0_Rounded as DeerIcon} from '#/components/icons/Atom'
 import {Bell_Stroke2_Corner0_Rounded as BellIcon} from '#/components/icons/Bell'
+import {Clock_Stroke2_Corner0_Rounded as ClockIcon} from '#/components/icons/Clock'
 import {Eye_Stroke2_Corner0_Rounded as VisibilityIcon} from '#/components/icons/Eye'
+import {Filter_Stroke2_Corner0_Rounded as FilterIcon} from '#/components/icons/Filter'
+import {FloppyDisk_Stroke2_Corner0_Rounded as FloppyDiskIcon} from '#/components/icons/FloppyDisk'
 import {Earth_Stroke2_Corner2_Rounded as GlobeIcon} from '#/components/icons/Globe'
 import {Lab_Stroke2_Corner0_Rounded as BeakerIcon} from '#/components/icons/Lab'
+import {ListSparkle_Stroke2_Corner0_Rounded as ListSparkleIcon} from '#/components/icons/ListSparkle'
 import {PaintRoller_Stroke2_Corner2_Rounded as PaintRollerIcon} from '#/components/icons/PaintRoller'
 import {RaisingHand4Finger_Stroke2_Corner0_Rounded as RaisingHandIcon} from '#/components/icons/RaisingHand'
 import {Star_Stroke2_Corner0_Rounded as StarIcon} from '#/components/icons/Star'
@@ -221,136 +232,6 @@ function ConstellationInstanceDialog({
   )
 }
 
-function CustomAppViewDidDialog({
-  control,
-}: {
-  control: Dialog.DialogControlProps
-}) {
-  const pal = usePalette('default')
-  const {_} = useLingui()
-
-  const [did, setDid] = useState('')
-  const [, setCustomAppViewDid] = useCustomAppViewDid()
-
-  const doc = useDidDocument({did})
-  const bskyAppViewService =
-    doc.data && findService(doc.data, '#bsky_appview', 'BskyAppView')
-
-  const submit = () => {
-    if (did.length === 0) {
-      setCustomAppViewDid(undefined)
-      control.close()
-      return
-    }
-    if (!bskyAppViewService?.serviceEndpoint) return
-    setCustomAppViewDid(did)
-    control.close()
-  }
-
-  return (
-    <Dialog.Outer
-      control={control}
-      nativeOptions={{preventExpansion: true}}
-      onClose={() => setDid('')}>
-      <Dialog.Handle />
-      <Dialog.ScrollableInner label={_(msg`Custom AppView Proxy DID`)}>
-        <View style={[a.gap_sm, a.pb_lg]}>
-          <Text style={[a.text_2xl, a.font_bold]}>
-            <Trans>Custom AppView Proxy DID</Trans>
-          </Text>
-        </View>
-
-        <View style={a.gap_lg}>
-          <Dialog.Input
-            label="Text input field"
-            autoFocus
-            style={[styles.textInput, pal.border, pal.text]}
-            onChangeText={value => {
-              setDid(value)
-            }}
-            placeholder={
-              APPVIEW_DID_PROXY?.substring(0, APPVIEW_DID_PROXY.indexOf('#')) ||
-              `did:web:api.bsky.app`
-            }
-            placeholderTextColor={pal.colors.textLight}
-            onSubmitEditing={submit}
-            accessibilityHint={_(
-              msg`Input the DID of the AppView to proxy requests through`,
-            )}
-            isInvalid={
-              !!did && !bskyAppViewService?.serviceEndpoint && !doc.isLoading
-            }
-          />
-
-          {did && !isDid(did) && (
-            <View>
-              <ErrorMessage message={_(msg`must enter a DID`)} />
-            </View>
-          )}
-
-          {did && (did.includes('#') || did.includes('?')) && (
-            <View>
-              <ErrorMessage message={_(msg`don't include the service id`)} />
-            </View>
-          )}
-
-          {doc.isError && (
-            <View>
-              <ErrorMessage
-                message={
-                  doc.error.message || _(msg`document resolution failure`)
-                }
-              />
-            </View>
-          )}
-
-          {doc.data &&
-            !bskyAppViewService &&
-            (doc.data as {message?: string}).message && (
-              <View>
-                <ErrorMessage
-                  message={(doc.data as {message: string}).message}
-                />
-              </View>
-            )}
-
-          {doc.data && !bskyAppViewService && (
-            <View>
-              <ErrorMessage
-                message={_(msg`document doesn't contain #bsky_appview service`)}
-              />
-            </View>
-          )}
-
-          {bskyAppViewService && (
-            <Text style={[a.text_sm, a.leading_snug]}>
-              {JSON.stringify(bskyAppViewService, null, 2)}
-            </Text>
-          )}
-
-          <View style={isWeb && [a.flex_row, a.justify_end]}>
-            <Button
-              label={_(msg`Save`)}
-              size="large"
-              onPress={submit}
-              variant="solid"
-              color={did.length > 0 ? 'primary' : 'secondary'}
-              disabled={
-                did.length !== 0 && !bskyAppViewService?.serviceEndpoint
-              }>
-              <ButtonText>
-                {did.length > 0 ? <Trans>Save</Trans> : <Trans>Reset</Trans>}
-              </ButtonText>
-            </Button>
-          </View>
-        </View>
-
-        <Dialog.Close />
-      </Dialog.ScrollableInner>
-    </Dialog.Outer>
-  )
-}
-
 const TrustedVerifiers = (): React.ReactNode => {
   const trusted = useDeerVerificationTrusted()
   const moderationOpts = useModerationOpts()
@@ -423,8 +304,16 @@ export function DeerSettingsScreen({}: Props) {
     })
   }
 
+  const {currentAccount} = useSession()
   const [customAppViewDid] = useCustomAppViewDid()
-  const setCustomAppViewDidControl = Dialog.useDialogControl()
+  const [accountAppViewDid] = useAccountAppViewDid(currentAccount?.did)
+  const appViewFallbackActive = useAppViewFallbackActive()
+  const appViewControl = Dialog.useDialogControl()
+  const localFeedsControl = Dialog.useDialogControl()
+  const feedRulesControl = Dialog.useDialogControl()
+
+  const archiveControl = Dialog.useDialogControl()
+  const seenPostsControl = Dialog.useDialogControl()
 
   return (
     <Layout.Screen>
@@ -481,15 +370,15 @@ export function DeerSettingsScreen({}: Props) {
             <Toggle.Item
               name="constellation_fallback"
               label={_(
-                msg`Fall back to constellation api to find blocked replies`,
+                msg`Rebuild threads from constellation and PDS records to find blocked and hidden replies`,
               )}
-              disabled={true}
               value={constellationEnabled}
               onChange={value => setConstellationEnabled(value)}
               style={[a.w_full]}>
               <Toggle.LabelText style={[a.flex_1]}>
                 <Trans>
-                  TODO: Fall back to constellation api to find blocked replies
+                  Rebuild threads from constellation and PDS records to find
+                  blocked and hidden replies
                 </Trans>
               </Toggle.LabelText>
               <Toggle.Platform />
@@ -620,22 +509,53 @@ export function DeerSettingsScreen({}: Props) {
           <SettingsList.Item>
             <SettingsList.ItemIcon icon={StarIcon} />
             <SettingsList.ItemText>
-              <Trans>{`Custom AppView DID`}</Trans>
+              <Trans>AppView</Trans>
             </SettingsList.ItemText>
             <SettingsList.BadgeButton
-              label={customAppViewDid ? _(msg`Set`) : _(msg`Change`)}
-              onPress={() => setCustomAppViewDidControl.open()}
+              label={_(msg`Change`)}
+              onPress={() => appViewControl.open()}
             />
           </SettingsList.Item>
           <SettingsList.Item>
-            <Admonition type="info" style={[a.flex_1]}>
-              <Trans>
-                Restart app after changing your AppView.
-                {customAppViewDid && _(` Currently ${customAppViewDid}`)}
-              </Trans>
+            <Admonition
+              type={appViewFallbackActive ? 'warning' : 'info'}
+              style={[a.flex_1]}>
+              {appViewFallbackActive ? (
+                <Trans>
+                  Your AppView stopped responding, so the default AppView is
+                  being used until you switch again.
+                </Trans>
+              ) : accountAppViewDid ? (
+                <Trans>Using {accountAppViewDid} for this account.</Trans>
+              ) : customAppViewDid ? (
+                <Trans>Using {customAppViewDid} on this device.</Trans>
+              ) : (
+                <Trans>Using the default AppView.</Trans>
+              )}
             </Admonition>
           </SettingsList.Item>
 
+          <SettingsList.Item>
+            <SettingsList.ItemIcon icon={ListSparkleIcon} />
+            <SettingsList.ItemText>
+              <Trans>Local feeds</Trans>
+            </SettingsList.ItemText>
+            <SettingsList.BadgeButton
+              label={_(msg`Manage`)}
+              onPress={() => localFeedsControl.open()}
+            />
+          </SettingsList.Item>
+          <SettingsList.Item>
+            <SettingsList.ItemIcon icon={FilterIcon} />
+            <SettingsList.ItemText>
+              <Trans>Feed rules</Trans>
+            </SettingsList.ItemText>
+            <SettingsList.BadgeButton
+              label={_(msg`Manage`)}
+              onPress={() => feedRulesControl.open()}
+            />
+          </SettingsList.Item>
+
           <SettingsList.Group contentContainerStyle={[a.gap_sm]}>
             <SettingsList.ItemIcon icon={PaintRollerIcon} />
             <SettingsList.ItemText>
@@ -698,6 +618,37 @@ export function DeerSettingsScreen({}: Props) {
             </Toggle.Item>
           </SettingsList.Group>
 
+          <DeerSyncSettings />
+
+          <SettingsList.Item>
+            <SettingsList.ItemIcon icon={ClockIcon} />
+            <SettingsList.ItemText>
+              <Trans>Manage seen posts</Trans>
+            </SettingsList.ItemText>
+            <SettingsList.BadgeButton
+              label={_(msg`Open`)}
+              onPress={() => seenPostsControl.open()}
+            />
+          </SettingsList.Item>
+          <SettingsList.Item>
+            <SettingsList.ItemIcon icon={FloppyDiskIcon} />
+            <SettingsList.ItemText>
+              <Trans>Export or import deer data</Trans>
+            </SettingsList.ItemText>
+            <SettingsList.BadgeButton
+              label={_(msg`Open`)}
+              onPress={() => archiveControl.open()}
+            />
+          </SettingsList.Item>
+          <SettingsList.Item>
+            <Admonition type="info" style={[a.flex_1]}>
+              <Trans>
+                Bookmarks, seen posts and deer settings live only on this
+                device. Save them as an archive to move them elsewhere.
+              </Trans>
+            </Admonition>
+          </SettingsList.Item>
+
           <SettingsList.Group contentContainerStyle={[a.gap_sm]}>
             <SettingsList.ItemIcon icon={BeakerIcon} />
             <SettingsList.ItemText>
@@ -736,7 +687,11 @@ export function DeerSettingsScreen({}: Props) {
       </Layout.Content>
       <GeolocationSettingsDialog control={setLocationControl} />
       <ConstellationInstanceDialog control={setConstellationInstanceControl} />
-      <CustomAppViewDidDialog control={setCustomAppViewDidControl} />
+      <AppViewDialog control={appViewControl} />
+      <LocalFeedsDialog control={localFeedsControl} />
+      <FeedTunerRulesDialog control={feedRulesControl} />
+      <DeerArchiveDialog control={archiveControl} />
+      <SeenPostsDialog control={seenPostsControl} />
     </Layout.Screen>
   )
 }
@@ -9,11 +9,14 @@ import {
   usePreferencesQuery,
   useSetFeedViewPreferencesMutation,
 } from '#/state/queries/preferences'
+import {FeedTunerRulesDialog} from '#/screens/Settings/components/FeedTunerRulesDialog'
 import {atoms as a} from '#/alf'
 import {Admonition} from '#/components/Admonition'
+import * as Dialog from '#/components/Dialog'
 import * as Toggle from '#/components/forms/Toggle'
 import {Beaker_Stroke2_Corner2_Rounded as BeakerIcon} from '#/components/icons/Beaker'
 import {Bubbles_Stroke2_Corner2_Rounded as BubblesIcon} from '#/components/icons/Bubble'
+import {Filter_Stroke2_Corner0_Rounded as FilterIcon} from '#/components/icons/Filter'
 import {CloseQuote_Stroke2_Corner1_Rounded as QuoteIcon} from '#/components/icons/Quote'
 import {Repost_Stroke2_Corner2_Rounded as RepostIcon} from '#/components/icons/Repost'
 import * as Layout from '#/components/Layout'
@@ -25,6 +28,7 @@ type Props = NativeStackScreenProps<
 >
 export function FollowingFeedPreferencesScreen({}: Props) {
   const {_} = useLingui()
+  const feedRulesControl = Dialog.useDialogControl()
 
   const {data: preferences} = usePreferencesQuery()
   const {mutate: setFeedViewPref, variables} =
@@ -119,6 +123,15 @@ export function FollowingFeedPreferencesScreen({}: Props) {
               <Toggle.Platform />
             </SettingsList.Item>
           </Toggle.Item>
+          <SettingsList.PressableItem
+            label={_(msg`Custom rules`)}
+            onPress={() => feedRulesControl.open()}>
+            <SettingsList.ItemIcon icon={FilterIcon} />
+            <SettingsList.ItemText>
+              <Trans>Custom rules</Trans>
+            </SettingsList.ItemText>
+            <SettingsList.Chevron />
+          </SettingsList.PressableItem>
           <SettingsList.Divider />
           <SettingsList.Group>
             <SettingsList.ItemIcon icon={BeakerIcon} />
@@ -148,6 +161,7 @@ export function FollowingFeedPreferencesScreen({}: Props) {
           </SettingsList.Group>
         </SettingsList.Container>
       </Layout.Content>
+      <FeedTunerRulesDialog control={feedRulesControl} feed="following" />
     </Layout.Screen>
   )
 }
@@ -0,0 +1,305 @@
+import {useState} from 'react'
+import {View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useQueryClient} from '@tanstack/react-query'
+
+import {APPVIEW_DID_PROXY} from '#/lib/constants'
+import {sanitizeHandle} from '#/lib/strings/handles'
+import {
+  resetAppViewFallback,
+  useAccountAppViewDid,
+  useCustomAppViewDid,
+  useKnownAppViews,
+} from '#/state/preferences/custom-appview-did'
+import {AppViewCheckError, checkAppView} from '#/state/queries/appview-health'
+import {useSession} from '#/state/session'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import * as TextField from '#/components/forms/TextField'
+import * as ToggleButton from '#/components/forms/ToggleButton'
+import {Loader} from '#/components/Loader'
+import {Text} from '#/components/Typography'
+import {type KnownAppView} from '#/storage'
+
+const DEFAULT_APPVIEW_DID =
+  APPVIEW_DID_PROXY?.substring(0, APPVIEW_DID_PROXY.indexOf('#')) ||
+  'did:web:api.bsky.app'
+
+export function AppViewDialog({control}: {control: Dialog.DialogControlProps}) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <AppViewInner />
+    </Dialog.Outer>
+  )
+}
+
+function AppViewInner() {
+  const {_} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const queryClient = useQueryClient()
+
+  const [deviceAppViewDid, setDeviceAppViewDid] = useCustomAppViewDid()
+  const [accountAppViewDid, setAccountAppViewDid] = useAccountAppViewDid(
+    currentAccount?.did,
+  )
+  const {knownAppViews, remember, forget} = useKnownAppViews()
+
+  const [scope, setScope] = useState<'device' | 'account'>(
+    accountAppViewDid ? 'account' : 'device',
+  )
+  const [input, setInput] = useState('')
+  const [checking, setChecking] = useState<string | undefined>()
+  const [error, setError] = useState<string | undefined>()
+
+  const current = scope === 'account' ? accountAppViewDid : deviceAppViewDid
+  const setCurrent =
+    scope === 'account' ? setAccountAppViewDid : setDeviceAppViewDid
+
+  const describeError = (e: unknown) => {
+    if (e instanceof AppViewCheckError) {
+      switch (e.reason) {
+        case 'invalid-did':
+          return _(msg`Enter a DID without a service ID, like did:web:…`)
+        case 'resolution-failed':
+          return _(msg`Couldn't resolve the DID document`)
+        case 'no-service':
+          return _(msg`The DID document doesn't list a #bsky_appview service`)
+        case 'unreachable':
+          return _(msg`The AppView didn't respond`)
+        case 'unhealthy':
+          return _(msg`The AppView failed its health check`)
+      }
+    }
+    return _(msg`Something went wrong, please try again`)
+  }
+
+  const onSwitch = async (did: string) => {
+    setChecking(did)
+    setError(undefined)
+    try {
+      const appView = await checkAppView(did)
+      remember(appView)
+      setCurrent(did)
+      resetAppViewFallback()
+      // everything cached came from the previous AppView
+      queryClient.resetQueries()
+      setInput('')
+      Toast.show(
+        appView.version
+          ? _(msg`Switched to ${appView.endpoint} (${appView.version})`)
+          : _(msg`Switched to ${appView.endpoint}`),
+      )
+    } catch (e) {
+      setError(describeError(e))
+    } finally {
+      setChecking(undefined)
+    }
+  }
+
+  const onUseDefault = () => {
+    setError(undefined)
+    setCurrent(undefined)
+    resetAppViewFallback()
+    queryClient.resetQueries()
+  }
+
+  // a DID picked before we started remembering AppViews won't be in the list
+  const appViews: KnownAppView[] =
+    current && !knownAppViews.some(known => known.did === current)
+      ? [{did: current, endpoint: '', checkedAt: ''}, ...knownAppViews]
+      : knownAppViews
+
+  return (
+    <Dialog.ScrollableInner label={_(msg`AppView`)}>
+      <View style={[a.gap_lg]}>
+        <Text style={[a.text_2xl, a.font_heavy]}>
+          <Trans>AppView</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.leading_normal, t.atoms.text_contrast_high]}>
+          <Trans>
+            The AppView builds your feeds, threads and profiles. AppViews are
+            checked before switching, and if the one you pick stops responding
+            Deer goes back to the default until you switch again.
+          </Trans>
+        </Text>
+
+        {currentAccount && (
+          <View style={[a.gap_sm]}>
+            <ToggleButton.Group
+              label={_(msg`Apply AppView to`)}
+              values={[scope]}
+              onChange={([value]) => {
+                setError(undefined)
+                setScope(value as 'device' | 'account')
+              }}>
+              <ToggleButton.Button name="device" label={_(msg`This device`)}>
+                <ToggleButton.ButtonText>
+                  <Trans>This device</Trans>
+                </ToggleButton.ButtonText>
+              </ToggleButton.Button>
+              <ToggleButton.Button
+                name="account"
+                label={_(msg`This account only`)}>
+                <ToggleButton.ButtonText>
+                  <Trans>This account only</Trans>
+                </ToggleButton.ButtonText>
+              </ToggleButton.Button>
+            </ToggleButton.Group>
+            {scope === 'account' && (
+              <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+                <Trans>
+                  Used instead of the device setting while signed in as{' '}
+                  {sanitizeHandle(currentAccount.handle, '@')}.
+                </Trans>
+              </Text>
+            )}
+          </View>
+        )}
+
+        <View style={[a.gap_sm]}>
+          <AppViewRow
+            titleText={
+              scope === 'account'
+                ? _(msg`Same as this device`)
+                : _(msg`Default`)
+            }
+            subtitle={scope === 'account' ? undefined : DEFAULT_APPVIEW_DID}
+            isCurrent={!current}
+            onUse={onUseDefault}
+          />
+          {appViews.map(appView => (
+            <AppViewRow
+              key={appView.did}
+              titleText={appView.did}
+              subtitle={
+                appView.endpoint
+                  ? [appView.endpoint, appView.version]
+                      .filter(Boolean)
+                      .join(' · ')
+                  : undefined
+              }
+              isCurrent={current === appView.did}
+              isChecking={checking === appView.did}
+              disabled={!!checking}
+              onUse={() => onSwitch(appView.did)}
+              onForget={
+                appView.endpoint ? () => forget(appView.did) : undefined
+              }
+            />
+          ))}
+        </View>
+
+        <View style={[a.gap_sm]}>
+          <Text style={[a.text_md, a.font_bold]}>
+            <Trans>Add an AppView</Trans>
+          </Text>
+          <TextField.Root isInvalid={!!error}>
+            <TextField.Input
+              label={_(msg`AppView DID`)}
+              placeholder={DEFAULT_APPVIEW_DID}
+              value={input}
+              onChangeText={value => {
+                setInput(value.trim())
+                setError(undefined)
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={() => input && onSwitch(input)}
+            />
+          </TextField.Root>
+          {error && <Admonition type="error">{error}</Admonition>}
+          <Button
+            variant="solid"
+            color="primary"
+            size="large"
+            label={_(msg`Check and switch`)}
+            disabled={!input || !!checking}
+            onPress={() => onSwitch(input)}>
+            <ButtonText>
+              <Trans>Check and switch</Trans>
+            </ButtonText>
+            {checking === input && <ButtonIcon icon={Loader} />}
+          </Button>
+        </View>
+      </View>
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
+
+function AppViewRow({
+  titleText,
+  subtitle,
+  isCurrent,
+  isChecking,
+  disabled,
+  onUse,
+  onForget,
+}: {
+  titleText: string
+  subtitle?: string
+  isCurrent: boolean
+  isChecking?: boolean
+  disabled?: boolean
+  onUse: () => void
+  onForget?: () => void
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+
+  return (
+    <View style={[a.flex_row, a.align_center, a.gap_md]}>
+      <View style={[a.flex_1]}>
+        <Text style={[a.text_sm, a.font_bold]} numberOfLines={1}>
+          {titleText}
+        </Text>
+        {subtitle && (
+          <Text
+            style={[a.text_xs, t.atoms.text_contrast_medium]}
+            numberOfLines={1}>
+            {subtitle}
+          </Text>
+        )}
+      </View>
+      {isCurrent ? (
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          <Trans>In use</Trans>
+        </Text>
+      ) : (
+        <>
+          {onForget && (
+            <Button
+              variant="ghost"
+              color="negative"
+              size="tiny"
+              label={_(msg`Forget this AppView`)}
+              disabled={disabled}
+              onPress={onForget}>
+              <ButtonText>
+                <Trans>Forget</Trans>
+              </ButtonText>
+            </Button>
+          )}
+          <Button
+            variant="solid"
+            color="secondary"
+            size="tiny"
+            label={_(msg`Use this AppView`)}
+            disabled={disabled}
+            onPress={onUse}>
+            <ButtonText>
+              <Trans>Use</Trans>
+            </ButtonText>
+            {isChecking && <ButtonIcon icon={Loader} />}
+          </Button>
+        </>
+      )}
+    </View>
+  )
+}
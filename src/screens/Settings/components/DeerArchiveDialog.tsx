@@ -0,0 +1,249 @@
+import {useState} from 'react'
+import {View} from 'react-native'
+import {msg, Plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {saveBytesToDisk} from '#/lib/media/manip'
+import {logger} from '#/logger'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import * as ToggleButton from '#/components/forms/ToggleButton'
+import {Download_Stroke2_Corner0_Rounded as DownloadIcon} from '#/components/icons/Download'
+import {Loader} from '#/components/Loader'
+import {Text} from '#/components/Typography'
+import {
+  ArchiveError,
+  createArchive,
+  importArchive,
+  type ImportMode,
+  type ImportReport,
+  parseArchive,
+} from '#/maxine/archive'
+import {DeerArchiveFilePicker} from './DeerArchiveFilePicker'
+
+export function DeerArchiveDialog({
+  control,
+}: {
+  control: Dialog.DialogOuterProps['control']
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+
+  const [isExporting, setIsExporting] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [raw, setRaw] = useState('')
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [error, setError] = useState<string | undefined>(undefined)
+  const [report, setReport] = useState<ImportReport | undefined>(undefined)
+
+  const onExport = async () => {
+    setIsExporting(true)
+    try {
+      const archive = await createArchive()
+      const date = archive.exportedAt.slice(0, 10)
+      const saved = await saveBytesToDisk(
+        `deer-archive-${date}.json`,
+        new TextEncoder().encode(JSON.stringify(archive)),
+        'application/json',
+      )
+      if (saved) {
+        Toast.show(_(msg`File saved successfully!`))
+      }
+    } catch (e) {
+      logger.error('Error occurred while exporting deer archive', {message: e})
+      Toast.show(_(msg`Error occurred while saving file`), 'xmark')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const onImport = async () => {
+    setError(undefined)
+    setReport(undefined)
+    setIsImporting(true)
+    try {
+      const archive = parseArchive(raw)
+      setReport(await importArchive(archive, mode))
+      setRaw('')
+    } catch (e) {
+      if (e instanceof ArchiveError) {
+        setError(e.message)
+      } else {
+        logger.error('Error occurred while importing deer archive', {
+          message: e,
+        })
+        setError(_(msg`Something went wrong while importing the archive.`))
+      }
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog.Outer
+      control={control}
+      onClose={() => {
+        setRaw('')
+        setError(undefined)
+        setReport(undefined)
+      }}>
+      <Dialog.Handle />
+      <Dialog.ScrollableInner label={_(msg`Deer data archive`)}>
+        <View style={[a.gap_lg]}>
+          <Text style={[a.text_2xl, a.font_heavy]}>
+            <Trans>Deer data archive</Trans>
+          </Text>
+          <Text
+            style={[a.text_sm, a.leading_normal, t.atoms.text_contrast_high]}>
+            <Trans>
+              Bookmarks, seen posts and deer settings are only stored on this
+              device. Export them to a file to move them to another browser or
+              device.
+            </Trans>
+          </Text>
+
+          <Button
+            variant="solid"
+            color="primary"
+            size="large"
+            label={_(msg`Export archive`)}
+            disabled={isExporting}
+            onPress={onExport}>
+            <ButtonIcon icon={DownloadIcon} />
+            <ButtonText>
+              <Trans>Export archive</Trans>
+            </ButtonText>
+            {isExporting && <ButtonIcon icon={Loader} />}
+          </Button>
+
+          <Text style={[a.text_lg, a.font_bold]}>
+            <Trans>Import</Trans>
+          </Text>
+
+          <DeerArchiveFilePicker onSelectFile={setRaw} disabled={isImporting} />
+
+          <Dialog.Input
+            label={_(msg`Archive contents`)}
+            value={raw}
+            onChangeText={setRaw}
+            placeholder={_(msg`Paste the contents of an archive file`)}
+            multiline
+            numberOfLines={4}
+            style={[{maxHeight: 160}]}
+          />
+
+          <ToggleButton.Group
+            label={_(msg`Import mode`)}
+            values={[mode]}
+            onChange={values => setMode(values[0] as ImportMode)}>
+            <ToggleButton.Button name="merge" label={_(msg`Merge`)}>
+              <ToggleButton.ButtonText>
+                <Trans>Merge</Trans>
+              </ToggleButton.ButtonText>
+            </ToggleButton.Button>
+            <ToggleButton.Button name="replace" label={_(msg`Replace`)}>
+              <ToggleButton.ButtonText>
+                <Trans>Replace</Trans>
+              </ToggleButton.ButtonText>
+            </ToggleButton.Button>
+          </ToggleButton.Group>
+
+          <Text
+            style={[a.text_sm, a.leading_snug, t.atoms.text_contrast_medium]}>
+            {mode === 'merge' ? (
+              <Trans>
+                Merging keeps everything on this device and adds what's in the
+                archive. Settings you've already changed here are kept.
+              </Trans>
+            ) : (
+              <Trans>
+                Replacing deletes the bookmarks and seen posts on this device
+                and uses the archive's settings instead.
+              </Trans>
+            )}
+          </Text>
+
+          {error && <Admonition type="error">{error}</Admonition>}
+
+          {report && <ImportReportView report={report} />}
+
+          <Button
+            variant="solid"
+            color={mode === 'replace' ? 'negative' : 'primary'}
+            size="large"
+            label={_(msg`Import archive`)}
+            disabled={isImporting || raw.trim().length === 0}
+            onPress={onImport}>
+            <ButtonText>
+              <Trans>Import archive</Trans>
+            </ButtonText>
+            {isImporting && <ButtonIcon icon={Loader} />}
+          </Button>
+        </View>
+        <Dialog.Close />
+      </Dialog.ScrollableInner>
+    </Dialog.Outer>
+  )
+}
+
+function ImportReportView({report}: {report: ImportReport}) {
+  const t = useTheme()
+
+  return (
+    <View style={[a.gap_sm]}>
+      <Admonition type="tip">
+        <Trans>
+          Imported{' '}
+          <Plural
+            value={report.bookmarks.added + report.bookmarks.updated}
+            one="# bookmark"
+            other="# bookmarks"
+          />
+          ,{' '}
+          <Plural
+            value={report.seenPosts.added + report.seenPosts.updated}
+            one="# seen post"
+            other="# seen posts"
+          />{' '}
+          and{' '}
+          <Plural
+            value={report.settings.changed}
+            one="# setting"
+            other="# settings"
+          />
+          . Restart the app to apply imported settings.
+        </Trans>
+      </Admonition>
+      {report.conflicts.length > 0 && (
+        <View style={[a.gap_xs]}>
+          <Text style={[a.text_sm, a.font_bold]}>
+            <Plural
+              value={report.conflicts.length}
+              one="# conflict"
+              other="# conflicts"
+            />
+          </Text>
+          {report.conflicts.map(conflict => (
+            <Text
+              key={`${conflict.kind}:${conflict.key}`}
+              style={[a.text_xs, a.leading_snug, t.atoms.text_contrast_medium]}
+              numberOfLines={1}>
+              {conflict.key}
+              {' — '}
+              {conflict.resolution === 'kept-local' ? (
+                <Trans>kept this device's value</Trans>
+              ) : conflict.resolution === 'used-archive' ? (
+                <Trans>replaced with the archive's value</Trans>
+              ) : (
+                <Trans>combined folders</Trans>
+              )}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,9 @@
+/**
+ * There's no document picker on native yet, archives have to be pasted in.
+ */
+export function DeerArchiveFilePicker({}: {
+  onSelectFile: (contents: string) => void
+  disabled?: boolean
+}) {
+  return null
+}
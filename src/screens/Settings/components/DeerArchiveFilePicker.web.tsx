@@ -0,0 +1,54 @@
+import {useRef} from 'react'
+import {View} from 'react-native'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {atoms as a} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {ArrowOutOfBox_Stroke2_Corner0_Rounded as UploadIcon} from '#/components/icons/ArrowOutOfBox'
+
+export function DeerArchiveFilePicker({
+  onSelectFile,
+  disabled,
+}: {
+  onSelectFile: (contents: string) => void
+  disabled?: boolean
+}) {
+  const {_} = useLingui()
+  const ref = useRef<HTMLInputElement>(null)
+
+  const handlePick = async (evt: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = evt.target.files?.[0]
+    if (selectedFile) {
+      onSelectFile(await selectedFile.text())
+    }
+    // allow picking the same file again
+    evt.target.value = ''
+  }
+
+  return (
+    <View style={a.flex_row}>
+      <input
+        type="file"
+        accept=".json,application/json"
+        ref={ref}
+        style={a.hidden}
+        onChange={handlePick}
+        disabled={disabled}
+        aria-disabled={disabled}
+      />
+      <Button
+        onPress={() => ref.current?.click()}
+        label={_(msg`Select archive file (.json)`)}
+        size="small"
+        color="secondary"
+        variant="solid"
+        disabled={disabled}>
+        <ButtonIcon icon={UploadIcon} />
+        <ButtonText>
+          <Trans>Select archive file (.json)</Trans>
+        </ButtonText>
+      </Button>
+    </View>
+  )
+}
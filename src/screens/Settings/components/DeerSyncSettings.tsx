@@ -0,0 +1,103 @@
+import {useState} from 'react'
+import {msg, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {niceDate} from '#/lib/strings/time'
+import {useSession} from '#/state/session'
+import * as SettingsList from '#/screens/Settings/components/SettingsList'
+import {atoms as a, useTheme} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Toggle from '#/components/forms/Toggle'
+import {ArrowRotateCounterClockwise_Stroke2_Corner0_Rounded as SyncIcon} from '#/components/icons/ArrowRotateCounterClockwise'
+import {Loader} from '#/components/Loader'
+import * as Prompt from '#/components/Prompt'
+import {Text} from '#/components/Typography'
+import {syncNow, useSyncEnabled, useSyncState} from '#/maxine/sync'
+
+export function DeerSyncSettings() {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+  const {currentAccount} = useSession()
+  const [syncEnabled, setSyncEnabled] = useSyncEnabled(currentAccount?.did)
+  const syncState = useSyncState(currentAccount?.did)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const enablePromptControl = Prompt.usePromptControl()
+
+  const onSyncNow = async () => {
+    setIsSyncing(true)
+    try {
+      await syncNow()
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  return (
+    <SettingsList.Group contentContainerStyle={[a.gap_sm]}>
+      <SettingsList.ItemIcon icon={SyncIcon} />
+      <SettingsList.ItemText>
+        <Trans>Sync</Trans>
+      </SettingsList.ItemText>
+      <Toggle.Item
+        name="deer_sync"
+        label={_(msg`Sync bookmarks and seen posts between devices`)}
+        value={syncEnabled}
+        onChange={value => {
+          if (value) {
+            enablePromptControl.open()
+          } else {
+            setSyncEnabled(false)
+          }
+        }}
+        style={[a.w_full]}>
+        <Toggle.LabelText style={[a.flex_1]}>
+          <Trans>Sync bookmarks and seen posts between devices</Trans>
+        </Toggle.LabelText>
+        <Toggle.Platform />
+      </Toggle.Item>
+      <Admonition type="warning" style={[a.flex_1]}>
+        <Trans>
+          Synced data is stored as public records in your repository. Anyone can
+          see which posts you've bookmarked and seen.
+        </Trans>
+      </Admonition>
+      {syncEnabled && (
+        <>
+          <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+            {syncState?.lastSyncedAt ? (
+              <Trans>
+                Last synced {niceDate(i18n, syncState.lastSyncedAt)}
+              </Trans>
+            ) : (
+              <Trans>Not synced yet</Trans>
+            )}
+          </Text>
+          <Button
+            variant="solid"
+            color="secondary"
+            size="small"
+            label={_(msg`Sync now`)}
+            disabled={isSyncing}
+            onPress={onSyncNow}>
+            <ButtonText>
+              <Trans>Sync now</Trans>
+            </ButtonText>
+            {isSyncing && <ButtonIcon icon={Loader} />}
+          </Button>
+        </>
+      )}
+
+      <Prompt.Basic
+        control={enablePromptControl}
+        title={_(msg`Make your reading history public?`)}
+        description={_(
+          msg`Bookmarks and seen posts from this account will be written to its repository as social.deer records. Records in your repository are public, so anyone can read them.`,
+        )}
+        onConfirm={() => setSyncEnabled(true)}
+        confirmButtonCta={_(msg`Enable sync`)}
+        confirmButtonColor="negative"
+      />
+    </SettingsList.Group>
+  )
+}
@@ -0,0 +1,556 @@
+import {useState} from 'react'
+import {View} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {nanoid} from 'nanoid/non-secure'
+
+import {logger} from '#/logger'
+import {type FeedTunerRule} from '#/state/persisted/schema'
+import {
+  feedTunerRulesKey,
+  useAllFeedTunerRules,
+  useSetFeedTunerRules,
+} from '#/state/preferences/feed-tuner-rules'
+import {useFeedSourceInfoQuery, useSavedFeeds} from '#/state/queries/feed'
+import {type FeedDescriptor} from '#/state/queries/post-feed'
+import {useProfileQuery} from '#/state/queries/profile'
+import {useAgent} from '#/state/session'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import * as TextField from '#/components/forms/TextField'
+import {
+  ChevronBottom_Stroke2_Corner0_Rounded as ChevronDownIcon,
+  ChevronTop_Stroke2_Corner0_Rounded as ChevronUpIcon,
+} from '#/components/icons/Chevron'
+import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
+import {Loader} from '#/components/Loader'
+import {Text} from '#/components/Typography'
+
+type RuleType = FeedTunerRule['type']
+
+const RULE_TYPES: RuleType[] = [
+  'removeReposts',
+  'removeReplies',
+  'removeQuotePosts',
+  'followedRepliesOnly',
+  'preferredLangOnly',
+  'hideOldReposts',
+  'hideLinkDomains',
+  'maxRepostsPerReposter',
+  'hideRecentFollows',
+]
+
+/**
+ * Edits the tuner chain of a single feed when `feed` is given, otherwise
+ * lets you pick which feed to edit first.
+ */
+export function FeedTunerRulesDialog({
+  control,
+  feed,
+}: {
+  control: Dialog.DialogControlProps
+  feed?: FeedDescriptor
+}) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <FeedTunerRulesInner initialFeed={feed} />
+    </Dialog.Outer>
+  )
+}
+
+function FeedTunerRulesInner({initialFeed}: {initialFeed?: FeedDescriptor}) {
+  const {_} = useLingui()
+  const [feed, setFeed] = useState(initialFeed)
+
+  return (
+    <Dialog.ScrollableInner label={_(msg`Feed rules`)}>
+      {feed ? (
+        <RuleChainEditor
+          feed={feed}
+          onBack={initialFeed ? undefined : () => setFeed(undefined)}
+        />
+      ) : (
+        <FeedPicker onSelect={setFeed} />
+      )}
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
+
+function FeedPicker({onSelect}: {onSelect: (feed: FeedDescriptor) => void}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const agent = useAgent()
+  const allRules = useAllFeedTunerRules()
+  const {data: savedFeeds} = useSavedFeeds()
+  const [author, setAuthor] = useState('')
+  const [isResolving, setIsResolving] = useState(false)
+  const [error, setError] = useState<string | undefined>()
+
+  const feeds: FeedDescriptor[] = []
+  for (const item of savedFeeds?.feeds ?? []) {
+    if (item.type === 'timeline') {
+      feeds.push('following')
+    } else if (item.type === 'feed') {
+      feeds.push(`feedgen|${item.view.uri}`)
+    } else {
+      feeds.push(`list|${item.view.uri}`)
+    }
+  }
+  for (const key of Object.keys(allRules)) {
+    if (!feeds.includes(key as FeedDescriptor)) {
+      feeds.push(key as FeedDescriptor)
+    }
+  }
+
+  const onAddAuthor = async () => {
+    const handle = author.trim().replace(/^@/, '')
+    if (!handle) return
+    setIsResolving(true)
+    setError(undefined)
+    try {
+      const did = handle.startsWith('did:')
+        ? handle
+        : (await agent.resolveHandle({handle})).data.did
+      setAuthor('')
+      onSelect(`author|${did}|posts_and_author_threads`)
+    } catch (e) {
+      logger.warn('Failed to resolve feed rules author', {message: e})
+      setError(_(msg`Couldn't find an account with that handle`))
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  return (
+    <View style={[a.gap_lg]}>
+      <Text style={[a.text_2xl, a.font_heavy]}>
+        <Trans>Feed rules</Trans>
+      </Text>
+      <Text style={[a.text_sm, a.leading_normal, t.atoms.text_contrast_high]}>
+        <Trans>
+          Give any feed, list or profile its own chain of filters. Rules run in
+          order, after the filters Deer already applies to that feed.
+        </Trans>
+      </Text>
+
+      <View style={[a.gap_sm]}>
+        {feeds.map(feed => {
+          const count = allRules[feedTunerRulesKey(feed)]?.length ?? 0
+          return (
+            <View key={feed} style={[a.flex_row, a.align_center, a.gap_md]}>
+              <View style={[a.flex_1]}>
+                <Text style={[a.text_md, a.font_bold]} numberOfLines={1}>
+                  <FeedName feed={feed} />
+                </Text>
+                <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+                  {count > 0 ? (
+                    _(plural(count, {one: '# rule', other: '# rules'}))
+                  ) : (
+                    <Trans>No rules</Trans>
+                  )}
+                </Text>
+              </View>
+              <Button
+                variant="solid"
+                color="secondary"
+                size="tiny"
+                label={_(msg`Edit rules`)}
+                onPress={() => onSelect(feed)}>
+                <ButtonText>
+                  <Trans>Edit</Trans>
+                </ButtonText>
+              </Button>
+            </View>
+          )
+        })}
+      </View>
+
+      <View style={[a.gap_sm]}>
+        <Text style={[a.text_md, a.font_bold]}>
+          <Trans>Profile feed</Trans>
+        </Text>
+        <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+          <View style={[a.flex_1]}>
+            <TextField.Root isInvalid={!!error}>
+              <TextField.Input
+                label={_(msg`Account handle`)}
+                placeholder="alice.bsky.social"
+                value={author}
+                onChangeText={value => {
+                  setAuthor(value)
+                  setError(undefined)
+                }}
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={onAddAuthor}
+              />
+            </TextField.Root>
+          </View>
+          <Button
+            variant="solid"
+            color="secondary"
+            size="large"
+            label={_(msg`Edit rules for this profile`)}
+            disabled={!author.trim() || isResolving}
+            onPress={onAddAuthor}>
+            <ButtonText>
+              <Trans>Edit</Trans>
+            </ButtonText>
+            {isResolving && <ButtonIcon icon={Loader} />}
+          </Button>
+        </View>
+        {error && <Admonition type="error">{error}</Admonition>}
+      </View>
+    </View>
+  )
+}
+
+function RuleChainEditor({
+  feed,
+  onBack,
+}: {
+  feed: FeedDescriptor
+  onBack?: () => void
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const control = Dialog.useDialogContext()
+  const allRules = useAllFeedTunerRules()
+  const setFeedTunerRules = useSetFeedTunerRules()
+  const key = feedTunerRulesKey(feed)
+
+  // rows need stable keys so their inputs survive being reordered
+  const [rules, setRules] = useState<{id: string; rule: FeedTunerRule}[]>(() =>
+    (allRules[key] ?? []).map(rule => ({id: nanoid(), rule})),
+  )
+
+  const update = (index: number, rule: FeedTunerRule) => {
+    setRules(prev => prev.map((r, i) => (i === index ? {...r, rule} : r)))
+  }
+
+  const move = (index: number, by: -1 | 1) => {
+    setRules(prev => {
+      const next = prev.slice()
+      const [rule] = next.splice(index, 1)
+      next.splice(index + by, 0, rule)
+      return next
+    })
+  }
+
+  const onSave = () => {
+    setFeedTunerRules(
+      key,
+      rules.map(({rule}) => rule),
+    )
+    Toast.show(_(msg`Feed rules saved`))
+    if (onBack) {
+      onBack()
+    } else {
+      control.close()
+    }
+  }
+
+  return (
+    <View style={[a.gap_lg]}>
+      <View>
+        <Text style={[a.text_2xl, a.font_heavy]}>
+          <Trans>Feed rules</Trans>
+        </Text>
+        <Text style={[a.text_md, t.atoms.text_contrast_medium]}>
+          <FeedName feed={feed} />
+        </Text>
+      </View>
+
+      {rules.length === 0 ? (
+        <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          <Trans>This feed has no rules yet. Add one below.</Trans>
+        </Text>
+      ) : (
+        <View style={[a.gap_md]}>
+          {rules.map(({id, rule}, index) => (
+            <View
+              key={id}
+              style={[
+                a.gap_sm,
+                a.p_sm,
+                a.rounded_sm,
+                a.border,
+                t.atoms.border_contrast_low,
+              ]}>
+              <View style={[a.flex_row, a.align_center, a.gap_xs]}>
+                <Text style={[a.flex_1, a.text_sm, a.font_bold]}>
+                  {index + 1}. <RuleName type={rule.type} />
+                </Text>
+                <Button
+                  variant="ghost"
+                  color="secondary"
+                  size="tiny"
+                  shape="round"
+                  label={_(msg`Move rule up`)}
+                  disabled={index === 0}
+                  onPress={() => move(index, -1)}>
+                  <ButtonIcon icon={ChevronUpIcon} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  color="secondary"
+                  size="tiny"
+                  shape="round"
+                  label={_(msg`Move rule down`)}
+                  disabled={index === rules.length - 1}
+                  onPress={() => move(index, 1)}>
+                  <ButtonIcon icon={ChevronDownIcon} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  color="negative"
+                  size="tiny"
+                  shape="round"
+                  label={_(msg`Remove rule`)}
+                  onPress={() =>
+                    setRules(prev => prev.filter((_r, i) => i !== index))
+                  }>
+                  <ButtonIcon icon={TrashIcon} />
+                </Button>
+              </View>
+              <RuleParams rule={rule} onChange={r => update(index, r)} />
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={[a.gap_sm]}>
+        <Text style={[a.text_sm, a.font_bold, t.atoms.text_contrast_medium]}>
+          <Trans>Add a rule</Trans>
+        </Text>
+        <View style={[a.flex_row, a.flex_wrap, a.gap_sm]}>
+          {RULE_TYPES.map(type => (
+            <Button
+              key={type}
+              variant="solid"
+              color="secondary"
+              size="tiny"
+              label={_(msg`Add rule`)}
+              onPress={() =>
+                setRules(prev => [
+                  ...prev,
+                  {id: nanoid(), rule: createRule(type)},
+                ])
+              }>
+              <ButtonText>
+                <RuleName type={type} />
+              </ButtonText>
+            </Button>
+          ))}
+        </View>
+      </View>
+
+      <View style={[a.gap_sm]}>
+        <Button
+          variant="solid"
+          color="primary"
+          size="large"
+          label={_(msg`Save rules`)}
+          onPress={onSave}>
+          <ButtonText>
+            <Trans>Save</Trans>
+          </ButtonText>
+        </Button>
+        {onBack && (
+          <Button
+            variant="solid"
+            color="secondary"
+            size="large"
+            label={_(msg`Back`)}
+            onPress={onBack}>
+            <ButtonText>
+              <Trans>Back</Trans>
+            </ButtonText>
+          </Button>
+        )}
+      </View>
+    </View>
+  )
+}
+
+function RuleParams({
+  rule,
+  onChange,
+}: {
+  rule: FeedTunerRule
+  onChange: (rule: FeedTunerRule) => void
+}) {
+  const {_} = useLingui()
+
+  switch (rule.type) {
+    case 'hideOldReposts':
+      return (
+        <NumberInput
+          label={_(msg`Hide reposts of posts older than (days)`)}
+          value={rule.maxAgeDays}
+          onChange={maxAgeDays => onChange({...rule, maxAgeDays})}
+        />
+      )
+    case 'maxRepostsPerReposter':
+      return (
+        <NumberInput
+          label={_(msg`Most reposts shown per account`)}
+          value={rule.max}
+          onChange={max => onChange({...rule, max})}
+        />
+      )
+    case 'hideRecentFollows':
+      return (
+        <NumberInput
+          label={_(msg`Followed for at least (days)`)}
+          value={rule.minDays}
+          onChange={minDays => onChange({...rule, minDays})}
+        />
+      )
+    case 'hideLinkDomains':
+      return (
+        <DomainsInput
+          domains={rule.domains}
+          onChange={domains => onChange({...rule, domains})}
+        />
+      )
+    default:
+      return null
+  }
+}
+
+function NumberInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  const [text, setText] = useState(String(value))
+
+  return (
+    <View>
+      <TextField.LabelText>{label}</TextField.LabelText>
+      <TextField.Root>
+        <TextField.Input
+          label={label}
+          value={text}
+          keyboardType="number-pad"
+          onChangeText={next => {
+            setText(next)
+            const n = parseInt(next, 10)
+            if (Number.isFinite(n) && n > 0) {
+              onChange(n)
+            }
+          }}
+        />
+      </TextField.Root>
+    </View>
+  )
+}
+
+function DomainsInput({
+  domains,
+  onChange,
+}: {
+  domains: string[]
+  onChange: (domains: string[]) => void
+}) {
+  const {_} = useLingui()
+  const [text, setText] = useState(domains.join(', '))
+
+  return (
+    <View>
+      <TextField.LabelText>
+        <Trans>Domains</Trans>
+      </TextField.LabelText>
+      <TextField.Root>
+        <TextField.Input
+          label={_(msg`Domains`)}
+          placeholder="example.com, example.org"
+          value={text}
+          autoCapitalize="none"
+          autoCorrect={false}
+          onChangeText={next => {
+            setText(next)
+            onChange(
+              next
+                .split(',')
+                .map(domain => domain.trim())
+                .filter(Boolean),
+            )
+          }}
+        />
+      </TextField.Root>
+    </View>
+  )
+}
+
+function createRule(type: RuleType): FeedTunerRule {
+  switch (type) {
+    case 'hideOldReposts':
+      return {type, maxAgeDays: 7}
+    case 'hideLinkDomains':
+      return {type, domains: []}
+    case 'maxRepostsPerReposter':
+      return {type, max: 3}
+    case 'hideRecentFollows':
+      return {type, minDays: 7}
+    default:
+      return {type}
+  }
+}
+
+function RuleName({type}: {type: RuleType}) {
+  switch (type) {
+    case 'removeReposts':
+      return <Trans>Hide reposts</Trans>
+    case 'removeReplies':
+      return <Trans>Hide replies</Trans>
+    case 'removeQuotePosts':
+      return <Trans>Hide quote posts</Trans>
+    case 'followedRepliesOnly':
+      return <Trans>Only replies to people you follow</Trans>
+    case 'preferredLangOnly':
+      return <Trans>Prefer my content languages</Trans>
+    case 'hideOldReposts':
+      return <Trans>Hide reposts of old posts</Trans>
+    case 'hideLinkDomains':
+      return <Trans>Hide links to domains</Trans>
+    case 'maxRepostsPerReposter':
+      return <Trans>Limit reposts per account</Trans>
+    case 'hideRecentFollows':
+      return <Trans>Hide recently followed accounts</Trans>
+  }
+}
+
+function FeedName({feed}: {feed: FeedDescriptor}) {
+  if (feed === 'following') {
+    return <Trans>Following</Trans>
+  }
+  if (feed.startsWith('feedgen|') || feed.startsWith('list|')) {
+    return <FeedSourceName uri={feed.slice(feed.indexOf('|') + 1)} />
+  }
+  if (feed.startsWith('author|')) {
+    return <AuthorFeedName did={feed.split('|')[1]} />
+  }
+  return <>{feed}</>
+}
+
+function FeedSourceName({uri}: {uri: string}) {
+  const {data} = useFeedSourceInfoQuery({uri})
+  return <>{data?.displayName ?? uri}</>
+}
+
+function AuthorFeedName({did}: {did: string}) {
+  const {data} = useProfileQuery({did})
+  const handle = data?.handle ?? did
+  return <Trans>Posts by @{handle}</Trans>
+}
@@ -0,0 +1,529 @@
+import {useState} from 'react'
+import {View} from 'react-native'
+import {msg, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+import {useQueryClient} from '@tanstack/react-query'
+import {nanoid} from 'nanoid/non-secure'
+
+import {logger} from '#/logger'
+import {type LocalFeed} from '#/state/persisted/schema'
+import {useLocalFeeds, useLocalFeedsApi} from '#/state/preferences/local-feeds'
+import {type SavedFeedItem, useSavedFeeds} from '#/state/queries/feed'
+import {RQKEY_ROOT as POST_FEED_RQKEY_ROOT} from '#/state/queries/post-feed'
+import {useAgent} from '#/state/session'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import * as TextField from '#/components/forms/TextField'
+import * as Toggle from '#/components/forms/Toggle'
+import * as ToggleButton from '#/components/forms/ToggleButton'
+import {Pencil_Stroke2_Corner0_Rounded as PencilIcon} from '#/components/icons/Pencil'
+import {PlusLarge_Stroke2_Corner0_Rounded as PlusIcon} from '#/components/icons/Plus'
+import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
+import {Loader} from '#/components/Loader'
+import * as Prompt from '#/components/Prompt'
+import {Text} from '#/components/Typography'
+
+type LocalFeedSource = LocalFeed['sources'][number]
+
+const WEIGHT_OPTIONS = ['1', '2', '3', '4', '5'] as const
+
+export function LocalFeedsDialog({
+  control,
+}: {
+  control: Dialog.DialogControlProps
+}) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <LocalFeedsInner />
+    </Dialog.Outer>
+  )
+}
+
+function LocalFeedsInner() {
+  const {_} = useLingui()
+  const [editing, setEditing] = useState<LocalFeed | undefined>()
+
+  return (
+    <Dialog.ScrollableInner label={_(msg`Local feeds`)}>
+      {editing ? (
+        <LocalFeedEditor feed={editing} onDone={() => setEditing(undefined)} />
+      ) : (
+        <LocalFeedList onEdit={setEditing} />
+      )}
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
+
+function LocalFeedList({onEdit}: {onEdit: (feed: LocalFeed) => void}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const localFeeds = useLocalFeeds()
+  const {setLocalFeedPinned} = useLocalFeedsApi()
+
+  const onCreate = () => {
+    onEdit({
+      id: nanoid(),
+      name: '',
+      pinned: true,
+      sources: [],
+      rules: {},
+    })
+  }
+
+  return (
+    <View style={[a.gap_lg]}>
+      <Text style={[a.text_2xl, a.font_heavy]}>
+        <Trans>Local feeds</Trans>
+      </Text>
+      <Text style={[a.text_sm, a.leading_normal, t.atoms.text_contrast_high]}>
+        <Trans>
+          Mix your saved feeds, lists and favorite accounts into a feed that's
+          built on this device, then filter it with your own rules. Pinned local
+          feeds show up as tabs on your home screen.
+        </Trans>
+      </Text>
+
+      {localFeeds.length > 0 && (
+        <View style={[a.gap_md]}>
+          {localFeeds.map(feed => (
+            <View key={feed.id} style={[a.flex_row, a.align_center, a.gap_md]}>
+              <View style={[a.flex_1]}>
+                <Text style={[a.text_md, a.font_bold]} numberOfLines={1}>
+                  {feed.name}
+                </Text>
+                <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+                  {_(
+                    plural(feed.sources.length, {
+                      one: '# source',
+                      other: '# sources',
+                    }),
+                  )}
+                </Text>
+              </View>
+              <Toggle.Item
+                name={`pin-${feed.id}`}
+                label={_(msg`Pin to home`)}
+                value={feed.pinned}
+                onChange={pinned => setLocalFeedPinned(feed.id, pinned)}>
+                <Toggle.LabelText>
+                  <Trans>Pinned</Trans>
+                </Toggle.LabelText>
+                <Toggle.Platform />
+              </Toggle.Item>
+              <Button
+                variant="ghost"
+                color="secondary"
+                size="small"
+                shape="round"
+                label={_(msg`Edit ${feed.name}`)}
+                onPress={() => onEdit(feed)}>
+                <ButtonIcon icon={PencilIcon} />
+              </Button>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Button
+        variant="solid"
+        color="primary"
+        size="large"
+        label={_(msg`New local feed`)}
+        onPress={onCreate}>
+        <ButtonIcon icon={PlusIcon} />
+        <ButtonText>
+          <Trans>New local feed</Trans>
+        </ButtonText>
+      </Button>
+    </View>
+  )
+}
+
+function LocalFeedEditor({
+  feed,
+  onDone,
+}: {
+  feed: LocalFeed
+  onDone: () => void
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  const agent = useAgent()
+  const queryClient = useQueryClient()
+  const deleteControl = Prompt.usePromptControl()
+  const localFeeds = useLocalFeeds()
+  const {saveLocalFeed, removeLocalFeed} = useLocalFeedsApi()
+  const {data: savedFeeds} = useSavedFeeds()
+
+  const isNew = !localFeeds.some(f => f.id === feed.id)
+
+  const [name, setName] = useState(feed.name)
+  const [sources, setSources] = useState(feed.sources)
+  const [minLikes, setMinLikes] = useState(
+    feed.rules.minLikes ? String(feed.rules.minLikes) : '',
+  )
+  const [excludeKeywords, setExcludeKeywords] = useState(
+    feed.rules.excludeKeywords?.join(', ') ?? '',
+  )
+  const [mediaOnly, setMediaOnly] = useState(!!feed.rules.mediaOnly)
+  const [languages, setLanguages] = useState(
+    feed.rules.languages?.join(', ') ?? '',
+  )
+  const [maxPerAuthor, setMaxPerAuthor] = useState(
+    feed.rules.maxPerAuthor ? String(feed.rules.maxPerAuthor) : '',
+  )
+  const [author, setAuthor] = useState('')
+  const [isResolvingAuthor, setIsResolvingAuthor] = useState(false)
+  const [error, setError] = useState<string | undefined>()
+
+  const addSource = (source: LocalFeedSource) => {
+    setError(undefined)
+    setSources(prev =>
+      prev.some(s => s.value === source.value) ? prev : [...prev, source],
+    )
+  }
+
+  const onAddAuthor = async () => {
+    const handle = author.trim().replace(/^@/, '')
+    if (!handle) return
+    setIsResolvingAuthor(true)
+    try {
+      const did = handle.startsWith('did:')
+        ? handle
+        : (await agent.resolveHandle({handle})).data.did
+      addSource({
+        type: 'author',
+        value: did,
+        displayName: handle.startsWith('did:') ? handle : `@${handle}`,
+        weight: 1,
+      })
+      setAuthor('')
+    } catch (e) {
+      logger.warn('Failed to resolve local feed author', {message: e})
+      setError(_(msg`Couldn't find an account with that handle`))
+    } finally {
+      setIsResolvingAuthor(false)
+    }
+  }
+
+  const onSave = () => {
+    if (!name.trim()) {
+      setError(_(msg`Give your feed a name`))
+      return
+    }
+    if (!sources.length) {
+      setError(_(msg`Add at least one source`))
+      return
+    }
+    saveLocalFeed({
+      id: feed.id,
+      name: name.trim(),
+      pinned: feed.pinned,
+      sources,
+      rules: {
+        minLikes: parsePositiveInt(minLikes),
+        excludeKeywords: splitList(excludeKeywords),
+        mediaOnly: mediaOnly || undefined,
+        languages: splitList(languages)?.map(lang => lang.toLowerCase()),
+        maxPerAuthor: parsePositiveInt(maxPerAuthor),
+      },
+    })
+    queryClient.resetQueries({
+      queryKey: [POST_FEED_RQKEY_ROOT, `local|${feed.id}`],
+    })
+    Toast.show(_(msg`Feed saved`))
+    onDone()
+  }
+
+  const onDelete = () => {
+    removeLocalFeed(feed.id)
+    onDone()
+  }
+
+  const availableSavedFeeds =
+    savedFeeds?.feeds.filter(
+      (item): item is Exclude<SavedFeedItem, {type: 'timeline'}> =>
+        item.type !== 'timeline' &&
+        !sources.some(source => source.value === item.view.uri),
+    ) ?? []
+
+  return (
+    <View style={[a.gap_lg]}>
+      <Text style={[a.text_2xl, a.font_heavy]}>
+        {isNew ? <Trans>New local feed</Trans> : <Trans>Edit local feed</Trans>}
+      </Text>
+
+      <View>
+        <TextField.LabelText>
+          <Trans>Name</Trans>
+        </TextField.LabelText>
+        <TextField.Root>
+          <TextField.Input
+            label={_(msg`Feed name`)}
+            value={name}
+            onChangeText={value => {
+              setName(value)
+              setError(undefined)
+            }}
+          />
+        </TextField.Root>
+      </View>
+
+      <View style={[a.gap_sm]}>
+        <Text style={[a.text_md, a.font_bold]}>
+          <Trans>Sources</Trans>
+        </Text>
+        {sources.length === 0 && (
+          <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+            <Trans>Add feeds, lists or accounts below.</Trans>
+          </Text>
+        )}
+        {sources.map(source => (
+          <View key={source.value} style={[a.gap_xs]}>
+            <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+              <Text style={[a.flex_1, a.text_sm]} numberOfLines={1}>
+                {source.displayName}
+              </Text>
+              <Button
+                variant="ghost"
+                color="negative"
+                size="tiny"
+                shape="round"
+                label={_(msg`Remove ${source.displayName}`)}
+                onPress={() =>
+                  setSources(prev => prev.filter(s => s.value !== source.value))
+                }>
+                <ButtonIcon icon={TrashIcon} />
+              </Button>
+            </View>
+            <ToggleButton.Group
+              label={_(msg`Weight of ${source.displayName}`)}
+              values={[String(source.weight)]}
+              onChange={([value]) =>
+                setSources(prev =>
+                  prev.map(s =>
+                    s.value === source.value
+                      ? {...s, weight: Number(value)}
+                      : s,
+                  ),
+                )
+              }>
+              {WEIGHT_OPTIONS.map(weight => (
+                <ToggleButton.Button
+                  key={weight}
+                  name={weight}
+                  label={_(msg`Weight ${weight}`)}>
+                  <ToggleButton.ButtonText>{weight}×</ToggleButton.ButtonText>
+                </ToggleButton.Button>
+              ))}
+            </ToggleButton.Group>
+          </View>
+        ))}
+      </View>
+
+      {availableSavedFeeds.length > 0 && (
+        <View style={[a.gap_sm]}>
+          <Text style={[a.text_sm, a.font_bold, t.atoms.text_contrast_medium]}>
+            <Trans>From your saved feeds</Trans>
+          </Text>
+          {availableSavedFeeds.map(item => {
+            const displayName =
+              item.type === 'feed' ? item.view.displayName : item.view.name
+            return (
+              <View
+                key={item.view.uri}
+                style={[a.flex_row, a.align_center, a.gap_sm]}>
+                <Text style={[a.flex_1, a.text_sm]} numberOfLines={1}>
+                  {displayName}
+                </Text>
+                <Button
+                  variant="solid"
+                  color="secondary"
+                  size="tiny"
+                  label={_(msg`Add ${displayName}`)}
+                  onPress={() =>
+                    addSource({
+                      type: item.type,
+                      value: item.view.uri,
+                      displayName,
+                      weight: 1,
+                    })
+                  }>
+                  <ButtonText>
+                    <Trans>Add</Trans>
+                  </ButtonText>
+                </Button>
+              </View>
+            )
+          })}
+        </View>
+      )}
+
+      <View style={[a.flex_row, a.align_center, a.gap_sm]}>
+        <View style={[a.flex_1]}>
+          <TextField.Root>
+            <TextField.Input
+              label={_(msg`Account handle`)}
+              placeholder="alice.bsky.social"
+              value={author}
+              onChangeText={value => {
+                setAuthor(value)
+                setError(undefined)
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={onAddAuthor}
+            />
+          </TextField.Root>
+        </View>
+        <Button
+          variant="solid"
+          color="secondary"
+          size="large"
+          label={_(msg`Add account`)}
+          disabled={!author.trim() || isResolvingAuthor}
+          onPress={onAddAuthor}>
+          <ButtonText>
+            <Trans>Add</Trans>
+          </ButtonText>
+          {isResolvingAuthor && <ButtonIcon icon={Loader} />}
+        </Button>
+      </View>
+
+      <View style={[a.gap_md]}>
+        <Text style={[a.text_md, a.font_bold]}>
+          <Trans>Rules</Trans>
+        </Text>
+        <Toggle.Item
+          name="mediaOnly"
+          label={_(msg`Only posts with images or video`)}
+          value={mediaOnly}
+          onChange={setMediaOnly}
+          style={[a.w_full]}>
+          <Toggle.LabelText style={[a.flex_1]}>
+            <Trans>Only posts with images or video</Trans>
+          </Toggle.LabelText>
+          <Toggle.Platform />
+        </Toggle.Item>
+        <RuleInput
+          label={_(msg`Minimum likes`)}
+          placeholder="0"
+          value={minLikes}
+          onChangeText={setMinLikes}
+          keyboardType="number-pad"
+        />
+        <RuleInput
+          label={_(msg`Most posts per account`)}
+          placeholder={_(msg`No limit`)}
+          value={maxPerAuthor}
+          onChangeText={setMaxPerAuthor}
+          keyboardType="number-pad"
+        />
+        <RuleInput
+          label={_(msg`Hide posts containing`)}
+          placeholder={_(msg`Comma-separated words or phrases`)}
+          value={excludeKeywords}
+          onChangeText={setExcludeKeywords}
+        />
+        <RuleInput
+          label={_(msg`Only these languages`)}
+          placeholder="en, ja"
+          value={languages}
+          onChangeText={setLanguages}
+        />
+      </View>
+
+      {error && <Admonition type="error">{error}</Admonition>}
+
+      <View style={[a.gap_sm]}>
+        <Button
+          variant="solid"
+          color="primary"
+          size="large"
+          label={_(msg`Save feed`)}
+          onPress={onSave}>
+          <ButtonText>
+            <Trans>Save</Trans>
+          </ButtonText>
+        </Button>
+        <Button
+          variant="solid"
+          color="secondary"
+          size="large"
+          label={_(msg`Cancel`)}
+          onPress={onDone}>
+          <ButtonText>
+            <Trans>Cancel</Trans>
+          </ButtonText>
+        </Button>
+        {!isNew && (
+          <Button
+            variant="ghost"
+            color="negative"
+            size="large"
+            label={_(msg`Delete feed`)}
+            onPress={deleteControl.open}>
+            <ButtonIcon icon={TrashIcon} />
+            <ButtonText>
+              <Trans>Delete feed</Trans>
+            </ButtonText>
+          </Button>
+        )}
+      </View>
+
+      <Prompt.Basic
+        control={deleteControl}
+        title={_(msg`Delete this feed?`)}
+        description={_(
+          msg`"${feed.name}" will be removed from this device and your home screen.`,
+        )}
+        confirmButtonCta={_(msg`Delete`)}
+        confirmButtonColor="negative"
+        onConfirm={onDelete}
+      />
+    </View>
+  )
+}
+
+function RuleInput({
+  label,
+  ...props
+}: {
+  label: string
+  placeholder: string
+  value: string
+  onChangeText: (value: string) => void
+  keyboardType?: 'number-pad'
+}) {
+  return (
+    <View>
+      <TextField.LabelText>{label}</TextField.LabelText>
+      <TextField.Root>
+        <TextField.Input
+          label={label}
+          autoCapitalize="none"
+          autoCorrect={false}
+          {...props}
+        />
+      </TextField.Root>
+    </View>
+  )
+}
+
+function parsePositiveInt(value: string) {
+  const n = parseInt(value, 10)
+  return Number.isFinite(n) && n > 0 ? n : undefined
+}
+
+function splitList(value: string) {
+  const items = value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+  return items.length ? items : undefined
+}
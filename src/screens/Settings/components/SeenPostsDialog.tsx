@@ -0,0 +1,329 @@
+import {useCallback, useEffect, useState} from 'react'
+import {View} from 'react-native'
+import {msg, Plural, plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {niceDate} from '#/lib/strings/time'
+import {logger} from '#/logger'
+import {useLocalFeed} from '#/state/preferences/local-feeds'
+import {useFeedSourceInfoQuery} from '#/state/queries/feed'
+import {type FeedDescriptor} from '#/state/queries/post-feed'
+import {useProfileQuery} from '#/state/queries/profile'
+import * as Toast from '#/view/com/util/Toast'
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import * as ToggleButton from '#/components/forms/ToggleButton'
+import {Loader} from '#/components/Loader'
+import * as Prompt from '#/components/Prompt'
+import {Text} from '#/components/Typography'
+import {
+  clearSeenPosts,
+  forgetSeenPostsForFeed,
+  getSeenPostsStats,
+  pruneSeenPosts,
+  type SeenPostsFeedStats,
+  useSeenPostsRetention,
+} from '#/maxine/seen-posts'
+
+const MAX_AGE_OPTIONS = ['7', '30', '90', 'forever'] as const
+const MAX_ENTRIES_OPTIONS = ['10000', '50000', '100000', 'unlimited'] as const
+
+export function SeenPostsDialog({
+  control,
+}: {
+  control: Dialog.DialogOuterProps['control']
+}) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <SeenPostsInner />
+    </Dialog.Outer>
+  )
+}
+
+function SeenPostsInner() {
+  const {_} = useLingui()
+  const t = useTheme()
+  const clearAllControl = Prompt.usePromptControl()
+
+  const [retention, setRetention] = useSeenPostsRetention()
+  const [stats, setStats] = useState<SeenPostsFeedStats[] | undefined>()
+  const [isPruning, setIsPruning] = useState(false)
+
+  const reload = useCallback(() => {
+    getSeenPostsStats()
+      .then(setStats)
+      .catch(e => {
+        logger.error('Failed to load seen posts stats', {message: e})
+        setStats([])
+      })
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const total = stats?.reduce((sum, stat) => sum + stat.count, 0) ?? 0
+
+  const onPruneNow = async () => {
+    setIsPruning(true)
+    try {
+      const removed = await pruneSeenPosts(retention)
+      Toast.show(
+        _(
+          msg`Removed ${plural(removed, {one: '# seen post', other: '# seen posts'})} past the retention limits`,
+        ),
+      )
+      reload()
+    } catch (e) {
+      logger.error('Failed to prune seen posts', {message: e})
+      Toast.show(_(msg`Failed to clean up seen posts`), 'xmark')
+    } finally {
+      setIsPruning(false)
+    }
+  }
+
+  const onForgetFeed = async (feed: FeedDescriptor) => {
+    try {
+      await forgetSeenPostsForFeed(feed)
+      reload()
+    } catch (e) {
+      logger.error('Failed to forget seen posts for feed', {message: e})
+      Toast.show(_(msg`Failed to forget seen posts`), 'xmark')
+    }
+  }
+
+  const onConfirmClearAll = async () => {
+    try {
+      await clearSeenPosts()
+      Toast.show(_(msg`Cleared all seen posts`))
+      reload()
+    } catch (e) {
+      logger.error('Failed to clear seen posts', {message: e})
+      Toast.show(_(msg`Failed to clear seen posts`), 'xmark')
+    }
+  }
+
+  return (
+    <Dialog.ScrollableInner label={_(msg`Seen posts`)}>
+      <View style={[a.gap_lg]}>
+        <Text style={[a.text_2xl, a.font_heavy]}>
+          <Trans>Seen posts</Trans>
+        </Text>
+        <Text style={[a.text_sm, a.leading_normal, t.atoms.text_contrast_high]}>
+          <Trans>
+            Deer remembers which posts you've scrolled past so they can be
+            hidden from your feeds. Old entries are cleaned up automatically.
+          </Trans>
+        </Text>
+
+        <View style={[a.gap_sm]}>
+          <Text style={[a.text_md, a.font_bold]}>
+            <Trans>Forget posts seen more than</Trans>
+          </Text>
+          <ToggleButton.Group
+            label={_(msg`Maximum age of seen posts`)}
+            values={[
+              retention.maxAgeDays === null
+                ? 'forever'
+                : String(retention.maxAgeDays),
+            ]}
+            onChange={([value]) =>
+              setRetention({
+                ...retention,
+                maxAgeDays: value === 'forever' ? null : Number(value),
+              })
+            }>
+            {MAX_AGE_OPTIONS.map(option => (
+              <ToggleButton.Button
+                key={option}
+                name={option}
+                label={
+                  option === 'forever'
+                    ? _(msg`Never`)
+                    : _(msg`${option} days ago`)
+                }>
+                <ToggleButton.ButtonText>
+                  {option === 'forever' ? (
+                    <Trans>Never</Trans>
+                  ) : (
+                    <Trans>{option} days</Trans>
+                  )}
+                </ToggleButton.ButtonText>
+              </ToggleButton.Button>
+            ))}
+          </ToggleButton.Group>
+        </View>
+
+        <View style={[a.gap_sm]}>
+          <Text style={[a.text_md, a.font_bold]}>
+            <Trans>Keep at most</Trans>
+          </Text>
+          <ToggleButton.Group
+            label={_(msg`Maximum number of seen posts`)}
+            values={[
+              retention.maxEntries === null
+                ? 'unlimited'
+                : String(retention.maxEntries),
+            ]}
+            onChange={([value]) =>
+              setRetention({
+                ...retention,
+                maxEntries: value === 'unlimited' ? null : Number(value),
+              })
+            }>
+            {MAX_ENTRIES_OPTIONS.map(option => (
+              <ToggleButton.Button
+                key={option}
+                name={option}
+                label={
+                  option === 'unlimited'
+                    ? _(msg`Unlimited`)
+                    : _(msg`${Number(option) / 1000}k posts`)
+                }>
+                <ToggleButton.ButtonText>
+                  {option === 'unlimited' ? (
+                    <Trans>Unlimited</Trans>
+                  ) : (
+                    <Trans>{Number(option) / 1000}k</Trans>
+                  )}
+                </ToggleButton.ButtonText>
+              </ToggleButton.Button>
+            ))}
+          </ToggleButton.Group>
+        </View>
+
+        <Button
+          variant="solid"
+          color="secondary"
+          size="small"
+          label={_(msg`Clean up now`)}
+          disabled={isPruning}
+          onPress={onPruneNow}>
+          <ButtonText>
+            <Trans>Clean up now</Trans>
+          </ButtonText>
+          {isPruning && <ButtonIcon icon={Loader} />}
+        </Button>
+
+        <View style={[a.gap_sm]}>
+          <Text style={[a.text_md, a.font_bold]}>
+            <Plural
+              value={total}
+              one="# seen post, by feed"
+              other="# seen posts, by feed"
+            />
+          </Text>
+          {stats === undefined ? (
+            <Loader />
+          ) : stats.length === 0 ? (
+            <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+              <Trans>No seen posts are stored on this device.</Trans>
+            </Text>
+          ) : (
+            stats.map(stat => (
+              <FeedStatsRow
+                key={stat.feed}
+                stat={stat}
+                onForget={() => onForgetFeed(stat.feed)}
+              />
+            ))
+          )}
+        </View>
+
+        <Button
+          variant="solid"
+          color="negative"
+          size="large"
+          label={_(msg`Clear all seen posts`)}
+          disabled={total === 0}
+          onPress={() => clearAllControl.open()}>
+          <ButtonText>
+            <Trans>Clear all seen posts</Trans>
+          </ButtonText>
+        </Button>
+      </View>
+      <Dialog.Close />
+
+      <Prompt.Basic
+        control={clearAllControl}
+        title={_(msg`Clear all seen posts?`)}
+        description={_(
+          msg`Every post you've seen will show up in your feeds again.`,
+        )}
+        onConfirm={onConfirmClearAll}
+        confirmButtonCta={_(msg`Clear`)}
+        confirmButtonColor="negative"
+      />
+    </Dialog.ScrollableInner>
+  )
+}
+
+function FeedStatsRow({
+  stat,
+  onForget,
+}: {
+  stat: SeenPostsFeedStats
+  onForget: () => void
+}) {
+  const {_, i18n} = useLingui()
+  const t = useTheme()
+
+  return (
+    <View style={[a.flex_row, a.align_center, a.gap_md]}>
+      <View style={[a.flex_1]}>
+        <Text style={[a.text_sm, a.font_bold]} numberOfLines={1}>
+          <FeedName feed={stat.feed} />
+        </Text>
+        <Text style={[a.text_xs, t.atoms.text_contrast_medium]}>
+          <Plural value={stat.count} one="# post" other="# posts" />
+          {' · '}
+          <Trans>last seen {niceDate(i18n, stat.lastSeenAt)}</Trans>
+        </Text>
+      </View>
+      <Button
+        variant="ghost"
+        color="negative"
+        size="tiny"
+        label={_(msg`Forget seen posts for this feed`)}
+        onPress={onForget}>
+        <ButtonText>
+          <Trans>Forget</Trans>
+        </ButtonText>
+      </Button>
+    </View>
+  )
+}
+
+function FeedName({feed}: {feed: FeedDescriptor}) {
+  if (feed.startsWith('feedgen|') || feed.startsWith('list|')) {
+    return <FeedSourceName uri={feed.slice(feed.indexOf('|') + 1)} />
+  }
+  if (feed.startsWith('author|')) {
+    return <AuthorFeedName did={feed.split('|')[1]} />
+  }
+  if (feed.startsWith('local|')) {
+    return <LocalFeedName id={feed.split('|')[1]} />
+  }
+  if (feed === 'following') {
+    return <Trans>Following</Trans>
+  }
+  return <>{feed}</>
+}
+
+function LocalFeedName({id}: {id: string}) {
+  const localFeed = useLocalFeed(id)
+  return <>{localFeed?.name ?? id}</>
+}
+
+function FeedSourceName({uri}: {uri: string}) {
+  const {data} = useFeedSourceInfoQuery({uri})
+  return <>{data?.displayName ?? uri}</>
+}
+
+function AuthorFeedName({did}: {did: string}) {
+  const {data} = useProfileQuery({did})
+  const handle = data?.handle ?? did
+  return <Trans>Posts by @{handle}</Trans>
+}
@@ -10,6 +10,7 @@ import EventEmitter from 'eventemitter3'
 import {batchedUpdates} from '#/lib/batchedUpdates'
 import {findAllPostsInQueryData as findAllPostsInExploreFeedPreviewsQueryData} from '#/state/queries/explore-feed-previews'
 import {findAllPostsInQueryData as findAllPostsInNotifsQueryData} from '#/state/queries/notifications/feed'
+import {findAllPostsInQueryData as findAllPostsInBacklinksQueryData} from '#/state/queries/post-backlinks'
 import {findAllPostsInQueryData as findAllPostsInFeedQueryData} from '#/state/queries/post-feed'
 import {findAllPostsInQueryData as findAllPostsInQuoteQueryData} from '#/state/queries/post-quotes'
 import {findAllPostsInQueryData as findAllPostsInThreadQueryData} from '#/state/queries/post-thread'
@@ -159,6 +160,9 @@ function* findPostsInCache(
   for (let post of findAllPostsInQuoteQueryData(queryClient, uri)) {
     yield post
   }
+  for (let post of findAllPostsInBacklinksQueryData(queryClient, uri)) {
+    yield post
+  }
   for (let post of findAllPostsInExploreFeedPreviewsQueryData(
     queryClient,
     uri,
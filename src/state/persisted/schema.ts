@@ -46,6 +46,78 @@ const currentAccountSchema = accountSchema.extend({
 })
 export type PersistedCurrentAccount = z.infer<typeof currentAccountSchema>
 
+// deer
+/**
+ * A feed built on-device by merging other feeds. Sources are sampled in
+ * proportion to their weight, then the rules filter what comes out.
+ */
+const localFeedSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  pinned: z.boolean(),
+  sources: z.array(
+    z.object({
+      /**
+       * `feed` and `list` take an AT-URI, `author` takes a DID.
+       */
+      type: z.enum(['feed', 'list', 'author']),
+      value: z.string(),
+      displayName: z.string(),
+      weight: z.number(),
+    }),
+  ),
+  rules: z.object({
+    minLikes: z.number().optional(),
+    excludeKeywords: z.array(z.string()).optional(),
+    mediaOnly: z.boolean().optional(),
+    /**
+     * BCP-47 2-letter language codes without region.
+     */
+    languages: z.array(z.string()).optional(),
+    maxPerAuthor: z.number().optional(),
+  }),
+})
+export type LocalFeed = z.infer<typeof localFeedSchema>
+
+/**
+ * One step of a user-defined feed tuner chain. Chains run in order, after the
+ * tuners the app already applies to that kind of feed.
+ */
+const feedTunerRuleSchema = z.discriminatedUnion('type', [
+  z.object({type: z.literal('removeReposts')}),
+  z.object({type: z.literal('removeReplies')}),
+  z.object({type: z.literal('removeQuotePosts')}),
+  z.object({type: z.literal('followedRepliesOnly')}),
+  z.object({type: z.literal('preferredLangOnly')}),
+  z.object({type: z.literal('hideOldReposts'), maxAgeDays: z.number()}),
+  z.object({type: z.literal('hideLinkDomains'), domains: z.array(z.string())}),
+  z.object({type: z.literal('maxRepostsPerReposter'), max: z.number()}),
+  z.object({type: z.literal('hideRecentFollows'), minDays: z.number()}),
+])
+export type FeedTunerRule = z.infer<typeof feedTunerRuleSchema>
+
+/**
+ * An on-device mute, checked on top of the muted words synced with the
+ * account. The post text is always checked, `targets` adds embedded content.
+ */
+const localMuteRuleSchema = z.object({
+  id: z.string(),
+  /**
+   * `phrase` matches whole words case-insensitively, `regex` is passed to
+   * `RegExp` with the `i` flag.
+   */
+  type: z.enum(['phrase', 'regex']),
+  value: z.string(),
+  contexts: z.array(z.enum(['feeds', 'threads', 'notifications'])),
+  targets: z.array(z.enum(['altText', 'linkTitles', 'quotedPosts'])),
+  nonFollowedOnly: z.boolean(),
+  /**
+   * ISO date, the rule is ignored once it has passed.
+   */
+  expiresAt: z.string().optional(),
+})
+export type LocalMuteRule = z.infer<typeof localMuteRuleSchema>
+
 const schema = z.object({
   colorMode: z.enum(['system', 'light', 'dark']),
   darkTheme: z.enum(['dim', 'dark']).optional(),
@@ -140,6 +212,13 @@ const schema = z.object({
       trusted: z.array(z.string()),
     })
     .optional(),
+  localFeeds: z.array(localFeedSchema).optional(),
+  /**
+   * Keyed by feed descriptor, except author feeds which are keyed by
+   * `author|<did>` so the rules apply to every tab of a profile.
+   */
+  feedTunerRules: z.record(z.string(), z.array(feedTunerRuleSchema)).optional(),
+  localMuteRules: z.array(localMuteRuleSchema).optional(),
 
   /** @deprecated */
   mutedThreads: z.array(z.string()),
@@ -148,6 +227,31 @@ const schema = z.object({
 })
 export type Schema = z.infer<typeof schema>
 
+// deer
+/**
+ * The deer-specific subset of the persisted schema, used by the deer data
+ * archive to move settings between devices.
+ */
+export const deerSettingsSchema = schema.pick({
+  goLinksEnabled: true,
+  constellationEnabled: true,
+  directFetchRecords: true,
+  noAppLabelers: true,
+  noDiscoverFallback: true,
+  repostCarouselEnabled: true,
+  hideFollowNotifications: true,
+  constellationInstance: true,
+  showLinkInHandle: true,
+  deerVerification: true,
+  localFeeds: true,
+  feedTunerRules: true,
+  localMuteRules: true,
+})
+export type DeerSettings = z.infer<typeof deerSettingsSchema>
+export const deerSettingsKeys = Object.keys(
+  deerSettingsSchema.shape,
+) as (keyof DeerSettings)[]
+
 export const defaults: Schema = {
   colorMode: 'system',
   darkTheme: 'dim',
@@ -213,6 +317,9 @@ export const defaults: Schema = {
       'did:plc:b2kutgxqlltwc6lhs724cfwr',
     ],
   },
+  localFeeds: [],
+  feedTunerRules: {},
+  localMuteRules: [],
 }
 
 export function tryParse(rawData: string): Schema | undefined {
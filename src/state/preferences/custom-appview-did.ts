@@ -1,6 +1,33 @@
+import {useCallback, useEffect, useState} from 'react'
 import {isDid} from '@atproto/api'
+import EventEmitter from 'eventemitter3'
 
-import {device, useStorage} from '#/storage'
+import {account, device, type KnownAppView, useStorage} from '#/storage'
+
+/**
+ * How many AppView requests in a row have to fail before we stop using a
+ * custom AppView for the rest of the session.
+ */
+const FAILURE_THRESHOLD = 3
+
+const events = new EventEmitter<{change: []}>()
+let consecutiveFailures = 0
+let fallbackActive = false
+
+/**
+ * Subscribe to anything that changes which AppView requests should be
+ * proxied through: the device or account setting, or the fallback kicking in.
+ */
+export function onAppViewChange(callback: () => void) {
+  events.on('change', callback)
+  return () => {
+    events.off('change', callback)
+  }
+}
+
+function emitAppViewChange() {
+  events.emit('change')
+}
 
 export function useCustomAppViewDid() {
   const [customAppViewDid = undefined, setCustomAppViewDid] = useStorage(
@@ -8,14 +35,114 @@ export function useCustomAppViewDid() {
     ['customAppViewDid'],
   )
 
-  return [customAppViewDid, setCustomAppViewDid] as const
+  const set = useCallback(
+    (did: string | undefined) => {
+      setCustomAppViewDid(did)
+      emitAppViewChange()
+    },
+    [setCustomAppViewDid],
+  )
+
+  return [customAppViewDid, set] as const
 }
 
-export function readCustomAppViewDidUri() {
-  const maybeDid = device.get(['customAppViewDid'])
-  if (!isDid(maybeDid)) {
+/**
+ * The AppView override for a single account, which takes precedence over the
+ * device-wide setting.
+ */
+export function useAccountAppViewDid(did: string | undefined) {
+  const [accountAppViewDid = undefined, setAccountAppViewDid] = useStorage(
+    account,
+    [did ?? '', 'customAppViewDid'],
+  )
+
+  const set = useCallback(
+    (appViewDid: string | undefined) => {
+      if (!did) return
+      setAccountAppViewDid(appViewDid)
+      emitAppViewChange()
+    },
+    [did, setAccountAppViewDid],
+  )
+
+  return [did ? accountAppViewDid : undefined, set] as const
+}
+
+export function readCustomAppViewDid(accountDid?: string) {
+  const maybeDid =
+    (accountDid && account.get([accountDid, 'customAppViewDid'])) ||
+    device.get(['customAppViewDid'])
+  return isDid(maybeDid) ? maybeDid : undefined
+}
+
+export function readCustomAppViewDidUri(accountDid?: string) {
+  if (fallbackActive) {
+    return undefined
+  }
+
+  const maybeDid = readCustomAppViewDid(accountDid)
+  if (!maybeDid) {
     return undefined
   }
 
   return `${maybeDid}#bsky_appview` as `did:${string}#bsky_appview`
 }
+
+export function useKnownAppViews() {
+  const [knownAppViews = [], setKnownAppViews] = useStorage(device, [
+    'knownAppViews',
+  ])
+
+  const remember = useCallback(
+    (appView: KnownAppView) => {
+      setKnownAppViews([
+        appView,
+        ...knownAppViews.filter(known => known.did !== appView.did),
+      ])
+    },
+    [knownAppViews, setKnownAppViews],
+  )
+
+  const forget = useCallback(
+    (did: string) => {
+      setKnownAppViews(knownAppViews.filter(known => known.did !== did))
+    },
+    [knownAppViews, setKnownAppViews],
+  )
+
+  return {knownAppViews, remember, forget}
+}
+
+/**
+ * Called by the agent with the outcome of each request it proxied to a custom
+ * AppView. Enough failures in a row switch everything back to the default
+ * AppView until {@link resetAppViewFallback} is called.
+ */
+export function reportCustomAppViewResponse(ok: boolean) {
+  if (ok) {
+    consecutiveFailures = 0
+    return
+  }
+  consecutiveFailures++
+  if (consecutiveFailures >= FAILURE_THRESHOLD && !fallbackActive) {
+    fallbackActive = true
+    emitAppViewChange()
+  }
+}
+
+export function resetAppViewFallback() {
+  consecutiveFailures = 0
+  if (fallbackActive) {
+    fallbackActive = false
+    emitAppViewChange()
+  }
+}
+
+export function useAppViewFallbackActive() {
+  const [active, setActive] = useState(fallbackActive)
+  useEffect(() => {
+    setActive(fallbackActive)
+    return onAppViewChange(() => setActive(fallbackActive))
+  }, [])
+  return active
+}
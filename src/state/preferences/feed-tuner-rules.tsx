@@ -0,0 +1,69 @@
+import React from 'react'
+
+import * as persisted from '#/state/persisted'
+import {type FeedTunerRule} from '#/state/persisted/schema'
+import {type FeedDescriptor} from '#/state/queries/post-feed'
+
+type StateContext = NonNullable<persisted.Schema['feedTunerRules']>
+type SetContext = (key: string, rules: FeedTunerRule[]) => void
+
+const stateContext = React.createContext<StateContext>(
+  persisted.defaults.feedTunerRules ?? {},
+)
+const setContext = React.createContext<SetContext>(
+  (_: string, __: FeedTunerRule[]) => {},
+)
+
+export function Provider({children}: React.PropsWithChildren<{}>) {
+  const [state, setState] = React.useState(
+    persisted.get('feedTunerRules') ?? {},
+  )
+
+  const setStateWrapped = React.useCallback(
+    (key: string, rules: FeedTunerRule[]) => {
+      const {[key]: _, ...rest} = persisted.get('feedTunerRules') ?? {}
+      const feedTunerRules = rules.length ? {...rest, [key]: rules} : rest
+      setState(feedTunerRules)
+      persisted.write('feedTunerRules', feedTunerRules)
+    },
+    [setState],
+  )
+
+  React.useEffect(() => {
+    return persisted.onUpdate('feedTunerRules', nextFeedTunerRules => {
+      setState(nextFeedTunerRules ?? {})
+    })
+  }, [setStateWrapped])
+
+  return (
+    <stateContext.Provider value={state}>
+      <setContext.Provider value={setStateWrapped}>
+        {children}
+      </setContext.Provider>
+    </stateContext.Provider>
+  )
+}
+
+/**
+ * Author feeds share one chain across all of a profile's tabs, every other
+ * feed is keyed by its descriptor.
+ */
+export function feedTunerRulesKey(feedDesc: FeedDescriptor) {
+  if (feedDesc.startsWith('author|')) {
+    return feedDesc.split('|').slice(0, 2).join('|')
+  }
+  return feedDesc
+}
+
+export function useAllFeedTunerRules() {
+  return React.useContext(stateContext)
+}
+
+export function useFeedTunerRules(feedDesc: FeedDescriptor) {
+  const rules = React.useContext(stateContext)
+  return rules[feedTunerRulesKey(feedDesc)]
+}
+
+export function useSetFeedTunerRules() {
+  return React.useContext(setContext)
+}
@@ -1,23 +1,54 @@
 import {useMemo} from 'react'
 
-import {FeedTuner} from '#/lib/api/feed-manip'
+import {FeedTuner, type FeedTunerFn} from '#/lib/api/feed-manip'
+import {type FeedTunerRule} from '#/state/persisted/schema'
 import {FeedDescriptor} from '../queries/post-feed'
 import {usePreferencesQuery} from '../queries/preferences'
 import {useSession} from '../session'
+import {useFeedTunerRules} from './feed-tuner-rules'
 import {useLanguagePrefs} from './languages'
+import {useLocalFeed} from './local-feeds'
+import {useLocalMuteMatchers} from './local-mutes'
 
 export function useFeedTuners(feedDesc: FeedDescriptor) {
   const langPrefs = useLanguagePrefs()
   const {data: preferences} = usePreferencesQuery()
   const {currentAccount} = useSession()
+  const localFeed = useLocalFeed(
+    feedDesc.startsWith('local') ? feedDesc.split('|')[1] : undefined,
+  )
+  const rules = useFeedTunerRules(feedDesc)
+  const localMutes = useLocalMuteMatchers('feeds')
 
-  return useMemo(() => {
+  const defaultTuners = useMemo(() => {
     if (feedDesc.startsWith('author')) {
       if (feedDesc.endsWith('|posts_with_replies')) {
         // TODO: Do this on the server instead.
         return [FeedTuner.removeReposts]
       }
     }
+    if (feedDesc.startsWith('local')) {
+      const feedTuners: FeedTunerFn[] = []
+      const rules = localFeed?.rules ?? {}
+
+      if (rules.mediaOnly) {
+        feedTuners.push(FeedTuner.removeNonMedia)
+      }
+      if (rules.minLikes) {
+        feedTuners.push(FeedTuner.minLikes(rules.minLikes))
+      }
+      if (rules.excludeKeywords?.length) {
+        feedTuners.push(FeedTuner.excludeKeywords(rules.excludeKeywords))
+      }
+      if (rules.languages?.length) {
+        feedTuners.push(FeedTuner.languagesOnly(rules.languages))
+      }
+      if (rules.maxPerAuthor) {
+        feedTuners.push(FeedTuner.maxPerAuthor(rules.maxPerAuthor))
+      }
+
+      return feedTuners
+    }
     if (feedDesc.startsWith('feedgen')) {
       return [FeedTuner.preferredLangOnly(langPrefs.contentLanguages)]
     }
@@ -44,5 +75,50 @@ export function useFeedTuners(feedDesc: FeedDescriptor) {
       return feedTuners
     }
     return []
-  }, [feedDesc, currentAccount, preferences, langPrefs])
+  }, [feedDesc, currentAccount, preferences, langPrefs, localFeed])
+
+  return useMemo(() => {
+    const feedTuners: FeedTunerFn[] = [
+      ...defaultTuners,
+      ...(rules ?? []).map(rule =>
+        feedTunerForRule(rule, {
+          userDid: currentAccount?.did || '',
+          contentLanguages: langPrefs.contentLanguages,
+        }),
+      ),
+    ]
+    if (localMutes.length) {
+      // last, so it only marks what's left
+      feedTuners.push(
+        FeedTuner.localMutes(localMutes, {currentDid: currentAccount?.did}),
+      )
+    }
+    return feedTuners
+  }, [defaultTuners, rules, localMutes, currentAccount, langPrefs])
+}
+
+function feedTunerForRule(
+  rule: FeedTunerRule,
+  {userDid, contentLanguages}: {userDid: string; contentLanguages: string[]},
+): FeedTunerFn {
+  switch (rule.type) {
+    case 'removeReposts':
+      return FeedTuner.removeReposts
+    case 'removeReplies':
+      return FeedTuner.removeReplies
+    case 'removeQuotePosts':
+      return FeedTuner.removeQuotePosts
+    case 'followedRepliesOnly':
+      return FeedTuner.followedRepliesOnly({userDid})
+    case 'preferredLangOnly':
+      return FeedTuner.preferredLangOnly(contentLanguages)
+    case 'hideOldReposts':
+      return FeedTuner.hideOldReposts(rule.maxAgeDays)
+    case 'hideLinkDomains':
+      return FeedTuner.hideLinkDomains(rule.domains)
+    case 'maxRepostsPerReposter':
+      return FeedTuner.maxRepostsPerReposter(rule.max)
+    case 'hideRecentFollows':
+      return FeedTuner.hideRecentFollows(rule.minDays)
+  }
 }
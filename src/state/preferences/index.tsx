@@ -8,6 +8,7 @@ import {Provider as DeerVerificationProvider} from './deer-verification'
 import {Provider as DirectFetchRecordsProvider} from './direct-fetch-records'
 import {Provider as DisableHapticsProvider} from './disable-haptics'
 import {Provider as ExternalEmbedsProvider} from './external-embeds-prefs'
+import {Provider as FeedTunerRulesProvider} from './feed-tuner-rules'
 import {Provider as GoLinksProvider} from './go-links-enabled'
 import {Provider as HiddenPostsProvider} from './hidden-posts'
 import {Provider as FollowNotificationsProvider} from './hide-follow-notifications'
@@ -15,6 +16,8 @@ import {Provider as InAppBrowserProvider} from './in-app-browser'
 import {Provider as KawaiiProvider} from './kawaii'
 import {Provider as LanguagesProvider} from './languages'
 import {Provider as LargeAltBadgeProvider} from './large-alt-badge'
+import {Provider as LocalFeedsProvider} from './local-feeds'
+import {Provider as LocalMutesProvider} from './local-mutes'
 import {Provider as NoAppLabelersProvider} from './no-app-labelers'
 import {Provider as NoDiscoverProvider} from './no-discover-fallback'
 import {Provider as RepostCarouselProvider} from './repost-carousel-enabled'
@@ -63,7 +66,13 @@ export function Provider({children}: React.PropsWithChildren<{}>) {
                                           <TrendingSettingsProvider>
                                             <RepostCarouselProvider>
                                               <KawaiiProvider>
-                                                {children}
+                                                <LocalFeedsProvider>
+                                                  <FeedTunerRulesProvider>
+                                                    <LocalMutesProvider>
+                                                      {children}
+                                                    </LocalMutesProvider>
+                                                  </FeedTunerRulesProvider>
+                                                </LocalFeedsProvider>
                                               </KawaiiProvider>
                                             </RepostCarouselProvider>
                                           </TrendingSettingsProvider>
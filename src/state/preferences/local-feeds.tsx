@@ -0,0 +1,79 @@
+import React from 'react'
+
+import * as persisted from '#/state/persisted'
+import {type LocalFeed} from '#/state/persisted/schema'
+
+type StateContext = LocalFeed[]
+type ApiContext = {
+  saveLocalFeed: (feed: LocalFeed) => void
+  removeLocalFeed: (id: string) => void
+  setLocalFeedPinned: (id: string, pinned: boolean) => void
+}
+
+const stateContext = React.createContext<StateContext>(
+  persisted.defaults.localFeeds ?? [],
+)
+const apiContext = React.createContext<ApiContext>({
+  saveLocalFeed: (_: LocalFeed) => {},
+  removeLocalFeed: (_: string) => {},
+  setLocalFeedPinned: (_: string, __: boolean) => {},
+})
+
+export function Provider({children}: React.PropsWithChildren<{}>) {
+  const [state, setState] = React.useState(persisted.get('localFeeds') ?? [])
+
+  const setStateWrapped = React.useCallback(
+    (fn: (prev: LocalFeed[]) => LocalFeed[]) => {
+      const localFeeds = fn(persisted.get('localFeeds') ?? [])
+      setState(localFeeds)
+      persisted.write('localFeeds', localFeeds)
+    },
+    [setState],
+  )
+
+  React.useEffect(() => {
+    return persisted.onUpdate('localFeeds', nextLocalFeeds => {
+      setState(nextLocalFeeds ?? [])
+    })
+  }, [setStateWrapped])
+
+  const api = React.useMemo(
+    () => ({
+      saveLocalFeed(feed: LocalFeed) {
+        setStateWrapped(prev =>
+          prev.some(f => f.id === feed.id)
+            ? prev.map(f => (f.id === feed.id ? feed : f))
+            : [...prev, feed],
+        )
+      },
+      removeLocalFeed(id: string) {
+        setStateWrapped(prev => prev.filter(f => f.id !== id))
+      },
+      setLocalFeedPinned(id: string, pinned: boolean) {
+        setStateWrapped(prev =>
+          prev.map(f => (f.id === id ? {...f, pinned} : f)),
+        )
+      },
+    }),
+    [setStateWrapped],
+  )
+
+  return (
+    <stateContext.Provider value={state}>
+      <apiContext.Provider value={api}>{children}</apiContext.Provider>
+    </stateContext.Provider>
+  )
+}
+
+export function useLocalFeeds() {
+  return React.useContext(stateContext)
+}
+
+export function useLocalFeed(id: string | undefined) {
+  const localFeeds = useLocalFeeds()
+  return id ? localFeeds.find(f => f.id === id) : undefined
+}
+
+export function useLocalFeedsApi() {
+  return React.useContext(apiContext)
+}
@@ -0,0 +1,116 @@
+import React from 'react'
+
+import {
+  compileLocalMuteRules,
+  type LocalMuteContext,
+} from '#/lib/moderation/local-mutes'
+import * as persisted from '#/state/persisted'
+import {type LocalMuteRule} from '#/state/persisted/schema'
+
+// setTimeout overflows past this
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+type StateContext = {
+  rules: LocalMuteRule[]
+  /**
+   * Bumped when a rule expires, so matchers get recompiled without it.
+   */
+  now: number
+}
+type ApiContext = {
+  saveLocalMuteRule: (rule: LocalMuteRule) => void
+  removeLocalMuteRule: (id: string) => void
+}
+
+const stateContext = React.createContext<StateContext>({
+  rules: persisted.defaults.localMuteRules ?? [],
+  now: Date.now(),
+})
+const apiContext = React.createContext<ApiContext>({
+  saveLocalMuteRule: (_: LocalMuteRule) => {},
+  removeLocalMuteRule: (_: string) => {},
+})
+
+export function Provider({children}: React.PropsWithChildren<{}>) {
+  const [rules, setRules] = React.useState(
+    persisted.get('localMuteRules') ?? [],
+  )
+  const [now, setNow] = React.useState(Date.now)
+
+  const setStateWrapped = React.useCallback(
+    (fn: (prev: LocalMuteRule[]) => LocalMuteRule[]) => {
+      const localMuteRules = fn(persisted.get('localMuteRules') ?? [])
+      setRules(localMuteRules)
+      persisted.write('localMuteRules', localMuteRules)
+    },
+    [setRules],
+  )
+
+  React.useEffect(() => {
+    return persisted.onUpdate('localMuteRules', nextLocalMuteRules => {
+      setRules(nextLocalMuteRules ?? [])
+    })
+  }, [setStateWrapped])
+
+  React.useEffect(() => {
+    const nextExpiry = Math.min(
+      ...rules
+        .map(rule =>
+          rule.expiresAt ? new Date(rule.expiresAt).getTime() : NaN,
+        )
+        .filter(expiry => expiry > now),
+    )
+    if (!Number.isFinite(nextExpiry)) {
+      return
+    }
+    const timeout = setTimeout(
+      () => setNow(Date.now()),
+      Math.min(nextExpiry - now, MAX_TIMEOUT),
+    )
+    return () => clearTimeout(timeout)
+  }, [rules, now])
+
+  const state = React.useMemo(() => ({rules, now}), [rules, now])
+
+  const api = React.useMemo(
+    () => ({
+      saveLocalMuteRule(rule: LocalMuteRule) {
+        setStateWrapped(prev =>
+          prev.some(r => r.id === rule.id)
+            ? prev.map(r => (r.id === rule.id ? rule : r))
+            : [...prev, rule],
+        )
+      },
+      removeLocalMuteRule(id: string) {
+        setStateWrapped(prev => prev.filter(r => r.id !== id))
+      },
+    }),
+    [setStateWrapped],
+  )
+
+  return (
+    <stateContext.Provider value={state}>
+      <apiContext.Provider value={api}>{children}</apiContext.Provider>
+    </stateContext.Provider>
+  )
+}
+
+export function useLocalMuteRules() {
+  return React.useContext(stateContext).rules
+}
+
+/**
+ * The compiled rules that apply in `context`, without expired ones. The
+ * result is stable until the rules change or one of them expires.
+ */
+export function useLocalMuteMatchers(context: LocalMuteContext) {
+  const {rules, now} = React.useContext(stateContext)
+  return React.useMemo(
+    () => compileLocalMuteRules(rules, context, now),
+    [rules, context, now],
+  )
+}
+
+export function useLocalMuteRulesApi() {
+  return React.useContext(apiContext)
+}
@@ -0,0 +1,139 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals'
+
+import {
+  asyncGenCollect,
+  ConstellationClient,
+  ConstellationError,
+} from '../constellation'
+
+const INSTANCE = 'https://constellation.example'
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {'Content-Type': 'application/json'},
+    ...init,
+  })
+}
+
+const countsBody = {
+  links: {
+    'app.bsky.feed.like': {'.subject.uri': {distinct_dids: 3, records: 4}},
+    'app.bsky.feed.post': {'.reply.parent.uri': {distinct_dids: 1, records: 2}},
+  },
+}
+
+describe('ConstellationClient', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('follows cursors when listing links', async () => {
+    const fetchFn = jest
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        jsonResponse({
+          total: 2,
+          linking_records: [
+            {did: 'did:plc:a', collection: 'app.bsky.feed.like', rkey: '1'},
+          ],
+          cursor: 'next',
+        }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          total: 2,
+          linking_records: [
+            {did: 'did:plc:b', collection: 'app.bsky.feed.like', rkey: '2'},
+          ],
+          cursor: null,
+        }),
+      )
+    const client = new ConstellationClient(INSTANCE, fetchFn)
+
+    const links = await asyncGenCollect(
+      client.links({
+        target: 'at://did:plc:c/app.bsky.feed.post/3',
+        collection: 'app.bsky.feed.like',
+        path: '.subject.uri',
+      }),
+    )
+
+    expect(links.map(link => link.did)).toEqual(['did:plc:a', 'did:plc:b'])
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(String(fetchFn.mock.calls[1][0])).toContain('cursor=next')
+  })
+
+  it('rejects responses that do not match the expected shape', async () => {
+    const fetchFn = jest
+      .fn<typeof fetch>()
+      .mockResolvedValue(jsonResponse({links: 'nope'}))
+    const client = new ConstellationClient(INSTANCE, fetchFn)
+
+    await expect(client.counts('at://post')).rejects.toBeInstanceOf(
+      ConstellationError,
+    )
+  })
+
+  it('retries rate limited requests', async () => {
+    const fetchFn = jest
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        new Response('', {status: 429, headers: {'Retry-After': '1'}}),
+      )
+      .mockResolvedValueOnce(jsonResponse(countsBody))
+    const client = new ConstellationClient(INSTANCE, fetchFn)
+
+    const promise = client.counts('at://post')
+    await jest.advanceTimersByTimeAsync(1000)
+
+    await expect(promise).resolves.toEqual({
+      likeCount: 3,
+      repostCount: 0,
+      replyCount: 2,
+      quoteCount: 0,
+    })
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry client errors', async () => {
+    const fetchFn = jest
+      .fn<typeof fetch>()
+      .mockResolvedValue(new Response('', {status: 400}))
+    const client = new ConstellationClient(INSTANCE, fetchFn)
+
+    await expect(client.counts('at://post')).rejects.toMatchObject({
+      status: 400,
+    })
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares and caches count lookups for the same post', async () => {
+    const fetchFn = jest
+      .fn<typeof fetch>()
+      .mockImplementation(async () => jsonResponse(countsBody))
+    const client = new ConstellationClient(INSTANCE, fetchFn)
+
+    await Promise.all([client.counts('at://post'), client.counts('at://post')])
+    await client.counts('at://post')
+
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops waiting when the signal is aborted', async () => {
+    const fetchFn = jest
+      .fn<typeof fetch>()
+      .mockImplementation(() => new Promise(() => {}))
+    const client = new ConstellationClient(INSTANCE, fetchFn)
+    const controller = new AbortController()
+
+    const promise = client.counts('at://post', {signal: controller.signal})
+    controller.abort()
+
+    await expect(promise).rejects.toMatchObject({name: 'AbortError'})
+  })
+})
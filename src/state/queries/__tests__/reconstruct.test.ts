@@ -0,0 +1,257 @@
+import {type AppBskyFeedDefs, type BskyAgent} from '@atproto/api'
+import {afterEach, describe, expect, it, jest} from '@jest/globals'
+
+import {isDirectFetched, reconstructThread} from '../usePostThread/reconstruct'
+import {type ApiThreadItem} from '../usePostThread/types'
+
+jest.mock('#/logger', () => ({
+  logger: {warn: jest.fn()},
+}))
+// pulls in the native dialogs otherwise
+jest.mock('#/state/session', () => ({}))
+jest.mock('#/state/queries/resolve-identity', () => ({
+  resolvePdsServiceUrl: async () => 'https://pds.example',
+}))
+
+const INSTANCE = 'https://constellation.example'
+const AUTHOR = 'did:plc:author'
+const REPLIER = 'did:plc:replier'
+
+// posts are cached by uri, so each test uses its own rkeys
+let nextRkey = 0
+function makeUri(did: string) {
+  return `at://${did}/app.bsky.feed.post/${nextRkey++}`
+}
+
+function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {'Content-Type': 'application/json'},
+    ...init,
+  })
+}
+
+function makeRecord(text: string, createdAt: string) {
+  return {$type: 'app.bsky.feed.post', text, createdAt}
+}
+
+function postItem(uri: string, depth: number, replyCount = 0): ApiThreadItem {
+  const post: AppBskyFeedDefs.PostView = {
+    $type: 'app.bsky.feed.defs#postView',
+    uri,
+    cid: 'cid',
+    author: {did: AUTHOR, handle: 'author.test'},
+    record: makeRecord('post', '2025-01-01T00:00:00.000Z'),
+    replyCount,
+    indexedAt: '2025-01-01T00:00:00.000Z',
+  }
+  return {
+    $type: 'app.bsky.unspecced.getPostThreadV2#threadItem',
+    uri,
+    depth,
+    value: {
+      $type: 'app.bsky.unspecced.defs#threadItemPost',
+      post,
+      opThread: false,
+      moreParents: false,
+      moreReplies: 0,
+      hiddenByThreadgate: false,
+      mutedByViewer: false,
+    },
+  }
+}
+
+function blockedItem(uri: string, depth: number): ApiThreadItem {
+  return {
+    $type: 'app.bsky.unspecced.getPostThreadV2#threadItem',
+    uri,
+    depth,
+    value: {
+      $type: 'app.bsky.unspecced.defs#threadItemBlocked',
+      author: {did: REPLIER},
+    },
+  }
+}
+
+function getPost(item: ApiThreadItem) {
+  return (item.value as {post: AppBskyFeedDefs.PostView}).post
+}
+
+/**
+ * Answers PDS `getRecord` calls from `records`, and Constellation reply
+ * lookups from `replies`.
+ */
+function mockFetch({
+  records = {},
+  replies = {},
+}: {
+  records?: Record<string, {text: string; createdAt: string}>
+  replies?: Record<string, string[]>
+}) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async input => {
+    const url = new URL(input instanceof Request ? input.url : String(input))
+    if (url.origin === INSTANCE) {
+      const uris = replies[url.searchParams.get('target')!] ?? []
+      return jsonResponse({
+        total: uris.length,
+        linking_records: uris.map(uri => {
+          const [did, collection, rkey] = uri.slice('at://'.length).split('/')
+          return {did, collection, rkey}
+        }),
+        cursor: null,
+      })
+    }
+    const uri = `at://${url.searchParams.get('repo')}/${url.searchParams.get(
+      'collection',
+    )}/${url.searchParams.get('rkey')}`
+    const record = records[uri]
+    if (!record) {
+      return new Response('', {status: 400})
+    }
+    return jsonResponse({
+      uri,
+      cid: 'cid',
+      value: makeRecord(record.text, record.createdAt),
+    })
+  })
+}
+
+function makeAgent(getProfile?: () => Promise<unknown>) {
+  return {
+    getProfile: jest.fn(
+      getProfile ??
+        (async () => ({
+          data: {
+            $type: 'app.bsky.actor.defs#profileViewDetailed',
+            did: REPLIER,
+            handle: 'replier.test',
+            displayName: 'Replier',
+            followersCount: 10,
+          },
+        })),
+    ),
+  } as unknown as BskyAgent
+}
+
+describe('reconstructThread', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('replaces blocked posts with copies from the PDS', async () => {
+    const anchorUri = makeUri(AUTHOR)
+    const replyUri = makeUri(REPLIER)
+    mockFetch({
+      records: {
+        [replyUri]: {text: 'hidden', createdAt: '2025-01-02T00:00:00.000Z'},
+      },
+    })
+
+    const result = await reconstructThread({
+      agent: makeAgent(),
+      instance: INSTANCE,
+      thread: [postItem(anchorUri, 0, 1), blockedItem(replyUri, 1)],
+      maxDepth: 5,
+    })
+
+    expect(result.map(item => item.uri)).toEqual([anchorUri, replyUri])
+    expect(isDirectFetched(result[1].value)).toBe(true)
+    const post = getPost(result[1])
+    expect(post.record).toMatchObject({text: 'hidden'})
+    expect(post.author).toEqual(
+      expect.objectContaining({
+        $type: 'app.bsky.actor.defs#profileViewBasic',
+        did: REPLIER,
+        handle: 'replier.test',
+        displayName: 'Replier',
+      }),
+    )
+    // only the fields of a basic profile view are kept
+    expect(post.author).not.toHaveProperty('followersCount')
+  })
+
+  it('adds replies the AppView dropped, oldest first', async () => {
+    const anchorUri = makeUri(AUTHOR)
+    const knownUri = makeUri(AUTHOR)
+    const laterUri = makeUri(REPLIER)
+    const earlierUri = makeUri(REPLIER)
+    mockFetch({
+      records: {
+        [laterUri]: {text: 'later', createdAt: '2025-01-03T00:00:00.000Z'},
+        [earlierUri]: {text: 'earlier', createdAt: '2025-01-02T00:00:00.000Z'},
+      },
+      replies: {[anchorUri]: [knownUri, laterUri, earlierUri]},
+    })
+
+    const result = await reconstructThread({
+      agent: makeAgent(),
+      instance: INSTANCE,
+      thread: [postItem(anchorUri, 0, 3), postItem(knownUri, 1)],
+      maxDepth: 5,
+    })
+
+    expect(result.map(item => [item.uri, item.depth])).toEqual([
+      [anchorUri, 0],
+      [knownUri, 1],
+      [earlierUri, 1],
+      [laterUri, 1],
+    ])
+  })
+
+  it('keeps the original item when the PDS has nothing', async () => {
+    const anchorUri = makeUri(AUTHOR)
+    const replyUri = makeUri(REPLIER)
+    mockFetch({})
+
+    const blocked = blockedItem(replyUri, 1)
+    const result = await reconstructThread({
+      agent: makeAgent(),
+      instance: INSTANCE,
+      thread: [postItem(anchorUri, 0, 1), blocked],
+      maxDepth: 5,
+    })
+
+    expect(result).toEqual([expect.anything(), blocked])
+  })
+
+  it('falls back to a placeholder author when the profile fails to load', async () => {
+    const anchorUri = makeUri(AUTHOR)
+    const replyUri = makeUri(REPLIER)
+    mockFetch({
+      records: {
+        [replyUri]: {text: 'hidden', createdAt: '2025-01-02T00:00:00.000Z'},
+      },
+    })
+
+    const result = await reconstructThread({
+      agent: makeAgent(() => Promise.reject(new Error('blocked'))),
+      instance: INSTANCE,
+      thread: [postItem(anchorUri, 0, 1), blockedItem(replyUri, 1)],
+      maxDepth: 5,
+    })
+
+    expect(getPost(result[1]).author).toEqual({
+      $type: 'app.bsky.actor.defs#profileViewBasic',
+      did: REPLIER,
+      handle: 'handle.invalid',
+    })
+  })
+
+  it('does not look for replies below maxDepth', async () => {
+    const anchorUri = makeUri(AUTHOR)
+    const fetchSpy = mockFetch({
+      replies: {[anchorUri]: [makeUri(REPLIER)]},
+    })
+
+    const thread = [postItem(anchorUri, 0, 1)]
+    const result = await reconstructThread({
+      agent: makeAgent(),
+      instance: INSTANCE,
+      thread,
+      maxDepth: 0,
+    })
+
+    expect(result).toEqual(thread)
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
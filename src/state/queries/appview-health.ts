@@ -0,0 +1,76 @@
+import {type Did, isDid} from '@atproto/api'
+
+import {type KnownAppView} from '#/storage'
+import {findService, resolveDidDocument} from './resolve-identity'
+
+const HEALTH_CHECK_TIMEOUT = 10_000
+
+export class AppViewCheckError extends Error {
+  constructor(
+    public readonly reason:
+      | 'invalid-did'
+      | 'resolution-failed'
+      | 'no-service'
+      | 'unreachable'
+      | 'unhealthy',
+    message: string,
+  ) {
+    super(message)
+    this.name = 'AppViewCheckError'
+  }
+}
+
+/**
+ * Makes sure a DID points at a working AppView before we switch to it: the
+ * DID document has to advertise a `#bsky_appview` service, and that service
+ * has to answer its health check.
+ */
+export async function checkAppView(did: string): Promise<KnownAppView> {
+  if (!isDid(did) || did.includes('#') || did.includes('?')) {
+    throw new AppViewCheckError('invalid-did', `Not a DID: ${did}`)
+  }
+
+  let endpoint: string | undefined
+  try {
+    const doc = await resolveDidDocument(did as Did)
+    endpoint = findService(doc, '#bsky_appview', 'BskyAppView')?.serviceEndpoint
+  } catch (e) {
+    throw new AppViewCheckError(
+      'resolution-failed',
+      `Failed to resolve ${did}: ${e}`,
+    )
+  }
+  if (!endpoint) {
+    throw new AppViewCheckError(
+      'no-service',
+      `${did} doesn't advertise a #bsky_appview service`,
+    )
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT)
+  let res: Response
+  try {
+    res = await fetch(new URL('/xrpc/_health', endpoint), {
+      signal: controller.signal,
+    })
+  } catch (e) {
+    throw new AppViewCheckError('unreachable', `${endpoint} is unreachable`)
+  } finally {
+    clearTimeout(timeout)
+  }
+  if (!res.ok) {
+    throw new AppViewCheckError(
+      'unhealthy',
+      `${endpoint} failed its health check with status ${res.status}`,
+    )
+  }
+
+  const body = (await res.json().catch(() => ({}))) as {version?: unknown}
+  return {
+    did,
+    endpoint,
+    version: typeof body.version === 'string' ? body.version : undefined,
+    checkedAt: new Date().toISOString(),
+  }
+}
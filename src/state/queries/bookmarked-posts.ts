@@ -0,0 +1,36 @@
+import {type AppBskyFeedDefs} from '@atproto/api'
+import {keepPreviousData, useQuery} from '@tanstack/react-query'
+import chunk from 'lodash.chunk'
+
+import {useAgent} from '#/state/session'
+
+// app.bsky.feed.getPosts accepts at most 25 uris per call
+const MAX_URIS_PER_REQUEST = 25
+
+const RQKEY_ROOT = 'bookmarked-posts'
+export const RQKEY = (uris: string[]) => [RQKEY_ROOT, ...uris]
+
+/**
+ * Hydrates locally saved bookmarks. Posts the AppView no longer returns
+ * (deleted, taken down, blocked) are simply missing from the resulting map.
+ */
+export function useBookmarkedPostsQuery(uris: string[]) {
+  const agent = useAgent()
+  return useQuery<Map<string, AppBskyFeedDefs.PostView>>({
+    queryKey: RQKEY(uris),
+    async queryFn() {
+      const posts = new Map<string, AppBskyFeedDefs.PostView>()
+      const results = await Promise.all(
+        chunk(uris, MAX_URIS_PER_REQUEST).map(uris =>
+          agent.getPosts({uris}).then(res => res.data.posts),
+        ),
+      )
+      for (const post of results.flat()) {
+        posts.set(post.uri, post)
+      }
+      return posts
+    },
+    enabled: uris.length > 0,
+    placeholderData: keepPreviousData,
+  })
+}
@@ -1,3 +1,10 @@
+import {useQuery} from '@tanstack/react-query'
+import {z} from 'zod'
+
+import {CONSTELLATION_USER_AGENT} from '#/lib/constants'
+import {useConstellationInstance} from '#/state/preferences/constellation-instance'
+import {STALE} from '#/state/queries'
+
 export type ConstellationLink = {
   did: `did:${string}`
   collection: string
@@ -20,9 +27,22 @@ type Collection =
   | 'app.bsky.graph.verification'
   | 'chat.bsky.actor.declaration'
 
+type LinksParams = {
+  target: string
+  collection: Collection
+  path: string
+  from_dids?: string[]
+}
+
+export type ConstellationLinksPage = {
+  total: number
+  links: ConstellationLink[]
+  cursor: string | undefined
+}
+
 const headers = new Headers({
   Accept: 'application/json',
-  'User-Agent': 'deer.social (contact @aviva.gay)',
+  'User-Agent': CONSTELLATION_USER_AGENT,
 })
 
 const makeReqUrl = (
@@ -43,63 +63,327 @@ const makeReqUrl = (
   return url
 }
 
-// using an async generator lets us kick off dependent requests before finishing pagination
-// this doesn't solve the gross N+1 queries thing going on here to get records, but it should make it faster :3
-export async function* constellationLinks(
-  instance: string,
-  params: {
-    target: string
-    collection: Collection
-    path: string
-    from_dids?: string[]
-  },
-) {
-  const url = makeReqUrl(instance, 'links', params)
+const linksResponseSchema = z.object({
+  total: z.number(),
+  linking_records: z.array(
+    z.object({
+      did: z.string().startsWith('did:') as z.ZodType<`did:${string}`>,
+      collection: z.string(),
+      rkey: z.string(),
+    }),
+  ),
+  cursor: z.string().nullable(),
+})
 
-  const req = async () =>
-    (await (await fetch(url, {method: 'GET', headers})).json()) as {
-      total: number
-      linking_records: ConstellationLink[]
-      cursor: string | null
-    }
+const countsResponseSchema = z.object({
+  links: z.record(
+    z.record(
+      z.object({
+        distinct_dids: z.number(),
+        records: z.number(),
+      }),
+    ),
+  ),
+})
+
+export type ConstellationCounts = {
+  likeCount: number
+  repostCount: number
+  replyCount: number
+  quoteCount: number
+}
+
+export class ConstellationError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message)
+    this.name = 'ConstellationError'
+  }
+}
+
+const MAX_RETRIES = 3
+const BASE_RETRY_DELAY = 500
+const MAX_RETRY_DELAY = 10_000
+const CACHE_SIZE = 500
+const CACHE_TTL = 60_000
+const MAX_CONCURRENT_COUNTS = 4
 
-  let cursor: string | null = null
-  while (true) {
-    const resp = await req()
+function abortError() {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
 
-    for (const link of resp.linking_records) {
-      yield link
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(abortError())
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
     }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, {once: true})
+  })
+}
 
-    cursor = resp.cursor
-    if (cursor === null) break
-    url.searchParams.set('cursor', cursor)
+// lets one caller stop waiting on a promise that other callers still share
+function withSignal<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) return promise
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      return reject(abortError())
+    }
+    const onAbort = () => reject(abortError())
+    signal.addEventListener('abort', onAbort, {once: true})
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort)
+    })
+  })
+}
+
+function getRetryDelay(attempt: number, res?: Response) {
+  const retryAfter = Number(res?.headers.get('Retry-After'))
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY)
   }
+  // exponential backoff with jitter
+  return Math.min(
+    BASE_RETRY_DELAY * 2 ** attempt * (0.5 + Math.random() / 2),
+    MAX_RETRY_DELAY,
+  )
 }
 
-export async function constellationCounts(
-  instance: string,
-  params: {target: string},
-) {
-  const url = makeReqUrl(instance, 'links/all', params)
-  const json = (await (await fetch(url, {method: 'GET', headers})).json()) as {
-    links: {
-      [P in Collection]?: {
-        [k: string]: {distinct_dids: number; records: number} | undefined
+class ResponseCache {
+  private entries = new Map<string, {value: unknown; expiresAt: number}>()
+
+  constructor(
+    private readonly max: number,
+    private readonly ttl: number,
+  ) {}
+
+  get(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    this.entries.delete(key)
+    if (entry.expiresAt < Date.now()) return undefined
+    // refresh key
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  set(key: string, value: unknown) {
+    this.entries.delete(key)
+    if (this.entries.size >= this.max) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+    this.entries.set(key, {value, expiresAt: Date.now() + this.ttl})
+  }
+}
+
+/**
+ * Talks to a Constellation backlink index. Responses are validated, cached
+ * for a short while and retried on rate limits and server errors.
+ */
+export class ConstellationClient {
+  private cache = new ResponseCache(CACHE_SIZE, CACHE_TTL)
+  private inflightCounts = new Map<string, Promise<ConstellationCounts>>()
+  private activeCounts = 0
+  private queuedCounts: (() => void)[] = []
+
+  constructor(
+    public readonly instance: string,
+    private readonly fetchFn: typeof fetch = (...args) => fetch(...args),
+  ) {}
+
+  private async fetchWithRetry(url: URL, signal?: AbortSignal) {
+    for (let attempt = 0; ; attempt++) {
+      let res: Response
+      try {
+        res = await this.fetchFn(url, {method: 'GET', headers, signal})
+      } catch (e) {
+        if (signal?.aborted || attempt >= MAX_RETRIES) throw e
+        await sleep(getRetryDelay(attempt), signal)
+        continue
+      }
+
+      if (res.ok) {
+        return (await res.json()) as unknown
       }
+      if ((res.status === 429 || res.status >= 500) && attempt < MAX_RETRIES) {
+        await sleep(getRetryDelay(attempt, res), signal)
+        continue
+      }
+      throw new ConstellationError(
+        `Constellation request to ${url.pathname} failed with status ${res.status}`,
+        res.status,
+      )
+    }
+  }
+
+  private async request<T>(
+    route: string,
+    params: Record<string, string | string[]>,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const url = makeReqUrl(this.instance, route, params)
+    const key = url.toString()
+
+    const cached = this.cache.get(key)
+    if (cached !== undefined) return cached as T
+
+    const json = await this.fetchWithRetry(url, signal)
+    const parsed = schema.safeParse(json)
+    if (!parsed.success) {
+      throw new ConstellationError(
+        `Unexpected response from Constellation ${route}: ${parsed.error.issues[0]?.message}`,
+      )
+    }
+    this.cache.set(key, parsed.data)
+    return parsed.data
+  }
+
+  /**
+   * Fetches a single page of links, for callers that need to hold on to the
+   * cursor themselves (e.g. infinite queries).
+   */
+  linksPage(
+    params: LinksParams & {cursor?: string; limit?: number},
+    {signal}: {signal?: AbortSignal} = {},
+  ): Promise<ConstellationLinksPage> {
+    const {cursor, limit, ...rest} = params
+    return this.request(
+      'links',
+      {
+        ...rest,
+        ...(cursor ? {cursor} : {}),
+        ...(limit ? {limit: String(limit)} : {}),
+      },
+      linksResponseSchema,
+      signal,
+    ).then(resp => ({
+      total: resp.total,
+      links: resp.linking_records,
+      cursor: resp.cursor ?? undefined,
+    }))
+  }
+
+  // using an async generator lets us kick off dependent requests before finishing pagination
+  // this doesn't solve the gross N+1 queries thing going on here to get records, but it should make it faster :3
+  async *links(
+    params: LinksParams,
+    {signal}: {signal?: AbortSignal} = {},
+  ): AsyncGenerator<ConstellationLink, void, unknown> {
+    let cursor: string | undefined
+    do {
+      const page: ConstellationLinksPage = await this.linksPage(
+        {...params, cursor},
+        {signal},
+      )
+
+      for (const link of page.links) {
+        yield link
+      }
+
+      cursor = page.cursor
+    } while (cursor !== undefined)
+  }
+
+  /**
+   * Looks up like, repost, reply and quote counts for a post. Lookups are queued and
+   * drained a few at a time so a whole feed page doesn't hit the instance at
+   * once, and concurrent lookups for the same post share one request.
+   */
+  counts(
+    target: string,
+    {signal}: {signal?: AbortSignal} = {},
+  ): Promise<ConstellationCounts> {
+    let promise = this.inflightCounts.get(target)
+    if (!promise) {
+      promise = this.enqueueCounts(() =>
+        this.request('links/all', {target}, countsResponseSchema),
+      )
+        .then(({links}) => ({
+          likeCount:
+            links['app.bsky.feed.like']?.['.subject.uri']?.distinct_dids ?? 0,
+          repostCount:
+            links['app.bsky.feed.repost']?.['.subject.uri']?.distinct_dids ?? 0,
+          replyCount:
+            links['app.bsky.feed.post']?.['.reply.parent.uri']?.records ?? 0,
+          quoteCount:
+            links['app.bsky.feed.post']?.['.embed.record.uri']?.records ?? 0,
+        }))
+        .finally(() => {
+          this.inflightCounts.delete(target)
+        })
+      this.inflightCounts.set(target, promise)
     }
+    return withSignal(promise, signal)
   }
-  const links = json.links
-  return {
-    likeCount:
-      links?.['app.bsky.feed.like']?.['.subject.uri']?.distinct_dids ?? 0,
-    repostCount:
-      links?.['app.bsky.feed.repost']?.['.subject.uri']?.distinct_dids ?? 0,
-    replyCount:
-      links?.['app.bsky.feed.post']?.['.reply.parent.uri']?.records ?? 0,
+
+  private async enqueueCounts<T>(task: () => Promise<T>) {
+    if (this.activeCounts >= MAX_CONCURRENT_COUNTS) {
+      await new Promise<void>(resolve => this.queuedCounts.push(resolve))
+    }
+    this.activeCounts++
+    try {
+      return await task()
+    } finally {
+      this.activeCounts--
+      this.queuedCounts.shift()?.()
+    }
   }
 }
 
+const clients = new Map<string, ConstellationClient>()
+
+// clients are shared per instance so the cache and request queue are too
+export function getConstellationClient(instance: string) {
+  let client = clients.get(instance)
+  if (!client) {
+    client = new ConstellationClient(instance)
+    clients.set(instance, client)
+  }
+  return client
+}
+
+export function constellationLinks(
+  instance: string,
+  params: LinksParams,
+  signal?: AbortSignal,
+) {
+  return getConstellationClient(instance).links(params, {signal})
+}
+
+const RQKEY_ROOT = 'constellation-counts'
+export const RQKEY = (instance: string, uri: string) => [
+  RQKEY_ROOT,
+  instance,
+  uri,
+]
+
+export function useConstellationCountsQuery({
+  uri,
+  enabled,
+}: {
+  uri: string
+  enabled?: boolean
+}) {
+  const instance = useConstellationInstance()
+  return useQuery({
+    staleTime: STALE.MINUTES.ONE,
+    queryKey: RQKEY(instance, uri),
+    queryFn: ({signal}) =>
+      getConstellationClient(instance).counts(uri, {signal}),
+    enabled: enabled && !!uri,
+  })
+}
+
 export function asUri(link: ConstellationLink): string {
   return `at://${link.did}/${link.collection}/${link.rkey}`
 }
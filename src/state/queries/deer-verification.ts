@@ -44,14 +44,19 @@ export function getTrustedConstellationVerifications(
   instance: string,
   did: string,
   trusted: Set<string>,
+  signal?: AbortSignal,
 ) {
   const urip = new AtUri(did)
-  const verificationLinks = constellationLinks(instance, {
-    target: urip.host,
-    collection: 'app.bsky.graph.verification',
-    path: '.subject',
-    from_dids: Array.from(trusted),
-  })
+  const verificationLinks = constellationLinks(
+    instance,
+    {
+      target: urip.host,
+      collection: 'app.bsky.graph.verification',
+      path: '.subject',
+      from_dids: Array.from(trusted),
+    },
+    signal,
+  )
   return asyncGenDedupe(
     asyncGenFilter(verificationLinks, ({did}) => trusted.has(did)),
     ({did}) => did,
@@ -62,12 +67,14 @@ async function getDeerVerificationLinkedRecords(
   instance: string,
   did: string,
   trusted: Set<string>,
+  signal?: AbortSignal,
 ): Promise<LinkedRecord[] | undefined> {
   try {
     const trustedVerificationLinks = getTrustedConstellationVerifications(
       instance,
       did,
       trusted,
+      signal,
     )
 
     const verificationRecords = asyncGenFilter(
@@ -157,13 +164,14 @@ export function useDeerVerificationState({
   const linkedRecords = useQuery<LinkedRecord[] | undefined>({
     staleTime: STALE.HOURS.ONE,
     queryKey: RQKEY(profile?.did || '', trusted),
-    async queryFn() {
+    async queryFn({signal}) {
       if (!profile) return undefined
 
       return await getDeerVerificationLinkedRecords(
         instance,
         profile.did,
         trusted,
+        signal,
       )
     },
     enabled: enabled && profile !== undefined,
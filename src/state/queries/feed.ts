@@ -27,6 +27,7 @@ import {RQKEY as listQueryKey} from '#/state/queries/list'
 import {usePreferencesQuery} from '#/state/queries/preferences'
 import {useAgent, useSession} from '#/state/session'
 import {router} from '#/routes'
+import {useLocalFeeds} from '../preferences/local-feeds'
 import {useModerationOpts} from '../preferences/moderation-opts'
 import {type FeedDescriptor} from './post-feed'
 import {precacheResolvedUri} from './resolve-uri'
@@ -417,6 +418,8 @@ export function usePinnedFeedsInfos() {
   const agent = useAgent()
   const {data: preferences, isLoading: isLoadingPrefs} = usePreferencesQuery()
   const pinnedItems = preferences?.savedFeeds.filter(feed => feed.pinned) ?? []
+  // deer
+  const pinnedLocalFeeds = useLocalFeeds().filter(feed => feed.pinned)
 
   return useQuery({
     staleTime: STALE.INFINITY,
@@ -425,6 +428,7 @@ export function usePinnedFeedsInfos() {
       pinnedFeedInfosQueryKeyRoot,
       (hasSession ? 'authed:' : 'unauthed:') +
         pinnedItems.map(f => f.value).join(','),
+      pinnedLocalFeeds.map(f => `${f.id}:${f.name}`).join(','),
     ],
     queryFn: async () => {
       if (!hasSession) {
@@ -498,6 +502,36 @@ export function usePinnedFeedsInfos() {
           })
         }
       }
+
+      // deer: local feeds aren't in the server preferences, so they're
+      // always pinned after everything else
+      for (const localFeed of pinnedLocalFeeds) {
+        result.push({
+          type: 'feed',
+          displayName: localFeed.name,
+          uri: `local|${localFeed.id}`,
+          feedDescriptor: `local|${localFeed.id}`,
+          route: {
+            href: '/',
+            name: 'Home',
+            params: {},
+          },
+          cid: '',
+          avatar: '',
+          description: new RichText({text: ''}),
+          creatorDid: '',
+          creatorHandle: '',
+          likeCount: 0,
+          likeUri: '',
+          savedFeed: {
+            id: `local-${localFeed.id}`,
+            type: 'local',
+            value: localFeed.id,
+            pinned: true,
+          },
+          contentMode: undefined,
+        })
+      }
       return result
     },
   })
@@ -33,9 +33,10 @@ import {
 } from '@tanstack/react-query'
 
 import {useHideFollowNotifications} from '#/state/preferences/hide-follow-notifications'
+import {useLocalMuteMatchers} from '#/state/preferences/local-mutes'
 import {useModerationOpts} from '#/state/preferences/moderation-opts'
 import {STALE} from '#/state/queries'
-import {useAgent} from '#/state/session'
+import {useAgent, useSession} from '#/state/session'
 import {useThreadgateHiddenReplyUris} from '#/state/threadgate-hidden-replies'
 import {
   didOrHandleUriMatches,
@@ -44,7 +45,7 @@ import {
 } from '../util'
 import {type FeedPage} from './types'
 import {useUnreadNotificationsApi} from './unread'
-import {fetchPage} from './util'
+import {fetchPage, findNotifLocalMute} from './util'
 
 export type {FeedNotification, FeedPage, NotificationType} from './types'
 
@@ -70,12 +71,17 @@ export function useNotificationFeedQuery(opts: {
   const filter = opts.filter
   const {uris: hiddenReplyUris} = useThreadgateHiddenReplyUris()
 
+  const localMutes = useLocalMuteMatchers('notifications')
+  const {currentAccount} = useSession()
+
   const selectArgs = useMemo(() => {
     return {
       moderationOpts,
       hiddenReplyUris,
+      localMutes,
+      currentDid: currentAccount?.did,
     }
-  }, [moderationOpts, hiddenReplyUris])
+  }, [moderationOpts, hiddenReplyUris, localMutes, currentAccount?.did])
   const lastRun = useRef<{
     data: InfiniteData<FeedPage>
     args: typeof selectArgs
@@ -132,7 +138,8 @@ export function useNotificationFeedQuery(opts: {
     enabled,
     select: useCallback(
       (data: InfiniteData<FeedPage>) => {
-        const {moderationOpts, hiddenReplyUris} = selectArgs
+        const {moderationOpts, hiddenReplyUris, localMutes, currentDid} =
+          selectArgs
 
         // Keep track of the last run and whether we can reuse
         // some already selected pages from there.
@@ -210,6 +217,14 @@ export function useNotificationFeedQuery(opts: {
                       }
                     }
                     return true
+                  })
+                  .map(item => {
+                    const localMute = findNotifLocalMute(
+                      item,
+                      localMutes,
+                      currentDid,
+                    )
+                    return localMute ? {...item, localMute} : item
                   }),
               }
             }),
@@ -4,6 +4,8 @@ import {
   type AppBskyNotificationListNotifications,
 } from '@atproto/api'
 
+import {type LocalMuteRule} from '#/state/persisted/schema'
+
 export type NotificationType =
   | StarterPackNotificationType
   | OtherNotificationType
@@ -57,4 +59,5 @@ type FeedNotificationBase = {
   additional?: AppBskyNotificationListNotifications.Notification[]
   subjectUri?: string
   subject?: AppBskyFeedDefs.PostView | AppBskyGraphDefs.StarterPackViewBasic
+  localMute?: LocalMuteRule
 }
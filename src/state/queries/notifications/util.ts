@@ -14,6 +14,12 @@ import {type QueryClient} from '@tanstack/react-query'
 import chunk from 'lodash.chunk'
 
 import {labelIsHideableOffense} from '#/lib/moderation'
+import {
+  findLocalMute,
+  findLocalMuteInPost,
+  type LocalMuteMatcher,
+} from '#/lib/moderation/local-mutes'
+import {type LocalMuteRule} from '#/state/persisted/schema'
 import * as bsky from '#/types/bsky'
 import {precacheProfile} from '../profile'
 import {
@@ -125,7 +131,7 @@ export function shouldFilterNotif(
   if (containsImperative) {
     return true
   }
-  if (hideFollowNotifications && notif.reason == 'follow') {
+  if (hideFollowNotifications && notif.reason === 'follow') {
     return true
   }
   if (!moderationOpts) {
@@ -137,6 +143,37 @@ export function shouldFilterNotif(
   return moderateNotification(notif, moderationOpts).ui('contentList').filter
 }
 
+/**
+ * Checks the post behind a reply, mention or quote against the local mute
+ * rules. Falls back to the notification's record if the post wasn't fetched.
+ */
+export function findNotifLocalMute(
+  item: FeedNotification,
+  localMutes: LocalMuteMatcher[],
+  currentDid: string | undefined,
+): LocalMuteRule | undefined {
+  if (
+    item.type !== 'reply' &&
+    item.type !== 'mention' &&
+    item.type !== 'quote'
+  ) {
+    return undefined
+  }
+  if (item.subject) {
+    return findLocalMuteInPost(localMutes, item.subject, {currentDid})
+  }
+  const {author, record} = item.notification
+  if (
+    !bsky.dangerousIsType<AppBskyFeedPost.Record>(
+      record,
+      AppBskyFeedPost.isRecord,
+    )
+  ) {
+    return undefined
+  }
+  return findLocalMute(localMutes, {author, record}, {currentDid})
+}
+
 export function groupNotifications(
   notifs: AppBskyNotificationListNotifications.Notification[],
 ): FeedNotification[] {
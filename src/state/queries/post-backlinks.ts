@@ -0,0 +1,210 @@
+import {type AppBskyActorDefs, type AppBskyFeedDefs, AtUri} from '@atproto/api'
+import {
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
+  useInfiniteQuery,
+} from '@tanstack/react-query'
+
+import {useConstellationInstance} from '#/state/preferences/constellation-instance'
+import {useAgent} from '#/state/session'
+import {asUri, getConstellationClient} from './constellation'
+import {
+  didOrHandleUriMatches,
+  embedViewRecordToPostView,
+  getEmbeddedPost,
+} from './util'
+
+// getProfiles and getPosts both take at most 25 items
+const PAGE_SIZE = 25
+type RQPageParam = string | undefined
+
+/**
+ * The kinds of records that point at a post, and where in each record the
+ * post's URI lives.
+ */
+const BACKLINK_SOURCES = {
+  like: {collection: 'app.bsky.feed.like', path: '.subject.uri'},
+  repost: {collection: 'app.bsky.feed.repost', path: '.subject.uri'},
+  quote: {collection: 'app.bsky.feed.post', path: '.embed.record.uri'},
+} as const
+
+export type BacklinkActorsKind = 'like' | 'repost'
+
+type ActorsPage = {
+  actors: AppBskyActorDefs.ProfileViewDetailed[]
+  cursor: string | undefined
+}
+
+type PostsPage = {
+  posts: AppBskyFeedDefs.PostView[]
+  cursor: string | undefined
+}
+
+const RQKEY_ROOT = 'post-backlinks'
+export const RQKEY = (
+  kind: keyof typeof BACKLINK_SOURCES,
+  instance: string,
+  resolvedUri: string,
+) => [RQKEY_ROOT, kind, instance, resolvedUri]
+
+async function fetchBacklinks(
+  instance: string,
+  kind: keyof typeof BACKLINK_SOURCES,
+  target: string,
+  cursor: string | undefined,
+  signal: AbortSignal,
+) {
+  return getConstellationClient(instance).linksPage(
+    {...BACKLINK_SOURCES[kind], target, cursor, limit: PAGE_SIZE},
+    {signal},
+  )
+}
+
+/**
+ * Lists the actors who liked or reposted a post according to the Constellation
+ * backlink index, for posts the AppView refuses to list interactions for.
+ * Actors the AppView can't hydrate are left out.
+ */
+export function useBacklinkActorsQuery({
+  kind,
+  resolvedUri,
+  enabled,
+}: {
+  kind: BacklinkActorsKind
+  resolvedUri: string | undefined
+  enabled?: boolean
+}) {
+  const agent = useAgent()
+  const instance = useConstellationInstance()
+  return useInfiniteQuery<
+    ActorsPage,
+    Error,
+    InfiniteData<ActorsPage>,
+    QueryKey,
+    RQPageParam
+  >({
+    queryKey: RQKEY(kind, instance, resolvedUri || ''),
+    async queryFn({pageParam, signal}) {
+      const page = await fetchBacklinks(
+        instance,
+        kind,
+        resolvedUri || '',
+        pageParam,
+        signal,
+      )
+      const dids = Array.from(new Set(page.links.map(link => link.did)))
+      if (dids.length === 0) {
+        return {actors: [], cursor: page.cursor}
+      }
+      const res = await agent.getProfiles({actors: dids})
+      return {actors: res.data.profiles, cursor: page.cursor}
+    },
+    initialPageParam: undefined,
+    getNextPageParam: lastPage => lastPage.cursor,
+    enabled: enabled && !!resolvedUri,
+  })
+}
+
+/**
+ * Lists the posts quoting a post according to the Constellation backlink
+ * index. Quotes the AppView can't hydrate are left out.
+ */
+export function useBacklinkQuotesQuery({
+  resolvedUri,
+  enabled,
+}: {
+  resolvedUri: string | undefined
+  enabled?: boolean
+}) {
+  const agent = useAgent()
+  const instance = useConstellationInstance()
+  return useInfiniteQuery<
+    PostsPage,
+    Error,
+    InfiniteData<PostsPage>,
+    QueryKey,
+    RQPageParam
+  >({
+    queryKey: RQKEY('quote', instance, resolvedUri || ''),
+    async queryFn({pageParam, signal}) {
+      const page = await fetchBacklinks(
+        instance,
+        'quote',
+        resolvedUri || '',
+        pageParam,
+        signal,
+      )
+      const uris = page.links.map(asUri)
+      if (uris.length === 0) {
+        return {posts: [], cursor: page.cursor}
+      }
+      const res = await agent.getPosts({uris})
+      return {posts: res.data.posts, cursor: page.cursor}
+    },
+    initialPageParam: undefined,
+    getNextPageParam: lastPage => lastPage.cursor,
+    enabled: enabled && !!resolvedUri,
+  })
+}
+
+export function* findAllProfilesInQueryData(
+  queryClient: QueryClient,
+  did: string,
+): Generator<
+  AppBskyActorDefs.ProfileViewDetailed | AppBskyActorDefs.ProfileViewBasic,
+  void
+> {
+  const queryDatas = queryClient.getQueriesData<
+    InfiniteData<ActorsPage | PostsPage>
+  >({
+    queryKey: [RQKEY_ROOT],
+  })
+  for (const [_queryKey, queryData] of queryDatas) {
+    if (!queryData?.pages) {
+      continue
+    }
+    for (const page of queryData.pages) {
+      if ('actors' in page) {
+        for (const actor of page.actors) {
+          if (actor.did === did) {
+            yield actor
+          }
+        }
+      } else {
+        for (const post of page.posts) {
+          if (post.author.did === did) {
+            yield post.author
+          }
+        }
+      }
+    }
+  }
+}
+
+export function* findAllPostsInQueryData(
+  queryClient: QueryClient,
+  uri: string,
+): Generator<AppBskyFeedDefs.PostView, undefined> {
+  const queryDatas = queryClient.getQueriesData<InfiniteData<PostsPage>>({
+    queryKey: [RQKEY_ROOT, 'quote'],
+  })
+  const atUri = new AtUri(uri)
+  for (const [_queryKey, queryData] of queryDatas) {
+    if (!queryData?.pages) {
+      continue
+    }
+    for (const page of queryData.pages) {
+      for (const post of page.posts) {
+        if (didOrHandleUriMatches(atUri, post)) {
+          yield post
+        }
+
+        const quotedPost = getEmbeddedPost(post.embed)
+        if (quotedPost && didOrHandleUriMatches(atUri, quotedPost)) {
+          yield embedViewRecordToPostView(quotedPost)
+        }
+      }
+    }
+  }
+}
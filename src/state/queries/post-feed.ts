@@ -11,6 +11,7 @@ import {
 } from '@atproto/api'
 import {
   type InfiniteData,
+  onlineManager,
   type QueryClient,
   type QueryKey,
   useInfiniteQuery,
@@ -23,6 +24,7 @@ import {FollowingFeedAPI} from '#/lib/api/feed/following'
 import {HomeFeedAPI} from '#/lib/api/feed/home'
 import {LikesFeedAPI} from '#/lib/api/feed/likes'
 import {ListFeedAPI} from '#/lib/api/feed/list'
+import {LocalFeedAPI} from '#/lib/api/feed/local'
 import {MergeFeedAPI} from '#/lib/api/feed/merge'
 import {PostListFeedAPI} from '#/lib/api/feed/posts'
 import {type FeedAPI, type ReasonFeedSource} from '#/lib/api/feed/types'
@@ -30,12 +32,16 @@ import {aggregateUserInterests} from '#/lib/api/feed/utils'
 import {FeedTuner, type FeedTunerFn} from '#/lib/api/feed-manip'
 import {DISCOVER_FEED_URI} from '#/lib/constants'
 import {BSKY_FEED_OWNER_DIDS} from '#/lib/constants'
+import {isNetworkError} from '#/lib/strings/errors'
 import {logger} from '#/logger'
+import * as persisted from '#/state/persisted'
+import {type LocalMuteRule} from '#/state/persisted/schema'
 import {STALE} from '#/state/queries'
 import {DEFAULT_LOGGED_OUT_PREFERENCES} from '#/state/queries/preferences/const'
 import {useAgent} from '#/state/session'
 import * as userActionHistory from '#/state/userActionHistory'
 import {KnownError} from '#/view/com/posts/PostFeedErrorMessage'
+import {getOfflineFeed, saveOfflineFeedPage} from '#/maxine/offline-cache'
 import {useFeedTuners} from '../preferences/feed-tuners'
 import {useModerationOpts} from '../preferences/moderation-opts'
 import {useNoDiscoverFallback} from '../preferences/no-discover-fallback'
@@ -56,6 +62,7 @@ export type AuthorFilter =
 type FeedUri = string
 type ListUri = string
 type PostsUriList = string
+type LocalFeedId = string
 
 export type FeedDescriptor =
   | 'following'
@@ -64,6 +71,7 @@ export type FeedDescriptor =
   | `likes|${ActorDid}`
   | `list|${ListUri}`
   | `posts|${PostsUriList}`
+  | `local|${LocalFeedId}`
   | 'demo'
 export interface FeedParams {
   mergeFeedEnabled?: boolean
@@ -87,6 +95,7 @@ export interface FeedPostSliceItem {
   parentAuthor?: AppBskyActorDefs.ProfileViewBasic
   isParentBlocked?: boolean
   isParentNotFound?: boolean
+  localMute?: LocalMuteRule
 }
 
 export interface FeedPostSlice {
@@ -110,6 +119,11 @@ export interface FeedPageUnselected {
   cursor: string | undefined
   feed: AppBskyFeedDefs.FeedViewPost[]
   fetchedAt: number
+  /**
+   * deer: set when the page came from the offline cache instead of the
+   * network, to when it was saved.
+   */
+  cachedAt?: Date
 }
 
 export interface FeedPage {
@@ -118,6 +132,7 @@ export interface FeedPage {
   cursor: string | undefined
   slices: FeedPostSlice[]
   fetchedAt: number
+  cachedAt?: Date
 }
 
 /**
@@ -152,6 +167,11 @@ export function usePostFeedQuery(
     result: InfiniteData<FeedPage>
   } | null>(null)
   const isDiscover = feedDesc.includes(DISCOVER_FEED_URI)
+  // deer: pinned feeds are kept around for reading offline
+  const offlineDid =
+    agent.session && isPinnedFeed(feedDesc, preferences?.savedFeeds)
+      ? agent.session.did
+      : undefined
 
   /**
    * The number of posts to fetch in a single request. Because we filter
@@ -181,6 +201,8 @@ export function usePostFeedQuery(
     enabled,
     staleTime: STALE.INFINITY,
     queryKey: RQKEY(feedDesc, params),
+    // deer: run while offline too, so the cached pages can be served
+    networkMode: 'offlineFirst',
     async queryFn({pageParam}: {pageParam: RQPageParam}) {
       logger.debug('usePostFeedQuery', {feedDesc, cursor: pageParam?.cursor})
       const {api, cursor} = pageParam
@@ -212,6 +234,17 @@ export function usePostFeedQuery(
           assertSomePostsPassModeration(res.feed)
         }
 
+        if (offlineDid) {
+          saveOfflineFeedPage(offlineDid, feedDesc, cursor, {
+            cursor: res.cursor,
+            feed: res.feed,
+          }).catch(e => {
+            logger.warn('Failed to save feed for offline reading', {
+              error: e,
+            })
+          })
+        }
+
         return {
           api,
           cursor: res.cursor,
@@ -219,6 +252,26 @@ export function usePostFeedQuery(
           fetchedAt: Date.now(),
         }
       } catch (e) {
+        if (
+          offlineDid &&
+          !cursor &&
+          (isNetworkError(e) || !onlineManager.isOnline())
+        ) {
+          const cached = await getOfflineFeed(offlineDid, feedDesc).catch(
+            () => undefined,
+          )
+          if (cached) {
+            return {
+              api,
+              // nothing more can be loaded until we're back online
+              cursor: undefined,
+              feed: cached.feed,
+              fetchedAt: Date.now(),
+              cachedAt: cached.savedAt,
+            }
+          }
+        }
+
         const feedDescParts = feedDesc.split('|')
         const feedOwnerDid = new AtUri(feedDescParts[1]).hostname
 
@@ -294,6 +347,7 @@ export function usePostFeedQuery(
               tuner,
               cursor: page.cursor,
               fetchedAt: page.fetchedAt,
+              cachedAt: page.cachedAt,
               slices: tuner
                 .tune(page.feed)
                 .map(slice => {
@@ -354,6 +408,7 @@ export function usePostFeedQuery(
                         parentAuthor: item.parentAuthor,
                         isParentBlocked: item.isParentBlocked,
                         isParentNotFound: item.isParentNotFound,
+                        localMute: item.localMute,
                       }
                       return feedPostSliceItem
                     }),
@@ -423,9 +478,54 @@ export function usePostFeedQuery(
     }
   }, [query])
 
+  // deer: swap cached pages for fresh ones as soon as we're back online
+  const isCached = !!query.data?.pages[0]?.cachedAt
+  const {refetch} = query
+  useEffect(() => {
+    if (!isCached) {
+      return
+    }
+    if (onlineManager.isOnline()) {
+      refetch()
+      return
+    }
+    return onlineManager.subscribe(isOnline => {
+      if (isOnline) {
+        refetch()
+      }
+    })
+  }, [isCached, refetch])
+
   return query
 }
 
+function isPinnedFeed(
+  feedDesc: FeedDescriptor,
+  savedFeeds: AppBskyActorDefs.SavedFeed[] | undefined,
+) {
+  const [type, id] = feedDesc.split('|')
+  if (type === 'local') {
+    return !!persisted
+      .get('localFeeds')
+      ?.some(feed => feed.id === id && feed.pinned)
+  }
+  return !!savedFeeds?.some(feed => {
+    if (!feed.pinned) {
+      return false
+    }
+    switch (feed.type) {
+      case 'timeline':
+        return feedDesc === 'following'
+      case 'feed':
+        return type === 'feedgen' && id === feed.value
+      case 'list':
+        return type === 'list' && id === feed.value
+      default:
+        return false
+    }
+  })
+}
+
 export async function pollLatest(page: FeedPage | undefined) {
   if (!page) {
     return false
@@ -497,6 +597,13 @@ function createApi({
   } else if (feedDesc.startsWith('posts')) {
     const [_, uriList] = feedDesc.split('|')
     return new PostListFeedAPI({agent, feedParams: {uris: uriList.split(',')}})
+  } else if (feedDesc.startsWith('local')) {
+    const [_, id] = feedDesc.split('|')
+    const feed = persisted.get('localFeeds')?.find(f => f.id === id)
+    return new LocalFeedAPI({
+      agent,
+      feed: feed ?? {id, name: '', pinned: false, sources: [], rules: {}},
+    })
   } else if (feedDesc === 'demo') {
     return new DemoFeedAPI({agent})
   } else {
@@ -1,7 +1,12 @@
-import {useCallback, useMemo, useState} from 'react'
-import {useQuery, useQueryClient} from '@tanstack/react-query'
+import {useCallback, useEffect, useMemo, useState} from 'react'
+import {onlineManager, useQuery, useQueryClient} from '@tanstack/react-query'
 
+import {isNetworkError} from '#/lib/strings/errors'
+import {logger} from '#/logger'
 import {isWeb} from '#/platform/detection'
+import {useConstellationEnabled} from '#/state/preferences/constellation-enabled'
+import {useConstellationInstance} from '#/state/preferences/constellation-instance'
+import {useLocalMuteMatchers} from '#/state/preferences/local-mutes'
 import {useModerationOpts} from '#/state/preferences/moderation-opts'
 import {useThreadPreferences} from '#/state/queries/preferences/useThreadPreferences'
 import {
@@ -15,6 +20,10 @@ import {
   createCacheMutator,
   getThreadPlaceholder,
 } from '#/state/queries/usePostThread/queryCache'
+import {
+  createPostThreadReconstructedQueryKey,
+  reconstructThread,
+} from '#/state/queries/usePostThread/reconstruct'
 import {
   buildThread,
   sortAndAnnotateThreadItems,
@@ -30,15 +39,17 @@ import * as views from '#/state/queries/usePostThread/views'
 import {useAgent, useSession} from '#/state/session'
 import {useMergeThreadgateHiddenReplies} from '#/state/threadgate-hidden-replies'
 import {useBreakpoints} from '#/alf'
+import {getOfflineThread, saveOfflineThread} from '#/maxine/offline-cache'
 
 export * from '#/state/queries/usePostThread/types'
 
 export function usePostThread({anchor}: {anchor?: string}) {
   const qc = useQueryClient()
   const agent = useAgent()
-  const {hasSession} = useSession()
+  const {hasSession, currentAccount} = useSession()
   const {gtPhone} = useBreakpoints()
   const moderationOpts = useModerationOpts()
+  const localMutes = useLocalMuteMatchers('threads')
   const mergeThreadgateHiddenReplies = useMergeThreadgateHiddenReplies()
   const {
     isLoaded: isThreadPreferencesLoaded,
@@ -70,14 +81,32 @@ export function usePostThread({anchor}: {anchor?: string}) {
   const query = useQuery<UsePostThreadQueryResult>({
     enabled: isThreadPreferencesLoaded && !!anchor && !!moderationOpts,
     queryKey: postThreadQueryKey,
+    // deer: run while offline too, so the cached thread can be served
+    networkMode: 'offlineFirst',
     async queryFn(ctx) {
-      const {data} = await agent.app.bsky.unspecced.getPostThreadV2({
-        anchor: anchor!,
-        branchingFactor: view === 'linear' ? LINEAR_VIEW_BF : TREE_VIEW_BF,
-        below,
-        sort: sort,
-        prioritizeFollowedUsers: prioritizeFollowedUsers,
-      })
+      const offlineDid = currentAccount?.did
+      let data
+      try {
+        data = (
+          await agent.app.bsky.unspecced.getPostThreadV2({
+            anchor: anchor!,
+            branchingFactor: view === 'linear' ? LINEAR_VIEW_BF : TREE_VIEW_BF,
+            below,
+            sort: sort,
+            prioritizeFollowedUsers: prioritizeFollowedUsers,
+          })
+        ).data
+      } catch (e) {
+        if (offlineDid && (isNetworkError(e) || !onlineManager.isOnline())) {
+          const cached = await getOfflineThread(offlineDid, anchor!).catch(
+            () => undefined,
+          )
+          if (cached) {
+            return {...cached.data, cachedAt: cached.savedAt}
+          }
+        }
+        throw e
+      }
 
       /*
        * Initialize `ctx.meta` to track if we know we have additional replies
@@ -105,6 +134,16 @@ export function usePostThread({anchor}: {anchor?: string}) {
         result.threadgate.record = record
       }
 
+      if (offlineDid) {
+        saveOfflineThread(
+          offlineDid,
+          anchor!,
+          result as UsePostThreadQueryResult,
+        ).catch(e => {
+          logger.warn('Failed to save thread for offline reading', {error: e})
+        })
+      }
+
       return result as UsePostThreadQueryResult
     },
     placeholderData() {
@@ -127,7 +166,38 @@ export function usePostThread({anchor}: {anchor?: string}) {
     },
   })
 
-  const thread = useMemo(() => query.data?.thread || [], [query.data?.thread])
+  /*
+   * When enabled, fill in replies and posts the AppView left out using
+   * Constellation backlinks and direct PDS fetches. Until that finishes, the
+   * AppView's thread is shown as-is.
+   */
+  const constellationEnabled = useConstellationEnabled()
+  const constellationInstance = useConstellationInstance()
+  const reconstructedQuery = useQuery({
+    enabled: !!constellationEnabled && !!query.data && !query.isPlaceholderData,
+    queryKey: createPostThreadReconstructedQueryKey({
+      instance: constellationInstance,
+      postThreadQueryKey,
+      dataUpdatedAt: query.dataUpdatedAt,
+    }),
+    queryFn({signal}) {
+      return reconstructThread({
+        agent,
+        instance: constellationInstance,
+        thread: query.data?.thread || [],
+        maxDepth: below,
+        signal,
+      })
+    },
+  })
+
+  const thread = useMemo(
+    () =>
+      (constellationEnabled && reconstructedQuery.data) ||
+      query.data?.thread ||
+      [],
+    [constellationEnabled, reconstructedQuery.data, query.data?.thread],
+  )
   const threadgate = useMemo(
     () => query.data?.threadgate,
     [query.data?.threadgate],
@@ -138,6 +208,26 @@ export function usePostThread({anchor}: {anchor?: string}) {
   )
   const [otherItemsVisible, setOtherItemsVisible] = useState(false)
 
+  /*
+   * deer: swap a cached thread for a fresh one as soon as we're back online
+   */
+  const cachedAt = query.data?.cachedAt
+  const {refetch} = query
+  useEffect(() => {
+    if (!cachedAt) {
+      return
+    }
+    if (onlineManager.isOnline()) {
+      refetch()
+      return
+    }
+    return onlineManager.subscribe(isOnline => {
+      if (isOnline) {
+        refetch()
+      }
+    })
+  }, [cachedAt, refetch])
+
   /**
    * Creates a mutator for the post thread cache. This is used to insert
    * replies into the thread cache after posting.
@@ -195,9 +285,18 @@ export function usePostThread({anchor}: {anchor?: string}) {
             threadgate?.record,
           ),
           moderationOpts: moderationOpts!,
+          localMutes,
+          currentDid: currentAccount?.did,
         },
       )
-      return threadItems
+      /*
+       * Reconstruction may already have pulled some of these into the main
+       * thread.
+       */
+      const inThread = new Set(thread.map(item => item.uri))
+      return threadItems.filter(
+        item => !('uri' in item) || !inThread.has(item.uri),
+      )
     } else {
       return []
     }
@@ -207,7 +306,10 @@ export function usePostThread({anchor}: {anchor?: string}) {
     additionalItemsQuery,
     mergeThreadgateHiddenReplies,
     moderationOpts,
+    localMutes,
+    currentAccount?.did,
     threadgate?.record,
+    thread,
   ])
 
   /**
@@ -241,12 +343,16 @@ export function usePostThread({anchor}: {anchor?: string}) {
       view: view,
       threadgateHiddenReplies: mergeThreadgateHiddenReplies(threadgate?.record),
       moderationOpts: moderationOpts!,
+      localMutes,
+      currentDid: currentAccount?.did,
     })
   }, [
     thread,
     threadgate?.record,
     mergeThreadgateHiddenReplies,
     moderationOpts,
+    localMutes,
+    currentAccount?.did,
     view,
   ])
 
@@ -289,6 +395,7 @@ export function usePostThread({anchor}: {anchor?: string}) {
         /*
          * Other state
          */
+        cachedAt,
         sort,
         view,
         otherItemsVisible,
@@ -313,6 +420,7 @@ export function usePostThread({anchor}: {anchor?: string}) {
     [
       query,
       mutator.insertReplies,
+      cachedAt,
       otherItemsVisible,
       sort,
       view,
@@ -0,0 +1,309 @@
+import {
+  type $Typed,
+  type AppBskyActorDefs,
+  type AppBskyFeedDefs,
+  AppBskyFeedPost,
+  AppBskyUnspeccedDefs,
+  AtUri,
+  type BskyAgent,
+  type Did,
+} from '@atproto/api'
+
+import {logger} from '#/logger'
+import {
+  asUri,
+  asyncGenCollect,
+  asyncGenTake,
+  constellationLinks,
+} from '#/state/queries/constellation'
+import {LRU} from '#/state/queries/direct-fetch-record'
+import {resolvePdsServiceUrl} from '#/state/queries/resolve-identity'
+import {
+  type ApiThreadItem,
+  type createPostThreadQueryKey,
+} from '#/state/queries/usePostThread/types'
+import {getPostRecord} from '#/state/queries/usePostThread/utils'
+import * as bsky from '#/types/bsky'
+
+/**
+ * Upper bound on posts fetched from PDSes for a single thread, so a huge
+ * hidden branch can't turn into hundreds of requests.
+ */
+const MAX_DIRECT_FETCHES = 100
+/**
+ * Upper bound on backlinks looked up beneath a single post.
+ */
+const MAX_REPLIES_PER_POST = 50
+
+/*
+ * Kept outside the `post-thread-v2` root, since the thread cache helpers
+ * expect everything under it to be a thread response.
+ */
+const RQKEY_ROOT = 'post-thread-reconstructed'
+export const createPostThreadReconstructedQueryKey = ({
+  instance,
+  postThreadQueryKey,
+  dataUpdatedAt,
+}: {
+  instance: string
+  postThreadQueryKey: ReturnType<typeof createPostThreadQueryKey>
+  dataUpdatedAt: number
+}) => [RQKEY_ROOT, instance, postThreadQueryKey, dataUpdatedAt] as const
+
+export type DirectFetchedThreadItemPost =
+  $Typed<AppBskyUnspeccedDefs.ThreadItemPost> & {
+    directFetched: true
+  }
+
+/**
+ * Whether a thread item's post came straight from the author's PDS rather
+ * than from the AppView.
+ */
+export function isDirectFetched(value: object) {
+  return (value as Partial<DirectFetchedThreadItemPost>).directFetched === true
+}
+
+const postCache = new LRU<string, AppBskyFeedDefs.PostView | undefined>()
+
+function toProfileViewBasic(
+  profile: AppBskyActorDefs.ProfileViewDetailed,
+): AppBskyActorDefs.ProfileViewBasic {
+  return {
+    $type: 'app.bsky.actor.defs#profileViewBasic',
+    did: profile.did,
+    handle: profile.handle,
+    displayName: profile.displayName,
+    avatar: profile.avatar,
+    associated: profile.associated,
+    viewer: profile.viewer,
+    labels: profile.labels,
+    createdAt: profile.createdAt,
+    verification: profile.verification,
+    status: profile.status,
+  }
+}
+
+/**
+ * Fetches a post record from its author's PDS and wraps it in a post view.
+ * The author is hydrated from the AppView when possible.
+ */
+async function fetchPostFromPds(
+  agent: BskyAgent,
+  uri: string,
+): Promise<AppBskyFeedDefs.PostView | undefined> {
+  return postCache.getOrTryInsertWith(uri, async () => {
+    const urip = new AtUri(uri)
+    const did = urip.host as Did
+    const service = await resolvePdsServiceUrl(did)
+    if (!service) return undefined
+
+    const url = new URL('/xrpc/com.atproto.repo.getRecord', service)
+    url.searchParams.set('repo', did)
+    url.searchParams.set('collection', 'app.bsky.feed.post')
+    url.searchParams.set('rkey', urip.rkey)
+    const res = await fetch(url)
+    if (!res.ok) return undefined
+    const {cid, value: record} = (await res.json()) as {
+      cid?: string
+      value?: unknown
+    }
+    if (!cid || !bsky.validate(record, AppBskyFeedPost.validateRecord)) {
+      return undefined
+    }
+
+    const author: AppBskyActorDefs.ProfileViewBasic = await agent
+      .getProfile({actor: did})
+      .then(({data}) => toProfileViewBasic(data))
+      .catch(() => ({
+        $type: 'app.bsky.actor.defs#profileViewBasic',
+        did,
+        handle: 'handle.invalid',
+      }))
+
+    return {
+      $type: 'app.bsky.feed.defs#postView',
+      uri,
+      cid,
+      author,
+      record,
+      indexedAt: record.createdAt,
+    } satisfies AppBskyFeedDefs.PostView
+  })
+}
+
+function directFetchedItem(
+  post: AppBskyFeedDefs.PostView,
+  depth: number,
+): ApiThreadItem {
+  const value: DirectFetchedThreadItemPost = {
+    $type: 'app.bsky.unspecced.defs#threadItemPost',
+    post,
+    opThread: false,
+    moreParents: false,
+    moreReplies: 0,
+    hiddenByThreadgate: false,
+    mutedByViewer: false,
+    directFetched: true,
+  }
+  return {
+    $type: 'app.bsky.unspecced.getPostThreadV2#threadItem',
+    uri: post.uri,
+    depth,
+    value,
+  }
+}
+
+type Node = {
+  item: ApiThreadItem
+  children: Node[]
+}
+
+/**
+ * Turns the flat, depth-first thread response back into a tree. Parents of
+ * the anchor are kept as a flat list since they form a single chain.
+ */
+function toTree(thread: ApiThreadItem[]) {
+  const parents: ApiThreadItem[] = []
+  const stack: Node[] = []
+  let anchor: Node | undefined
+
+  for (const item of thread) {
+    if (item.depth < 0) {
+      parents.push(item)
+      continue
+    }
+    const node: Node = {item, children: []}
+    if (item.depth === 0) {
+      anchor = node
+    } else {
+      stack.length = item.depth
+      const parent = stack[item.depth - 1]
+      if (!parent) continue
+      parent.children.push(node)
+    }
+    stack.push(node)
+  }
+
+  return {parents, anchor}
+}
+
+function flatten(node: Node, out: ApiThreadItem[] = []) {
+  out.push(node.item)
+  for (const child of node.children) {
+    flatten(child, out)
+  }
+  return out
+}
+
+/**
+ * Whether the AppView knows about more replies to this post than it sent
+ * down or offered to load, i.e. whether some were dropped.
+ */
+function hasMissingReplies(node: Node) {
+  const {value} = node.item
+  if (!AppBskyUnspeccedDefs.isThreadItemPost(value)) return false
+  if (isDirectFetched(value)) return true
+  const known = node.children.length + (value.moreReplies || 0)
+  return (value.post.replyCount || 0) > known
+}
+
+/**
+ * Fills in parts of a thread the AppView left out. Blocked and missing posts
+ * are replaced with copies fetched from their authors' PDSes, and replies
+ * the AppView dropped are found by walking `.reply.parent.uri` backlinks in
+ * Constellation, down to `maxDepth` below the anchor.
+ */
+export async function reconstructThread({
+  agent,
+  instance,
+  thread,
+  maxDepth,
+  signal,
+}: {
+  agent: BskyAgent
+  instance: string
+  thread: ApiThreadItem[]
+  maxDepth: number
+  signal?: AbortSignal
+}): Promise<ApiThreadItem[]> {
+  const {parents, anchor} = toTree(thread)
+  if (!anchor) return thread
+
+  const known = new Set(thread.map(item => item.uri))
+  let budget = MAX_DIRECT_FETCHES
+
+  const fetchItem = async (uri: string, depth: number) => {
+    if (budget <= 0) return undefined
+    budget--
+    try {
+      const post = await fetchPostFromPds(agent, uri)
+      return post ? directFetchedItem(post, depth) : undefined
+    } catch (e) {
+      logger.warn('Failed to fetch post from PDS', {uri, safeMessage: e})
+      return undefined
+    }
+  }
+
+  const restore = async (item: ApiThreadItem) => {
+    if (
+      AppBskyUnspeccedDefs.isThreadItemBlocked(item.value) ||
+      AppBskyUnspeccedDefs.isThreadItemNotFound(item.value)
+    ) {
+      return (await fetchItem(item.uri, item.depth)) ?? item
+    }
+    return item
+  }
+
+  const restoredParents = await Promise.all(parents.map(restore))
+  anchor.item = await restore(anchor.item)
+
+  const queue: Node[] = [anchor]
+  while (queue.length > 0 && budget > 0) {
+    if (signal?.aborted) break
+    const node = queue.shift()!
+
+    for (const child of node.children) {
+      child.item = await restore(child.item)
+    }
+    queue.push(...node.children)
+
+    if (node.item.depth >= maxDepth || !hasMissingReplies(node)) continue
+
+    const links = await asyncGenCollect(
+      asyncGenTake(
+        constellationLinks(
+          instance,
+          {
+            target: node.item.uri,
+            collection: 'app.bsky.feed.post',
+            path: '.reply.parent.uri',
+          },
+          signal,
+        ),
+        MAX_REPLIES_PER_POST,
+      ),
+    )
+    const missing = links.map(asUri).filter(uri => !known.has(uri))
+    const fetched = await Promise.all(
+      missing.map(uri => fetchItem(uri, node.item.depth + 1)),
+    )
+    const added = fetched
+      .filter((item): item is ApiThreadItem => item !== undefined)
+      .sort((a, b) => {
+        const aPost = (a.value as DirectFetchedThreadItemPost).post
+        const bPost = (b.value as DirectFetchedThreadItemPost).post
+        return getPostRecord(aPost).createdAt.localeCompare(
+          getPostRecord(bPost).createdAt,
+        )
+      })
+      .map(item => ({item, children: []}))
+
+    for (const child of added) {
+      known.add(child.item.uri)
+    }
+    node.children.push(...added)
+    queue.push(...added)
+  }
+
+  return [...restoredParents, ...flatten(anchor)]
+}
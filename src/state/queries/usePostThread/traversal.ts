@@ -1,6 +1,7 @@
 /* eslint-disable no-labels */
 import {AppBskyUnspeccedDefs, type ModerationOpts} from '@atproto/api'
 
+import {type LocalMuteMatcher} from '#/lib/moderation/local-mutes'
 import {
   type ApiThreadItem,
   type PostThreadParams,
@@ -23,9 +24,17 @@ export function sortAndAnnotateThreadItems(
     moderationOpts,
     view,
     skipModerationHandling,
+    localMutes,
+    currentDid,
   }: {
     threadgateHiddenReplies: Set<string>
     moderationOpts: ModerationOpts
+    /**
+     * Matching replies are sorted like moderated ones, parents and the anchor
+     * are only marked.
+     */
+    localMutes: LocalMuteMatcher[]
+    currentDid: string | undefined
     view: PostThreadParams['view']
     /**
      * Set to `true` in cases where we already know the moderation state of the
@@ -78,6 +87,8 @@ export function sortAndAnnotateThreadItems(
           value: item.value,
           moderationOpts,
           threadgateHiddenReplies,
+          localMutes,
+          currentDid,
         })
         threadItems.push(post)
 
@@ -111,6 +122,8 @@ export function sortAndAnnotateThreadItems(
                 value: parent.value,
                 moderationOpts,
                 threadgateHiddenReplies,
+                localMutes,
+                currentDid,
               }),
             )
           }
@@ -148,6 +161,8 @@ export function sortAndAnnotateThreadItems(
           value: item.value,
           moderationOpts,
           threadgateHiddenReplies,
+          localMutes,
+          currentDid,
         })
 
         if (!post.isBlurred || skipModerationHandling) {
@@ -206,6 +221,8 @@ export function sortAndAnnotateThreadItems(
                   value: child.value,
                   moderationOpts,
                   threadgateHiddenReplies,
+                  localMutes,
+                  currentDid,
                 })
 
                 /*
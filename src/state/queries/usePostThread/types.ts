@@ -8,6 +8,8 @@ import {
   type ModerationDecision,
 } from '@atproto/api'
 
+import {type LocalMuteRule} from '#/state/persisted/schema'
+
 export type ApiThreadItem =
   | AppBskyUnspeccedGetPostThreadV2.ThreadItem
   | AppBskyUnspeccedGetPostThreadOtherV2.ThreadItem
@@ -37,6 +39,11 @@ export type UsePostThreadQueryResult = {
   threadgate?: Omit<AppBskyFeedDefs.ThreadgateView, 'record'> & {
     record: AppBskyFeedThreadgate.Record
   }
+  /**
+   * deer: set when the thread came from the offline cache instead of the
+   * network, to when it was saved.
+   */
+  cachedAt?: Date
 }
 
 export type ThreadItem =
@@ -52,6 +59,7 @@ export type ThreadItem =
       }
       isBlurred: boolean
       moderation: ModerationDecision
+      localMute?: LocalMuteRule
       ui: {
         isAnchor: boolean
         showParentReplyLine: boolean
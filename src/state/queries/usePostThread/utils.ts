@@ -168,3 +168,42 @@ export function getThreadPostNoUnauthenticatedUI({
     showParentReplyLine: Boolean(prevItemDepth && prevItemDepth < depth),
   }
 }
+
+/**
+ * The root author's own chain of posts, starting at the root and following
+ * their replies to themselves for as long as the chain is unbroken. Replies
+ * from anyone else are left out. Empty if the root isn't loaded.
+ */
+export function getAuthorThread(items: ThreadItem[]) {
+  const posts = items.filter(
+    (item): item is Extract<ThreadItem, {type: 'threadPost'}> =>
+      item.type === 'threadPost',
+  )
+  const root = posts.find(item => !item.value.post.record.reply)
+  if (!root) return []
+
+  const authorDid = root.value.post.author.did
+  const authorReplies = new Map<string, (typeof posts)[number]>()
+  for (const item of posts) {
+    const parentUri = item.value.post.record.reply?.parent.uri
+    if (
+      parentUri &&
+      item.value.opThread &&
+      item.value.post.author.did === authorDid &&
+      // if the author branched off, follow the first branch
+      !authorReplies.has(parentUri)
+    ) {
+      authorReplies.set(parentUri, item)
+    }
+  }
+
+  const chain = [root]
+  for (
+    let next = authorReplies.get(root.uri);
+    next;
+    next = authorReplies.get(next.uri)
+  ) {
+    chain.push(next)
+  }
+  return chain
+}
@@ -9,6 +9,10 @@ import {
   type ModerationOpts,
 } from '@atproto/api'
 
+import {
+  findLocalMuteInPost,
+  type LocalMuteMatcher,
+} from '#/lib/moderation/local-mutes'
 import {makeProfileLink} from '#/lib/routes/links'
 import {
   type ApiThreadItem,
@@ -66,19 +70,24 @@ export function threadPost({
   value,
   moderationOpts,
   threadgateHiddenReplies,
+  localMutes,
+  currentDid,
 }: {
   uri: string
   depth: number
   value: $Typed<AppBskyUnspeccedDefs.ThreadItemPost>
   moderationOpts: ModerationOpts
   threadgateHiddenReplies: Set<string>
+  localMutes: LocalMuteMatcher[]
+  currentDid: string | undefined
 }): Extract<ThreadItem, {type: 'threadPost'}> {
   const moderation = moderatePost(value.post, moderationOpts)
   const modui = moderation.ui('contentList')
   const blurred = modui.blur || modui.filter
   const muted = (modui.blurs[0] || modui.filters[0])?.type === 'muted'
   const hiddenByThreadgate = threadgateHiddenReplies.has(uri)
-  const isBlurred = hiddenByThreadgate || blurred || muted
+  const localMute = findLocalMuteInPost(localMutes, value.post, {currentDid})
+  const isBlurred = hiddenByThreadgate || blurred || muted || !!localMute
   return {
     type: 'threadPost',
     key: uri,
@@ -96,6 +105,7 @@ export function threadPost({
     },
     isBlurred,
     moderation,
+    localMute,
     // @ts-ignore populated by the traversal
     ui: {},
   }
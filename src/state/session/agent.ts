@@ -19,7 +19,11 @@ import {getAge} from '#/lib/strings/time'
 import {logger} from '#/logger'
 import {snoozeEmailConfirmationPrompt} from '#/state/shell/reminders'
 import {emitNetworkConfirmed, emitNetworkLost} from '../events'
-import {readCustomAppViewDidUri} from '../preferences/custom-appview-did'
+import {
+  onAppViewChange,
+  readCustomAppViewDidUri,
+  reportCustomAppViewResponse,
+} from '../preferences/custom-appview-did'
 import {addSessionErrorLog} from './logging'
 import {
   configureModerationForAccount,
@@ -242,11 +246,27 @@ export function sessionAccountToSession(
 
 // Not exported. Use factories above to create it.
 let realFetch = globalThis.fetch
+
+// deer
+function isAppViewRequest(input: RequestInfo | URL) {
+  const url =
+    typeof input === 'string'
+      ? input
+      : input instanceof URL
+        ? input.href
+        : input.url
+  return url.includes('/xrpc/app.bsky.')
+}
 class BskyAppAgent extends BskyAgent {
   persistSessionHandler: ((event: AtpSessionEvent) => void) | undefined =
     undefined
+  // deer
+  appView: {custom: boolean}
+  unsubscribeAppViewChange: (() => void) | undefined = undefined
 
   constructor({service}: {service: string}) {
+    // deer: `this` isn't available to the fetch handler until super() returns
+    const appView = {custom: false}
     super({
       service,
       async fetch(...args) {
@@ -254,6 +274,10 @@ class BskyAppAgent extends BskyAgent {
         try {
           const result = await realFetch(...args)
           success = true
+          // deer
+          if (appView.custom && isAppViewRequest(args[0])) {
+            reportCustomAppViewResponse(result.status < 500)
+          }
           return result
         } catch (e) {
           success = false
@@ -273,10 +297,22 @@ class BskyAppAgent extends BskyAgent {
       },
     })
 
-    const proxyDid = readCustomAppViewDidUri() || APPVIEW_DID_PROXY
-    if (proxyDid) {
-      this.configureProxy(proxyDid)
-    }
+    // deer
+    this.appView = appView
+    this.configureAppView()
+    this.unsubscribeAppViewChange = onAppViewChange(() =>
+      this.configureAppView(),
+    )
+  }
+
+  // deer
+  configureAppView() {
+    const customProxyDid = readCustomAppViewDidUri(
+      this.sessionManager.session?.did,
+    )
+    this.appView.custom = !!customProxyDid
+    const proxyDid = customProxyDid || APPVIEW_DID_PROXY
+    this.configureProxy(proxyDid || null)
   }
 
   async prepare(
@@ -294,6 +330,8 @@ class BskyAppAgent extends BskyAgent {
 
     // Now the agent is ready.
     const account = agentToSessionAccountOrThrow(this)
+    // deer: pick up any AppView override for this account
+    this.configureAppView()
     let lastSession = this.sessionManager.session
     this.persistSessionHandler = event => {
       if (this.sessionManager.session) {
@@ -314,6 +352,7 @@ class BskyAppAgent extends BskyAgent {
   dispose() {
     this.sessionManager.session = undefined
     this.persistSessionHandler = undefined
+    this.unsubscribeAppViewChange?.()
   }
 }
 
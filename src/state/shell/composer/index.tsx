@@ -15,6 +15,8 @@ import {purgeTemporaryImageFiles} from '#/state/gallery'
 import {precacheResolveLinkQuery} from '#/state/queries/resolve-link'
 import {type EmojiPickerPosition} from '#/view/com/composer/text-input/web/EmojiPicker'
 import * as Toast from '#/view/com/util/Toast'
+import {type EditedPost} from '#/maxine/edit-post'
+import {type ScheduledPost} from '#/maxine/scheduled-posts'
 
 export interface ComposerOptsPostRef {
   uri: string
@@ -42,6 +44,10 @@ export interface ComposerOpts {
   text?: string
   imageUris?: {uri: string; width: number; height: number; altText?: string}[]
   videoUri?: {uri: string; width: number; height: number}
+  // reopens a queued post for editing
+  scheduledPost?: ScheduledPost
+  // publishes a corrected copy of one of our posts
+  editPost?: EditedPost
 }
 
 type StateContext = ComposerOpts | undefined
@@ -16,9 +16,24 @@ export type Device = {
   // deer
   deerGateCache: string
   customAppViewDid: string | undefined
+  knownAppViews?: KnownAppView[]
 }
 
 export type Account = {
   searchTermHistory?: string[]
   searchAccountHistory?: string[]
+
+  // deer
+  customAppViewDid?: string
+}
+
+/**
+ * An AppView that passed a health check, remembered so it can be picked again
+ * without retyping its DID
+ */
+export type KnownAppView = {
+  did: string
+  endpoint: string
+  version?: string
+  checkedAt: string
 }
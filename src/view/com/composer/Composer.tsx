@@ -53,6 +53,7 @@ import {FontAwesomeIcon} from '@fortawesome/react-native-fontawesome'
 import {msg, plural, Trans} from '@lingui/macro'
 import {useLingui} from '@lingui/react'
 import {useQueryClient} from '@tanstack/react-query'
+import {nanoid} from 'nanoid/non-secure'
 
 import * as apilib from '#/lib/api/index'
 import {EmbeddingDisabledError} from '#/lib/api/resolve'
@@ -122,13 +123,26 @@ import * as Toast from '#/view/com/util/Toast'
 import {UserAvatar} from '#/view/com/util/UserAvatar'
 import {atoms as a, native, useTheme, web} from '#/alf'
 import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {SchedulePostDialog} from '#/components/dialogs/SchedulePostDialog'
+import * as Toggle from '#/components/forms/Toggle'
+import {CalendarClock_Stroke2_Corner0_Rounded as CalendarClock} from '#/components/icons/CalendarClock'
 import {CircleInfo_Stroke2_Corner0_Rounded as CircleInfo} from '#/components/icons/CircleInfo'
 import {EmojiArc_Stroke2_Corner0_Rounded as EmojiSmile} from '#/components/icons/Emoji'
 import {TimesLarge_Stroke2_Corner0_Rounded as X} from '#/components/icons/Times'
 import {LazyQuoteEmbed} from '#/components/Post/Embed/LazyQuoteEmbed'
 import * as Prompt from '#/components/Prompt'
 import {Text as NewText} from '#/components/Typography'
+import {
+  deleteDraft,
+  type SavedDraft,
+  saveDraft,
+  useDrafts,
+} from '#/maxine/composer-drafts'
+import {finishEditPost} from '#/maxine/edit-post'
+import {cancelScheduledPost, schedulePost} from '#/maxine/scheduled-posts'
 import {BottomSheetPortalProvider} from '../../../../modules/bottom-sheet'
+import {DraftsDialog} from './drafts/DraftsDialog'
 import {
   type ComposerAction,
   composerReducer,
@@ -139,6 +153,11 @@ import {
   type PostDraft,
   type ThreadDraft,
 } from './state/composer'
+import {
+  savedDraftToThread,
+  savedPostToPostDraft,
+  threadToSavedDraft,
+} from './state/drafts'
 import {
   NO_VIDEO,
   type NoVideoState,
@@ -163,6 +182,8 @@ export const ComposePost = ({
   text: initText,
   imageUris: initImageUris,
   videoUri: initVideoUri,
+  scheduledPost: initScheduledPost,
+  editPost: initEditPost,
   cancelRef,
 }: Props & {
   cancelRef?: React.RefObject<CancelRef>
@@ -172,20 +193,24 @@ export const ComposePost = ({
   const queryClient = useQueryClient()
   const currentDid = currentAccount!.did
   const {closeComposer} = useComposerControls()
-  const {_} = useLingui()
+  const {_, i18n} = useLingui()
   const requireAltTextEnabled = useRequireAltTextEnabled()
   const langPrefs = useLanguagePrefs()
   const setLangPrefs = useLanguagePrefsApi()
   const textInput = useRef<TextInputRef>(null)
   const discardPromptControl = Prompt.usePromptControl()
+  const draftsControl = Dialog.useDialogControl()
+  const scheduleControl = Dialog.useDialogControl()
   const {closeAllDialogs} = useDialogStateControlContext()
   const {closeAllModals} = useModalControls()
   const {data: preferences} = usePreferencesQuery()
+  const drafts = useDrafts(currentDid)
 
   const [isKeyboardVisible] = useIsKeyboardVisible({iosUseWillEvents: true})
   const [isPublishing, setIsPublishing] = useState(false)
   const [publishingStage, setPublishingStage] = useState('')
   const [error, setError] = useState('')
+  const [keepOriginal, setKeepOriginal] = useState(false)
 
   const [composerState, composerDispatch] = useReducer(
     composerReducer,
@@ -196,7 +221,22 @@ export const ComposePost = ({
       initMention,
       initInteractionSettings: preferences?.postInteractionSettings,
     },
-    createComposerState,
+    args => {
+      const state = createComposerState(args)
+      if (initScheduledPost) {
+        return {...state, thread: savedDraftToThread(initScheduledPost)}
+      }
+      if (initEditPost) {
+        return {
+          ...state,
+          thread: {
+            ...state.thread,
+            posts: [savedPostToPostDraft(initEditPost.draft)],
+          },
+        }
+      }
+      return state
+    },
   )
 
   const thread = composerState.thread
@@ -294,7 +334,48 @@ export const ComposePost = ({
     [insets, isKeyboardVisible],
   )
 
-  const onPressCancel = useCallback(() => {
+  // Replies aren't kept as drafts, since they'd be restored without the post
+  // they're replying to. Scheduled posts being edited stay in their queue,
+  // and edits of published posts start over from the post.
+  const draftId =
+    replyTo || initScheduledPost || initEditPost
+      ? undefined
+      : composerState.draftId
+
+  /**
+   * Saves the thread under the composer's draft id, or removes the draft if
+   * nothing is left in the thread. Returns whether a draft was saved.
+   */
+  const saveCurrentDraft = useCallback(async () => {
+    if (!draftId) {
+      return false
+    }
+    const draft = await threadToSavedDraft({
+      id: draftId,
+      did: currentDid,
+      thread,
+    })
+    if (draft) {
+      await saveDraft(draft)
+    } else {
+      await deleteDraft(draftId)
+    }
+    return !!draft
+  }, [draftId, currentDid, thread])
+
+  const onPressCancel = useCallback(async () => {
+    if (draftId) {
+      try {
+        if (await saveCurrentDraft()) {
+          Toast.show(_(msg`Saved to drafts`))
+        }
+        onClose()
+        return
+      } catch (e: any) {
+        logger.error(e, {message: `composer: failed to save draft`})
+        // fall through to asking before anything is thrown away
+      }
+    }
     if (
       thread.posts.some(
         post =>
@@ -309,7 +390,85 @@ export const ComposePost = ({
     } else {
       onClose()
     }
-  }, [thread, closeAllDialogs, discardPromptControl, onClose])
+  }, [
+    _,
+    draftId,
+    thread,
+    saveCurrentDraft,
+    closeAllDialogs,
+    discardPromptControl,
+    onClose,
+  ])
+
+  const onRestoreDraft = useCallback(
+    async (draft: SavedDraft) => {
+      if (draft.id === draftId) {
+        return
+      }
+      try {
+        await saveCurrentDraft()
+      } catch (e: any) {
+        logger.error(e, {message: `composer: failed to save draft`})
+        setError(_(msg`Couldn't save your current post as a draft.`))
+        return
+      }
+      setError('')
+      composerDispatch({
+        type: 'restore_draft',
+        draftId: draft.id,
+        thread: savedDraftToThread(draft),
+      })
+    },
+    [_, draftId, saveCurrentDraft],
+  )
+
+  const onDeleteDraft = useCallback((draft: SavedDraft) => {
+    deleteDraft(draft.id)
+  }, [])
+
+  const onSchedule = useCallback(
+    async (publishAt: Date) => {
+      const id = initScheduledPost?.id ?? nanoid()
+      try {
+        const draft = await threadToSavedDraft({id, did: currentDid, thread})
+        if (!draft) {
+          return
+        }
+        await schedulePost({
+          ...draft,
+          publishAt,
+          langs: toPostLanguages(langPrefs.postLanguage),
+          status: 'scheduled',
+        })
+      } catch (e: any) {
+        logger.error(e, {message: `composer: failed to schedule post`})
+        setError(_(msg`Couldn't schedule your post.`))
+        return
+      }
+      if (draftId) {
+        deleteDraft(draftId)
+      }
+      onClose()
+      Toast.show(
+        _(
+          msg`Scheduled for ${i18n.date(publishAt, {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+          })}`,
+        ),
+      )
+    },
+    [
+      _,
+      i18n,
+      initScheduledPost,
+      currentDid,
+      thread,
+      langPrefs.postLanguage,
+      draftId,
+      onClose,
+    ],
+  )
 
   useImperativeHandle(cancelRef, () => ({onPressCancel}))
 
@@ -394,17 +553,18 @@ export const ComposePost = ({
     setIsPublishing(true)
 
     let postUri: string | undefined
+    let postCid: string | undefined
     let postSuccessData: OnPostSuccessData
     try {
       logger.info(`composer: posting...`)
-      postUri = (
-        await apilib.post(agent, queryClient, {
-          thread,
-          replyTo: replyTo?.uri,
-          onStateChange: setPublishingStage,
-          langs: toPostLanguages(langPrefs.postLanguage),
-        })
-      ).uris[0]
+      const {uris, cids} = await apilib.post(agent, queryClient, {
+        thread,
+        replyTo: replyTo?.uri,
+        onStateChange: setPublishingStage,
+        langs: toPostLanguages(langPrefs.postLanguage),
+      })
+      postUri = uris[0]
+      postCid = cids[0]
 
       /*
        * Wait for app view to have received the post(s). If this fails, it's
@@ -495,6 +655,27 @@ export const ComposePost = ({
       emitPostCreated()
     }
     setLangPrefs.savePostLanguageToHistory()
+    let editFailed = false
+    if (initEditPost && postUri && postCid) {
+      try {
+        await finishEditPost(agent, queryClient, {
+          original: initEditPost,
+          uri: postUri,
+          cid: postCid,
+          keepOriginal,
+          redirectText: _(msg`Edited, see the new version:`),
+        })
+      } catch (e: any) {
+        logger.error(e, {message: `composer: failed to finish editing post`})
+        editFailed = true
+      }
+    }
+    if (draftId) {
+      deleteDraft(draftId)
+    }
+    if (initScheduledPost) {
+      cancelScheduledPost(initScheduledPost.id)
+    }
     if (initQuote) {
       // We want to wait for the quote count to update before we call `onPost`, which will refetch data
       whenAppViewReady(agent, initQuote.uri, res => {
@@ -514,6 +695,21 @@ export const ComposePost = ({
       onPostSuccess?.(postSuccessData)
     }
     onClose()
+    if (initEditPost) {
+      Toast.show(
+        editFailed
+          ? keepOriginal
+            ? _(
+                msg`Your edit was published, but the original couldn't be linked to it`,
+              )
+            : _(
+                msg`Your edit was published, but the original couldn't be deleted`,
+              )
+          : _(msg`Your post has been edited`),
+        editFailed ? 'exclamation-circle' : undefined,
+      )
+      return
+    }
     Toast.show(
       thread.posts.length > 1
         ? _(msg`Your posts have been published`)
@@ -535,6 +731,10 @@ export const ComposePost = ({
     replyTo,
     setLangPrefs,
     queryClient,
+    draftId,
+    initScheduledPost,
+    initEditPost,
+    keepOriginal,
   ])
 
   // Preserves the referential identity passed to each post item.
@@ -668,6 +868,16 @@ export const ComposePost = ({
             publishingStage={publishingStage}
             topBarAnimatedStyle={topBarAnimatedStyle}
             onCancel={onPressCancel}
+            onOpenDrafts={
+              draftId && drafts?.length ? draftsControl.open : undefined
+            }
+            onSchedule={
+              !replyTo &&
+              !initEditPost &&
+              !thread.posts.some(post => post.embed.media?.type === 'video')
+                ? scheduleControl.open
+                : undefined
+            }
             onPublish={onPressPublish}>
             {missingAltError && <AltTextReminder error={missingAltError} />}
             <ErrorBanner
@@ -692,6 +902,12 @@ export const ComposePost = ({
             onContentSizeChange={onScrollViewContentSizeChange}
             onLayout={onScrollViewLayout}>
             {replyTo ? <ComposerReplyTo replyTo={replyTo} /> : undefined}
+            {initEditPost && (
+              <EditPostOptions
+                keepOriginal={keepOriginal}
+                onChangeKeepOriginal={setKeepOriginal}
+              />
+            )}
             {thread.posts.map((post, index) => (
               <React.Fragment key={post.id}>
                 <ComposerPost
@@ -726,6 +942,17 @@ export const ComposePost = ({
           confirmButtonCta={_(msg`Discard`)}
           confirmButtonColor="negative"
         />
+        <DraftsDialog
+          control={draftsControl}
+          drafts={drafts ?? []}
+          onRestore={onRestoreDraft}
+          onDelete={onDeleteDraft}
+        />
+        <SchedulePostDialog
+          control={scheduleControl}
+          initialDate={initScheduledPost?.publishAt}
+          onSchedule={onSchedule}
+        />
       </KeyboardAvoidingView>
     </BottomSheetPortalProvider>
   )
@@ -873,6 +1100,18 @@ let ComposerPost = React.memo(function ComposerPost({
         />
       </View>
 
+      {isActive && post.shortenedGraphemeLength > MAX_GRAPHEME_LENGTH && (
+        <SplitPostPrompt
+          onSplit={numbered => {
+            dispatch({
+              type: 'split_post',
+              postId: post.id,
+              numbered,
+            })
+          }}
+        />
+      )}
+
       {canRemovePost && isActive && (
         <>
           <Button
@@ -934,6 +1173,8 @@ function ComposerTopBar({
   isThread,
   publishingStage,
   onCancel,
+  onOpenDrafts,
+  onSchedule,
   onPublish,
   topBarAnimatedStyle,
   children,
@@ -945,6 +1186,8 @@ function ComposerTopBar({
   isPublishQueued: boolean
   isThread: boolean
   onCancel: () => void
+  onOpenDrafts?: () => void
+  onSchedule?: () => void
   onPublish: () => void
   topBarAnimatedStyle: StyleProp<ViewStyle>
   children?: React.ReactNode
@@ -964,14 +1207,51 @@ function ComposerTopBar({
           size="small"
           style={[a.rounded_full, a.py_sm, {paddingLeft: 7, paddingRight: 7}]}
           onPress={onCancel}
-          accessibilityHint={_(
-            msg`Closes post composer and discards post draft`,
-          )}>
+          accessibilityHint={
+            isReply
+              ? _(msg`Closes post composer and discards post draft`)
+              : _(msg`Closes post composer and saves post draft`)
+          }>
           <ButtonText style={[a.text_md]}>
             <Trans>Cancel</Trans>
           </ButtonText>
         </Button>
         <View style={a.flex_1} />
+        {onOpenDrafts && !isPublishing && (
+          <Button
+            label={_(msg`Drafts`)}
+            accessibilityHint={_(msg`Opens your saved drafts`)}
+            variant="ghost"
+            color="secondary"
+            shape="default"
+            size="small"
+            style={[a.rounded_full, a.py_sm, a.mr_xs]}
+            onPress={() => {
+              Keyboard.dismiss()
+              onOpenDrafts()
+            }}>
+            <ButtonText style={[a.text_md]}>
+              <Trans>Drafts</Trans>
+            </ButtonText>
+          </Button>
+        )}
+        {onSchedule && !isPublishing && (
+          <Button
+            label={_(msg`Schedule post`)}
+            accessibilityHint={_(msg`Opens a dialog to publish this later`)}
+            variant="ghost"
+            color="secondary"
+            shape="round"
+            size="small"
+            style={[a.mr_xs]}
+            disabled={!canPost || isPublishQueued}
+            onPress={() => {
+              Keyboard.dismiss()
+              onSchedule()
+            }}>
+            <ButtonIcon icon={CalendarClock} />
+          </Button>
+        )}
         {isPublishing ? (
           <>
             <Text style={pal.textLight}>{publishingStage}</Text>
@@ -1039,6 +1319,107 @@ function ComposerTopBar({
   )
 }
 
+function SplitPostPrompt({onSplit}: {onSplit: (numbered: boolean) => void}) {
+  const t = useTheme()
+  const {_} = useLingui()
+  return (
+    <View
+      style={[
+        a.flex_row,
+        a.flex_wrap,
+        a.align_center,
+        a.gap_sm,
+        a.mt_sm,
+        a.p_sm,
+        a.rounded_sm,
+        t.atoms.bg_contrast_25,
+        {marginLeft: 50},
+      ]}>
+      <NewText
+        style={[
+          a.flex_1,
+          a.text_sm,
+          t.atoms.text_contrast_medium,
+          {minWidth: 140},
+        ]}>
+        <Trans>This is too long for one post.</Trans>
+      </NewText>
+      <Button
+        label={_(msg`Split into a thread`)}
+        size="small"
+        variant="solid"
+        color="secondary"
+        onPress={() => onSplit(false)}>
+        <ButtonText>
+          <Trans>Split into thread</Trans>
+        </ButtonText>
+      </Button>
+      <Button
+        label={_(msg`Split into a numbered thread`)}
+        size="small"
+        variant="solid"
+        color="secondary"
+        onPress={() => onSplit(true)}>
+        <ButtonText>
+          <Trans>Split with 1/n</Trans>
+        </ButtonText>
+      </Button>
+    </View>
+  )
+}
+
+function EditPostOptions({
+  keepOriginal,
+  onChangeKeepOriginal,
+}: {
+  keepOriginal: boolean
+  onChangeKeepOriginal: (keepOriginal: boolean) => void
+}) {
+  const t = useTheme()
+  const {_} = useLingui()
+  return (
+    <View
+      style={[
+        a.gap_sm,
+        a.mx_lg,
+        a.mt_sm,
+        a.p_md,
+        a.rounded_sm,
+        t.atoms.bg_contrast_25,
+      ]}>
+      <NewText style={[a.text_sm, a.font_bold]}>
+        <Trans>Editing your post</Trans>
+      </NewText>
+      <NewText
+        style={[a.text_sm, a.leading_snug, t.atoms.text_contrast_medium]}>
+        {keepOriginal ? (
+          <Trans>
+            This publishes a new post. The original stays up, so quotes of it
+            keep working, and gets a reply linking to the new version.
+          </Trans>
+        ) : (
+          <Trans>
+            This publishes a new post and deletes the original. Its likes,
+            reposts and replies won't carry over, and quotes of it will break.
+          </Trans>
+        )}
+      </NewText>
+      <Toggle.Item
+        name="keepOriginal"
+        type="checkbox"
+        label={_(msg`Keep the original post and reply to it with a link`)}
+        value={keepOriginal}
+        onChange={onChangeKeepOriginal}
+        style={[a.justify_between]}>
+        <NewText style={[a.text_sm, t.atoms.text_contrast_medium]}>
+          <Trans>Keep the original and link to the edit</Trans>
+        </NewText>
+        <Toggle.Switch />
+      </Toggle.Item>
+    </View>
+  )
+}
+
 function AltTextReminder({error}: {error: string}) {
   const pal = usePalette('default')
   return (
@@ -0,0 +1,176 @@
+import {View} from 'react-native'
+import {msg, Plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {useGetTimeAgo} from '#/lib/hooks/useTimeAgo'
+import {atoms as a, useTheme, web} from '#/alf'
+import {Button, ButtonIcon} from '#/components/Button'
+import * as Dialog from '#/components/Dialog'
+import {Trash_Stroke2_Corner0_Rounded as TrashIcon} from '#/components/icons/Trash'
+import {Text} from '#/components/Typography'
+import {type SavedDraft} from '#/maxine/composer-drafts'
+
+export function DraftsDialog({
+  control,
+  drafts,
+  onRestore,
+  onDelete,
+}: {
+  control: Dialog.DialogControlProps
+  drafts: SavedDraft[]
+  onRestore: (draft: SavedDraft) => void
+  onDelete: (draft: SavedDraft) => void
+}) {
+  return (
+    <Dialog.Outer control={control}>
+      <Dialog.Handle />
+      <DraftsDialogInner
+        drafts={drafts}
+        onRestore={onRestore}
+        onDelete={onDelete}
+      />
+    </Dialog.Outer>
+  )
+}
+
+function DraftsDialogInner({
+  drafts,
+  onRestore,
+  onDelete,
+}: {
+  drafts: SavedDraft[]
+  onRestore: (draft: SavedDraft) => void
+  onDelete: (draft: SavedDraft) => void
+}) {
+  const t = useTheme()
+  const {_} = useLingui()
+  const control = Dialog.useDialogContext()
+
+  return (
+    <Dialog.ScrollableInner
+      label={_(msg`Drafts`)}
+      style={web([{maxWidth: 500}, a.w_full])}>
+      <View style={[a.gap_sm, a.pb_md]}>
+        <Text style={[a.text_2xl, a.font_bold]}>
+          <Trans>Drafts</Trans>
+        </Text>
+        <Text style={[t.atoms.text_contrast_medium, a.leading_snug]}>
+          <Trans>
+            Posts you close without publishing are kept here. Opening one
+            replaces what's in the composer, which is saved as a draft first.
+          </Trans>
+        </Text>
+      </View>
+
+      {drafts.length === 0 ? (
+        <Text style={[a.py_lg, t.atoms.text_contrast_medium]}>
+          <Trans>You don't have any drafts.</Trans>
+        </Text>
+      ) : (
+        <View style={[a.border_t, t.atoms.border_contrast_low]}>
+          {drafts.map(draft => (
+            <DraftRow
+              key={draft.id}
+              draft={draft}
+              onRestore={() => {
+                control.close(() => onRestore(draft))
+              }}
+              onDelete={() => onDelete(draft)}
+            />
+          ))}
+        </View>
+      )}
+
+      <Dialog.Close />
+    </Dialog.ScrollableInner>
+  )
+}
+
+function DraftRow({
+  draft,
+  onRestore,
+  onDelete,
+}: {
+  draft: SavedDraft
+  onRestore: () => void
+  onDelete: () => void
+}) {
+  const t = useTheme()
+  const {_} = useLingui()
+  const timeAgo = useGetTimeAgo()
+  const first = draft.posts[0]
+  const mediaCount = draft.posts.reduce(
+    (count, post) => count + (post.images?.length ?? 0) + (post.gif ? 1 : 0),
+    0,
+  )
+
+  return (
+    <View
+      style={[
+        a.flex_row,
+        a.align_center,
+        a.gap_sm,
+        a.py_md,
+        a.border_b,
+        t.atoms.border_contrast_low,
+      ]}>
+      <Button
+        label={_(msg`Open draft`)}
+        accessibilityHint={_(msg`Opens this draft in the composer`)}
+        style={[a.flex_1, a.justify_start]}
+        onPress={onRestore}>
+        {({hovered, pressed}) => (
+          <View
+            style={[
+              a.flex_1,
+              a.gap_xs,
+              (hovered || pressed) && {opacity: 0.7},
+            ]}>
+            <Text
+              emoji
+              numberOfLines={2}
+              style={[
+                a.text_md,
+                a.leading_snug,
+                !first.text.trim() && t.atoms.text_contrast_medium,
+              ]}>
+              {first.text.trim() || _(msg`No text`)}
+            </Text>
+            <Text style={[a.text_sm, t.atoms.text_contrast_medium]}>
+              {timeAgo(draft.updatedAt, Date.now())}
+              {draft.posts.length > 1 && (
+                <>
+                  {' · '}
+                  <Plural
+                    value={draft.posts.length}
+                    one="# post"
+                    other="# posts"
+                  />
+                </>
+              )}
+              {mediaCount > 0 && (
+                <>
+                  {' · '}
+                  <Plural
+                    value={mediaCount}
+                    one="# attachment"
+                    other="# attachments"
+                  />
+                </>
+              )}
+            </Text>
+          </View>
+        )}
+      </Button>
+      <Button
+        label={_(msg`Delete draft`)}
+        size="small"
+        variant="ghost"
+        color="negative"
+        shape="round"
+        onPress={onDelete}>
+        <ButtonIcon icon={TrashIcon} />
+      </Button>
+    </View>
+  )
+}
@@ -7,9 +7,11 @@ import {
 } from '@atproto/api'
 import {nanoid} from 'nanoid/non-secure'
 
+import {MAX_GRAPHEME_LENGTH} from '#/lib/constants'
 import {type SelfLabel} from '#/lib/moderation'
 import {insertMentionAt} from '#/lib/strings/mention-manip'
 import {shortenLinks} from '#/lib/strings/rich-text-manip'
+import {splitRichText} from '#/lib/strings/thread-split'
 import {
   isBskyPostUrl,
   postUriToRelativePath,
@@ -98,6 +100,8 @@ export type ThreadDraft = {
 }
 
 export type ComposerState = {
+  // where the thread is kept when it's saved as a draft
+  draftId: string
   thread: ThreadDraft
   activePostIndex: number
   mutableNeedsFocusActive: boolean
@@ -122,6 +126,16 @@ export type ComposerAction =
       type: 'focus_post'
       postId: string
     }
+  | {
+      type: 'split_post'
+      postId: string
+      numbered: boolean
+    }
+  | {
+      type: 'restore_draft'
+      draftId: string
+      thread: ThreadDraft
+    }
 
 export const MAX_IMAGES = 4
 
@@ -229,6 +243,60 @@ export function composerReducer(
         activePostIndex: nextActivePostIndex,
       }
     }
+    case 'split_post': {
+      const index = state.thread.posts.findIndex(p => p.id === action.postId)
+      if (index === -1) {
+        return state
+      }
+      const post = state.thread.posts[index]
+      const pieces = splitRichText(post.richtext, {
+        maxLength: MAX_GRAPHEME_LENGTH,
+        numbered: action.numbered,
+      })
+      if (pieces.length < 2) {
+        return state
+      }
+      // Every piece gets a new id so the text inputs start over with it.
+      // Media and labels stay with the first post.
+      const nextPosts = [...state.thread.posts]
+      nextPosts.splice(
+        index,
+        1,
+        ...pieces.map((richtext, i) => ({
+          id: nanoid(),
+          richtext,
+          shortenedGraphemeLength: getShortenedLength(richtext),
+          labels: i === 0 ? post.labels : [],
+          embed:
+            i === 0
+              ? post.embed
+              : {quote: undefined, media: undefined, link: undefined},
+        })),
+      )
+      return {
+        ...state,
+        activePostIndex: index + pieces.length - 1,
+        mutableNeedsFocusActive: true,
+        thread: {
+          ...state.thread,
+          posts: nextPosts,
+        },
+      }
+    }
+    case 'restore_draft': {
+      for (const post of state.thread.posts) {
+        if (post.embed.media?.type === 'video') {
+          post.embed.media.video.abortController.abort()
+        }
+      }
+      return {
+        ...state,
+        draftId: action.draftId,
+        activePostIndex: 0,
+        mutableNeedsFocusActive: true,
+        thread: action.thread,
+      }
+    }
   }
 }
 
@@ -589,6 +657,7 @@ export function createComposerState({
   }
 
   return {
+    draftId: nanoid(),
     activePostIndex: 0,
     mutableNeedsFocusActive: false,
     thread: {
@@ -619,6 +688,6 @@ export function createComposerState({
   }
 }
 
-function getShortenedLength(rt: RichText) {
+export function getShortenedLength(rt: RichText) {
   return shortenLinks(rt).graphemeLength
 }
@@ -0,0 +1,96 @@
+import {RichText} from '@atproto/api'
+import {nanoid} from 'nanoid/non-secure'
+
+import {type ComposerImage} from '#/state/gallery'
+import {type SavedDraft, type SavedPostDraft} from '#/maxine/composer-drafts'
+import {persistDraftImage, pruneDraftImages} from '#/maxine/draft-media'
+import {getShortenedLength, type PostDraft, type ThreadDraft} from './composer'
+
+function isSavedPostEmpty(post: SavedPostDraft) {
+  return (
+    !post.text.trim() &&
+    !post.images?.length &&
+    !post.gif &&
+    !post.quoteUri &&
+    !post.linkUri
+  )
+}
+
+/**
+ * Turns the composer's thread into something that can be stored, copying
+ * image files somewhere they survive the composer closing. Videos can't be
+ * kept, since they're uploaded as soon as they're picked. Returns
+ * `undefined` if nothing would be left worth saving.
+ */
+export async function threadToSavedDraft({
+  id,
+  did,
+  thread,
+}: {
+  id: string
+  did: string
+  thread: ThreadDraft
+}): Promise<SavedDraft | undefined> {
+  const posts: SavedPostDraft[] = []
+  const images: ComposerImage[] = []
+  for (const post of thread.posts) {
+    const {media, quote, link} = post.embed
+    const saved: SavedPostDraft = {
+      text: post.richtext.text,
+      facets: post.richtext.facets,
+      labels: post.labels,
+      quoteUri: quote?.uri,
+      linkUri: link?.uri,
+    }
+    if (media?.type === 'images') {
+      saved.images = await Promise.all(
+        media.images.map(image => persistDraftImage(id, image)),
+      )
+      images.push(...saved.images)
+    } else if (media?.type === 'gif') {
+      saved.gif = {gif: media.gif, alt: media.alt}
+    }
+    if (!isSavedPostEmpty(saved)) {
+      posts.push(saved)
+    }
+  }
+  await pruneDraftImages(id, images)
+  if (posts.length === 0) {
+    return undefined
+  }
+  return {
+    id,
+    did,
+    posts,
+    postgate: thread.postgate,
+    threadgate: thread.threadgate,
+    updatedAt: new Date(),
+  }
+}
+
+export function savedPostToPostDraft(saved: SavedPostDraft): PostDraft {
+  const richtext = new RichText({text: saved.text, facets: saved.facets})
+  return {
+    id: nanoid(),
+    richtext,
+    shortenedGraphemeLength: getShortenedLength(richtext),
+    labels: saved.labels,
+    embed: {
+      quote: saved.quoteUri ? {type: 'link', uri: saved.quoteUri} : undefined,
+      link: saved.linkUri ? {type: 'link', uri: saved.linkUri} : undefined,
+      media: saved.images?.length
+        ? {type: 'images', images: saved.images}
+        : saved.gif
+          ? {type: 'gif', gif: saved.gif.gif, alt: saved.gif.alt}
+          : undefined,
+    },
+  }
+}
+
+export function savedDraftToThread(draft: SavedDraft): ThreadDraft {
+  return {
+    posts: draft.posts.map(savedPostToPostDraft),
+    postgate: draft.postgate,
+    threadgate: draft.threadgate,
+  }
+}
@@ -5,6 +5,7 @@ import {NavigationProp} from '#/lib/routes/types'
 import {FeedSourceInfo} from '#/state/queries/feed'
 import {useSession} from '#/state/session'
 import {RenderTabBarFnProps} from '#/view/com/pager/Pager'
+import {AppViewFallbackBanner} from '#/components/AppViewFallbackBanner'
 import {TabBar} from '../pager/TabBar'
 import {HomeHeaderLayout} from './HomeHeaderLayout'
 
@@ -62,6 +63,7 @@ export function HomeHeader(
         dragProgress={props.dragProgress}
         dragState={props.dragState}
       />
+      <AppViewFallbackBanner />
     </HomeHeaderLayout>
   )
 }
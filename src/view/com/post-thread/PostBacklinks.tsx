@@ -0,0 +1,255 @@
+import {useCallback, useMemo, useState} from 'react'
+import {View} from 'react-native'
+import {type AppBskyActorDefs, type AppBskyFeedDefs} from '@atproto/api'
+import {Trans} from '@lingui/macro'
+
+import {useInitialNumToRender} from '#/lib/hooks/useInitialNumToRender'
+import {cleanError} from '#/lib/strings/errors'
+import {logger} from '#/logger'
+import {useConstellationEnabled} from '#/state/preferences/constellation-enabled'
+import {useConstellationInstance} from '#/state/preferences/constellation-instance'
+import {useConstellationCountsQuery} from '#/state/queries/constellation'
+import {
+  type BacklinkActorsKind,
+  useBacklinkActorsQuery,
+  useBacklinkQuotesQuery,
+} from '#/state/queries/post-backlinks'
+import {Post} from '#/view/com/post/Post'
+import {ProfileCardWithFollowBtn} from '#/view/com/profile/ProfileCard'
+import {List} from '#/view/com/util/List'
+import {atoms as a} from '#/alf'
+import {Admonition} from '#/components/Admonition'
+import {ListFooter, ListMaybePlaceholder} from '#/components/Lists'
+
+/**
+ * Lets the user know the list below didn't come from their AppView.
+ */
+function BacklinkIndexNotice() {
+  const instance = useConstellationInstance()
+  return (
+    <View style={[a.p_md]}>
+      <Admonition type="info">
+        <Trans>
+          Your AppView didn't return this list, so it was loaded from the
+          backlink index at {instance}. It may be incomplete or out of date.
+        </Trans>
+      </Admonition>
+    </View>
+  )
+}
+
+function renderActor({
+  item,
+}: {
+  item: AppBskyActorDefs.ProfileViewDetailed
+  index: number
+}) {
+  return <ProfileCardWithFollowBtn key={item.did} profile={item} />
+}
+
+function actorKeyExtractor(item: AppBskyActorDefs.ProfileViewDetailed) {
+  return item.did
+}
+
+/**
+ * Lists likers or reposters of a post from the Constellation backlink index.
+ * Renders `children` instead when Constellation is turned off or the index has
+ * nothing either, so callers can pass their usual empty or error state.
+ */
+export function PostBacklinkActors({
+  kind,
+  resolvedUri,
+  children,
+}: {
+  kind: BacklinkActorsKind
+  resolvedUri: string
+  children: React.ReactNode
+}) {
+  const initialNumToRender = useInitialNumToRender()
+  const [isPTRing, setIsPTRing] = useState(false)
+  const constellationEnabled = useConstellationEnabled()
+
+  // only page through the index when it has something to show
+  const {data: counts, isLoading: isLoadingCounts} =
+    useConstellationCountsQuery({
+      uri: resolvedUri,
+      enabled: constellationEnabled,
+    })
+  const count = kind === 'like' ? counts?.likeCount : counts?.repostCount
+
+  const {
+    data,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+    refetch,
+  } = useBacklinkActorsQuery({
+    kind,
+    resolvedUri,
+    enabled: constellationEnabled && !!count,
+  })
+
+  const actors = useMemo(() => {
+    if (data?.pages) {
+      return data.pages.flatMap(page => page.actors)
+    }
+    return []
+  }, [data])
+
+  const onRefresh = useCallback(async () => {
+    setIsPTRing(true)
+    try {
+      await refetch()
+    } catch (err) {
+      logger.error('Failed to refresh backlinks', {message: err})
+    }
+    setIsPTRing(false)
+  }, [refetch, setIsPTRing])
+
+  const onEndReached = useCallback(async () => {
+    if (isFetchingNextPage || !hasNextPage || error) return
+    try {
+      await fetchNextPage()
+    } catch (err) {
+      logger.error('Failed to load more backlinks', {message: err})
+    }
+  }, [isFetchingNextPage, hasNextPage, error, fetchNextPage])
+
+  if (actors.length < 1) {
+    if (isLoadingCounts || isLoading) {
+      return (
+        <ListMaybePlaceholder isLoading sideBorders={false} topBorder={false} />
+      )
+    }
+    return children
+  }
+
+  return (
+    <List
+      data={actors}
+      renderItem={renderActor}
+      keyExtractor={actorKeyExtractor}
+      refreshing={isPTRing}
+      onRefresh={onRefresh}
+      onEndReached={onEndReached}
+      onEndReachedThreshold={4}
+      ListHeaderComponent={<BacklinkIndexNotice />}
+      ListFooterComponent={
+        <ListFooter
+          isFetchingNextPage={isFetchingNextPage}
+          error={cleanError(error)}
+          onRetry={fetchNextPage}
+        />
+      }
+      desktopFixedHeight
+      initialNumToRender={initialNumToRender}
+      windowSize={11}
+      sideBorders={false}
+    />
+  )
+}
+
+function renderQuote({item}: {item: AppBskyFeedDefs.PostView; index: number}) {
+  return <Post post={item} />
+}
+
+function quoteKeyExtractor(item: AppBskyFeedDefs.PostView) {
+  return item.uri
+}
+
+/**
+ * Lists quotes of a post from the Constellation backlink index. Renders
+ * `children` instead when Constellation is turned off or the index has
+ * nothing either.
+ */
+export function PostBacklinkQuotes({
+  resolvedUri,
+  children,
+}: {
+  resolvedUri: string
+  children: React.ReactNode
+}) {
+  const initialNumToRender = useInitialNumToRender()
+  const [isPTRing, setIsPTRing] = useState(false)
+  const constellationEnabled = useConstellationEnabled()
+
+  const {data: counts, isLoading: isLoadingCounts} =
+    useConstellationCountsQuery({
+      uri: resolvedUri,
+      enabled: constellationEnabled,
+    })
+
+  const {
+    data,
+    isLoading,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    error,
+    refetch,
+  } = useBacklinkQuotesQuery({
+    resolvedUri,
+    enabled: constellationEnabled && !!counts?.quoteCount,
+  })
+
+  const quotes = useMemo(() => {
+    if (data?.pages) {
+      return data.pages.flatMap(page => page.posts)
+    }
+    return []
+  }, [data])
+
+  const onRefresh = useCallback(async () => {
+    setIsPTRing(true)
+    try {
+      await refetch()
+    } catch (err) {
+      logger.error('Failed to refresh backlinks', {message: err})
+    }
+    setIsPTRing(false)
+  }, [refetch, setIsPTRing])
+
+  const onEndReached = useCallback(async () => {
+    if (isFetchingNextPage || !hasNextPage || error) return
+    try {
+      await fetchNextPage()
+    } catch (err) {
+      logger.error('Failed to load more backlinks', {message: err})
+    }
+  }, [isFetchingNextPage, hasNextPage, error, fetchNextPage])
+
+  if (quotes.length < 1) {
+    if (isLoadingCounts || isLoading) {
+      return (
+        <ListMaybePlaceholder isLoading sideBorders={false} topBorder={false} />
+      )
+    }
+    return children
+  }
+
+  return (
+    <List
+      data={quotes}
+      renderItem={renderQuote}
+      keyExtractor={quoteKeyExtractor}
+      refreshing={isPTRing}
+      onRefresh={onRefresh}
+      onEndReached={onEndReached}
+      onEndReachedThreshold={4}
+      ListHeaderComponent={<BacklinkIndexNotice />}
+      ListFooterComponent={
+        <ListFooter
+          isFetchingNextPage={isFetchingNextPage}
+          error={cleanError(error)}
+          onRetry={fetchNextPage}
+        />
+      }
+      desktopFixedHeight
+      initialNumToRender={initialNumToRender}
+      windowSize={11}
+      sideBorders={false}
+    />
+  )
+}
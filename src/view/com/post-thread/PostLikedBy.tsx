@@ -8,6 +8,7 @@ import {cleanError} from '#/lib/strings/errors'
 import {logger} from '#/logger'
 import {useLikedByQuery} from '#/state/queries/post-liked-by'
 import {useResolveUriQuery} from '#/state/queries/resolve-uri'
+import {PostBacklinkActors} from '#/view/com/post-thread/PostBacklinks'
 import {ProfileCardWithFollowBtn} from '#/view/com/profile/ProfileCard'
 import {List} from '#/view/com/util/List'
 import {ListFooter, ListMaybePlaceholder} from '#/components/Lists'
@@ -76,7 +77,7 @@ export function PostLikedBy({uri}: {uri: string}) {
   }, [isFetchingNextPage, hasNextPage, isError, fetchNextPage])
 
   if (likes.length < 1) {
-    return (
+    const placeholder = (
       <ListMaybePlaceholder
         isLoading={isLoadingUri || isLoadingLikes}
         isError={isError}
@@ -90,6 +91,15 @@ export function PostLikedBy({uri}: {uri: string}) {
         topBorder={false}
       />
     )
+    // the AppView won't list interactions on posts it refuses to show
+    if (resolvedUri && (error || data)) {
+      return (
+        <PostBacklinkActors kind="like" resolvedUri={resolvedUri.uri}>
+          {placeholder}
+        </PostBacklinkActors>
+      )
+    }
+    return placeholder
   }
 
   return (
@@ -15,6 +15,7 @@ import {useModerationOpts} from '#/state/preferences/moderation-opts'
 import {usePostQuotesQuery} from '#/state/queries/post-quotes'
 import {useResolveUriQuery} from '#/state/queries/resolve-uri'
 import {Post} from '#/view/com/post/Post'
+import {PostBacklinkQuotes} from '#/view/com/post-thread/PostBacklinks'
 import {ListFooter, ListMaybePlaceholder} from '#/components/Lists'
 import {List} from '../util/List'
 
@@ -97,7 +98,7 @@ export function PostQuotes({uri}: {uri: string}) {
   }, [isFetchingNextPage, hasNextPage, isError, fetchNextPage])
 
   if (quotes.length < 1) {
-    return (
+    const placeholder = (
       <ListMaybePlaceholder
         isLoading={isLoadingUri || isLoadingQuotes}
         isError={isError}
@@ -110,6 +111,15 @@ export function PostQuotes({uri}: {uri: string}) {
         sideBorders={false}
       />
     )
+    // the AppView won't list quotes of posts it refuses to show
+    if (resolvedUri && (error || data)) {
+      return (
+        <PostBacklinkQuotes resolvedUri={resolvedUri.uri}>
+          {placeholder}
+        </PostBacklinkQuotes>
+      )
+    }
+    return placeholder
   }
 
   // loaded
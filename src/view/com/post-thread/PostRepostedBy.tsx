@@ -8,6 +8,7 @@ import {cleanError} from '#/lib/strings/errors'
 import {logger} from '#/logger'
 import {usePostRepostedByQuery} from '#/state/queries/post-reposted-by'
 import {useResolveUriQuery} from '#/state/queries/resolve-uri'
+import {PostBacklinkActors} from '#/view/com/post-thread/PostBacklinks'
 import {ProfileCardWithFollowBtn} from '#/view/com/profile/ProfileCard'
 import {List} from '#/view/com/util/List'
 import {ListFooter, ListMaybePlaceholder} from '#/components/Lists'
@@ -82,7 +83,7 @@ export function PostRepostedBy({uri}: {uri: string}) {
   }, [isFetchingNextPage, hasNextPage, isError, fetchNextPage])
 
   if (repostedBy.length < 1) {
-    return (
+    const placeholder = (
       <ListMaybePlaceholder
         isLoading={isLoadingUri || isLoadingRepostedBy}
         isError={isError}
@@ -95,6 +96,15 @@ export function PostRepostedBy({uri}: {uri: string}) {
         sideBorders={false}
       />
     )
+    // the AppView won't list interactions on posts it refuses to show
+    if (resolvedUri && (error || data)) {
+      return (
+        <PostBacklinkActors kind="repost" resolvedUri={resolvedUri.uri}>
+          {placeholder}
+        </PostBacklinkActors>
+      )
+    }
+    return placeholder
   }
 
   // loaded
@@ -63,8 +63,10 @@ import {PostFeedItem} from './PostFeedItem'
 import {PostFeedItemCarousel} from './PostFeedItemCarousel'
 import {ShowLessFollowup} from './ShowLessFollowup'
 import {ViewFullThread} from './ViewFullThread'
-import {setSeenPost, useHideSeenPosts} from '#/maxine/seen-posts'
-import * as Toggle from '#/components/forms/Toggle'
+import {SeenPostsDivider} from './SeenPostsDivider'
+import {setSeenPost, type SeenPostsMode, useSeenPostsMode, useSeenSlices} from '#/maxine/seen-posts'
+import * as ToggleButton from '#/components/forms/ToggleButton'
+import {OfflineCacheBanner} from '#/components/OfflineCacheBanner'
 
 type FeedRow =
   | {
@@ -119,9 +121,6 @@ type FeedRow =
       type: 'sliceViewFullThread'
       key: string
       uri: string
-      // maxine
-      slice: FeedPostSlice
-      // end maxine
     }
   | {
       type: 'interstitialFollows'
@@ -144,8 +143,19 @@ type FeedRow =
       key: string
     }
   | {
-      type: 'hideSeenPosts'
+      type: 'seenPostsMode'
+      key: string
+    }
+  | {
+      type: 'seenPostsDivider'
+      key: string
+      count: number
+      isExpanded: boolean
+    }
+  | {
+      type: 'offlineCache'
       key: string
+      cachedAt: Date
     }
 
 type FeedPostSliceOrGroup =
@@ -294,7 +304,19 @@ let PostFeed = ({
   const areVideoFeedsEnabled = isNative
 
   // maxine
-  const [hideSeenPosts, setHideSeenPosts] = useHideSeenPosts()
+  const [seenPostsMode, setSeenPostsMode] = useSeenPostsMode(feed)
+  const [expandedSeenRuns, setExpandedSeenRuns] = useState(
+    () => new Set<string>(),
+  )
+  const onToggleSeenRun = useCallback((key: string) => {
+    setExpandedSeenRuns(prev => {
+      const next = new Set(prev)
+      if (!next.delete(key)) {
+        next.add(key)
+      }
+      return next
+    })
+  }, [])
   // end maxine
 
   const [hasPressedShowLessUris, setHasPressedShowLessUris] = useState(
@@ -336,6 +358,18 @@ let PostFeed = ({
     [isFetching, data],
   )
 
+  // maxine
+  const allSlices = useMemo(
+    () => data?.pages.flatMap(page => page.slices) ?? [],
+    [data],
+  )
+  const seenSlices = useSeenSlices(
+    allSlices,
+    seenPostsMode !== 'show',
+    `${lastFetchedAt}:${seenPostsMode}`,
+  )
+  // end maxine
+
   const checkForNew = useNonReactiveCallback(async () => {
     if (!data?.pages[0] || isFetching || !onHasNew || !enabled || disablePoll) {
       return
@@ -454,9 +488,17 @@ let PostFeed = ({
 
     // maxine
     arr.push({
-      type: 'hideSeenPosts',
-      key: 'hideSeenPosts',
+      type: 'seenPostsMode',
+      key: 'seenPostsMode',
     })
+    const cachedAt = data?.pages[0]?.cachedAt
+    if (cachedAt) {
+      arr.push({
+        type: 'offlineCache',
+        key: 'offlineCache',
+        cachedAt,
+      })
+    }
     // end maxine
 
     if (KNOWN_SHUTDOWN_FEEDS.includes(feedUriOrActorDid)) {
@@ -534,12 +576,47 @@ let PostFeed = ({
             })
           }
         } else {
+          // maxine
+          let seenRun: Extract<FeedRow, {type: 'seenPostsDivider'}> | undefined
+          // end maxine
           for (const page of data?.pages) {
             let slices = useRepostCarousel
               ? groupReposts(page.slices)
               : (page.slices as FeedPostSliceOrGroup[])
 
             for (const slice of slices) {
+              // maxine
+              const isSeen = slice.isRepostSlice
+                ? slice.slices.every(s => seenSlices.has(s._reactKey))
+                : seenSlices.has(slice._reactKey)
+              if (isSeen && seenPostsMode === 'hide') {
+                continue
+              } else if (isSeen && seenPostsMode === 'collapse') {
+                if (!seenRun) {
+                  const key = `seenPostsDivider-${
+                    slice.isRepostSlice
+                      ? slice.slices[0]._reactKey
+                      : slice._reactKey
+                  }`
+                  seenRun = {
+                    type: 'seenPostsDivider',
+                    key,
+                    count: 0,
+                    isExpanded: expandedSeenRuns.has(key),
+                  }
+                  arr.push(seenRun)
+                }
+                seenRun.count += slice.isRepostSlice
+                  ? slice.slices.reduce((n, s) => n + s.items.length, 0)
+                  : slice.items.length
+                if (!seenRun.isExpanded) {
+                  continue
+                }
+              } else {
+                seenRun = undefined
+              }
+              // end maxine
+
               sliceIndex++
 
               if (hasSession) {
@@ -609,9 +686,6 @@ let PostFeed = ({
                   type: 'sliceViewFullThread',
                   key: slice._reactKey + '-viewFullThread',
                   uri: slice.items[0].uri,
-                  // maxine
-                  slice: slice,
-                  // end maxine
                 })
                 arr.push(
                   sliceItem({
@@ -691,7 +765,9 @@ let PostFeed = ({
     hasPressedShowLessUris,
     useRepostCarousel,
     // maxine
-    hideSeenPosts,
+    seenPostsMode,
+    seenSlices,
+    expandedSeenRuns,
     // end maxine
   ])
 
@@ -814,15 +890,13 @@ let PostFeed = ({
             hideTopBorder={rowIndex === 0 && indexInSlice === 0}
             rootPost={slice.items[0].post}
             onShowLess={onPressShowLess}
-            // maxine
-            slice={slice}
-            // end maxine
+            localMute={item.localMute}
           />
         )
       } else if (row.type === 'reposts') {
         return <PostFeedItemCarousel items={row.items} />
       } else if (row.type === 'sliceViewFullThread') {
-        return <ViewFullThread uri={row.uri} slice={row.slice} /> // maxine
+        return <ViewFullThread uri={row.uri} />
       } else if (row.type === 'videoGridRowPlaceholder') {
         return (
           <View>
@@ -855,23 +929,51 @@ let PostFeed = ({
         )
       } else if (row.type === 'showLessFollowup') {
         return <ShowLessFollowup />
-      } else if (row.type === 'hideSeenPosts') { // maxine
+      } else if (row.type === 'offlineCache') { // maxine
+        return (
+          <OfflineCacheBanner
+            cachedAt={row.cachedAt}
+            onRetry={() => refetch()}
+            style={[a.mx_lg, a.mb_sm]}
+          />
+        )
+      } else if (row.type === 'seenPostsMode') { // maxine
         return (
-          <View style={[a.p_xl]}>
-            <Toggle.Item
-              label={_(msg`Hide already seen posts`)}
-              name="hide_seen_posts"
-              value={hideSeenPosts}
-              onChange={setHideSeenPosts}>
-              <View style={[a.flex_1, a.flex_row, a.align_center, a.gap_sm]}>
-                <Toggle.Checkbox />
-                <Toggle.LabelText style={[a.flex_1, a.leading_tight]}>
-                  <Trans>Hide already seen posts</Trans>
-                </Toggle.LabelText>
-              </View>
-            </Toggle.Item>
+          <View style={[a.px_xl, a.py_lg]}>
+            <ToggleButton.Group
+              label={_(msg`Already seen posts in this feed`)}
+              values={[seenPostsMode]}
+              onChange={values =>
+                setSeenPostsMode(values[0] as SeenPostsMode)
+              }>
+              <ToggleButton.Button name="show" label={_(msg`Show seen posts`)}>
+                <ToggleButton.ButtonText>
+                  <Trans>Show seen</Trans>
+                </ToggleButton.ButtonText>
+              </ToggleButton.Button>
+              <ToggleButton.Button
+                name="collapse"
+                label={_(msg`Collapse seen posts`)}>
+                <ToggleButton.ButtonText>
+                  <Trans>Collapse seen</Trans>
+                </ToggleButton.ButtonText>
+              </ToggleButton.Button>
+              <ToggleButton.Button name="hide" label={_(msg`Hide seen posts`)}>
+                <ToggleButton.ButtonText>
+                  <Trans>Hide seen</Trans>
+                </ToggleButton.ButtonText>
+              </ToggleButton.Button>
+            </ToggleButton.Group>
           </View>
         )
+      } else if (row.type === 'seenPostsDivider') {
+        return (
+          <SeenPostsDivider
+            count={row.count}
+            isExpanded={row.isExpanded}
+            onToggle={() => onToggleSeenRun(row.key)}
+          />
+        )
       } else { // end maxine
         return null
       }
@@ -890,7 +992,10 @@ let PostFeed = ({
       feedCacheKey,
       onPressShowLess,
       // maxine
-      hideSeenPosts,
+      seenPostsMode,
+      setSeenPostsMode,
+      onToggleSeenRun,
+      refetch,
       // end maxine
     ],
   )
@@ -954,9 +1059,9 @@ let PostFeed = ({
     if (item.type === 'sliceItem') {
       const post = item.slice.items[item.indexInSlice].post
       console.log('onItemSeenShort', post)
-      setSeenPost(post, feed)
+      setSeenPost(post, feed, currentAccount?.did)
     }
-  }, [feed, setSeenPost])
+  }, [feed, currentAccount?.did, setSeenPost])
   // end maxine
 
   return (
@@ -33,7 +33,7 @@ import {
   usePostShadow,
 } from '#/state/cache/post-shadow'
 import {useFeedFeedbackContext} from '#/state/feed-feedback'
-import { type FeedPostSlice } from '#/state/queries/post-feed'
+import {type LocalMuteRule} from '#/state/persisted/schema'
 import {unstableCacheProfileView} from '#/state/queries/profile'
 import {useSession} from '#/state/session'
 import {useMergedThreadgateHiddenReplies} from '#/state/threadgate-hidden-replies'
@@ -46,11 +46,12 @@ import {Link, TextLinkOnWebOnly} from '#/view/com/util/Link'
 import {PostMeta} from '#/view/com/util/PostMeta'
 import {Text} from '#/view/com/util/text/Text'
 import {PreviewableUserAvatar} from '#/view/com/util/UserAvatar'
-import {atoms as a} from '#/alf'
+import {atoms as a, useTheme} from '#/alf'
 import {Pin_Stroke2_Corner0_Rounded as PinIcon} from '#/components/icons/Pin'
 import {Repost_Stroke2_Corner2_Rounded as RepostIcon} from '#/components/icons/Repost'
 import {ContentHider} from '#/components/moderation/ContentHider'
 import {LabelsOnMyPost} from '#/components/moderation/LabelsOnMe'
+import {LocalMuteHider} from '#/components/moderation/LocalMuteHider'
 import {PostAlerts} from '#/components/moderation/PostAlerts'
 import {type AppModerationCause} from '#/components/Pills'
 import {Embed} from '#/components/Post/Embed'
@@ -61,7 +62,6 @@ import {DiscoverDebug} from '#/components/PostControls/DiscoverDebug'
 import {ProfileHoverCard} from '#/components/ProfileHoverCard'
 import {RichText} from '#/components/RichText'
 import {SubtleWebHover} from '#/components/SubtleWebHover'
-import { useHideSeenPosts, useIsSliceSeen } from '#/maxine/seen-posts'
 import * as bsky from '#/types/bsky'
 
 interface FeedItemProps {
@@ -104,17 +104,14 @@ export function PostFeedItem({
   rootPost,
   onShowLess,
   isCarouselItem,
-  // maxine
-  slice,
-  // end maxine
+  localMute,
 }: FeedItemProps & {
   post: AppBskyFeedDefs.PostView
   rootPost: AppBskyFeedDefs.PostView
   onShowLess?: (interaction: AppBskyFeedDefs.Interaction) => void
-  // maxine
-  slice: FeedPostSlice
-  // end maxine
+  localMute?: LocalMuteRule
 }): React.ReactNode {
+  const t = useTheme()
   const postShadowed = usePostShadow(post)
   const richText = useMemo(
     () =>
@@ -124,40 +121,41 @@ export function PostFeedItem({
       }),
     [record],
   )
-  // maxine
-  const [hideSeenPosts] = useHideSeenPosts()
-  const isSeen = useIsSliceSeen(slice, hideSeenPosts)
-  if (hideSeenPosts && isSeen) {
-    return null
-  }
-  // end maxine
   if (postShadowed === POST_TOMBSTONE) {
     return null
   }
   if (richText && moderation) {
     return (
-      <FeedItemInner
-        // Safeguard from clobbering per-post state below:
-        key={postShadowed.uri}
-        post={postShadowed}
-        record={record}
-        reason={reason}
-        feedContext={feedContext}
-        reqId={reqId}
-        richText={richText}
-        parentAuthor={parentAuthor}
-        showReplyTo={showReplyTo}
-        moderation={moderation}
-        isThreadChild={isThreadChild}
-        isThreadLastChild={isThreadLastChild}
-        isThreadParent={isThreadParent}
-        hideTopBorder={hideTopBorder}
-        isParentBlocked={isParentBlocked}
-        isParentNotFound={isParentNotFound}
-        isCarouselItem={isCarouselItem}
-        rootPost={rootPost}
-        onShowLess={onShowLess}
-      />
+      <LocalMuteHider
+        rule={localMute}
+        style={[
+          a.px_lg,
+          a.py_sm,
+          !hideTopBorder && [a.border_t, t.atoms.border_contrast_low],
+        ]}>
+        <FeedItemInner
+          // Safeguard from clobbering per-post state below:
+          key={postShadowed.uri}
+          post={postShadowed}
+          record={record}
+          reason={reason}
+          feedContext={feedContext}
+          reqId={reqId}
+          richText={richText}
+          parentAuthor={parentAuthor}
+          showReplyTo={showReplyTo}
+          moderation={moderation}
+          isThreadChild={isThreadChild}
+          isThreadLastChild={isThreadLastChild}
+          isThreadParent={isThreadParent}
+          hideTopBorder={hideTopBorder}
+          isParentBlocked={isParentBlocked}
+          isParentNotFound={isParentNotFound}
+          isCarouselItem={isCarouselItem}
+          rootPost={rootPost}
+          onShowLess={onShowLess}
+        />
+      </LocalMuteHider>
     )
   }
   return null
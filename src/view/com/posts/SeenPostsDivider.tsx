@@ -0,0 +1,58 @@
+import {View} from 'react-native'
+import {msg, Plural, Trans} from '@lingui/macro'
+import {useLingui} from '@lingui/react'
+
+import {atoms as a, useTheme} from '#/alf'
+import {Button, ButtonIcon, ButtonText} from '#/components/Button'
+import {
+  ChevronBottom_Stroke2_Corner0_Rounded as ChevronDownIcon,
+  ChevronTop_Stroke2_Corner0_Rounded as ChevronUpIcon,
+} from '#/components/icons/Chevron'
+
+export function SeenPostsDivider({
+  count,
+  isExpanded,
+  onToggle,
+}: {
+  count: number
+  isExpanded: boolean
+  onToggle: () => void
+}) {
+  const {_} = useLingui()
+  const t = useTheme()
+  return (
+    <View
+      style={[
+        t.atoms.border_contrast_low,
+        a.border_t,
+        t.atoms.bg_contrast_25,
+        a.p_sm,
+      ]}>
+      <Button
+        variant="ghost"
+        color="secondary"
+        size="small"
+        label={
+          isExpanded
+            ? _(msg`Collapse posts you've already seen`)
+            : _(msg`Show posts you've already seen`)
+        }
+        onPress={onToggle}>
+        <ButtonIcon icon={isExpanded ? ChevronUpIcon : ChevronDownIcon} />
+        <ButtonText>
+          {isExpanded ? (
+            <Trans>
+              Collapse{' '}
+              <Plural value={count} one="# seen post" other="# seen posts" />
+            </Trans>
+          ) : (
+            <Trans>
+              You've seen <Plural value={count} one="# post" other="# posts" />{' '}
+              since here
+            </Trans>
+          )}
+        </ButtonText>
+      </Button>
+    </View>
+  )
+}
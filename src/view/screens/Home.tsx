@@ -296,7 +296,11 @@ function HomeScreenReady({
               />
             )
           }
-          const savedFeedConfig = feedInfo.savedFeed
+          // deer: local feeds aren't saved on the server, so there's nothing
+          // to offer removing if they fail
+          const savedFeedConfig = feed.startsWith('local')
+            ? undefined
+            : feedInfo.savedFeed
           return (
             <FeedPage
               key={feed}
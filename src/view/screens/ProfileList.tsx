@@ -72,6 +72,7 @@ import {LoadingScreen} from '#/view/com/util/LoadingScreen'
 import {Text} from '#/view/com/util/text/Text'
 import * as Toast from '#/view/com/util/Toast'
 import {ListHiddenScreen} from '#/screens/List/ListHiddenScreen'
+import {FeedTunerRulesDialog} from '#/screens/Settings/components/FeedTunerRulesDialog'
 import {atoms as a} from '#/alf'
 import {Button as NewButton, ButtonIcon, ButtonText} from '#/components/Button'
 import {useDialogControl} from '#/components/Dialog'
@@ -338,6 +339,7 @@ function Header({
   const deleteListPromptControl = useDialogControl()
   const subscribeMutePromptControl = useDialogControl()
   const subscribeBlockPromptControl = useDialogControl()
+  const feedRulesControl = useDialogControl()
 
   const savedFeedConfig = preferences?.savedFeeds?.find(
     f => f.value === list.uri,
@@ -522,6 +524,21 @@ function Header({
       },
     ]
 
+    if (isCurateList) {
+      items.push({
+        testID: 'listHeaderDropdownFeedRulesBtn',
+        label: _(msg`Feed rules`),
+        onPress: feedRulesControl.open,
+        icon: {
+          ios: {
+            name: 'line.horizontal.3.decrease',
+          },
+          android: '',
+          web: 'filter',
+        },
+      })
+    }
+
     if (savedFeedConfig) {
       items.push({
         testID: 'listHeaderDropdownRemoveFromFeedsBtn',
@@ -637,6 +654,7 @@ function Header({
     isModList,
     isPinned,
     isCurateList,
+    feedRulesControl.open,
     onPressEdit,
     deleteListPromptControl.open,
     onPressReport,
@@ -789,6 +807,11 @@ function Header({
           confirmButtonCta={_(msg`Block list`)}
           confirmButtonColor="negative"
         />
+
+        <FeedTunerRulesDialog
+          control={feedRulesControl}
+          feed={`list|${list.uri}`}
+        />
       </ProfileSubpageHeader>
       {descriptionRT ? (
         <View style={[a.px_lg, a.pt_sm, a.pb_sm, a.gap_md]}>
@@ -43,6 +43,8 @@ export function Composer({}: {winHeight: number}) {
           text={state?.text}
           imageUris={state?.imageUris}
           videoUri={state?.videoUri}
+          scheduledPost={state?.scheduledPost}
+          editPost={state?.editPost}
         />
       </View>
     </Modal>
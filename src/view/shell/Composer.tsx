@@ -55,6 +55,8 @@ export function Composer({winHeight}: {winHeight: number}) {
         text={state.text}
         imageUris={state.imageUris}
         videoUri={state.videoUri}
+        scheduledPost={state.scheduledPost}
+        editPost={state.editPost}
       />
     </Animated.View>
   )
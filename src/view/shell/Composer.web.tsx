@@ -110,6 +110,8 @@ function Inner({state}: {state: ComposerOpts}) {
             openEmojiPicker={onOpenPicker}
             text={state.text}
             imageUris={state.imageUris}
+            scheduledPost={state.scheduledPost}
+            editPost={state.editPost}
           />
         </View>
         <EmojiPicker state={pickerState} close={onClosePicker} />
@@ -31,6 +31,8 @@ import {LinkWarningDialog} from '#/components/dialogs/LinkWarning'
 import {MutedWordsDialog} from '#/components/dialogs/MutedWords'
 import {SigninDialog} from '#/components/dialogs/Signin'
 import {Outlet as PortalOutlet} from '#/components/Portal'
+import {useScheduledPostsPublisher} from '#/maxine/scheduled-posts'
+import {useDeerSync} from '#/maxine/sync'
 import {RoutesContainer, TabsNavigator} from '#/Navigation'
 import {BottomSheetOutlet} from '../../../modules/bottom-sheet'
 import {updateActiveViewAsync} from '../../../modules/expo-bluesky-swiss-army/src/VisibilityView'
@@ -60,6 +62,10 @@ function ShellInner() {
 
   useNotificationsRegistration()
   useNotificationsHandler()
+  // maxine
+  useDeerSync()
+  useScheduledPostsPublisher()
+  // end maxine
 
   useEffect(() => {
     if (isAndroid) {
@@ -22,6 +22,8 @@ import {LinkWarningDialog} from '#/components/dialogs/LinkWarning'
 import {MutedWordsDialog} from '#/components/dialogs/MutedWords'
 import {SigninDialog} from '#/components/dialogs/Signin'
 import {Outlet as PortalOutlet} from '#/components/Portal'
+import {useScheduledPostsPublisher} from '#/maxine/scheduled-posts'
+import {useDeerSync} from '#/maxine/sync'
 import {FlatNavigator, RoutesContainer} from '#/Navigation'
 import {Composer} from './Composer.web'
 import {DrawerContent} from './Drawer'
@@ -52,6 +54,10 @@ function ShellInner() {
 
   useComposerKeyboardShortcut()
   useIntentHandler()
+  // maxine
+  useDeerSync()
+  useScheduledPostsPublisher()
+  // end maxine
 
   useEffect(() => {
     const unsubscribe = navigator.addListener('state', () => {